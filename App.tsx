@@ -1,29 +1,457 @@
-import React, { useState, useEffect } from 'react';
-import { Layers, Database, BarChart3, Atom, BrainCircuit, Info, Mail, Code2 } from 'lucide-react';
-import { FileCategory, UploadedFile, AppStatus, PredictionResult } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Layers, Database, BarChart3, Atom, BrainCircuit, Info, Mail, Code2, Globe, Settings, Clock, Ban, ArrowRight, FolderOpen, FolderInput, Loader2 } from 'lucide-react';
+import { FileCategory, UploadedFile, GeochemDataset, GeochemStatsSettings, AnalysisSettings, AnalysisJob, AnalysisErrorKind, ProjectMeta, ProjectState, AnalysisRun, MapLayerConfig, MapAnnotation, PredictionResult } from './types';
 import { FileUpload } from './components/FileUpload';
 import { ResultsDashboard } from './components/ResultsDashboard';
 import { GeologicalContextModal } from './components/GeologicalContextModal';
 import { NetworkStatus } from './components/NetworkStatus';
-import { analyzeGeologicalData } from './services/geminiService';
+import { GeochemImportModal } from './components/GeochemImportModal';
+import { SpectralIndexModal } from './components/SpectralIndexModal';
+import { GeochemStatsModal } from './components/GeochemStatsModal';
+import { GriddingModal } from './components/GriddingModal';
+import { GridTransformModal } from './components/GridTransformModal';
+import { CrsSelect } from './components/CrsSelect';
+import { SettingsPanel } from './components/SettingsPanel';
+import { AnalysisProgressPanel } from './components/AnalysisProgressPanel';
+import { JobQueuePanel } from './components/JobQueuePanel';
+import { ProjectsPanel } from './components/ProjectsPanel';
+import { RunHistoryBar } from './components/RunHistoryBar';
+import { RunComparisonModal } from './components/RunComparisonModal';
+import { useAnalysisQueue } from './hooks/useAnalysisQueue';
+import { getProvider } from './services/providers';
+import { loadAnalysisSettings, saveAnalysisSettings } from './services/settings';
+import { notifyJobFinished, requestNotificationPermission } from './services/notifications';
+import { appendRun, createProjectId, CURRENT_PROJECT_KEY, loadProject, newProjectMeta, saveProject } from './services/projectStore';
+import { bundleFileName, exportProjectBundle, importProjectBundle } from './services/projectBundle';
+import { createImportedRun, createRun, nextVersion } from './services/runHistory';
+import { parseAnalysisFile } from './services/resultImport';
+import { parseGeophysicsFile } from './services/geophysicsParser';
+import { parsePetrologyFile } from './services/petrologyParser';
+import { parseVectorFile, VECTOR_DATA_EXTENSIONS } from './services/vectorParser';
+import { isGeochemTableFile } from './services/geochemParser';
+import { georeferenceFromTiff, getDatasetCoordinates, getRasterSize, getReferenceImage, isSidecarFile, isTiffName, mergeGeoreference, readSidecars, sidecarMatchesImage } from './services/georeference';
+import { guessCrs, isSupportedCrs, WGS84 } from './services/crs';
+import { readTiff } from './services/tiff';
+import { SpectralIndexOutput } from './services/spectral';
+import { GridOutput, renderTiffPreview } from './services/griddingClient';
+import { mapLayerSources } from './services/mapLayers';
+import { createSectionRasterLoader, SectionRaster } from './services/crossSection';
+import { addTarget, createTarget, deleteTarget, TargetPatch, updateTarget } from './services/targetEdits';
+import { addZone, createZone, deleteZone, updateZone, ZonePatch } from './services/zones';
+
+const GEOPHYSICS_DATA_EXTENSIONS = ['.xyz', '.grd', '.asc', '.csv', '.txt', '.dat'];
+const PETROLOGY_DATA_EXTENSIONS = ['.csv', '.txt', '.json'];
+const PROJECT_CRS_KEY = 'geogenius.projectCrs'; // last chosen CRS, the default for new projects
+const AUTOSAVE_DELAY_MS = 800;
+
+// What the failed-job view suggests for each kind of error
+const FAILURE_HINTS: Record<AnalysisErrorKind, { title: string; hint: string; action: 'settings' | 'upload' | 'rerun' }> = {
+  auth: { title: 'Authentication Failed', hint: 'Check the API key, or switch to a local or mock provider in Settings.', action: 'settings' },
+  quota: { title: 'Quota Exceeded', hint: 'Retries were exhausted. Wait a few minutes, or use another provider.', action: 'rerun' },
+  overloaded: { title: 'Service Overloaded', hint: 'The model service stayed busy through every retry. Try again shortly.', action: 'rerun' },
+  network: { title: 'Connection Failed', hint: 'The model server could not be reached after several attempts.', action: 'rerun' },
+  safety: { title: 'Blocked by Safety Filters', hint: 'Remove or replace the inputs that may have triggered the filter.', action: 'upload' },
+  parse: { title: 'Unreadable Model Output', hint: 'The model did not return a usable result. Running again often helps.', action: 'rerun' },
+  'input-too-large': { title: 'Inputs Too Large', hint: 'Remove or downsample some files, or choose a model with a larger context window.', action: 'upload' },
+  unknown: { title: 'Analysis Failed', hint: '', action: 'upload' }
+};
+
+const hasExtension = (name: string, extensions: string[]) =>
+  extensions.some(ext => name.toLowerCase().endsWith(ext));
 
 export default function App() {
   const [activeTab, setActiveTab] = useState<'upload' | 'analysis' | 'results'>('upload');
   const [files, setFiles] = useState<UploadedFile[]>([]);
-  const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
-  const [analysisResult, setAnalysisResult] = useState<PredictionResult | null>(null);
-  const [errorMessage, setErrorMessage] = useState<string>('');
+  const [runs, setRuns] = useState<AnalysisRun[]>([]);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [isComparisonOpen, setIsComparisonOpen] = useState(false);
+  const analysisFileInput = useRef<HTMLInputElement>(null);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
   const [isContextOpen, setIsContextOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(loadAnalysisSettings);
+  const [geochemImportId, setGeochemImportId] = useState<string | null>(null);
+  // Uploads still being decoded or parsed; a job queued now would miss what they add
+  const [pendingParseCount, setPendingParseCount] = useState(0);
+  const [spectralSceneId, setSpectralSceneId] = useState<string | null>(null);
+  const [geochemStatsId, setGeochemStatsId] = useState<string | null>(null);
+  const [griddingSourceId, setGriddingSourceId] = useState<string | null>(null);
+  const [transformSourceId, setTransformSourceId] = useState<string | null>(null);
+  const [projectCrs, setProjectCrs] = useState<string>(() => localStorage.getItem(PROJECT_CRS_KEY) || WGS84);
+  const [isProjectCrsChosen, setIsProjectCrsChosen] = useState(() => localStorage.getItem(PROJECT_CRS_KEY) !== null);
+  const [projectId, setProjectId] = useState<string>(() => localStorage.getItem(CURRENT_PROJECT_KEY) || createProjectId());
+  const [projectMeta, setProjectMeta] = useState<ProjectMeta>(() => newProjectMeta());
+  const [isProjectLoaded, setIsProjectLoaded] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'error'>('saved');
+  const [isProjectsOpen, setIsProjectsOpen] = useState(false);
+  const [mapLayers, setMapLayers] = useState<MapLayerConfig[] | undefined>(undefined);
+  const [annotations, setAnnotations] = useState<MapAnnotation[] | undefined>(undefined);
+
+  // State exactly as loaded; autosave skips it so opening a project does not count as an edit
+  const loadedState = useRef<unknown[]>([]);
+  const projectSnapshot = [files, runs, activeRunId, projectCrs, isProjectCrsChosen, projectMeta, mapLayers, annotations];
+
+  const applyProjectState = (state: ProjectState) => {
+    files.forEach(f => f.previewUrl && URL.revokeObjectURL(f.previewUrl));
+    setProjectId(state.id);
+    setProjectMeta(state.meta);
+    setFiles(state.files);
+    setRuns(state.runs);
+    setActiveRunId(state.activeRunId);
+    setProjectCrs(state.projectCrs);
+    setIsProjectCrsChosen(state.isProjectCrsChosen);
+    setMapLayers(state.mapLayers);
+    setAnnotations(state.annotations);
+    setGeochemImportId(null);
+    setActiveTab(state.activeRunId ? 'results' : 'upload');
+    loadedState.current = [state.files, state.runs, state.activeRunId, state.projectCrs, state.isProjectCrsChosen, state.meta, state.mapLayers, state.annotations];
+    localStorage.setItem(CURRENT_PROJECT_KEY, state.id);
+  };
+
+  // Restore the last open project
+  useEffect(() => {
+    loadProject(projectId)
+      .then(state => {
+        if (state) applyProjectState(state);
+        else loadedState.current = projectSnapshot;
+      })
+      .catch(error => {
+        console.error("Could not restore the last project:", error);
+        setSaveStatus('error');
+      })
+      .finally(() => setIsProjectLoaded(true));
+  }, []);
+
+  // Autosave shortly after the last change
+  useEffect(() => {
+    if (!isProjectLoaded || projectSnapshot.every((value, i) => value === loadedState.current[i])) return;
+    setSaveStatus('saving');
+    const timer = setTimeout(() => {
+      saveProject({ id: projectId, meta: { ...projectMeta, updatedAt: Date.now() }, projectCrs, isProjectCrsChosen, files, runs, activeRunId, mapLayers, annotations })
+        .then(() => {
+          localStorage.setItem(CURRENT_PROJECT_KEY, projectId);
+          setSaveStatus('saved');
+        })
+        .catch(error => {
+          console.error("Autosave failed:", error);
+          setSaveStatus('error');
+        });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isProjectLoaded, ...projectSnapshot]);
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      const state = await loadProject(id);
+      if (!state) throw new Error("The project no longer exists.");
+      applyProjectState(state);
+      setIsProjectsOpen(false);
+    } catch (error: any) {
+      alert(`Could not open the project: ${error.message}`);
+    }
+  };
+
+  const handleNewProject = () => {
+    const crs = localStorage.getItem(PROJECT_CRS_KEY);
+    applyProjectState({
+      id: createProjectId(),
+      meta: newProjectMeta(),
+      projectCrs: crs || WGS84,
+      isProjectCrsChosen: crs !== null,
+      files: [],
+      runs: [],
+      activeRunId: null
+    });
+    setIsProjectsOpen(false);
+  };
+
+  // The open project is exported as it is on screen, which may be ahead of the last autosave
+  const handleExportBundle = async (id: string) => {
+    const state = id === projectId
+      ? { id, meta: projectMeta, projectCrs, isProjectCrsChosen, files, runs, activeRunId, mapLayers, annotations }
+      : await loadProject(id);
+    if (!state) throw new Error("The project no longer exists.");
+    try {
+      const url = URL.createObjectURL(await exportProjectBundle(state));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = bundleFileName(state.meta);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } finally {
+      if (id !== projectId) state.files.forEach(f => f.previewUrl && URL.revokeObjectURL(f.previewUrl));
+    }
+  };
+
+  const handleImportBundle = async (bundle: File) => {
+    const state = await importProjectBundle(bundle);
+    await saveProject(state);
+    applyProjectState(state);
+    setIsProjectsOpen(false);
+  };
+
+  // Deleting the open project leaves an empty one in its place
+  const handleProjectDeleted = (id: string) => {
+    if (id === projectId) handleNewProject();
+  };
+
+  // Until the user picks one, the project adopts the CRS of the georeferenced reference image
+  const referenceCrs = getReferenceImage(files)?.georeference?.crs;
+  useEffect(() => {
+    if (referenceCrs && !isProjectCrsChosen && isSupportedCrs(referenceCrs)) setProjectCrs(referenceCrs);
+  }, [referenceCrs, isProjectCrsChosen]);
+
+  const provider = getProvider(analysisSettings.provider);
+
+  const activeRun = runs.find(r => r.id === activeRunId) || null;
+  const analysisResult = activeRun?.result ?? null;
+
+  // Reprojecting overlays into the frame is not free, so only when the inputs or frame change
+  const resultFrame = analysisResult?.georeference;
+  const mapSources = useMemo(() => mapLayerSources(files, resultFrame), [files, resultFrame]);
+
+  // Grids and DEMs for cross-sections; GeoTIFF DEMs have to be decoded, so only while results are open
+  const [sectionRasters, setSectionRasters] = useState<SectionRaster[]>([]);
+  const loadSectionRasters = useRef(createSectionRasterLoader()).current;
+  const isShowingResults = activeTab === 'results' && !!analysisResult;
+  useEffect(() => {
+    if (!isShowingResults) return;
+    let isCurrent = true;
+    loadSectionRasters(files).then(rasters => {
+      if (isCurrent) setSectionRasters(rasters);
+    });
+    return () => { isCurrent = false; };
+  }, [files, isShowingResults]);
+
+  // Every completed job becomes a new version of the project it was queued in. It opens on
+  // the Results tab only if the user is still watching it, so earlier results stay on screen.
+  const handleJobFinished = (job: AnalysisJob) => {
+    notifyJobFinished(job);
+    if (job.status !== 'complete' || !job.result) return;
+
+    if (job.projectId !== projectId) {
+      appendRun(job.projectId, projectRuns => createRun(job, nextVersion(projectRuns)))
+        .catch(error => console.error("Could not store the analysis in its project:", error));
+      return;
+    }
+    setRuns(prev => [...prev, createRun(job, nextVersion(prev))]);
+    const isWatching = activeTab === 'analysis' && selectedJobId === job.id;
+    if (isWatching || !activeRunId) setActiveRunId(job.id);
+    if (isWatching) setActiveTab('results');
+  };
+
+  const queue = useAnalysisQueue(handleJobFinished);
+  const selectedJob = queue.jobs.find(j => j.id === selectedJobId) || null;
+  const selectedFailure = FAILURE_HINTS[selectedJob?.errorKind ?? 'unknown'];
+  const pendingJobCount = queue.jobs.filter(j => j.status === 'queued' || j.status === 'running').length;
+
+  const handleSaveSettings = (settings: AnalysisSettings) => {
+    setAnalysisSettings(settings);
+    saveAnalysisSettings(settings);
+    setIsSettingsOpen(false);
+  };
+
+  const handleProjectCrsChange = (crs: string) => {
+    setProjectCrs(crs);
+    setIsProjectCrsChosen(true);
+    localStorage.setItem(PROJECT_CRS_KEY, crs);
+  };
 
   const handleUpload = (newFiles: File[], category: FileCategory) => {
-    const uploadedFiles: UploadedFile[] = newFiles.map(file => ({
+    // World files / aux.xml / .prj are attached to their image rather than listed as inputs
+    const sidecars = newFiles.filter(file => isSidecarFile(file.name));
+    const uploadedFiles: UploadedFile[] = newFiles.filter(file => !isSidecarFile(file.name)).map(file => ({
       id: Math.random().toString(36).substr(2, 9),
       sourceType: 'file',
       file,
       category,
-      previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined
+      // Browsers can't display TIFF; a PNG preview is rendered once the raster is decoded
+      previewUrl: file.type.startsWith('image/') && !isTiffName(file.name) ? URL.createObjectURL(file) : undefined
     }));
     setFiles(prev => [...prev, ...uploadedFiles]);
+    uploadedFiles.forEach(f => trackParse(parseUploadedFile(f)));
+    if (sidecars.length > 0) trackParse(attachSidecars(sidecars, [...files, ...uploadedFiles]));
+
+    // Assay tables go through the column-mapping step before they are used
+    const firstGeochemTable = uploadedFiles.find(f => f.category === FileCategory.GEOCHEM && isGeochemTableFile(f.file?.name || ''));
+    if (firstGeochemTable) setGeochemImportId(firstGeochemTable.id);
+  };
+
+  const trackParse = async (work: Promise<void>) => {
+    setPendingParseCount(n => n + 1);
+    try {
+      await work;
+    } finally {
+      setPendingParseCount(n => n - 1);
+    }
+  };
+
+  const attachSidecars = async (sidecars: File[], candidates: UploadedFile[]) => {
+    const unmatched: string[] = [];
+    const byImage = new Map<UploadedFile, File[]>();
+    sidecars.forEach(sidecar => {
+      const image = candidates.find(f => f.file && sidecarMatchesImage(sidecar.name, f.file.name));
+      if (!image) {
+        unmatched.push(sidecar.name);
+        return;
+      }
+      byImage.set(image, [...(byImage.get(image) || []), sidecar]);
+    });
+
+    if (unmatched.length > 0) {
+      alert(`No matching image found for: ${unmatched.join(', ')}. Upload each world file together with its image (same base name).`);
+    }
+
+    for (const [image, imageSidecars] of byImage) {
+      try {
+        const patch = { ...(await readSidecars(imageSidecars)), ...(await getRasterSize(image.file as File)) };
+        setFiles(prev => prev.map(f => f.id === image.id ? { ...f, georeference: mergeGeoreference(f.georeference, patch) } : f));
+      } catch (error: any) {
+        console.error(`Failed to read georeferencing for ${image.file?.name}:`, error);
+        setFiles(prev => prev.map(f => f.id === image.id ? { ...f, parseError: error.message || "Invalid georeferencing file." } : f));
+      }
+    }
+  };
+
+  const isPendingGeochemTable = (f: UploadedFile) => f.category === FileCategory.GEOCHEM && isGeochemTableFile(f.file?.name || '') && !f.geochem;
+
+  const handleGeochemImport = (id: string, dataset: GeochemDataset) => {
+    // Re-mapping columns keeps the statistics settings chosen for the table
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, geochem: { ...dataset, statistics: f.geochem?.statistics } } : f));
+
+    // Move on to the next geochem table still waiting for a mapping
+    const next = files.find(f => f.id !== id && isPendingGeochemTable(f));
+    setGeochemImportId(next ? next.id : null);
+  };
+
+  // Skipped tables stay unmapped until configured from the file list, so only later ones are offered
+  const handleGeochemSkip = (id: string) => {
+    const next = files.slice(files.findIndex(f => f.id === id) + 1).find(isPendingGeochemTable);
+    setGeochemImportId(next ? next.id : null);
+  };
+
+  const handleGeochemStats = (id: string, statistics: GeochemStatsSettings) => {
+    setFiles(prev => prev.map(f => f.id === id && f.geochem ? { ...f, geochem: { ...f.geochem, statistics } } : f));
+    setGeochemStatsId(null);
+  };
+
+  // Index images join the satellite inputs; recomputing an index replaces the earlier image
+  const handleSpectralIndices = (sceneId: string, outputs: SpectralIndexOutput[]) => {
+    const labels = new Set(outputs.map(o => o.spectralIndex?.label));
+    const derived: UploadedFile[] = outputs.map(output => ({
+      ...output,
+      id: Math.random().toString(36).substr(2, 9),
+      sourceType: 'file',
+      category: FileCategory.SATELLITE,
+      previewUrl: output.file ? URL.createObjectURL(output.file) : undefined
+    }));
+    setFiles(prev => {
+      const replaced = prev.filter(f => f.spectralIndex?.sourceFileId === sceneId && labels.has(f.spectralIndex.label));
+      replaced.forEach(f => f.previewUrl && URL.revokeObjectURL(f.previewUrl));
+      return [...prev.filter(f => !replaced.includes(f)), ...derived];
+    });
+    setSpectralSceneId(null);
+  };
+
+  // Grids join their source's category; re-gridding a variable the same way replaces the earlier grid
+  const handleGridded = (sourceId: string, output: GridOutput) => {
+    const source = files.find(f => f.id === sourceId);
+    if (!source) return;
+    const gridded: UploadedFile = {
+      ...output,
+      id: Math.random().toString(36).substr(2, 9),
+      sourceType: 'file',
+      category: source.category,
+      previewUrl: output.renderedImage ? URL.createObjectURL(output.renderedImage) : undefined
+    };
+    setFiles(prev => {
+      const replaced = prev.filter(f => f.gridded?.sourceFileId === sourceId &&
+        f.gridded.variable === output.gridded?.variable && f.gridded.params.method === output.gridded?.params.method);
+      replaced.forEach(f => f.previewUrl && URL.revokeObjectURL(f.previewUrl));
+      return [...prev.filter(f => !replaced.includes(f)), gridded];
+    });
+    setGriddingSourceId(null);
+  };
+
+  // Transformed grids join the geophysics inputs; recomputing a transform replaces the earlier grid
+  const handleGridTransforms = (sourceId: string, outputs: GridOutput[]) => {
+    const transforms = new Set(outputs.map(o => o.gridTransform?.transform));
+    const derived: UploadedFile[] = outputs.map(output => ({
+      ...output,
+      id: Math.random().toString(36).substr(2, 9),
+      sourceType: 'file',
+      category: FileCategory.GEOPHYSICS,
+      previewUrl: output.renderedImage ? URL.createObjectURL(output.renderedImage) : undefined
+    }));
+    setFiles(prev => {
+      const replaced = prev.filter(f => f.gridTransform?.sourceFileId === sourceId && transforms.has(f.gridTransform.transform));
+      replaced.forEach(f => f.previewUrl && URL.revokeObjectURL(f.previewUrl));
+      return [...prev.filter(f => !replaced.includes(f)), ...derived];
+    });
+    setTransformSourceId(null);
+  };
+
+  // Files declare the CRS of their own coordinates; grids, tables and images each carry one
+  const handleSetFileCrs = (id: string, crs: string) => {
+    setFiles(prev => prev.map(f => {
+      if (f.id !== id) return f;
+      if (f.geochem) return { ...f, geochem: { ...f.geochem, crs } };
+      if (f.geophysics) return { ...f, geophysics: { ...f.geophysics, crs } };
+      if (f.petrology) return { ...f, petrology: { ...f.petrology, crs } };
+      if (f.vector) return { ...f, vector: { ...f.vector, crs } };
+      if (f.georeference) return { ...f, georeference: { ...f.georeference, crs } };
+      return f;
+    }));
+  };
+
+  // Lat/lon-looking coordinates are taken as WGS 84, anything else as the project CRS
+  const withGuessedCrs = (uploaded: UploadedFile, patch: Partial<UploadedFile>): Partial<UploadedFile> => {
+    const coordinates = getDatasetCoordinates({ ...uploaded, ...patch });
+    if (coordinates.length === 0) return patch;
+    const crs = guessCrs(coordinates, projectCrs);
+    if (patch.geophysics) return { geophysics: { ...patch.geophysics, crs } };
+    if (patch.petrology) return { petrology: { ...patch.petrology, crs } };
+    return patch;
+  };
+
+  // Parse survey and petrology sheets in the background so the panels can report what was read
+  const parseUploadedFile = async (uploaded: UploadedFile) => {
+    const file = uploaded.file;
+    if (!file) return;
+
+    let patch: Partial<UploadedFile> | null = null;
+    try {
+      if ((uploaded.category === FileCategory.SATELLITE || uploaded.category === FileCategory.MAPS) && isTiffName(file.name)) {
+        const image = readTiff(await file.arrayBuffer());
+        // Tags are read here; the pixels are decoded at preview size in the worker
+        const rendered = await renderTiffPreview(file);
+        const tiffGeoreference = georeferenceFromTiff(image, file.name);
+        setFiles(prev => prev.map(f => f.id === uploaded.id ? {
+          ...f,
+          previewUrl: URL.createObjectURL(rendered),
+          renderedImage: rendered,
+          bandCount: image.samplesPerPixel,
+          // A world file uploaded alongside takes precedence over embedded GeoTIFF tags
+          georeference: f.georeference ? mergeGeoreference(tiffGeoreference, f.georeference) : tiffGeoreference
+        } : f));
+        return;
+      } else if (uploaded.category === FileCategory.GEOPHYSICS && hasExtension(file.name, GEOPHYSICS_DATA_EXTENSIONS)) {
+        patch = withGuessedCrs(uploaded, { geophysics: await parseGeophysicsFile(file) });
+      } else if (uploaded.category === FileCategory.FIELD_PETROLOGY && hasExtension(file.name, PETROLOGY_DATA_EXTENSIONS)) {
+        patch = withGuessedCrs(uploaded, { petrology: await parsePetrologyFile(file) });
+      } else if (uploaded.category === FileCategory.MAPS && hasExtension(file.name, VECTOR_DATA_EXTENSIONS)) {
+        patch = { vector: await parseVectorFile(file) };
+      }
+    } catch (error: any) {
+      console.error(`Failed to parse ${file.name}:`, error);
+      patch = { parseError: error.message || "Could not parse file." };
+    }
+
+    if (patch) {
+      setFiles(prev => prev.map(f => f.id === uploaded.id ? { ...f, ...patch } : f));
+    }
   };
 
   const handleAddLink = (url: string, category: FileCategory) => {
@@ -40,9 +468,9 @@ export default function App() {
     setFiles(prev => prev.filter(f => f.id !== id));
   };
 
-  const handleRunAnalysis = async () => {
-    if (!navigator.onLine) {
-        alert("You are currently offline. Please connect to a network to run the AI analysis.");
+  const handleRunAnalysis = () => {
+    if (provider.requiresNetwork && !navigator.onLine) {
+        alert("You are currently offline. Please connect to a network, or switch to a local or mock provider in Settings.");
         return;
     }
 
@@ -50,30 +478,85 @@ export default function App() {
       alert("Please upload at least one file or add a link to analyze.");
       return;
     }
-    
-    setStatus(AppStatus.ANALYZING);
-    setErrorMessage(''); // Clear previous errors
+
+    if (pendingParseCount > 0) return; // the button waits for uploads to be read
+
+    // The job keeps its own copy of the inputs, so uploads and settings can change while it waits
+    const id = queue.enqueue({
+      projectId,
+      label: `${files.length} input${files.length === 1 ? '' : 's'} · ${provider.modelId(analysisSettings)}`,
+      files,
+      projectCrs,
+      settings: analysisSettings
+    });
+    requestNotificationPermission();
+    setSelectedJobId(id);
     setActiveTab('analysis');
+  };
+
+  // Runs a finished job again with the inputs and settings it was queued with
+  const handleRerunJob = (job: AnalysisJob) => {
+    const id = queue.enqueue({ projectId: job.projectId, label: job.label, files: job.files, projectCrs: job.projectCrs, settings: job.settings });
+    setSelectedJobId(id);
+  };
+
+  // A job queued in another project opens in that project
+  const handleOpenJobResult = async (job: AnalysisJob) => {
+    if (!job.result) return;
+    if (job.projectId !== projectId) {
+      const state = await loadProject(job.projectId).catch(() => null);
+      if (!state) {
+        alert("The project this analysis was run in no longer exists.");
+        return;
+      }
+      applyProjectState(state);
+    }
+    setActiveRunId(job.id);
+    setActiveTab('results');
+  };
 
+  // Exported results open as a new version; everything happens locally, so no key or network is needed
+  const handleOpenAnalysisFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
     try {
-      const result = await analyzeGeologicalData(files);
-      setAnalysisResult(result);
-      setStatus(AppStatus.COMPLETE);
+      const result = parseAnalysisFile(await file.text(), file.name);
+      const run = createImportedRun(result, file.name, projectCrs, nextVersion(runs));
+      setRuns(prev => [...prev, run]);
+      setActiveRunId(run.id);
       setActiveTab('results');
     } catch (error: any) {
-      console.error(error);
-      setErrorMessage(error.message || "An unknown error occurred.");
-      setStatus(AppStatus.ERROR);
+      console.error(`Failed to open ${file.name}:`, error);
+      alert(error.message || `Could not open ${file.name}.`);
     }
   };
 
-  const handleUpdateTargetDescription = (id: number, newDescription: string) => {
-    if (analysisResult) {
-      const updatedTargets = analysisResult.targetAreas.map(target => 
-        target.id === id ? { ...target, description: newDescription } : target
-      );
-      setAnalysisResult({ ...analysisResult, targetAreas: updatedTargets });
-    }
+  // Removing the version on screen shows the latest remaining one
+  const handleDeleteRun = (id: string) => {
+    const remaining = runs.filter(r => r.id !== id);
+    setRuns(remaining);
+    if (id === activeRunId) setActiveRunId(remaining.length ? remaining[remaining.length - 1].id : null);
+  };
+
+  // Edits belong to the version being viewed
+  const editActiveResult = (edit: (result: PredictionResult) => PredictionResult) =>
+    setRuns(prev => prev.map(r => r.id === activeRunId ? { ...r, result: edit(r.result) } : r));
+
+  const handleUpdateTarget = (id: number, patch: TargetPatch) => editActiveResult(r => updateTarget(r, id, patch));
+  const handleDeleteTarget = (id: number) => editActiveResult(r => deleteTarget(r, id));
+  const handleAddTarget = (x: number, y: number): number => {
+    const target = createTarget(analysisResult?.targetAreas ?? [], x, y);
+    editActiveResult(r => addTarget(r, target));
+    return target.id;
+  };
+
+  const handleUpdateZone = (index: number, patch: ZonePatch) => editActiveResult(r => updateZone(r, index, patch));
+  const handleDeleteZone = (index: number) => editActiveResult(r => deleteZone(r, index));
+  const handleAddZone = (polygon: [number, number][]): number => {
+    const zones = analysisResult?.zones ?? [];
+    editActiveResult(r => addZone(r, createZone(zones, polygon)));
+    return zones.length;
   };
 
   return (
@@ -93,6 +576,18 @@ export default function App() {
           </div>
           
           <div className="flex items-center gap-3">
+            <button
+                onClick={() => setIsProjectsOpen(true)}
+                className="hidden lg:flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-300 hover:bg-slate-800 border border-transparent hover:border-slate-700 transition-colors max-w-[220px]"
+                title="Projects"
+            >
+                <FolderOpen className="w-4 h-4 text-emerald-400 shrink-0" />
+                <span className="truncate">{projectMeta.name || 'Untitled project'}</span>
+                <span className={`text-[10px] shrink-0 ${saveStatus === 'error' ? 'text-red-400' : 'text-slate-500'}`}>
+                    {saveStatus === 'saving' ? 'Saving…' : saveStatus === 'error' ? 'Not saved' : 'Saved'}
+                </span>
+            </button>
+
             <nav className="hidden md:flex gap-1 bg-slate-800/50 p-1 rounded-lg">
                 {[
                 { id: 'upload', label: 'Data Upload', icon: Database },
@@ -102,15 +597,17 @@ export default function App() {
                 <button
                     key={tab.id}
                     onClick={() => setActiveTab(tab.id as any)}
-                    disabled={status === AppStatus.ANALYZING}
                     className={`px-4 py-2 rounded-md text-sm font-medium flex items-center gap-2 transition-all ${
                     activeTab === tab.id 
                         ? 'bg-slate-700 text-white shadow-sm' 
                         : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
-                    } ${status === AppStatus.ANALYZING ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    }`}
                 >
                     <tab.icon className="w-4 h-4" />
                     {tab.label}
+                    {tab.id === 'analysis' && pendingJobCount > 0 && (
+                        <span className="min-w-[1.25rem] px-1 rounded-full bg-emerald-500/20 text-emerald-300 text-[10px] font-bold">{pendingJobCount}</span>
+                    )}
                 </button>
                 ))}
             </nav>
@@ -119,6 +616,14 @@ export default function App() {
             
             <NetworkStatus />
             
+            <button
+                onClick={() => setIsSettingsOpen(true)}
+                className="p-2.5 text-slate-400 hover:text-emerald-400 hover:bg-slate-800 rounded-lg transition-colors border border-transparent hover:border-slate-700"
+                title={`Analysis Settings (${provider.label})`}
+            >
+                <Settings className="w-5 h-5" />
+            </button>
+
             <button
                 onClick={() => setIsContextOpen(true)}
                 className="p-2.5 text-slate-400 hover:text-emerald-400 hover:bg-slate-800 rounded-lg transition-colors border border-transparent hover:border-slate-700"
@@ -136,29 +641,43 @@ export default function App() {
         {/* TAB: UPLOAD */}
         {activeTab === 'upload' && (
           <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
-            <div className="mb-8">
-                <h2 className="text-2xl font-light text-white mb-2">Initialize Exploration Project</h2>
-                <p className="text-slate-400">Upload multimodal data sources for AI-driven porphyry vectoring.</p>
+            <div className="mb-8 flex flex-col md:flex-row md:items-end justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl font-light text-white mb-2">Initialize Exploration Project</h2>
+                    <p className="text-slate-400">Upload multimodal data sources for AI-driven porphyry vectoring.</p>
+                </div>
+                <label className="flex flex-col gap-1 text-[11px] text-slate-400 uppercase tracking-wider font-semibold">
+                    <span className="flex items-center gap-1.5"><Globe className="w-3.5 h-3.5 text-teal-400" /> Project CRS</span>
+                    <CrsSelect
+                        value={projectCrs}
+                        onChange={handleProjectCrsChange}
+                        title="Coordinates are reprojected into this system for analysis, display and export"
+                        className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm normal-case tracking-normal font-normal text-slate-200 outline-none focus:ring-1 focus:ring-teal-500 w-72"
+                    />
+                </label>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 min-h-[500px]">
               <FileUpload 
                 category={FileCategory.SATELLITE} 
                 title="Satellite Imagery" 
-                accept="image/*,.pdf"
+                accept="image/*,.pdf,.tif,.tiff,.tfw,.jgw,.pgw,.wld,.aux.xml,.prj"
                 files={files}
                 onUpload={handleUpload}
                 onAddLink={handleAddLink}
                 onRemove={handleRemoveFile}
+                onSetCrs={handleSetFileCrs}
+                onComputeIndices={setSpectralSceneId}
               />
               <FileUpload 
                 category={FileCategory.MAPS} 
                 title="Geological Maps" 
-                accept=".pdf,image/*"
+                accept=".pdf,image/*,.tif,.tiff,.tfw,.jgw,.pgw,.wld,.aux.xml,.prj,.geojson,.kml"
                 files={files}
                 onUpload={handleUpload}
                 onAddLink={handleAddLink}
                 onRemove={handleRemoveFile}
+                onSetCrs={handleSetFileCrs}
               />
               <FileUpload 
                 category={FileCategory.GEOCHEM} 
@@ -168,65 +687,189 @@ export default function App() {
                 onUpload={handleUpload}
                 onAddLink={handleAddLink}
                 onRemove={handleRemoveFile}
+                onSetCrs={handleSetFileCrs}
+                onConfigure={setGeochemImportId}
+                onShowStats={setGeochemStatsId}
+                onGrid={setGriddingSourceId}
+              />
+              <FileUpload 
+                category={FileCategory.GEOPHYSICS} 
+                title="Geophysics (Magnetics / Radiometrics)" 
+                accept=".xyz,.grd,.asc,.csv,.txt,.dat,.pdf,image/*"
+                files={files}
+                onUpload={handleUpload}
+                onAddLink={handleAddLink}
+                onRemove={handleRemoveFile}
+                onSetCrs={handleSetFileCrs}
+                onGrid={setGriddingSourceId}
+                onTransform={setTransformSourceId}
+              />
+              <FileUpload 
+                category={FileCategory.FIELD_PETROLOGY} 
+                title="Field Petrology" 
+                accept=".csv,.txt,.json,.pdf,image/*"
+                files={files}
+                onUpload={handleUpload}
+                onAddLink={handleAddLink}
+                onRemove={handleRemoveFile}
+                onSetCrs={handleSetFileCrs}
               />
             </div>
 
-            <div className="mt-8 flex justify-end">
+            <div className="mt-8 flex justify-end gap-3">
+              <button
+                onClick={() => analysisFileInput.current?.click()}
+                className="px-6 py-3 rounded-lg font-semibold border border-slate-700 text-slate-300 hover:text-white hover:bg-slate-800 transition-colors flex items-center gap-2"
+                title="Open an exported analysis (.json or .geojson) without running the model"
+              >
+                <FolderInput className="w-5 h-5" />
+                Open Analysis
+              </button>
               <button
                 onClick={handleRunAnalysis}
-                disabled={files.length === 0}
+                disabled={files.length === 0 || pendingParseCount > 0}
+                title={pendingParseCount > 0 ? "Waiting for uploads to be read" : undefined}
                 className="bg-gradient-to-r from-emerald-600 to-emerald-500 hover:from-emerald-500 hover:to-emerald-400 text-white px-8 py-3 rounded-lg font-semibold shadow-lg shadow-emerald-900/30 transition-all transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
               >
-                <BrainCircuit className="w-5 h-5" />
-                Run Gemini 3 Pro Analysis
+                {pendingParseCount > 0 ? <Loader2 className="w-5 h-5 animate-spin" /> : <BrainCircuit className="w-5 h-5" />}
+                {pendingParseCount > 0 ? 'Reading Inputs…' : 'Run Analysis'}
+                <span className="text-xs font-normal text-emerald-100/80">({provider.modelId(analysisSettings)})</span>
               </button>
             </div>
           </div>
         )}
 
-        {/* TAB: ANALYSIS (LOADING) */}
+        {/* TAB: ANALYSIS (JOB QUEUE) */}
         {activeTab === 'analysis' && (
-          <div className="flex flex-col items-center justify-center h-[600px] animate-in fade-in duration-500">
-            {status === AppStatus.ANALYZING ? (
-                <>
-                    <div className="relative w-24 h-24 mb-8">
-                        <div className="absolute inset-0 border-4 border-emerald-500/30 rounded-full animate-ping"></div>
-                        <div className="absolute inset-2 border-4 border-emerald-500 rounded-full animate-spin border-t-transparent"></div>
-                        <div className="absolute inset-0 flex items-center justify-center">
-                            <Atom className="w-8 h-8 text-emerald-400 animate-pulse" />
+          queue.jobs.length === 0 ? (
+            <div className="flex flex-col items-center justify-center min-h-[600px] text-center animate-in fade-in duration-500">
+                <BrainCircuit className="w-12 h-12 text-slate-700 mb-4" />
+                <h3 className="text-xl font-semibold text-white mb-2">No analyses yet</h3>
+                <p className="text-slate-400 mb-6">Add data on the upload tab and run an analysis to queue a job.</p>
+                <button
+                    onClick={() => setActiveTab('upload')}
+                    className="px-6 py-2 bg-slate-700 hover:bg-slate-600 rounded text-white"
+                >
+                    Go to Upload
+                </button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-[280px_1fr] gap-6 min-h-[600px] animate-in fade-in duration-500">
+              <JobQueuePanel
+                jobs={queue.jobs}
+                selectedId={selectedJobId}
+                onSelect={setSelectedJobId}
+                onCancel={queue.cancel}
+                onRemove={queue.remove}
+              />
+
+              <div className="flex flex-col items-center justify-center">
+                {!selectedJob ? (
+                    <p className="text-slate-500 text-sm">Select a job to see its progress.</p>
+                ) : selectedJob.status === 'running' ? (
+                    <AnalysisProgressPanel
+                      progress={selectedJob.progress}
+                      providerLabel={getProvider(selectedJob.settings.provider).label}
+                      onCancel={() => queue.cancel(selectedJob.id)}
+                    />
+                ) : selectedJob.status === 'queued' ? (
+                    <div className="text-center">
+                        <Clock className="w-12 h-12 text-slate-500 mx-auto mb-4" />
+                        <h3 className="text-xl font-bold text-white mb-2">Waiting in queue</h3>
+                        <p className="text-slate-400 mb-6">
+                          {queue.jobs.filter(j => (j.status === 'queued' || j.status === 'running') && j.createdAt < selectedJob.createdAt).length} job(s) ahead of this one.
+                        </p>
+                        <button
+                            onClick={() => queue.cancel(selectedJob.id)}
+                            className="px-6 py-2 bg-slate-700 hover:bg-slate-600 rounded text-white"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                ) : selectedJob.status === 'failed' ? (
+                    <div className="text-center">
+                        <div className="w-16 h-16 bg-red-900/30 rounded-full flex items-center justify-center mx-auto mb-4 border border-red-500/50">
+                            <AlertTriangle className="w-8 h-8 text-red-500" />
+                        </div>
+                        <h3 className="text-xl font-bold text-white mb-2">{selectedFailure.title}</h3>
+                        <p className="text-slate-400 mb-2 max-w-lg mx-auto">
+                          {selectedJob.error || `There was an error processing your data with ${getProvider(selectedJob.settings.provider).label}.`}
+                        </p>
+                        {selectedFailure.hint && <p className="text-slate-500 text-sm mb-6 max-w-lg mx-auto">{selectedFailure.hint}</p>}
+                        <div className="flex justify-center gap-3">
+                            {selectedFailure.action === 'settings' && (
+                                <button onClick={() => setIsSettingsOpen(true)} className="px-6 py-2 bg-emerald-600 hover:bg-emerald-500 rounded text-white">
+                                    Open Settings
+                                </button>
+                            )}
+                            {selectedFailure.action === 'rerun' && (
+                                <button onClick={() => handleRerunJob(selectedJob)} className="px-6 py-2 bg-emerald-600 hover:bg-emerald-500 rounded text-white">
+                                    Run Again
+                                </button>
+                            )}
+                            <button 
+                                onClick={() => setActiveTab('upload')}
+                                className="px-6 py-2 bg-slate-700 hover:bg-slate-600 rounded text-white"
+                            >
+                                Return to Upload
+                            </button>
                         </div>
                     </div>
-                    <h2 className="text-2xl font-semibold text-white mb-2">Processing Multimodal Data</h2>
-                    <p className="text-slate-400 max-w-md text-center">
-                        Gemini 3 Pro is analyzing alteration minerals, correlating geochemical vectors, and generating probability heatmaps...
-                    </p>
-                    <div className="mt-8 w-64 h-1.5 bg-slate-800 rounded-full overflow-hidden">
-                        <div className="h-full bg-emerald-500 animate-[loading_2s_ease-in-out_infinite]"></div>
+                ) : selectedJob.status === 'cancelled' ? (
+                    <div className="text-center">
+                        <Ban className="w-12 h-12 text-slate-500 mx-auto mb-4" />
+                        <h3 className="text-xl font-bold text-white mb-2">Analysis Cancelled</h3>
+                        <p className="text-slate-400">{selectedJob.label}</p>
                     </div>
-                </>
-            ) : status === AppStatus.ERROR ? (
-                <div className="text-center">
-                    <div className="w-16 h-16 bg-red-900/30 rounded-full flex items-center justify-center mx-auto mb-4 border border-red-500/50">
-                        <AlertTriangle className="w-8 h-8 text-red-500" />
+                ) : (
+                    <div className="text-center">
+                        <Layers className="w-12 h-12 text-emerald-400 mx-auto mb-4" />
+                        <h3 className="text-xl font-bold text-white mb-2">Analysis Complete</h3>
+                        <p className="text-slate-400 mb-6">
+                          {selectedJob.result?.targetAreas.length ?? 0} targets · porphyry {selectedJob.result?.porphyryPotential} · epithermal {selectedJob.result?.epithermalPotential}
+                        </p>
+                        <button
+                            onClick={() => handleOpenJobResult(selectedJob)}
+                            className="px-6 py-2 bg-emerald-600 hover:bg-emerald-500 rounded text-white flex items-center gap-2 mx-auto"
+                        >
+                            Open Results <ArrowRight className="w-4 h-4" />
+                        </button>
                     </div>
-                    <h3 className="text-xl font-bold text-white mb-2">Analysis Failed</h3>
-                    <p className="text-slate-400 mb-6 max-w-lg mx-auto">
-                      {errorMessage || "There was an error processing your data with Gemini."}
-                    </p>
-                    <button 
-                        onClick={() => setActiveTab('upload')}
-                        className="px-6 py-2 bg-slate-700 hover:bg-slate-600 rounded text-white"
-                    >
-                        Return to Upload
-                    </button>
-                </div>
-            ) : null}
-          </div>
+                )}
+              </div>
+            </div>
+          )
         )}
 
         {/* TAB: RESULTS */}
         {activeTab === 'results' && analysisResult && (
-          <ResultsDashboard result={analysisResult} onUpdateTarget={handleUpdateTargetDescription} />
+          <>
+            <RunHistoryBar
+              runs={runs}
+              activeRunId={activeRunId}
+              onSelect={setActiveRunId}
+              onDelete={handleDeleteRun}
+              onCompare={() => setIsComparisonOpen(true)}
+              onOpenFile={() => analysisFileInput.current?.click()}
+            />
+            <ResultsDashboard
+              key={activeRunId}
+              result={analysisResult}
+              projectCrs={projectCrs}
+              mapLayerSources={mapSources}
+              mapLayers={mapLayers}
+              onMapLayersChange={setMapLayers}
+              onUpdateTarget={handleUpdateTarget}
+              onAddTarget={handleAddTarget}
+              onDeleteTarget={handleDeleteTarget}
+              onAddZone={handleAddZone}
+              onUpdateZone={handleUpdateZone}
+              onDeleteZone={handleDeleteZone}
+              annotations={annotations}
+              onAnnotationsChange={setAnnotations}
+              sectionRasters={sectionRasters}
+            />
+          </>
         )}
       </main>
 
@@ -259,19 +902,80 @@ export default function App() {
         </div>
       </footer>
 
+      {/* Multispectral Alteration Indices */}
+      <SpectralIndexModal
+        scene={files.find(f => f.id === spectralSceneId) || null}
+        onComplete={handleSpectralIndices}
+        onClose={() => setSpectralSceneId(null)}
+      />
+
+      {/* Gridding of Point Data */}
+      <GriddingModal
+        source={files.find(f => f.id === griddingSourceId) || null}
+        onComplete={handleGridded}
+        onClose={() => setGriddingSourceId(null)}
+      />
+
+      {/* Magnetic Grid Transforms */}
+      <GridTransformModal
+        source={files.find(f => f.id === transformSourceId) || null}
+        onComplete={handleGridTransforms}
+        onClose={() => setTransformSourceId(null)}
+      />
+
+      {/* Geochem Anomaly Statistics */}
+      <GeochemStatsModal
+        file={files.find(f => f.id === geochemStatsId) || null}
+        onSave={handleGeochemStats}
+        onClose={() => setGeochemStatsId(null)}
+      />
+
+      {/* Geochem Column Mapping */}
+      <GeochemImportModal
+        file={files.find(f => f.id === geochemImportId) || null}
+        projectCrs={projectCrs}
+        onConfirm={handleGeochemImport}
+        onSkip={handleGeochemSkip}
+        onClose={() => setGeochemImportId(null)}
+      />
+
+      <input ref={analysisFileInput} type="file" accept=".json,.geojson,application/json,application/geo+json" className="hidden" onChange={handleOpenAnalysisFile} />
+
+      {/* Saved Projects */}
+      <ProjectsPanel
+        isOpen={isProjectsOpen}
+        currentId={projectId}
+        currentMeta={projectMeta}
+        onUpdateMeta={patch => setProjectMeta(prev => ({ ...prev, ...patch }))}
+        onOpen={handleOpenProject}
+        onNew={handleNewProject}
+        onDeleted={handleProjectDeleted}
+        onExport={handleExportBundle}
+        onImport={handleImportBundle}
+        onClose={() => setIsProjectsOpen(false)}
+      />
+
+      {/* Run History Comparison */}
+      <RunComparisonModal
+        isOpen={isComparisonOpen}
+        runs={runs}
+        activeRunId={activeRunId}
+        onClose={() => setIsComparisonOpen(false)}
+      />
+
+      {/* Analysis Provider Settings */}
+      <SettingsPanel
+        isOpen={isSettingsOpen}
+        settings={analysisSettings}
+        onSave={handleSaveSettings}
+        onClose={() => setIsSettingsOpen(false)}
+      />
+
       {/* Geological Context Modal */}
       <GeologicalContextModal 
         isOpen={isContextOpen} 
         onClose={() => setIsContextOpen(false)} 
       />
-      
-      <style>{`
-        @keyframes loading {
-            0% { width: 0%; margin-left: 0; }
-            50% { width: 50%; margin-left: 25%; }
-            100% { width: 0%; margin-left: 100%; }
-        }
-      `}</style>
     </div>
   );
 }
@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Atom, CheckCircle, Loader2, Circle, FileText, UploadCloud, BrainCircuit, Target, ShieldCheck, Square, RotateCw } from 'lucide-react';
+import { AnalysisProgress, AnalysisStage } from '../types';
+import { formatBytes } from '../services/analysisProgress';
+
+interface AnalysisProgressPanelProps {
+  progress: AnalysisProgress;
+  providerLabel: string;
+  onCancel?: () => void;
+}
+
+const STAGES: { id: AnalysisStage; label: string; icon: React.ElementType }[] = [
+  { id: 'encoding', label: 'Encoding inputs', icon: FileText },
+  { id: 'uploading', label: 'Uploading', icon: UploadCloud },
+  { id: 'thinking', label: 'Model thinking', icon: BrainCircuit },
+  { id: 'generating', label: 'Receiving targets', icon: Target },
+  { id: 'validating', label: 'Validating', icon: ShieldCheck }
+];
+
+// Seconds left until the next attempt, re-rendered every quarter second
+const RetryCountdown: React.FC<{ retry: NonNullable<AnalysisProgress['retry']>; attempt: number }> = ({ retry, attempt }) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [retry.resumeAt]);
+
+  const seconds = Math.max(0, Math.ceil((retry.resumeAt - now) / 1000));
+  return (
+    <div className="flex items-start gap-3 px-4 py-3 rounded-lg border border-amber-500/30 bg-amber-900/10 text-sm">
+      <RotateCw className="w-4 h-4 text-amber-400 shrink-0 mt-0.5" />
+      <div>
+        <p className="text-amber-200">
+          Attempt {attempt - 1} failed. Retrying {seconds > 0 ? <>in <strong className="font-mono">{seconds}s</strong></> : 'now'} (attempt {attempt} of {retry.maxAttempts}).
+        </p>
+        <p className="text-xs text-slate-400 mt-0.5">{retry.reason}</p>
+      </div>
+    </div>
+  );
+};
+
+export const AnalysisProgressPanel: React.FC<AnalysisProgressPanelProps> = ({ progress, providerLabel, onCancel }) => {
+  const thinkingRef = useRef<HTMLDivElement>(null);
+  const stageIndex = STAGES.findIndex(s => s.id === progress.stage);
+
+  // Keep the latest thought in view
+  useEffect(() => {
+    if (thinkingRef.current) thinkingRef.current.scrollTop = thinkingRef.current.scrollHeight;
+  }, [progress.thinking]);
+
+  const encodedCount = progress.files.filter(f => f.status === 'done').length;
+
+  return (
+    <div className="w-full max-w-5xl space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-center gap-4">
+        <div className="relative w-12 h-12 shrink-0">
+          <div className="absolute inset-0 border-4 border-emerald-500/30 rounded-full animate-ping"></div>
+          <div className="absolute inset-1 border-4 border-emerald-500 rounded-full animate-spin border-t-transparent"></div>
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Atom className="w-5 h-5 text-emerald-400" />
+          </div>
+        </div>
+        <div>
+          <h2 className="text-2xl font-semibold text-white">Processing Multimodal Data</h2>
+          <p className="text-slate-400 text-sm">{providerLabel} is analyzing alteration minerals, correlating geochemical vectors, and locating targets.</p>
+        </div>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="ml-auto px-4 py-2 rounded-lg border border-slate-700 text-sm text-slate-300 hover:text-red-300 hover:border-red-500/50 hover:bg-red-900/20 transition-colors flex items-center gap-2 shrink-0"
+          >
+            <Square className="w-4 h-4" /> Cancel
+          </button>
+        )}
+      </div>
+
+      {progress.retry && <RetryCountdown retry={progress.retry} attempt={progress.attempt} />}
+
+      {/* Stage stepper */}
+      <div className="grid grid-cols-5 gap-2">
+        {STAGES.map((stage, idx) => {
+          const state = idx < stageIndex ? 'done' : idx === stageIndex ? 'active' : 'pending';
+          return (
+            <div
+              key={stage.id}
+              className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-xs ${
+                state === 'active' ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-200'
+                  : state === 'done' ? 'border-slate-700 bg-slate-800/50 text-slate-300'
+                  : 'border-slate-800 text-slate-600'
+              }`}
+            >
+              {state === 'done' ? <CheckCircle className="w-4 h-4 text-emerald-400 shrink-0" />
+                : state === 'active' ? <Loader2 className="w-4 h-4 animate-spin shrink-0" />
+                : <stage.icon className="w-4 h-4 shrink-0" />}
+              <span className="truncate">{stage.label}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Inputs */}
+        <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-4">
+          <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3 flex justify-between">
+            <span>Inputs ({encodedCount}/{progress.files.length})</span>
+            {progress.requestBytes > 0 && <span className="normal-case tracking-normal text-slate-400">Upload {formatBytes(progress.requestBytes)}</span>}
+          </h3>
+          <ul className="space-y-1.5 max-h-64 overflow-y-auto pr-2 custom-scrollbar">
+            {progress.files.map(file => (
+              <li key={file.fileId} className="flex items-center gap-2 text-xs">
+                {file.status === 'done' ? <CheckCircle className="w-3.5 h-3.5 text-emerald-400 shrink-0" />
+                  : file.status === 'encoding' ? <Loader2 className="w-3.5 h-3.5 text-amber-400 animate-spin shrink-0" />
+                  : <Circle className="w-3.5 h-3.5 text-slate-600 shrink-0" />}
+                <span className={`truncate ${file.status === 'pending' ? 'text-slate-500' : 'text-slate-300'}`}>{file.name}</span>
+                {file.status === 'done' && <span className="ml-auto text-slate-500 font-mono shrink-0">{formatBytes(file.bytes)}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Thinking */}
+        <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-4 flex flex-col">
+          <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3 flex items-center gap-2">
+            <BrainCircuit className="w-3.5 h-3.5" /> Thinking
+          </h3>
+          <div ref={thinkingRef} className="flex-1 max-h-64 overflow-y-auto pr-2 custom-scrollbar text-xs text-slate-400 whitespace-pre-wrap leading-relaxed">
+            {progress.thinking
+              ? progress.thinking.replace(/\*\*/g, '')
+              : <span className="italic text-slate-600">{progress.stage === 'encoding' || progress.stage === 'uploading' ? 'Waiting for the model…' : 'This provider does not report its reasoning.'}</span>}
+          </div>
+        </div>
+      </div>
+
+      {/* Targets as they arrive */}
+      <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-4">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3 flex justify-between">
+          <span className="flex items-center gap-2"><Target className="w-3.5 h-3.5" /> Targets received ({progress.partialTargets.length})</span>
+          {progress.outputChars > 0 && <span className="normal-case tracking-normal text-slate-400">{progress.outputChars.toLocaleString()} characters</span>}
+        </h3>
+        {progress.partialTargets.length === 0 ? (
+          <p className="text-xs italic text-slate-600">No targets yet.</p>
+        ) : (
+          <table className="w-full text-xs">
+            <tbody>
+              {progress.partialTargets.map((t, idx) => (
+                <tr key={idx} className="border-t border-slate-800 animate-in fade-in slide-in-from-bottom-1">
+                  <td className="py-1.5 pr-3 font-mono text-slate-500">#{t.id}</td>
+                  <td className="py-1.5 pr-3 font-mono text-slate-400 whitespace-nowrap">{Number(t.x).toFixed(1)}, {Number(t.y).toFixed(1)}</td>
+                  <td className="py-1.5 pr-3 font-mono text-emerald-400">{typeof t.probability === 'number' ? `${(t.probability * 100).toFixed(0)}%` : '—'}</td>
+                  <td className="py-1.5 text-slate-300 truncate max-w-md">{t.description}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
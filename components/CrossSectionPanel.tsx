@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ReferenceLine, ReferenceDot } from 'recharts';
+import { ChartSpline, X, Table, Eye, EyeOff } from 'lucide-react';
+import { Georeference, TargetArea } from '../types';
+import { computeCrossSection, SectionRaster, SECTION_SERIES_KINDS } from '../services/crossSection';
+import { computeProbabilitySurface } from '../services/probabilitySurface';
+import { formatDistance } from '../services/measurements';
+import { outputCrs, relativeToCrs } from '../services/georeference';
+
+interface CrossSectionPanelProps {
+  line: [number, number][]; // frame positions, A first
+  buffer: number; // ground metres when georeferenced, frame units otherwise
+  onBufferChange: (buffer: number) => void;
+  onClose: () => void;
+  targets: TargetArea[];
+  rasters: SectionRaster[];
+  georeference?: Georeference;
+  exportCrs?: string;
+}
+
+const formatValue = (v: number) => Math.abs(v) >= 1000 ? v.toFixed(0) : Number(v.toPrecision(4)).toString();
+
+export const CrossSectionPanel: React.FC<CrossSectionPanelProps> = ({ line, buffer, onBufferChange, onClose, targets, rasters, georeference, exportCrs }) => {
+  const [hiddenSeries, setHiddenSeries] = useState<Set<string>>(new Set());
+
+  const surface = useMemo(() => computeProbabilitySurface(targets), [targets]);
+  const section = useMemo(
+    () => computeCrossSection(line, { surface, rasters, targets, geo: georeference, buffer }),
+    [line, surface, rasters, targets, georeference, buffer]
+  );
+
+  const shownSeries = section.series.filter(s => !hiddenSeries.has(s.id));
+  const formatChainage = (d: number) => section.isMetric ? formatDistance(d) : `${d.toFixed(1)}`;
+  const unit = section.isMetric ? 'm' : 'frame units';
+
+  const toggleSeries = (id: string) => {
+    setHiddenSeries(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDownloadCSV = () => {
+    const crs = georeference ? outputCrs(georeference, exportCrs) : undefined;
+    const quote = (s: string) => `"${s.replace(/"/g, '""')}"`;
+    let csvContent = `Distance,X,Y,MapX,MapY,CRS,${section.series.map(s => quote(s.label)).join(',')}\n`;
+    section.stations.forEach((station, i) => {
+      const [x, y] = section.positions[i];
+      const [mapX, mapY] = georeference ? relativeToCrs(georeference, x, y, crs) : ['', ''];
+      const values = section.series.map(s => station[s.id] ?? '');
+      csvContent += `${station.distance},${x},${y},${mapX},${mapY},${crs || ''},${values.join(',')}\n`;
+    });
+
+    const link = document.createElement('a');
+    link.href = "data:text/csv;charset=utf-8," + encodeURIComponent(csvContent);
+    link.download = "geogenius_cross_section.csv";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="mt-4 bg-slate-900/50 border border-cyan-500/20 rounded-lg p-4 print:hidden">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h4 className="font-semibold text-slate-200 flex items-center gap-2">
+          <ChartSpline className="w-4 h-4 text-cyan-400" />
+          Cross-section A–B
+          <span className="text-xs font-normal text-slate-400">
+            {section.isMetric ? formatDistance(section.length) : `${section.length.toFixed(1)} frame units`}
+          </span>
+        </h4>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-slate-400" title="Targets this close to the line are projected onto the section">
+            Target buffer
+            <input
+              type="number"
+              min={0}
+              value={buffer}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (isFinite(value) && value >= 0) onBufferChange(value);
+              }}
+              className="w-20 bg-slate-800 border border-slate-700 rounded px-2 py-0.5 text-slate-200 text-right"
+            />
+            {unit}
+          </label>
+          <button onClick={handleDownloadCSV} className="flex items-center gap-1.5 px-2 py-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded text-xs text-slate-300">
+            <Table className="w-3.5 h-3.5" /> CSV
+          </button>
+          <button onClick={onClose} className="text-slate-500 hover:text-white" aria-label="Close cross-section">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Series the line crosses; grids outside it are left out */}
+      <div className="flex flex-wrap gap-2 mb-3">
+        {section.series.map(s => {
+          const isShown = !hiddenSeries.has(s.id);
+          return (
+            <button
+              key={s.id}
+              onClick={() => toggleSeries(s.id)}
+              className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full text-[10px] border transition-colors ${isShown ? 'bg-slate-800 border-slate-600 text-slate-200' : 'border-slate-800 text-slate-500'}`}
+              title={SECTION_SERIES_KINDS[s.kind].label}
+            >
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: SECTION_SERIES_KINDS[s.kind].color }} />
+              {s.label}
+              {isShown ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* One chart per series on a shared distance axis, with projected targets marked on each */}
+      <div className="space-y-1">
+        {shownSeries.map((s, i) => {
+          const { color } = SECTION_SERIES_KINDS[s.kind];
+          const isLast = i === shownSeries.length - 1;
+          const isFilled = s.kind === 'probability' || s.kind === 'elevation';
+          return (
+            <div key={s.id} className={isLast ? 'h-40' : 'h-28'}>
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={section.stations} syncId="cross-section" margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+                  <CartesianGrid stroke="#1e293b" strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="distance"
+                    type="number"
+                    domain={[0, section.length]}
+                    tickFormatter={formatChainage}
+                    tick={{ fontSize: 10, fill: '#94a3b8' }}
+                    hide={!isLast}
+                  />
+                  <YAxis
+                    width={56}
+                    domain={s.kind === 'probability' ? [0, 1] : ['auto', 'auto']}
+                    tickFormatter={formatValue}
+                    tick={{ fontSize: 10, fill: '#94a3b8' }}
+                    label={{ value: s.label, angle: -90, position: 'insideLeft', fontSize: 10, fill: color, dx: 10 }}
+                  />
+                  <RechartsTooltip
+                    contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9', fontSize: 11 }}
+                    itemStyle={{ color: '#f1f5f9' }}
+                    labelFormatter={(d) => `${formatChainage(Number(d))} from A`}
+                    formatter={(v) => [typeof v === 'number' ? formatValue(v) : '—', s.label]}
+                  />
+                  {section.targets.map(({ target, distance }) => (
+                    <ReferenceLine key={target.id} x={distance} stroke="#f8fafc" strokeOpacity={0.3} strokeDasharray="4 3" />
+                  ))}
+                  {isFilled
+                    ? <Area dataKey={s.id} type="monotone" stroke={color} fill={color} fillOpacity={0.15} dot={false} connectNulls={false} isAnimationActive={false} baseValue={s.kind === 'probability' ? 0 : 'dataMin'} />
+                    : <Line dataKey={s.id} type="monotone" stroke={color} dot={false} connectNulls={false} isAnimationActive={false} />}
+                  {s.kind === 'probability' && section.targets.map(({ target, distance }) => (
+                    <ReferenceDot
+                      key={target.id}
+                      x={distance}
+                      y={target.probability}
+                      r={4}
+                      fill="#f8fafc"
+                      stroke="#0f172a"
+                      label={{ value: `#${target.id}`, position: 'top', fontSize: 10, fill: '#f8fafc' }}
+                    />
+                  ))}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          );
+        })}
+      </div>
+
+      {section.targets.length > 0 ? (
+        <ul className="mt-3 pt-3 border-t border-slate-800 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-[11px]">
+          {section.targets.map(({ target, distance, offset }) => (
+            <li key={target.id} className="flex items-center gap-2">
+              <span className="font-mono text-slate-200 w-8">#{target.id}</span>
+              <span className="text-slate-400">{formatChainage(distance)} from A</span>
+              <span className="text-slate-500">{formatChainage(offset)} off line</span>
+              <span className="ml-auto font-mono text-emerald-400">{(target.probability * 100).toFixed(0)}%</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-3 text-[11px] text-slate-500">No targets within {section.isMetric ? formatDistance(buffer) : `${buffer} frame units`} of the line.</p>
+      )}
+      {!georeference && (
+        <p className="mt-2 text-[11px] text-slate-500">The results are not georeferenced, so only the probability surface can be sampled.</p>
+      )}
+    </div>
+  );
+};
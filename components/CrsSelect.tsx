@@ -0,0 +1,62 @@
+import React, { useMemo, useState } from 'react';
+import { CrsDefinition, listCrs, registerCustomCrs } from '../services/crs';
+
+interface CrsSelectProps {
+  value: string | undefined;
+  onChange: (code: string) => void;
+  className?: string;
+  placeholder?: string; // shown when no CRS is set; omitted means a CRS is required
+  title?: string;
+}
+
+const CUSTOM_OPTION = '__custom__';
+
+export const CrsSelect: React.FC<CrsSelectProps> = ({ value, onChange, className, placeholder, title }) => {
+  // Bumped after a custom CRS is registered so the option list is rebuilt
+  const [revision, setRevision] = useState(0);
+
+  const groups = useMemo(() => {
+    const byGroup = new Map<string, CrsDefinition[]>();
+    listCrs().forEach(crs => byGroup.set(crs.group, [...(byGroup.get(crs.group) || []), crs]));
+    return Array.from(byGroup.entries());
+  }, [revision]);
+
+  const isKnown = !value || groups.some(([, list]) => list.some(crs => crs.code === value));
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (e.target.value !== CUSTOM_OPTION) {
+      onChange(e.target.value);
+      return;
+    }
+    const name = prompt("Name for the custom CRS (e.g. Mine Grid 2015):");
+    if (!name?.trim()) return;
+    const definition = prompt("proj4 definition (e.g. +proj=tmerc +lat_0=0 +lon_0=-69 +k=1 +x_0=500000 +y_0=10000000 +ellps=GRS80 +units=m +no_defs):");
+    if (!definition?.trim()) return;
+    try {
+      const crs = registerCustomCrs(name, definition);
+      setRevision(r => r + 1);
+      onChange(crs.code);
+    } catch (error: any) {
+      alert(`Invalid proj4 definition: ${error.message || error}`);
+    }
+  };
+
+  return (
+    <select
+      value={value ?? ''}
+      onChange={handleChange}
+      className={className}
+      title={title}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {placeholder !== undefined && <option value="">{placeholder}</option>}
+      {!isKnown && <option value={value}>{value} (unsupported)</option>}
+      {groups.map(([group, list]) => (
+        <optgroup key={group} label={group}>
+          {list.map(crs => <option key={crs.code} value={crs.code}>{crs.name} ({crs.code})</option>)}
+        </optgroup>
+      ))}
+      <option value={CUSTOM_OPTION}>Add custom proj4 definition…</option>
+    </select>
+  );
+};
@@ -1,6 +1,14 @@
 import React, { useRef, useState } from 'react';
-import { Upload, X, FileText, Map as MapIcon, Image as ImageIcon, Link as LinkIcon, Plus, AlertCircle, Activity, Database, Microscope } from 'lucide-react';
+import { Upload, X, FileText, Map as MapIcon, Image as ImageIcon, Link as LinkIcon, Plus, AlertCircle, Activity, Database, Microscope, Settings2, Globe, Calculator, BarChart3, Grid3x3, Download, Waves } from 'lucide-react';
 import { FileCategory, UploadedFile } from '../types';
+import { describeGeophysicsDataset } from '../services/geophysicsParser';
+import { describePetrologyDataset } from '../services/petrologyParser';
+import { describeVectorDataset } from '../services/vectorParser';
+import { describeGeochemDataset, isGeochemTableFile } from '../services/geochemParser';
+import { getFileCrs } from '../services/georeference';
+import { griddableVariables, INTERPOLATION_METHODS } from '../services/griddingClient';
+import { GRID_TRANSFORMS } from '../services/gridTransforms';
+import { CrsSelect } from './CrsSelect';
 
 interface FileUploadProps {
   category: FileCategory;
@@ -10,6 +18,12 @@ interface FileUploadProps {
   onUpload: (files: File[], category: FileCategory) => void;
   onAddLink: (url: string, category: FileCategory) => void;
   onRemove: (id: string) => void;
+  onConfigure?: (id: string) => void;
+  onSetCrs?: (id: string, crs: string) => void;
+  onComputeIndices?: (id: string) => void;
+  onShowStats?: (id: string) => void;
+  onGrid?: (id: string) => void;
+  onTransform?: (id: string) => void;
 }
 
 export const FileUpload: React.FC<FileUploadProps> = ({ 
@@ -19,7 +33,13 @@ export const FileUpload: React.FC<FileUploadProps> = ({
   files, 
   onUpload,
   onAddLink,
-  onRemove
+  onRemove,
+  onConfigure,
+  onSetCrs,
+  onComputeIndices,
+  onShowStats,
+  onGrid,
+  onTransform
 }) => {
   const inputRef = useRef<HTMLInputElement>(null);
   const [isLinkInputOpen, setIsLinkInputOpen] = useState(false);
@@ -103,9 +123,20 @@ export const FileUpload: React.FC<FileUploadProps> = ({
 
   const currentFiles = files.filter(f => f.category === category);
 
+  const downloadFile = (blob: File) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = blob.name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
   const isDataFile = (name: string = '') => {
       const n = name.toLowerCase();
-      return n.endsWith('.csv') || n.endsWith('.xyz') || n.endsWith('.grd') || n.endsWith('.json') || n.endsWith('.txt');
+      return n.endsWith('.csv') || n.endsWith('.xyz') || n.endsWith('.grd') || n.endsWith('.json') || n.endsWith('.txt') || n.endsWith('.asc') || n.endsWith('.dat') || n.endsWith('.geojson') || n.endsWith('.kml');
   };
 
   return (
@@ -223,14 +254,114 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                 {file.sourceType === 'url' && (
                   <span className="text-[10px] text-slate-500">External Link</span>
                 )}
+                {file.spectralIndex && (
+                  <span className="text-[10px] text-teal-300/80 truncate max-w-[150px]" title={`${file.spectralIndex.expression} from ${file.spectralIndex.sourceName}`}>
+                    {file.spectralIndex.label} · {file.spectralIndex.expression}
+                  </span>
+                )}
+                {file.gridTransform && (
+                  <span className="text-[10px] text-purple-300/80 truncate max-w-[150px]" title={`Computed from ${file.gridTransform.sourceName}`}>
+                    {GRID_TRANSFORMS[file.gridTransform.transform].label}
+                  </span>
+                )}
+                {file.gridded && (
+                  <span className="text-[10px] text-sky-300/80 truncate max-w-[150px]" title={`Gridded from ${file.gridded.pointCount} points in ${file.gridded.sourceName}`}>
+                    {file.gridded.variable} · {INTERPOLATION_METHODS[file.gridded.params.method].label}
+                  </span>
+                )}
+                {file.geophysics && (
+                  <span className="text-[10px] text-purple-300/80">{describeGeophysicsDataset(file.geophysics)}</span>
+                )}
+                {file.georeference && (
+                  <span className="text-[10px] text-teal-300/80 flex items-center gap-1" title={`Georeferenced from ${file.georeference.source}`}>
+                    <Globe className="w-2.5 h-2.5" /> {file.georeference.crs || 'Georeferenced (no CRS)'}
+                  </span>
+                )}
+                {file.geochem && (
+                  <span className="text-[10px] text-amber-300/80">{describeGeochemDataset(file.geochem)}</span>
+                )}
+                {file.petrology && (
+                  <span className="text-[10px] text-pink-300/80">{describePetrologyDataset(file.petrology)}</span>
+                )}
+                {file.vector && (
+                  <span className="text-[10px] text-indigo-300/80">{describeVectorDataset(file.vector)}</span>
+                )}
+                {onSetCrs && (file.georeference || getFileCrs(file)) && (
+                  <CrsSelect
+                    value={getFileCrs(file)}
+                    onChange={(crs) => onSetCrs(file.id, crs)}
+                    placeholder="CRS not declared"
+                    title="Coordinate system of this file"
+                    className="mt-0.5 max-w-[170px] bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-300 outline-none focus:ring-1 focus:ring-teal-500"
+                  />
+                )}
+                {file.parseError && (
+                  <span className="text-[10px] text-red-400 truncate max-w-[150px]" title={file.parseError}>{file.parseError}</span>
+                )}
               </div>
             </div>
-            <button 
-              onClick={() => onRemove(file.id)}
-              className="text-slate-500 hover:text-red-400 transition-colors"
-            >
-              <X className="w-4 h-4" />
-            </button>
+            <div className="flex items-center gap-1.5 shrink-0">
+              {onConfigure && file.sourceType === 'file' && isGeochemTableFile(file.file?.name) && (
+                <button 
+                  onClick={() => onConfigure(file.id)}
+                  className={`transition-colors ${file.geochem ? 'text-slate-500 hover:text-amber-400' : 'text-amber-400 hover:text-amber-300 animate-pulse'}`}
+                  title={file.geochem ? "Edit column mapping" : "Map columns"}
+                >
+                  <Settings2 className="w-4 h-4" />
+                </button>
+              )}
+              {onShowStats && file.geochem && (
+                <button
+                  onClick={() => onShowStats(file.id)}
+                  className="text-slate-500 hover:text-amber-400 transition-colors"
+                  title="Anomaly statistics"
+                >
+                  <BarChart3 className="w-4 h-4" />
+                </button>
+              )}
+              {onGrid && griddableVariables(file).length > 0 && (
+                <button
+                  onClick={() => onGrid(file.id)}
+                  className="text-slate-500 hover:text-sky-400 transition-colors"
+                  title="Grid point data (IDW, natural neighbour, kriging)"
+                >
+                  <Grid3x3 className="w-4 h-4" />
+                </button>
+              )}
+              {onTransform && file.geophysics?.grid && (
+                <button
+                  onClick={() => onTransform(file.id)}
+                  className="text-slate-500 hover:text-purple-400 transition-colors"
+                  title="Magnetic transforms (RTP, derivatives, tilt, analytic signal, upward continuation)"
+                >
+                  <Waves className="w-4 h-4" />
+                </button>
+              )}
+              {(file.gridded || file.gridTransform) && file.file && (
+                <button
+                  onClick={() => downloadFile(file.file!)}
+                  className="text-slate-500 hover:text-sky-400 transition-colors"
+                  title="Download as ESRI ASCII grid"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+              )}
+              {onComputeIndices && (file.bandCount ?? 0) >= 2 && !file.spectralIndex && (
+                <button
+                  onClick={() => onComputeIndices(file.id)}
+                  className="text-slate-500 hover:text-teal-400 transition-colors"
+                  title="Compute alteration indices / band math"
+                >
+                  <Calculator className="w-4 h-4" />
+                </button>
+              )}
+              <button 
+                onClick={() => onRemove(file.id)}
+                className="text-slate-500 hover:text-red-400 transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
           </div>
         ))}
         {currentFiles.length === 0 && (
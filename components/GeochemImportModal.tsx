@@ -0,0 +1,280 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, FlaskConical, Check, AlertCircle, MapPin, Hash } from 'lucide-react';
+import { GeochemColumnMapping, GeochemDataset, GeochemUnit, UploadedFile } from '../types';
+import { DelimitedTable, parseDelimitedText } from '../services/csv';
+import { buildGeochemDataset, detectGeochemMapping, UNIT_LABELS } from '../services/geochemParser';
+import { guessCrs } from '../services/crs';
+import { CrsSelect } from './CrsSelect';
+
+interface GeochemImportModalProps {
+  file: UploadedFile | null;
+  projectCrs: string;
+  onConfirm: (fileId: string, dataset: GeochemDataset) => void;
+  onSkip: (fileId: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+export const GeochemImportModal: React.FC<GeochemImportModalProps> = ({ file, projectCrs, onConfirm, onSkip, onClose }) => {
+  const [table, setTable] = useState<DelimitedTable | null>(null);
+  const [mapping, setMapping] = useState<GeochemColumnMapping | null>(null);
+  const [crs, setCrs] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTable(null);
+    setMapping(null);
+    setCrs(file?.geochem?.crs ?? null);
+    setError(null);
+    if (!file?.file) return;
+
+    file.file.text().then(text => {
+      const parsed = parseDelimitedText(text);
+      if (parsed.headers.length === 0) {
+        setError("The file appears to be empty.");
+        return;
+      }
+      setTable(parsed);
+      // Re-opening an imported file keeps the mapping that was confirmed before
+      setMapping(file.geochem?.mapping ?? detectGeochemMapping(parsed));
+    }).catch(err => setError(err.message || "Could not read file."));
+  }, [file?.id]);
+
+  const preview = useMemo(() => {
+    if (!table || !mapping) return null;
+    return buildGeochemDataset(table, mapping);
+  }, [table, mapping]);
+
+  if (!file) return null;
+
+  const mappedElementColumns = new Set(mapping?.elements.map(e => e.column));
+  const censoredCount = preview?.samples.reduce((sum, s) => sum + Object.keys(s.censored).length, 0) ?? 0;
+  const located = preview?.samples.filter(s => s.x !== undefined && s.y !== undefined) ?? [];
+  const locatedCount = located.length;
+  // Until the user picks one, lat/lon-looking coordinates are taken as WGS 84, anything else as the project CRS
+  const coordinateCrs = crs ?? guessCrs(located.map(s => [s.x as number, s.y as number]), projectCrs);
+
+  const toggleElementColumn = (column: string) => {
+    if (!mapping) return;
+    if (mappedElementColumns.has(column)) {
+      setMapping({ ...mapping, elements: mapping.elements.filter(e => e.column !== column) });
+    } else {
+      const element = column.split(/[\s_\-()]+/)[0] || column;
+      setMapping({ ...mapping, elements: [...mapping.elements, { column, element, unit: 'ppm' }] });
+    }
+  };
+
+  const updateElement = (column: string, patch: { element?: string; unit?: GeochemUnit }) => {
+    if (!mapping) return;
+    setMapping({
+      ...mapping,
+      elements: mapping.elements.map(e => e.column === column ? { ...e, ...patch } : e)
+    });
+  };
+
+  const setRoleColumn = (role: 'sampleId' | 'x' | 'y', column: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [role]: column || null });
+  };
+
+  const handleConfirm = () => {
+    if (preview) onConfirm(file.id, { ...preview, crs: mapping?.x && mapping?.y ? coordinateCrs : undefined });
+  };
+
+  const selectClass = "w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-slate-200 focus:ring-1 focus:ring-amber-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-4xl max-h-[90vh] flex flex-col shadow-2xl animate-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800 bg-slate-900/50">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <FlaskConical className="w-6 h-6 text-amber-400" />
+              Import Geochemical Data
+            </h2>
+            <p className="text-sm text-slate-400 mt-1 truncate max-w-xl">{file.file?.name}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="overflow-y-auto p-6 space-y-6 custom-scrollbar">
+          {error && (
+            <div className="p-3 bg-red-900/30 border border-red-500/30 rounded flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+              <p className="text-xs text-red-200">{error}</p>
+            </div>
+          )}
+
+          {table && mapping && (
+            <>
+              {/* Sample ID & Coordinates */}
+              <section>
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3 flex items-center gap-2">
+                  <MapPin className="w-3.5 h-3.5" /> Sample ID & Coordinates
+                </h3>
+                <div className="grid grid-cols-4 gap-3">
+                  {([
+                    ['sampleId', 'Sample ID'],
+                    ['x', 'X / Easting / Longitude'],
+                    ['y', 'Y / Northing / Latitude']
+                  ] as const).map(([role, label]) => (
+                    <label key={role} className="text-[11px] text-slate-400 flex flex-col gap-1">
+                      {label}
+                      <select
+                        value={mapping[role] ?? ''}
+                        onChange={(e) => setRoleColumn(role, e.target.value)}
+                        className={selectClass}
+                      >
+                        <option value="">— none —</option>
+                        {table.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                      </select>
+                    </label>
+                  ))}
+                  <label className="text-[11px] text-slate-400 flex flex-col gap-1">
+                    Coordinate system
+                    <CrsSelect
+                      value={coordinateCrs}
+                      onChange={setCrs}
+                      className={selectClass}
+                    />
+                  </label>
+                </div>
+              </section>
+
+              {/* Element columns */}
+              <section>
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3 flex items-center gap-2">
+                  <Hash className="w-3.5 h-3.5" /> Element Columns
+                  <span className="font-normal normal-case tracking-normal text-slate-600">Values are normalised to ppm; below-detection results use half the detection limit.</span>
+                </h3>
+                <div className="border border-slate-700 rounded-lg overflow-hidden">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-800/80 text-slate-400">
+                      <tr>
+                        <th className="p-2 text-left w-10">Use</th>
+                        <th className="p-2 text-left">Column</th>
+                        <th className="p-2 text-left w-32">Element</th>
+                        <th className="p-2 text-left w-28">Reported unit</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {table.headers
+                        .filter(h => h !== mapping.sampleId && h !== mapping.x && h !== mapping.y)
+                        .map(header => {
+                          const el = mapping.elements.find(e => e.column === header);
+                          return (
+                            <tr key={header} className={`border-t border-slate-800 ${el ? 'bg-amber-500/5' : ''}`}>
+                              <td className="p-2">
+                                <input
+                                  type="checkbox"
+                                  checked={!!el}
+                                  onChange={() => toggleElementColumn(header)}
+                                  className="accent-amber-500"
+                                />
+                              </td>
+                              <td className={`p-2 font-mono ${el ? 'text-slate-200' : 'text-slate-500'}`}>{header}</td>
+                              <td className="p-2">
+                                {el && (
+                                  <input
+                                    value={el.element}
+                                    onChange={(e) => updateElement(header, { element: e.target.value })}
+                                    className={selectClass}
+                                  />
+                                )}
+                              </td>
+                              <td className="p-2">
+                                {el && (
+                                  <select
+                                    value={el.unit}
+                                    onChange={(e) => updateElement(header, { unit: e.target.value as GeochemUnit })}
+                                    className={selectClass}
+                                  >
+                                    {(Object.keys(UNIT_LABELS) as GeochemUnit[]).map(u => (
+                                      <option key={u} value={u}>{UNIT_LABELS[u]}</option>
+                                    ))}
+                                  </select>
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+
+              {/* Preview */}
+              {preview && (
+                <section>
+                  <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">
+                    Preview <span className="font-normal normal-case tracking-normal text-slate-600">(ppm)</span>
+                  </h3>
+                  <div className="flex gap-4 text-[11px] text-slate-400 mb-3">
+                    <span><strong className="text-slate-200">{preview.samples.length}</strong> samples</span>
+                    <span><strong className="text-slate-200">{locatedCount}</strong> with coordinates</span>
+                    <span><strong className="text-slate-200">{censoredCount}</strong> censored values substituted</span>
+                  </div>
+                  <div className="overflow-x-auto border border-slate-700 rounded-lg custom-scrollbar">
+                    <table className="text-[11px] font-mono whitespace-nowrap">
+                      <thead className="bg-slate-800/80 text-slate-400">
+                        <tr>
+                          <th className="p-2 text-left">ID</th>
+                          <th className="p-2 text-right">X</th>
+                          <th className="p-2 text-right">Y</th>
+                          {preview.elements.map(el => <th key={el} className="p-2 text-right">{el}</th>)}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.samples.slice(0, PREVIEW_ROWS).map((s, i) => (
+                          <tr key={`${s.id}-${i}`} className="border-t border-slate-800 text-slate-300">
+                            <td className="p-2">{s.id}</td>
+                            <td className="p-2 text-right">{s.x ?? '—'}</td>
+                            <td className="p-2 text-right">{s.y ?? '—'}</td>
+                            {preview.elements.map(el => (
+                              <td key={el} className={`p-2 text-right ${s.censored[el] ? 'text-amber-400' : ''}`} title={s.censored[el] ? `${s.censored[el]} detection limit` : undefined}>
+                                {s.values[el] !== undefined ? Number(s.values[el].toPrecision(4)) : '—'}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-between items-center p-4 border-t border-slate-800">
+          <p className="text-[11px] text-slate-500">
+            {mapping && (!mapping.x || !mapping.y) && 'No coordinate columns selected: samples will not be mapped.'}
+          </p>
+          <div className="flex gap-2">
+            <button onClick={() => onSkip(file.id)} className="px-4 py-2 text-sm text-slate-400 hover:text-white">
+              Skip
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={!preview || preview.elements.length === 0}
+              className="px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white text-sm rounded-lg flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Check className="w-4 h-4" /> Import {preview?.samples.length ?? 0} Samples
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
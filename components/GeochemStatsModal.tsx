@@ -0,0 +1,341 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, BarChart3, Check, Plus, Trash2, Flag, MapPin } from 'lucide-react';
+import { GeochemStatsSettings, ThresholdMethod, UploadedFile } from '../types';
+import { computeGeochemStatistics, DEFAULT_STATS_SETTINGS, THRESHOLD_METHODS } from '../services/geochemStats';
+
+interface GeochemStatsModalProps {
+  file: UploadedFile | null;
+  onSave: (fileId: string, settings: GeochemStatsSettings) => void;
+  onClose: () => void;
+}
+
+const MAX_FLAGGED_ROWS = 100;
+const MAP_SIZE = 320;
+
+// Percentile classes used to colour the sample map, lowest first
+const CLASS_BREAKS = [50, 75, 90, 95, 98];
+const CLASS_COLORS = ['#475569', '#3b82f6', '#22c55e', '#eab308', '#f97316', '#ef4444'];
+const CLASS_LABELS = ['< P50', 'P50–75', 'P75–90', 'P90–95', 'P95–98', '≥ P98'];
+
+const fmt = (v: number | undefined) => (v !== undefined && isFinite(v) ? Number(v.toPrecision(4)).toString() : '—');
+
+export const GeochemStatsModal: React.FC<GeochemStatsModalProps> = ({ file, onSave, onClose }) => {
+  const dataset = file?.geochem;
+  const [settings, setSettings] = useState<GeochemStatsSettings>(DEFAULT_STATS_SETTINGS);
+  const [mapVariable, setMapVariable] = useState('');
+
+  useEffect(() => {
+    setSettings(dataset?.statistics ?? DEFAULT_STATS_SETTINGS);
+    setMapVariable(dataset?.elements[0] ? `element:${dataset.elements[0]}` : '');
+  }, [file?.id]);
+
+  const stats = useMemo(() => dataset ? computeGeochemStatistics(dataset, settings) : null, [dataset, settings]);
+
+  // Values for the chosen map variable, aligned with dataset.samples
+  const mapValues = useMemo((): (number | undefined)[] => {
+    if (!dataset || !stats) return [];
+    const sep = mapVariable.indexOf(':');
+    const kind = mapVariable.slice(0, sep), key = mapVariable.slice(sep + 1);
+    if (kind === 'element') return dataset.samples.map(s => s.values[key]);
+    if (kind === 'index') return stats.indices.find(i => i.definition.id === key)?.values ?? [];
+    if (kind === 'ratio') return stats.ratios.find(r => r.label === key)?.values ?? [];
+    return [];
+  }, [dataset, stats, mapVariable]);
+
+  if (!file || !dataset || !stats) return null;
+
+  const located = dataset.samples
+    .map((s, i) => ({ s, value: mapValues[i] }))
+    .filter(p => p.s.x !== undefined && p.s.y !== undefined);
+
+  const sortedValues = located.map(p => p.value).filter((v): v is number => v !== undefined && isFinite(v)).sort((a, b) => a - b);
+  const breaks = CLASS_BREAKS.map(p => sortedValues[Math.min(sortedValues.length - 1, Math.floor((p / 100) * sortedValues.length))]);
+  const classOf = (v: number) => breaks.filter(b => v >= b).length;
+
+  const xs = located.map(p => p.s.x as number);
+  const ys = located.map(p => p.s.y as number);
+  const minX = Math.min(...xs), maxX = Math.max(...xs), minY = Math.min(...ys), maxY = Math.max(...ys);
+  const span = Math.max(maxX - minX, maxY - minY) || 1;
+  // Northing increases upwards, so y is flipped into SVG space
+  const project = (x: number, y: number): [number, number] => [
+    8 + ((x - minX) / span) * (MAP_SIZE - 16),
+    MAP_SIZE - 8 - ((y - minY) / span) * (MAP_SIZE - 16)
+  ];
+
+  const updateRatio = (index: number, side: 0 | 1, element: string) =>
+    setSettings(prev => ({
+      ...prev,
+      ratios: prev.ratios.map((pair, i) => i === index ? (side === 0 ? [element, pair[1]] : [pair[0], element]) as [string, string] : pair)
+    }));
+
+  const selectClass = "w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-slate-200 focus:ring-1 focus:ring-amber-500 outline-none";
+  const missingRatioElements = (pair: [string, string]) =>
+    pair.filter(e => !dataset.elements.some(d => d.toLowerCase() === e.toLowerCase()));
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-5xl max-h-[90vh] flex flex-col shadow-2xl animate-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800 bg-slate-900/50">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <BarChart3 className="w-6 h-6 text-amber-400" />
+              Geochemical Anomaly Statistics
+            </h2>
+            <p className="text-sm text-slate-400 mt-1 truncate max-w-xl">{file.file?.name} · {dataset.samples.length} samples</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="overflow-y-auto p-6 space-y-6 custom-scrollbar">
+          {/* Threshold method */}
+          <section>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Anomaly Threshold</h3>
+            <div className="grid grid-cols-5 gap-2">
+              {(Object.keys(THRESHOLD_METHODS) as ThresholdMethod[]).map(method => (
+                <button
+                  key={method}
+                  onClick={() => setSettings(prev => ({ ...prev, method }))}
+                  className={`p-2 rounded-lg border text-left transition-colors ${settings.method === method ? 'bg-amber-500/10 border-amber-500/40' : 'bg-slate-800/50 border-slate-700 hover:border-slate-500'}`}
+                >
+                  <p className={`text-xs font-medium ${settings.method === method ? 'text-amber-300' : 'text-slate-200'}`}>{THRESHOLD_METHODS[method].label}</p>
+                  <p className="text-[10px] text-slate-500 mt-0.5">{THRESHOLD_METHODS[method].description}</p>
+                </button>
+              ))}
+            </div>
+          </section>
+
+          {/* Element summary */}
+          <section>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">
+              Element Summary <span className="font-normal normal-case tracking-normal text-slate-600">(ppm; spread-based thresholds on log10 values)</span>
+            </h3>
+            <div className="overflow-x-auto border border-slate-700 rounded-lg custom-scrollbar">
+              <table className="w-full text-[11px] font-mono whitespace-nowrap">
+                <thead className="bg-slate-800/80 text-slate-400">
+                  <tr>
+                    <th className="p-2 text-left">Element</th>
+                    <th className="p-2 text-right">n</th>
+                    <th className="p-2 text-right">BDL</th>
+                    <th className="p-2 text-right">Min</th>
+                    <th className="p-2 text-right">Median</th>
+                    <th className="p-2 text-right">Geo. mean</th>
+                    <th className="p-2 text-right">Max</th>
+                    {(Object.keys(THRESHOLD_METHODS) as ThresholdMethod[]).map(method => (
+                      <th key={method} className={`p-2 text-right ${settings.method === method ? 'text-amber-300' : ''}`}>
+                        {{ p95: 'P95', p98: 'P98', mean2sd: 'Mean+2SD', mad: 'Med+2MAD', probplot: 'Prob. break' }[method]}
+                      </th>
+                    ))}
+                    <th className="p-2 text-right">Anomalous</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.summaries.map(s => (
+                    <tr key={s.element} className="border-t border-slate-800 text-slate-300">
+                      <td className="p-2 text-slate-100">{s.element}</td>
+                      <td className="p-2 text-right">{s.n}</td>
+                      <td className="p-2 text-right">{s.censored || ''}</td>
+                      <td className="p-2 text-right">{fmt(s.min)}</td>
+                      <td className="p-2 text-right">{fmt(s.median)}</td>
+                      <td className="p-2 text-right">{fmt(s.geoMean)}</td>
+                      <td className="p-2 text-right">{fmt(s.max)}</td>
+                      {(Object.keys(THRESHOLD_METHODS) as ThresholdMethod[]).map(method => (
+                        <td key={method} className={`p-2 text-right ${settings.method === method ? 'text-amber-300 bg-amber-500/5' : ''}`}>{fmt(s.thresholds[method])}</td>
+                      ))}
+                      <td className="p-2 text-right">{s.anomalous}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <div className="grid grid-cols-2 gap-6">
+            {/* Indices & ratios */}
+            <div className="space-y-6">
+              <section>
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Additive Indices</h3>
+                {stats.indices.length === 0 ? (
+                  <p className="text-[11px] text-slate-500">None of the porphyry, epithermal or distal-halo suites has enough of its elements in this dataset.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {stats.indices.map(index => (
+                      <li key={index.definition.id} className="p-2 rounded-lg bg-slate-800/50 border border-slate-700 text-xs flex items-center justify-between gap-2">
+                        <div>
+                          <p className="text-slate-200">{index.definition.label}</p>
+                          <p className="text-[10px] text-slate-500">Mean of value ÷ threshold over {index.elements.join(', ')}; ≥ 1 is anomalous</p>
+                        </div>
+                        <span className="text-amber-300 font-mono shrink-0">{index.anomalous} anomalous</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+
+              <section>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Ratios</h3>
+                  <button
+                    onClick={() => setSettings(prev => ({ ...prev, ratios: [...prev.ratios, [dataset.elements[0] ?? '', dataset.elements[1] ?? dataset.elements[0] ?? '']] }))}
+                    disabled={dataset.elements.length === 0}
+                    className="px-2.5 py-1 text-xs rounded-lg bg-slate-700 hover:bg-slate-600 text-white flex items-center gap-1.5 disabled:opacity-50"
+                  >
+                    <Plus className="w-3.5 h-3.5" /> Add ratio
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {settings.ratios.map((pair, i) => {
+                    const result = stats.ratios.find(r => r.numerator.toLowerCase() === pair[0].toLowerCase() && r.denominator.toLowerCase() === pair[1].toLowerCase());
+                    const missing = missingRatioElements(pair);
+                    return (
+                      <div key={i} className="grid grid-cols-[1fr_auto_1fr_auto] gap-2 items-center">
+                        {([0, 1] as const).map(side => (
+                          <React.Fragment key={side}>
+                            <select value={pair[side]} onChange={(e) => updateRatio(i, side, e.target.value)} className={selectClass}>
+                              {!dataset.elements.includes(pair[side]) && <option value={pair[side]}>{pair[side]} (not in data)</option>}
+                              {dataset.elements.map(el => <option key={el} value={el}>{el}</option>)}
+                            </select>
+                            {side === 0 && <span className="text-slate-500 text-xs">/</span>}
+                          </React.Fragment>
+                        ))}
+                        <button onClick={() => setSettings(prev => ({ ...prev, ratios: prev.ratios.filter((_, k) => k !== i) }))} className="p-1.5 text-slate-500 hover:text-red-400" title="Remove">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                        <p className={`col-span-4 text-[10px] -mt-1 ${missing.length ? 'text-amber-400' : 'text-slate-500'}`}>
+                          {missing.length
+                            ? `${missing.join(' and ')} not in this dataset; the ratio is skipped.`
+                            : result ? `Median ${fmt(result.median)} · P95 ${fmt(result.p95)} · max ${fmt(result.max)}` : 'No sample has both values.'}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            </div>
+
+            {/* Sample map */}
+            <section>
+              <div className="flex items-center justify-between mb-3 gap-2">
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                  <MapPin className="w-3.5 h-3.5" /> Sample Map
+                </h3>
+                <select value={mapVariable} onChange={(e) => setMapVariable(e.target.value)} className={`${selectClass} max-w-[220px]`}>
+                  <optgroup label="Elements">
+                    {dataset.elements.map(el => <option key={el} value={`element:${el}`}>{el}</option>)}
+                  </optgroup>
+                  {stats.indices.length > 0 && (
+                    <optgroup label="Additive indices">
+                      {stats.indices.map(index => <option key={index.definition.id} value={`index:${index.definition.id}`}>{index.definition.label}</option>)}
+                    </optgroup>
+                  )}
+                  {stats.ratios.length > 0 && (
+                    <optgroup label="Ratios">
+                      {stats.ratios.map(r => <option key={r.label} value={`ratio:${r.label}`}>{r.label}</option>)}
+                    </optgroup>
+                  )}
+                </select>
+              </div>
+              {located.length === 0 ? (
+                <p className="text-[11px] text-slate-500">No samples have coordinates; map the X and Y columns to plot them.</p>
+              ) : (
+                <>
+                  <svg viewBox={`0 0 ${MAP_SIZE} ${MAP_SIZE}`} className="w-full bg-slate-950 border border-slate-700 rounded-lg">
+                    {located
+                      .map(p => ({ ...p, cls: p.value !== undefined && isFinite(p.value) ? classOf(p.value) : -1 }))
+                      .sort((a, b) => a.cls - b.cls)
+                      .map(({ s, value, cls }, i) => {
+                        const [cx, cy] = project(s.x as number, s.y as number);
+                        return (
+                          <circle key={`${s.id}-${i}`} cx={cx} cy={cy} r={cls >= 4 ? 4 : 3}
+                            fill={cls < 0 ? 'none' : CLASS_COLORS[cls]} stroke={cls < 0 ? '#475569' : '#0f172a'} strokeWidth={0.5}>
+                            <title>{s.id}: {fmt(value)}</title>
+                          </circle>
+                        );
+                      })}
+                  </svg>
+                  <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-[10px] text-slate-400">
+                    {CLASS_LABELS.map((label, i) => (
+                      <span key={label} className="flex items-center gap-1">
+                        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: CLASS_COLORS[i] }} />
+                        {label}{i > 0 && breaks[i - 1] !== undefined ? ` (${fmt(breaks[i - 1])})` : ''}
+                      </span>
+                    ))}
+                  </div>
+                </>
+              )}
+            </section>
+          </div>
+
+          {/* Flagged samples */}
+          <section>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3 flex items-center gap-2">
+              <Flag className="w-3.5 h-3.5" /> Anomalous Samples
+              <span className="font-normal normal-case tracking-normal text-slate-600">{stats.flagged.length} flagged; × = multiple of threshold</span>
+            </h3>
+            {stats.flagged.length === 0 ? (
+              <p className="text-[11px] text-slate-500">No samples exceed the selected thresholds.</p>
+            ) : (
+              <div className="overflow-x-auto border border-slate-700 rounded-lg custom-scrollbar max-h-64">
+                <table className="w-full text-[11px]">
+                  <thead className="bg-slate-800/80 text-slate-400 sticky top-0">
+                    <tr>
+                      <th className="p-2 text-left">Sample</th>
+                      <th className="p-2 text-right">X</th>
+                      <th className="p-2 text-right">Y</th>
+                      <th className="p-2 text-left">Elements above threshold</th>
+                      <th className="p-2 text-left">Indices</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.flagged.slice(0, MAX_FLAGGED_ROWS).map(f => (
+                      <tr key={f.index} className="border-t border-slate-800 text-slate-300 align-top">
+                        <td className="p-2 font-mono text-slate-100">{f.sample.id}</td>
+                        <td className="p-2 text-right font-mono">{fmt(f.sample.x)}</td>
+                        <td className="p-2 text-right font-mono">{fmt(f.sample.y)}</td>
+                        <td className="p-2">
+                          {f.elements.map(e => (
+                            <span key={e.element} className="inline-block mr-2 text-amber-300" title={`${fmt(e.value)} ppm`}>
+                              {e.element} {e.times.toFixed(1)}×
+                            </span>
+                          ))}
+                        </td>
+                        <td className="p-2 text-slate-400">{f.indices.map(i => `${i.label} ${i.value.toFixed(2)}`).join(', ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {stats.flagged.length > MAX_FLAGGED_ROWS && (
+                  <p className="p-2 text-[10px] text-slate-500 border-t border-slate-800">{stats.flagged.length - MAX_FLAGGED_ROWS} further samples not listed.</p>
+                )}
+              </div>
+            )}
+          </section>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-between items-center p-4 border-t border-slate-800">
+          <p className="text-[11px] text-slate-500">The thresholds, indices, ratios and flagged samples are sent with the analysis as computed facts.</p>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-sm text-slate-400 hover:text-white">
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(file.id, settings)}
+              className="px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white text-sm rounded-lg flex items-center gap-2"
+            >
+              <Check className="w-4 h-4" /> Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
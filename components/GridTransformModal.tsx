@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { X, Waves, Check, AlertCircle, Loader2 } from 'lucide-react';
+import { GridTransformId, GridTransformParams, UploadedFile } from '../types';
+import { GRID_TRANSFORMS } from '../services/gridTransforms';
+import { createTransformOutputs, GridOutput, runGridTransforms } from '../services/griddingClient';
+import { isGeographicCrs } from '../services/crs';
+
+interface GridTransformModalProps {
+  source: UploadedFile | null;
+  onComplete: (sourceId: string, outputs: GridOutput[]) => void;
+  onClose: () => void;
+}
+
+const DEFAULT_TRANSFORMS: GridTransformId[] = ['rtp', 'tilt', 'analytic-signal'];
+
+export const GridTransformModal: React.FC<GridTransformModalProps> = ({ source, onComplete, onClose }) => {
+  const grid = source?.geophysics?.grid;
+  const [selected, setSelected] = useState<Set<GridTransformId>>(new Set(DEFAULT_TRANSFORMS));
+  const [params, setParams] = useState<GridTransformParams>({ inclination: -30, declination: 0, height: 100, reduceToPole: true });
+  const [isComputing, setIsComputing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    // Continue up by about five cells unless the user has a reason to choose otherwise
+    if (grid) setParams(prev => ({ ...prev, height: Number((grid.dx * 5).toPrecision(2)) }));
+  }, [source?.id]);
+
+  if (!source || !grid) return null;
+
+  const crs = source.geophysics?.crs;
+  const toggle = (id: GridTransformId) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+  const update = (patch: Partial<GridTransformParams>) => setParams(prev => ({ ...prev, ...patch }));
+
+  // Keep the order of the list, so outputs are added predictably
+  const transforms = (Object.keys(GRID_TRANSFORMS) as GridTransformId[]).filter(t => selected.has(t));
+  const usesField = params.reduceToPole || selected.has('rtp');
+
+  const handleCompute = async () => {
+    setIsComputing(true);
+    setError(null);
+    try {
+      const grids = await runGridTransforms(grid, transforms, params);
+      onComplete(source.id, await createTransformOutputs(source, transforms, params, grids));
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || "Could not transform the grid.");
+    } finally {
+      setIsComputing(false);
+    }
+  };
+
+  const inputClass = "w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-slate-200 focus:ring-1 focus:ring-purple-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-2xl max-h-[90vh] flex flex-col shadow-2xl animate-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800 bg-slate-900/50">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <Waves className="w-6 h-6 text-purple-400" />
+              Magnetic Grid Transforms
+            </h2>
+            <p className="text-sm text-slate-400 mt-1 truncate max-w-xl">{source.file?.name} · {grid.ncols} × {grid.nrows} @ {grid.dx}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="overflow-y-auto p-6 space-y-6 custom-scrollbar">
+          {isGeographicCrs(crs) && (
+            <div className="p-3 bg-amber-900/20 border border-amber-500/30 rounded flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 text-amber-400 shrink-0 mt-0.5" />
+              <p className="text-xs text-amber-200">This grid is in degrees. Derivatives and continuation heights are taken per grid unit, so reproject the grid to metres (e.g. UTM) for meaningful results.</p>
+            </div>
+          )}
+
+          <section>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Transforms</h3>
+            <ul className="space-y-2">
+              {(Object.keys(GRID_TRANSFORMS) as GridTransformId[]).map(id => (
+                <li key={id} className={`p-3 rounded-lg border flex items-start gap-3 ${selected.has(id) ? 'bg-purple-500/5 border-purple-500/30' : 'bg-slate-800/50 border-slate-700'}`}>
+                  <input type="checkbox" checked={selected.has(id)} onChange={() => toggle(id)} className="accent-purple-500 mt-0.5" />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-slate-200">{GRID_TRANSFORMS[id].label}</p>
+                    <p className="text-[11px] text-slate-500 mt-0.5">{GRID_TRANSFORMS[id].description}</p>
+                  </div>
+                  {id === 'upward' && selected.has(id) && (
+                    <label className="text-[11px] text-slate-400 flex flex-col gap-1 w-28 shrink-0">
+                      Height
+                      <input type="number" min={0} value={params.height} onChange={(e) => update({ height: Number(e.target.value) })} className={inputClass} />
+                    </label>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Geomagnetic Field</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-[11px] text-slate-400 flex flex-col gap-1">
+                Inclination (°, positive down)
+                <input type="number" min={-90} max={90} value={params.inclination} onChange={(e) => update({ inclination: Number(e.target.value) })} className={inputClass} disabled={!usesField} />
+              </label>
+              <label className="text-[11px] text-slate-400 flex flex-col gap-1">
+                Declination (°, east of north)
+                <input type="number" min={-180} max={180} value={params.declination} onChange={(e) => update({ declination: Number(e.target.value) })} className={inputClass} disabled={!usesField} />
+              </label>
+            </div>
+            <label className="text-[11px] text-slate-400 flex items-center gap-2 mt-3">
+              <input type="checkbox" checked={params.reduceToPole} onChange={(e) => update({ reduceToPole: e.target.checked })} className="accent-purple-500" />
+              Reduce to pole before taking derivatives and continuing upward
+            </label>
+            <p className="text-[11px] text-slate-500 mt-2">
+              Take the field at the survey date from the IGRF (e.g. the NOAA calculator). Magnetisation is assumed to be induced; near the magnetic equator the amplitude correction is limited to keep the reduction stable.
+            </p>
+          </section>
+
+          {error && (
+            <div className="p-3 bg-red-900/30 border border-red-500/30 rounded flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+              <p className="text-xs text-red-200">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-between items-center p-4 border-t border-slate-800">
+          <p className="text-[11px] text-slate-500">Each result is added as a grid input, shown as a map layer and sent with the analysis.</p>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-sm text-slate-400 hover:text-white">
+              Cancel
+            </button>
+            <button
+              onClick={handleCompute}
+              disabled={transforms.length === 0 || isComputing}
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white text-sm rounded-lg flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isComputing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+              Compute {transforms.length}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
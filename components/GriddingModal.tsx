@@ -0,0 +1,297 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Grid3x3, Check, AlertCircle, Loader2, RefreshCw } from 'lucide-react';
+import { GriddingParams, InterpolationMethod, UploadedFile, VariogramModel, VariogramModelType } from '../types';
+import { gridLayout, suggestGridSpacing, VariogramBin, variogramValue } from '../services/gridding';
+import {
+  computeVariogram, createGriddedOutput, extractGridPoints, griddableVariables, GridOutput, INTERPOLATION_METHODS, runGridding, VARIOGRAM_MODELS
+} from '../services/griddingClient';
+
+interface GriddingModalProps {
+  source: UploadedFile | null;
+  onComplete: (sourceId: string, output: GridOutput) => void;
+  onClose: () => void;
+}
+
+const PLOT_W = 360;
+const PLOT_H = 180;
+const PAD = 28;
+
+const fmt = (v: number) => (isFinite(v) ? Number(v.toPrecision(4)).toString() : '—');
+
+// Experimental semivariogram (dots sized by pair count) with the model curve over it
+const VariogramPlot: React.FC<{ bins: VariogramBin[]; model?: VariogramModel }> = ({ bins, model }) => {
+  const maxLag = Math.max(...bins.map(b => b.lag), model ? model.range : 0) * 1.05;
+  const maxGamma = Math.max(...bins.map(b => b.gamma), model ? model.nugget + model.sill : 0) * 1.1 || 1;
+  const maxPairs = Math.max(...bins.map(b => b.pairs));
+  const sx = (h: number) => PAD + (h / maxLag) * (PLOT_W - PAD - 8);
+  const sy = (g: number) => PLOT_H - PAD + 8 - (g / maxGamma) * (PLOT_H - PAD);
+  const curve = model
+    ? Array.from({ length: 61 }, (_, i) => (i / 60) * maxLag).map((h, i) => `${i ? 'L' : 'M'}${sx(h).toFixed(1)},${sy(variogramValue(model, h)).toFixed(1)}`).join(' ')
+    : '';
+
+  return (
+    <svg viewBox={`0 0 ${PLOT_W} ${PLOT_H}`} className="w-full bg-slate-950 border border-slate-700 rounded-lg">
+      <line x1={PAD} y1={sy(0)} x2={PLOT_W - 8} y2={sy(0)} stroke="#475569" strokeWidth={1} />
+      <line x1={PAD} y1={sy(0)} x2={PAD} y2={8} stroke="#475569" strokeWidth={1} />
+      <text x={PLOT_W - 8} y={PLOT_H - 4} textAnchor="end" className="fill-slate-500" fontSize={9}>lag {fmt(maxLag)}</text>
+      <text x={4} y={14} className="fill-slate-500" fontSize={9}>γ {fmt(maxGamma)}</text>
+      {model && <path d={curve} fill="none" stroke="#f59e0b" strokeWidth={1.5} />}
+      {bins.map((b, i) => (
+        <circle key={i} cx={sx(b.lag)} cy={sy(b.gamma)} r={2 + 3 * Math.sqrt(b.pairs / maxPairs)} fill="#38bdf8" fillOpacity={0.8}>
+          <title>lag {fmt(b.lag)}: γ {fmt(b.gamma)} ({b.pairs} pairs)</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export const GriddingModal: React.FC<GriddingModalProps> = ({ source, onComplete, onClose }) => {
+  const variables = source ? griddableVariables(source) : [];
+  const [variable, setVariable] = useState('');
+  const [params, setParams] = useState<GriddingParams>({
+    method: 'idw', cellSize: 1, searchRadius: 10, maxNeighbours: 16, power: 2, logTransform: false
+  });
+  const [modelType, setModelType] = useState<VariogramModelType>('spherical');
+  const [bins, setBins] = useState<VariogramBin[]>([]);
+  const [isFitting, setIsFitting] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const points = useMemo(() => source && variable ? extractGridPoints(source, variable) : [], [source?.id, variable]);
+
+  useEffect(() => {
+    setVariable(variables[0] ?? '');
+    setBins([]);
+    setError(null);
+    // Geochemistry is close to lognormal; geophysical channels are gridded as measured
+    setParams(prev => ({ ...prev, method: 'idw', logTransform: !!source?.geochem, variogram: undefined }));
+  }, [source?.id]);
+
+  // New spacing defaults for each variable, since its located points can differ
+  useEffect(() => {
+    if (points.length === 0) return;
+    setParams(prev => ({ ...prev, ...suggestGridSpacing(points), variogram: undefined }));
+    setBins([]);
+  }, [points]);
+
+  const fitVariogram = async (type = modelType) => {
+    setIsFitting(true);
+    setError(null);
+    try {
+      const { bins, fitted } = await computeVariogram(points, params.logTransform, type);
+      setBins(bins);
+      setParams(prev => ({ ...prev, variogram: fitted }));
+      if (!fitted) setError("Too few point pairs to fit a variogram.");
+    } catch (e: any) {
+      setError(e.message || "Could not compute the variogram.");
+    } finally {
+      setIsFitting(false);
+    }
+  };
+
+  // Kriging needs a variogram: fit one as soon as it is chosen, and again when the data change
+  useEffect(() => {
+    if (params.method === 'kriging' && points.length >= 3 && !isFitting) fitVariogram();
+  }, [params.method, points, params.logTransform]);
+
+  if (!source) return null;
+
+  const layout = points.length && params.cellSize > 0 ? gridLayout(points, params.cellSize) : null;
+  const nodeCount = layout ? layout.ncols * layout.nrows : 0;
+  const canGrid = points.length >= 3 && params.cellSize > 0 && params.searchRadius > 0 &&
+    (params.method !== 'kriging' || !!params.variogram) && progress === null;
+
+  const update = (patch: Partial<GriddingParams>) => setParams(prev => ({ ...prev, ...patch }));
+  const updateVariogram = (patch: Partial<VariogramModel>) =>
+    setParams(prev => prev.variogram ? { ...prev, variogram: { ...prev.variogram, ...patch } } : prev);
+
+  const handleGrid = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    setError(null);
+    try {
+      const { grid, pointCount } = await runGridding(points, params, { onProgress: setProgress, signal: controller.signal });
+      onComplete(source.id, await createGriddedOutput(source, variable, params, grid, pointCount));
+    } catch (e: any) {
+      if (e.name !== 'AbortError') setError(e.message || "Gridding failed.");
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const inputClass = "w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-slate-200 focus:ring-1 focus:ring-sky-500 outline-none";
+  const numberInput = (value: number, onChange: (v: number) => void, step = 'any') => (
+    <input type="number" min={0} step={step} value={Number(value.toPrecision(6))} onChange={(e) => onChange(Number(e.target.value))} className={inputClass} />
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-3xl max-h-[90vh] flex flex-col shadow-2xl animate-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800 bg-slate-900/50">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <Grid3x3 className="w-6 h-6 text-sky-400" />
+              Grid Point Data
+            </h2>
+            <p className="text-sm text-slate-400 mt-1 truncate max-w-xl">{source.file?.name} · {points.length} located values</p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="overflow-y-auto p-6 space-y-6 custom-scrollbar">
+          <section>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Variable & Method</h3>
+            <div className="grid grid-cols-3 gap-3 mb-3">
+              <label className="text-[11px] text-slate-400 flex flex-col gap-1">
+                Variable
+                <select value={variable} onChange={(e) => setVariable(e.target.value)} className={inputClass}>
+                  {variables.map(v => <option key={v} value={v}>{v}</option>)}
+                </select>
+              </label>
+              <label className="text-[11px] text-slate-400 flex items-center gap-2 col-span-2 mt-4">
+                <input type="checkbox" checked={params.logTransform} onChange={(e) => update({ logTransform: e.target.checked, variogram: undefined })} className="accent-sky-500" />
+                Interpolate log10 values (for skewed data such as assays); values ≤ 0 are left out
+              </label>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(INTERPOLATION_METHODS) as InterpolationMethod[]).map(method => (
+                <button
+                  key={method}
+                  onClick={() => update({ method })}
+                  className={`p-2 rounded-lg border text-left transition-colors ${params.method === method ? 'bg-sky-500/10 border-sky-500/40' : 'bg-slate-800/50 border-slate-700 hover:border-slate-500'}`}
+                >
+                  <p className={`text-xs font-medium ${params.method === method ? 'text-sky-300' : 'text-slate-200'}`}>{INTERPOLATION_METHODS[method].label}</p>
+                  <p className="text-[10px] text-slate-500 mt-0.5">{INTERPOLATION_METHODS[method].description}</p>
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Grid</h3>
+            <div className="grid grid-cols-4 gap-3">
+              <label className="text-[11px] text-slate-400 flex flex-col gap-1">
+                Cell size
+                {numberInput(params.cellSize, v => update({ cellSize: v }))}
+              </label>
+              <label className="text-[11px] text-slate-400 flex flex-col gap-1">
+                Search radius
+                {numberInput(params.searchRadius, v => update({ searchRadius: v }))}
+              </label>
+              {params.method !== 'natural-neighbour' && (
+                <label className="text-[11px] text-slate-400 flex flex-col gap-1">
+                  Max. neighbours
+                  {numberInput(params.maxNeighbours, v => update({ maxNeighbours: Math.max(1, Math.round(v)) }), '1')}
+                </label>
+              )}
+              {params.method === 'idw' && (
+                <label className="text-[11px] text-slate-400 flex flex-col gap-1">
+                  Power
+                  {numberInput(params.power, v => update({ power: v }), '0.5')}
+                </label>
+              )}
+            </div>
+            <p className="text-[11px] text-slate-500 mt-2">
+              {layout ? `${layout.ncols} × ${layout.nrows} nodes (${nodeCount.toLocaleString()}), in the units of the source coordinates. ` : ''}
+              Nodes farther than the search radius from every point are left blank.
+            </p>
+          </section>
+
+          {params.method === 'kriging' && (
+            <section>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Variogram</h3>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={modelType}
+                    onChange={(e) => { setModelType(e.target.value as VariogramModelType); fitVariogram(e.target.value as VariogramModelType); }}
+                    className={`${inputClass} w-32`}
+                  >
+                    {(Object.keys(VARIOGRAM_MODELS) as VariogramModelType[]).map(t => <option key={t} value={t}>{VARIOGRAM_MODELS[t]}</option>)}
+                  </select>
+                  <button
+                    onClick={() => fitVariogram()}
+                    disabled={isFitting || points.length < 3}
+                    className="px-2.5 py-1.5 text-xs rounded-lg bg-slate-700 hover:bg-slate-600 text-white flex items-center gap-1.5 disabled:opacity-50"
+                  >
+                    {isFitting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />} Fit
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-[2fr_1fr] gap-4 items-start">
+                {bins.length > 0
+                  ? <VariogramPlot bins={bins} model={params.variogram} />
+                  : <p className="text-[11px] text-slate-500">{isFitting ? 'Computing the experimental variogram…' : 'No variogram yet.'}</p>}
+                {params.variogram && (
+                  <div className="space-y-2">
+                    <label className="text-[11px] text-slate-400 flex flex-col gap-1">
+                      Nugget
+                      {numberInput(params.variogram.nugget, v => updateVariogram({ nugget: v }))}
+                    </label>
+                    <label className="text-[11px] text-slate-400 flex flex-col gap-1">
+                      Partial sill
+                      {numberInput(params.variogram.sill, v => updateVariogram({ sill: v }))}
+                    </label>
+                    <label className="text-[11px] text-slate-400 flex flex-col gap-1">
+                      Range
+                      {numberInput(params.variogram.range, v => updateVariogram({ range: v }))}
+                    </label>
+                  </div>
+                )}
+              </div>
+              <p className="text-[11px] text-slate-500 mt-2">
+                Dots: semivariance of point pairs by separation{params.logTransform ? ' (log10 values)' : ''}, sized by pair count. The line is the model used for kriging; edit it to override the fit.
+              </p>
+            </section>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-900/30 border border-red-500/30 rounded flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+              <p className="text-xs text-red-200">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-between items-center p-4 border-t border-slate-800">
+          <p className="text-[11px] text-slate-500">
+            {progress !== null
+              ? `Gridding… ${Math.round(progress * 100)}%`
+              : 'The grid is added as an ASCII grid input, shown as a map layer and sent with the analysis.'}
+          </p>
+          <div className="flex gap-2">
+            <button onClick={progress !== null ? () => abortRef.current?.abort() : handleClose} className="px-4 py-2 text-sm text-slate-400 hover:text-white">
+              Cancel
+            </button>
+            <button
+              onClick={handleGrid}
+              disabled={!canGrid}
+              className="px-4 py-2 bg-sky-600 hover:bg-sky-500 text-white text-sm rounded-lg flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {progress !== null ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+              Create Grid
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,33 @@
 import React, { useMemo, useState, useEffect, useRef } from 'react';
-import { TargetArea } from '../types';
-import { X, MapPin, Activity, AlignLeft, Info, Edit2, Save, XCircle, ZoomIn, ZoomOut, RotateCcw, BrainCircuit, Move } from 'lucide-react';
+import { Georeference, MapAnnotation, MeasurementKind, TargetArea, Zone } from '../types';
+import { computeProbabilitySurface, renderSurfaceImage, surfaceLineColour } from '../services/probabilitySurface';
+import { contourSurface, DEFAULT_CONTOUR_LEVELS } from '../services/contours';
+import { annotationInFrame, createAnnotation, formatDistance, formatMeasurement, MEASUREMENT_KINDS, metresPerFrameUnit, northBearing, scaleBarLength } from '../services/measurements';
+import { ALTERATION_LAYER_ID, DEFAULT_LAYER_STYLES, MAP_LAYER_KINDS, ResolvedMapLayer, SURFACE_LAYER_ID, TARGETS_LAYER_ID } from '../services/mapLayers';
+import { formatWorldCoordinate, outputCrs, relativeToCrs } from '../services/georeference';
+import { crsLabel } from '../services/crs';
+import { clampToFrame, targetOrigin, TargetPatch } from '../services/targetEdits';
+import { cleanPolygon, formatGroundArea, polygonArea, ZONE_COLORS, zoneGroundArea, ZonePatch } from '../services/zones';
+import { X, MapPin, Activity, AlignLeft, Info, Edit2, Save, XCircle, ZoomIn, ZoomOut, RotateCcw, BrainCircuit, Move, PenTool, Trash2, Hexagon, Ruler, LandPlot, Navigation2, ChartSpline, Check } from 'lucide-react';
 
 interface HeatmapProps {
   targetAreas: TargetArea[];
   width: number;
   height: number;
-  onUpdateTarget: (id: number, newDescription: string) => void;
+  onUpdateTarget: (id: number, patch: TargetPatch) => void;
+  onAddTarget?: (x: number, y: number) => number; // returns the new target's id
+  onDeleteTarget?: (id: number) => void;
+  zones?: Zone[]; // alteration zones; those with an outline are drawn in the alteration layer
+  onAddZone?: (polygon: [number, number][]) => number; // returns the new zone's index
+  onUpdateZone?: (index: number, patch: ZonePatch) => void;
+  onDeleteZone?: (index: number) => void;
+  annotations?: MapAnnotation[]; // saved measurements, drawn in the measurements layer
+  onAnnotationsChange?: (annotations: MapAnnotation[]) => void;
+  section?: { line: [number, number][]; buffer: number } | null; // cross-section line, buffer in ground units
+  onSectionChange?: (line: [number, number][]) => void;
+  georeference?: Georeference;
+  displayCrs?: string; // CRS for coordinate readouts; defaults to the georeference's own
+  stack?: ResolvedMapLayer[]; // layers to draw, bottom first; defaults to the surface under the targets
 }
 
 interface Cluster {
@@ -17,11 +38,39 @@ interface Cluster {
   isCluster: boolean;
 }
 
-export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, onUpdateTarget }) => {
+const DEFAULT_STACK: ResolvedMapLayer[] = [
+  { config: { id: SURFACE_LAYER_ID, kind: 'surface', visible: true, opacity: 0.6 }, source: { kind: 'surface', id: SURFACE_LAYER_ID, label: MAP_LAYER_KINDS.surface } },
+  { config: { id: ALTERATION_LAYER_ID, kind: 'alteration', visible: true, opacity: 0.8 }, source: { kind: 'alteration', id: ALTERATION_LAYER_ID, label: MAP_LAYER_KINDS.alteration } },
+  { config: { id: TARGETS_LAYER_ID, kind: 'targets', visible: true, opacity: 1 }, source: { kind: 'targets', id: TARGETS_LAYER_ID, label: MAP_LAYER_KINDS.targets } }
+];
+
+const NO_ZONES: Zone[] = [];
+const NO_ANNOTATIONS: MapAnnotation[] = [];
+
+// Alteration types offered when naming a zone
+const ZONE_TYPES = Object.keys(ZONE_COLORS).map(t => t.replace(/\b\w/g, c => c.toUpperCase()));
+
+export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, onUpdateTarget, onAddTarget, onDeleteTarget, zones = NO_ZONES, onAddZone, onUpdateZone, onDeleteZone, annotations = NO_ANNOTATIONS, onAnnotationsChange, section, onSectionChange, georeference, displayCrs, stack = DEFAULT_STACK }) => {
   const [selectedTargetId, setSelectedTargetId] = useState<number | null>(null);
   const [hoveredCluster, setHoveredCluster] = useState<Cluster | null>(null);
-  const [isEditing, setIsEditing] = useState(false);
-  const [editDescription, setEditDescription] = useState("");
+  const [editingField, setEditingField] = useState<'description' | 'reasoning' | null>(null);
+  const [editText, setEditText] = useState("");
+  const [probabilityDraft, setProbabilityDraft] = useState<number | null>(null);
+
+  // Edit mode: with the target tool, clicking the map adds a target and markers can be dragged;
+  // with the zone tool, clicks outline a new zone and the selected zone's vertices can be dragged
+  const [editMode, setEditMode] = useState(false);
+  const [editTool, setEditTool] = useState<'target' | 'zone'>('target');
+  const [draggedTarget, setDraggedTarget] = useState<{ id: number; x: number; y: number } | null>(null);
+  const [selectedZoneIndex, setSelectedZoneIndex] = useState<number | null>(null);
+  const [draftZone, setDraftZone] = useState<[number, number][] | null>(null);
+  const [draggedVertex, setDraggedVertex] = useState<{ zone: number; vertex: number; x: number; y: number } | null>(null);
+  const [zoneTypeDraft, setZoneTypeDraft] = useState<string | null>(null);
+
+  // Measuring: clicks add vertices to a ruler line, area outline or section line until it is finished
+  const [measureTool, setMeasureTool] = useState<MeasurementKind | 'section' | null>(null);
+  const [measurePoints, setMeasurePoints] = useState<[number, number][]>([]);
+  const [isMeasureDone, setIsMeasureDone] = useState(false);
   
   // Aspect ratio management to ensure 0-100 coordinate space fits nicely
   const aspect = width / height;
@@ -47,40 +96,174 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const dragDistanceRef = useRef(0);
+
+  // Cursor position in the 0-100 space, for the coordinate readout
+  const [cursor, setCursor] = useState<{ x: number; y: number } | null>(null);
   
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  // Targets as drawn, with the one being dragged at its new position until it is dropped
+  const liveTargets = useMemo(() => draggedTarget
+    ? targetAreas.map(t => t.id === draggedTarget.id ? { ...t, x: draggedTarget.x, y: draggedTarget.y } : t)
+    : targetAreas
+  , [targetAreas, draggedTarget]);
+
+  // Zones as drawn, with the vertex being dragged at its new position
+  const liveZones = useMemo(() => draggedVertex
+    ? zones.map((z, i) => i === draggedVertex.zone && z.polygon
+        ? { ...z, polygon: z.polygon.map((p, j): [number, number] => j === draggedVertex.vertex ? [draggedVertex.x, draggedVertex.y] : p) }
+        : z)
+    : zones
+  , [zones, draggedVertex]);
+
+  // Larger zones first, so nested ones stay on top and can still be clicked
+  const zoneDrawOrder = useMemo(() => liveZones
+    .map((z, i) => ({ i, area: z.polygon ? polygonArea(z.polygon) : 0 }))
+    .filter(({ i }) => liveZones[i].polygon)
+    .sort((a, b) => b.area - a.area)
+    .map(({ i }) => i)
+  , [liveZones]);
+
+  const selectedZone = selectedZoneIndex !== null ? liveZones[selectedZoneIndex] ?? null : null;
+
   // Use ID for selection state
   const selectedTarget = useMemo(() => 
-    targetAreas.find(t => t.id === selectedTargetId) || null
-  , [targetAreas, selectedTargetId]);
+    liveTargets.find(t => t.id === selectedTargetId) || null
+  , [liveTargets, selectedTargetId]);
+
+  // Selected target's position in the display CRS, as shown in the panel and copied from it
+  const selectedLocation = selectedTarget && (georeference
+    ? `${relativeToCrs(georeference, selectedTarget.x, selectedTarget.y, displayCrs).join(', ')} (${outputCrs(georeference, displayCrs) || 'CRS not declared'})`
+    : `${selectedTarget.x}, ${selectedTarget.y}`);
+  const [copiedLocation, setCopiedLocation] = useState<string | null>(null);
+
+  const copyLocation = (location: string) => {
+    navigator.clipboard.writeText(location)
+      .then(() => setCopiedLocation(location))
+      .catch(error => console.error("Could not copy the target coordinates:", error));
+  };
 
   // Reset editing state when selection changes
   useEffect(() => {
-    setIsEditing(false);
-    if (selectedTarget) {
-      setEditDescription(selectedTarget.description);
-    }
-  }, [selectedTargetId, selectedTarget]);
+    setEditingField(null);
+    setProbabilityDraft(null);
+    if (selectedTargetId !== null) setSelectedZoneIndex(null);
+  }, [selectedTargetId]);
+
+  useEffect(() => {
+    setZoneTypeDraft(null);
+    if (selectedZoneIndex !== null) setSelectedTargetId(null);
+  }, [selectedZoneIndex]);
+
+  // An unfinished outline is dropped when leaving the zone tool
+  useEffect(() => {
+    if (!editMode || editTool !== 'zone') setDraftZone(null);
+  }, [editMode, editTool]);
+
+  // Editing and measuring both take clicks on the map, so only one is on at a time
+  useEffect(() => {
+    setMeasurePoints([]);
+    setIsMeasureDone(false);
+    if (measureTool) setEditMode(false);
+  }, [measureTool]);
+
+  useEffect(() => {
+    if (editMode) setMeasureTool(null);
+  }, [editMode]);
 
   useEffect(() => {
-    if (isEditing && textareaRef.current) {
+    if (editingField && textareaRef.current) {
       textareaRef.current.focus();
     }
-  }, [isEditing]);
+  }, [editingField]);
+
+  const startEditing = (field: 'description' | 'reasoning') => {
+    if (!selectedTarget) return;
+    setEditText(selectedTarget[field] ?? "");
+    setEditingField(field);
+  };
 
   const handleSave = () => {
-    if (selectedTarget) {
-      onUpdateTarget(selectedTarget.id, editDescription);
-      setIsEditing(false);
+    if (selectedTarget && editingField) {
+      onUpdateTarget(selectedTarget.id, { [editingField]: editText });
+      setEditingField(null);
     }
   };
 
   const handleCancel = () => {
-    setIsEditing(false);
-    if (selectedTarget) {
-      setEditDescription(selectedTarget.description);
+    setEditingField(null);
+  };
+
+  const commitProbability = () => {
+    if (selectedTarget && probabilityDraft !== null && probabilityDraft !== selectedTarget.probability) {
+      onUpdateTarget(selectedTarget.id, { probability: probabilityDraft });
+    }
+    setProbabilityDraft(null);
+  };
+
+  const finishDraftZone = () => {
+    const polygon = draftZone ? cleanPolygon(draftZone) : [];
+    if (polygon.length >= 3 && onAddZone) setSelectedZoneIndex(onAddZone(polygon));
+    setDraftZone(null);
+  };
+
+  const finishMeasurement = () => {
+    // A double-click lands its point twice
+    const points = measurePoints.filter((p, i) => i === 0 || Math.hypot(p[0] - measurePoints[i - 1][0], p[1] - measurePoints[i - 1][1]) > 1e-6);
+    if (points.length < (measureTool === 'area' ? 3 : 2)) return;
+    if (measureTool === 'section') {
+      onSectionChange?.(points);
+      setMeasureTool(null);
+      return;
+    }
+    setMeasurePoints(points);
+    setIsMeasureDone(true);
+  };
+
+  const clearMeasurement = () => {
+    setMeasurePoints([]);
+    setIsMeasureDone(false);
+  };
+
+  const saveMeasurement = () => {
+    if (!measureTool || measureTool === 'section' || !onAnnotationsChange) return;
+    onAnnotationsChange([...annotations, createAnnotation(measureTool, measurePoints, annotations, georeference)]);
+    clearMeasurement();
+  };
+
+  // Enter closes the outline or measurement being drawn, Escape abandons it
+  useEffect(() => {
+    if (!draftZone && !(measureTool && measurePoints.length && !isMeasureDone)) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setDraftZone(null);
+        clearMeasurement();
+      } else if (e.key === 'Enter') {
+        if (draftZone) finishDraftZone();
+        else finishMeasurement();
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  const commitZoneType = () => {
+    if (selectedZoneIndex !== null && selectedZone && onUpdateZone && zoneTypeDraft?.trim() && zoneTypeDraft.trim() !== selectedZone.type) {
+      onUpdateZone(selectedZoneIndex, { type: zoneTypeDraft.trim() });
     }
+    setZoneTypeDraft(null);
+  };
+
+  const handleDeleteZone = () => {
+    if (selectedZoneIndex === null || !onDeleteZone) return;
+    onDeleteZone(selectedZoneIndex);
+    setSelectedZoneIndex(null);
+  };
+
+  const handleDelete = () => {
+    if (!selectedTarget || !onDeleteTarget) return;
+    onDeleteTarget(selectedTarget.id);
+    setSelectedTargetId(null);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -150,8 +333,43 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
       dragDistanceRef.current = 0;
   };
 
+  // Mouse position in the 0-100 space
+  const toMapPoint = (e: React.MouseEvent, container: Element) => {
+      const rect = container.getBoundingClientRect();
+      return {
+        x: viewBox.x + ((e.clientX - rect.left) / width) * viewBox.w,
+        y: viewBox.y + ((e.clientY - rect.top) / height) * viewBox.h
+      };
+  };
+
+  const handleTargetMouseDown = (target: TargetArea, e: React.MouseEvent) => {
+      if (!editMode || editTool !== 'target' || e.button !== 0) return;
+      e.stopPropagation(); // move the target, not the map
+      setDraggedTarget({ id: target.id, x: target.x, y: target.y });
+      setDragStart({ x: e.clientX, y: e.clientY });
+      dragDistanceRef.current = 0;
+  };
+
+  const handleVertexMouseDown = (zone: number, vertex: number, e: React.MouseEvent) => {
+      if (e.button !== 0) return;
+      e.stopPropagation();
+      const [x, y] = liveZones[zone].polygon![vertex];
+      setDraggedVertex({ zone, vertex, x, y });
+      setDragStart({ x: e.clientX, y: e.clientY });
+      dragDistanceRef.current = 0;
+  };
+
+  const handleZoneClick = (index: number, e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (dragDistanceRef.current > 5) return;
+      setSelectedZoneIndex(index);
+  };
+
   const handleMouseMove = (e: React.MouseEvent) => {
-      if (!isDragging) return;
+      const point = toMapPoint(e, e.currentTarget);
+      setCursor(point);
+
+      if (!isDragging && !draggedTarget && !draggedVertex) return;
       
       const dx = e.clientX - dragStart.x;
       const dy = e.clientY - dragStart.y;
@@ -160,6 +378,17 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
       
       if (dx === 0 && dy === 0) return;
 
+      if (draggedTarget) {
+          setDraggedTarget({ id: draggedTarget.id, x: clampToFrame(point.x), y: clampToFrame(point.y) });
+          setDragStart({ x: e.clientX, y: e.clientY });
+          return;
+      }
+      if (draggedVertex) {
+          setDraggedVertex({ ...draggedVertex, x: clampToFrame(point.x), y: clampToFrame(point.y) });
+          setDragStart({ x: e.clientX, y: e.clientY });
+          return;
+      }
+
       const scaleX = viewBox.w / width;
       const scaleY = viewBox.h / height;
 
@@ -177,11 +406,42 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
 
   const handleMouseUp = () => {
     setIsDragging(false);
+    if (draggedTarget) {
+      // A press without movement is a click that selects the target, not a move
+      if (dragDistanceRef.current >= 5) onUpdateTarget(draggedTarget.id, { x: draggedTarget.x, y: draggedTarget.y });
+      setDraggedTarget(null);
+      setHoveredCluster(null);
+    }
+    if (draggedVertex) {
+      const polygon = liveZones[draggedVertex.zone]?.polygon;
+      if (polygon && dragDistanceRef.current >= 5) onUpdateZone?.(draggedVertex.zone, { polygon });
+      setDraggedVertex(null);
+    }
   };
 
-  const handleContainerClick = () => {
-    if (dragDistanceRef.current < 5) {
+  const handleContainerClick = (e: React.MouseEvent) => {
+    if (dragDistanceRef.current >= 5) return;
+    const point = toMapPoint(e, e.currentTarget);
+    if (measureTool) {
+      // A click after a finished measurement starts the next one
+      setMeasurePoints(isMeasureDone ? [[point.x, point.y]] : [...measurePoints, [point.x, point.y]]);
+      setIsMeasureDone(false);
+    } else if (editMode && editTool === 'zone' && onAddZone) {
+      const vertex: [number, number] = [clampToFrame(point.x), clampToFrame(point.y)];
+      // Clicking back on the first vertex closes the outline
+      const first = draftZone?.[0];
+      const closeEnough = 8 * (viewBox.w / width);
+      if (first && draftZone!.length >= 3 && Math.hypot(vertex[0] - first[0], vertex[1] - first[1]) <= closeEnough) {
+        finishDraftZone();
+      } else {
+        setDraftZone([...(draftZone ?? []), vertex]);
+        setSelectedZoneIndex(null);
+      }
+    } else if (editMode && editTool === 'target' && onAddTarget) {
+      setSelectedTargetId(onAddTarget(point.x, point.y));
+    } else {
       setSelectedTargetId(null);
+      setSelectedZoneIndex(null);
     }
   };
 
@@ -209,10 +469,14 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
 
   // --- Clustering Logic ---
   const clusters = useMemo(() => {
+    // Every target stays on its own while editing, so each one can be picked up
+    if (editMode) {
+      return liveTargets.map(t => ({ id: `point-${t.id}`, x: t.x, y: t.y, points: [t], isCluster: false }));
+    }
     const threshold = viewBox.w * 0.08; 
     
     const result: Cluster[] = [];
-    const sortedPoints = [...targetAreas].sort((a, b) => a.x - b.x);
+    const sortedPoints = [...liveTargets].sort((a, b) => a.x - b.x);
     const used = new Set<number>();
 
     for (let i = 0; i < sortedPoints.length; i++) {
@@ -224,6 +488,8 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
 
       for (let j = i + 1; j < sortedPoints.length; j++) {
         const neighbor = sortedPoints[j];
+        // Sorted by x, so nothing further along can be within the threshold
+        if (neighbor.x - p.x > threshold) break;
         if (used.has(neighbor.id)) continue;
 
         const dist = Math.sqrt(Math.pow(neighbor.x - p.x, 2) + Math.pow(neighbor.y - p.y, 2));
@@ -245,7 +511,7 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
       });
     }
     return result;
-  }, [targetAreas, viewBox.w]);
+  }, [liveTargets, viewBox.w, editMode]);
 
   const handleClusterClick = (cluster: Cluster, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -279,47 +545,60 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
     }
   };
 
-  // --- Heatmap Surface Generation ---
-  const gridSize = 30; 
-  const cells = useMemo(() => {
-    const grid = [];
-    for (let i = 0; i < gridSize; i++) {
-      for (let j = 0; j < gridSize; j++) {
-        const cellW = viewBox.w / gridSize;
-        const cellH = viewBox.h / gridSize;
-        
-        const cx = viewBox.x + (i * cellW) + (cellW/2);
-        const cy = viewBox.y + (j * cellH) + (cellH/2);
-        
-        let intensity = 0;
-        targetAreas.forEach(target => {
-          const dist = Math.sqrt(Math.pow(cx - target.x, 2) + Math.pow(cy - target.y, 2));
-          // Normalized distance influence based on zoom level (viewBox.w)? 
-          // Keeping it absolute (based on 0-100 coords) is physically more accurate.
-          const influence = target.probability * Math.exp(-(dist * dist) / 100); 
-          intensity += influence;
-        });
-        
-        intensity = Math.min(intensity, 1);
-        
-        grid.push({
-          x: viewBox.x + (i * cellW),
-          y: viewBox.y + (j * cellH),
-          w: cellW,
-          h: cellH,
-          intensity
-        });
-      }
-    }
-    return grid;
-  }, [targetAreas, viewBox]);
-
-  const getColor = (intensity: number) => {
-    if (intensity < 0.1) return 'rgba(0,0,0,0)';
-    if (intensity < 0.3) return `rgba(56, 189, 248, ${intensity})`; 
-    if (intensity < 0.6) return `rgba(52, 211, 153, ${intensity})`; 
-    return `rgba(248, 113, 113, ${intensity})`; 
-  };
+  // SVG path data of vector overlays, built once rather than on every pan and zoom step
+  const vectorPaths = useMemo(() => new Map(stack.flatMap(({ source }) => source.kind === 'vector'
+    ? [[source.id, source.features.map(f => f.parts.map(part => 'M' + part.map(([x, y]) => `${x} ${y}`).join('L') + (f.geometry === 'polygon' ? 'Z' : '')).join(' '))] as const]
+    : [])), [stack]);
+
+  // --- Probability Surface ---
+  // Rasterised once per set of targets; panning and zooming only move the image
+  const surface = useMemo(() => computeProbabilitySurface(targetAreas), [targetAreas]);
+  const surfaceImage = useMemo(() => ({
+    url: renderSurfaceImage(surface),
+    x: surface.x0,
+    y: surface.y0,
+    width: surface.width * surface.cellSize,
+    height: surface.height * surface.cellSize
+  }), [surface]);
+
+  // Isolines of the same surface, traced only while the contour layer is shown
+  const contourLayer = stack.find(l => l.source.kind === 'contours' && l.config.visible);
+  const contourLevels = contourLayer ? contourLayer.config.style?.levels ?? DEFAULT_CONTOUR_LEVELS : null;
+  const contours = useMemo(() => contourLevels
+    ? contourSurface(surface, contourLevels).map(c => ({
+        ...c,
+        color: surfaceLineColour(c.level),
+        paths: c.rings.map(ring => 'M' + ring.map(([x, y]) => `${x} ${y}`).join('L') + 'Z'),
+        // Each ring is labelled at its topmost vertex, where the label is least likely to sit on a target
+        labels: c.rings.map(ring => ring.reduce((top, p) => p[1] < top[1] ? p : top))
+      }))
+    : []
+  , [surface, contourLevels]);
+
+  // Saved measurements placed in this frame, with their readouts
+  const framedAnnotations = useMemo(() => annotations.map(a => {
+    const points = annotationInFrame(a, georeference);
+    return { annotation: a, points, readout: points ? formatMeasurement(a.kind, points, georeference) : null };
+  }), [annotations, georeference]);
+
+  // The section buffer in frame units, measured at the middle of the line
+  const sectionBufferWidth = useMemo(() => {
+    if (!section || section.line.length < 2) return 0;
+    if (!georeference) return section.buffer;
+    const [x, y] = section.line[Math.floor(section.line.length / 2)];
+    return section.buffer / metresPerFrameUnit(georeference, x, y);
+  }, [section, georeference]);
+
+  // Scale bar and north arrow, both taken at the centre of the view
+  const mapAids = useMemo(() => {
+    if (!georeference) return null;
+    const cx = viewBox.x + viewBox.w / 2, cy = viewBox.y + viewBox.h / 2;
+    const metresPerPixel = metresPerFrameUnit(georeference, cx, cy) * (viewBox.w / width);
+    return {
+      scale: isFinite(metresPerPixel) && metresPerPixel > 0 ? scaleBarLength(metresPerPixel) : null,
+      north: northBearing(georeference, cx, cy)
+    };
+  }, [georeference, viewBox, width]);
 
   const getTooltipPosition = (c: Cluster) => {
     const left = ((c.x - viewBox.x) / viewBox.w) * 100;
@@ -328,17 +607,128 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
   };
 
   const gridStrokeWidth = Math.max(0.1, 1 * (viewBox.w / width));
+  // One screen pixel in 0-100 units, for markers that keep their size as the map zooms
+  const pixel = viewBox.w / width;
+  // Zones can be picked except while targets are being placed or an outline is drawn
+  const zonesInteractive = !measureTool && !(editMode && (editTool === 'target' || draftZone));
+
+  // Inline editor for the selected target's description or reasoning
+  const renderEditor = (placeholder: string) => (
+      <div className="animate-in fade-in duration-200">
+        <textarea
+          ref={textareaRef}
+          value={editText}
+          onChange={(e) => setEditText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          className="w-full h-32 bg-slate-800 text-slate-200 text-sm p-3 rounded-lg border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none resize-none mb-2 placeholder:text-slate-600"
+          placeholder={placeholder}
+        />
+        <div className="flex justify-between items-center">
+          <span className="text-[10px] text-slate-500 hidden sm:inline-block">
+            Press <kbd className="font-sans px-1 py-0.5 bg-slate-800 border border-slate-700 rounded">Ctrl</kbd> + <kbd className="font-sans px-1 py-0.5 bg-slate-800 border border-slate-700 rounded">Enter</kbd> to save
+          </span>
+          <div className="flex gap-2 ml-auto">
+            <button 
+              onClick={handleCancel}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-300 rounded-md text-xs font-medium transition-colors"
+            >
+              <XCircle className="w-3.5 h-3.5" /> Cancel
+            </button>
+            <button 
+              onClick={handleSave}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded-md text-xs font-medium transition-colors shadow-lg shadow-emerald-900/20"
+            >
+              <Save className="w-3.5 h-3.5" /> Save
+            </button>
+          </div>
+        </div>
+      </div>
+  );
+
+  // Target and cluster markers, drawn where the targets layer sits in the stack
+  const targetMarkers = clusters.map((cluster) => {
+      const isSelected = !cluster.isCluster && cluster.points[0].id === selectedTargetId;
+      const sizeBase = viewBox.w / 100;
+      const rOuter = cluster.isCluster ? 6 * sizeBase : 2.5 * sizeBase; 
+      const rInner = cluster.isCluster ? 6 * sizeBase : 1.5 * sizeBase;
+      
+      return (
+      <g 
+          key={cluster.id} 
+          className={`cursor-pointer hover:opacity-90 transition-opacity ${draftZone || measureTool ? 'pointer-events-none' : 'pointer-events-auto'}`}
+          onClick={(e) => handleClusterClick(cluster, e)}
+          onMouseDown={(e) => !cluster.isCluster && handleTargetMouseDown(cluster.points[0], e)}
+          onMouseEnter={() => setHoveredCluster(cluster)}
+          onMouseLeave={() => setHoveredCluster(null)}
+      >
+          {cluster.isCluster ? (
+              <>
+                  <circle 
+                      cx={cluster.x} 
+                      cy={cluster.y} 
+                      r={rOuter + (0.5 * sizeBase)} 
+                      fill="none"
+                      stroke="#f59e0b"
+                      strokeWidth={0.5 * sizeBase}
+                      opacity={0.5}
+                  />
+                  <circle 
+                      cx={cluster.x} 
+                      cy={cluster.y} 
+                      r={rOuter}
+                      fill="#f59e0b" 
+                      stroke="white"
+                      strokeWidth={0.5 * sizeBase}
+                      className="drop-shadow-md"
+                  />
+                  <text
+                      x={cluster.x} 
+                      y={cluster.y}
+                      dy={2 * sizeBase}
+                      textAnchor="middle"
+                      fill="white"
+                      fontSize={6 * sizeBase}
+                      fontWeight="bold"
+                      pointerEvents="none"
+                  >
+                      {cluster.points.length}
+                  </text>
+              </>
+          ) : (
+              <>
+                  <circle 
+                      cx={cluster.x} 
+                      cy={cluster.y} 
+                      r={isSelected ? rOuter * 2.5 : rOuter * 1.5} 
+                      fill="none" 
+                      stroke={isSelected ? "#34d399" : "rgba(255,255,255,0.0)"} 
+                      strokeWidth={1 * sizeBase}
+                      className={isSelected ? "" : "group-hover:stroke-white/50"}
+                  />
+                  <circle 
+                      cx={cluster.x} 
+                      cy={cluster.y} 
+                      r={rInner * 1.5} 
+                      fill={isSelected ? "#34d399" : cluster.points[0].userEdit ? "#a78bfa" : "#fbbf24"}
+                      className={isSelected || editMode ? "" : "animate-pulse"}
+                  />
+              </>
+          )}
+      </g>
+      );
+  });
 
   return (
     <div 
-        className={`relative bg-slate-900 border border-slate-700 rounded-lg shadow-inner group/heatmap overflow-hidden ${isDragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+        className={`relative bg-slate-900 border border-slate-700 rounded-lg shadow-inner group/heatmap overflow-hidden ${isDragging || draggedTarget || draggedVertex ? 'cursor-grabbing' : editMode || measureTool ? 'cursor-crosshair' : 'cursor-grab'}`}
         style={{ width, height }}
         onWheel={handleWheel}
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        onMouseLeave={() => { handleMouseUp(); setCursor(null); }}
         onClick={handleContainerClick}
+        onDoubleClick={() => draftZone ? finishDraftZone() : measureTool && finishMeasurement()}
     >
       {/* SVG Container */}
       <svg 
@@ -356,99 +746,229 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
 
           {/* Background Grid - mapped to 0-100 coordinate space explicitly */}
           <rect x="-500" y="-500" width="1000" height="1000" fill="url(#grid)" opacity="0.4" pointerEvents="none" />
-          
-          {/* Heatmap Layer */}
-          <g className="blur-xl opacity-60">
-              {cells.map((cell, idx) => (
-              <rect
-                  key={`cell-${idx}`}
-                  x={cell.x}
-                  y={cell.y}
-                  width={cell.w + 0.1} 
-                  height={cell.h + 0.1}
-                  fill={getColor(cell.intensity)}
-              />
-              ))}
-          </g>
 
-          {/* Coordinate System Border (0-100) */}
-          <rect x="0" y="0" width="100" height="100" fill="none" stroke="#475569" strokeWidth={gridStrokeWidth * 2} strokeDasharray="5,5" />
-
-          {/* Clusters / Targets */}
-          {clusters.map((cluster) => {
-              const isSelected = !cluster.isCluster && cluster.points[0].id === selectedTargetId;
-              const sizeBase = viewBox.w / 100;
-              const rOuter = cluster.isCluster ? 6 * sizeBase : 2.5 * sizeBase; 
-              const rInner = cluster.isCluster ? 6 * sizeBase : 1.5 * sizeBase;
-              
-              return (
-              <g 
-                  key={cluster.id} 
-                  className="cursor-pointer hover:opacity-90 transition-opacity pointer-events-auto"
-                  onClick={(e) => handleClusterClick(cluster, e)}
-                  onMouseEnter={() => setHoveredCluster(cluster)}
-                  onMouseLeave={() => setHoveredCluster(null)}
-              >
-                  {cluster.isCluster ? (
-                      <>
-                          <circle 
-                              cx={cluster.x} 
-                              cy={cluster.y} 
-                              r={rOuter + (0.5 * sizeBase)} 
-                              fill="none"
-                              stroke="#f59e0b"
-                              strokeWidth={0.5 * sizeBase}
-                              opacity={0.5}
-                          />
-                          <circle 
-                              cx={cluster.x} 
-                              cy={cluster.y} 
-                              r={rOuter}
-                              fill="#f59e0b" 
-                              stroke="white"
-                              strokeWidth={0.5 * sizeBase}
-                              className="drop-shadow-md"
-                          />
-                          <text
-                              x={cluster.x} 
-                              y={cluster.y}
-                              dy={2 * sizeBase}
-                              textAnchor="middle"
-                              fill="white"
-                              fontSize={6 * sizeBase}
-                              fontWeight="bold"
+          {/* Map layers, bottom first - all in the 0-100 space, so they pan and zoom together */}
+          {stack.filter(l => l.config.visible).map(({ config, source }) => {
+              const color = config.style?.color ?? DEFAULT_LAYER_STYLES[source.kind]?.color;
+              const size = config.style?.size ?? DEFAULT_LAYER_STYLES[source.kind]?.size ?? 1;
+              switch (source.kind) {
+                  case 'imagery':
+                  case 'raster':
+                      return (
+                          <image
+                              key={source.id}
+                              href={source.image.url}
+                              x={source.image.bounds.x}
+                              y={source.image.bounds.y}
+                              width={source.image.bounds.width}
+                              height={source.image.bounds.height}
+                              preserveAspectRatio="none"
+                              opacity={config.opacity}
                               pointerEvents="none"
-                          >
-                              {cluster.points.length}
-                          </text>
-                      </>
-                  ) : (
-                      <>
-                          <circle 
-                              cx={cluster.x} 
-                              cy={cluster.y} 
-                              r={isSelected ? rOuter * 2.5 : rOuter * 1.5} 
-                              fill="none" 
-                              stroke={isSelected ? "#34d399" : "rgba(255,255,255,0.0)"} 
-                              strokeWidth={1 * sizeBase}
-                              className={isSelected ? "" : "group-hover:stroke-white/50"}
                           />
-                          <circle 
-                              cx={cluster.x} 
-                              cy={cluster.y} 
-                              r={rInner * 1.5} 
-                              fill={isSelected ? "#34d399" : "#fbbf24"}
-                              className={isSelected ? "" : "animate-pulse"}
+                      );
+                  case 'surface':
+                      return (
+                          <image
+                              key={source.id}
+                              href={surfaceImage.url}
+                              x={surfaceImage.x}
+                              y={surfaceImage.y}
+                              width={surfaceImage.width}
+                              height={surfaceImage.height}
+                              preserveAspectRatio="none"
+                              opacity={config.opacity}
+                              pointerEvents="none"
                           />
-                      </>
-                  )}
-              </g>
-              );
+                      );
+                  case 'contours':
+                      return (
+                          <g key={source.id} opacity={config.opacity} pointerEvents="none">
+                              {contours.map(c => (
+                                  <g key={c.level} stroke={c.color} fill="none">
+                                      {c.paths.map((d, idx) => (
+                                          <path key={idx} d={d} strokeWidth={size} vectorEffect="non-scaling-stroke" />
+                                      ))}
+                                      {c.labels.map(([x, y], idx) => (
+                                          <text
+                                              key={`label-${idx}`}
+                                              x={x}
+                                              y={y}
+                                              dy={3.5 * pixel}
+                                              textAnchor="middle"
+                                              fontSize={10 * pixel}
+                                              fill={c.color}
+                                              stroke="#0f172a"
+                                              strokeWidth={3 * pixel}
+                                              paintOrder="stroke"
+                                              className="select-none font-mono"
+                                          >
+                                              {c.level}
+                                          </text>
+                                      ))}
+                                  </g>
+                              ))}
+                          </g>
+                      );
+                  case 'annotations':
+                      return (
+                          <g key={source.id} opacity={config.opacity} stroke={color} fill={color} pointerEvents="none">
+                              {framedAnnotations.map(({ annotation, points, readout }) => {
+                                  if (!points?.length) return null;
+                                  const joined = points.map(p => p.join(',')).join(' ');
+                                  const [lx, ly] = points[points.length - 1];
+                                  return (
+                                      <g key={annotation.id}>
+                                          {annotation.kind === 'area'
+                                              ? <polygon points={joined} fillOpacity={0.12} strokeWidth={size} strokeDasharray="6 3" vectorEffect="non-scaling-stroke" />
+                                              : <polyline points={joined} fill="none" strokeWidth={size} vectorEffect="non-scaling-stroke" />}
+                                          {points.map(([x, y], j) => <circle key={j} cx={x} cy={y} r={2 * pixel} stroke="none" />)}
+                                          <text x={lx} y={ly} dx={5 * pixel} dy={-5 * pixel} fontSize={10 * pixel} stroke="#0f172a" strokeWidth={3 * pixel} paintOrder="stroke" className="select-none">
+                                              {annotation.label}: {readout}
+                                          </text>
+                                      </g>
+                                  );
+                              })}
+                          </g>
+                      );
+                  case 'alteration':
+                      return (
+                          <g key={source.id} opacity={config.opacity}>
+                              {zoneDrawOrder.map(idx => {
+                                  const zone = liveZones[idx];
+                                  const isSelected = idx === selectedZoneIndex;
+                                  return (
+                                      <polygon
+                                          key={idx}
+                                          points={zone.polygon!.map(p => p.join(',')).join(' ')}
+                                          fill={zone.color}
+                                          fillOpacity={isSelected ? 0.4 : 0.22}
+                                          stroke={zone.color}
+                                          strokeWidth={isSelected ? 2.5 : 1.5}
+                                          strokeDasharray={zone.userEdit ? '6 3' : undefined}
+                                          vectorEffect="non-scaling-stroke"
+                                          className="cursor-pointer"
+                                          pointerEvents={zonesInteractive ? 'visiblePainted' : 'none'}
+                                          onClick={(e) => handleZoneClick(idx, e)}
+                                      />
+                                  );
+                              })}
+                              {zoneDrawOrder.map(idx => {
+                                  const polygon = liveZones[idx].polygon!;
+                                  const cx = polygon.reduce((sum, p) => sum + p[0], 0) / polygon.length;
+                                  const cy = polygon.reduce((sum, p) => sum + p[1], 0) / polygon.length;
+                                  return (
+                                      <text key={`label-${idx}`} x={cx} y={cy} textAnchor="middle" fontSize={10 * pixel} fill="white" opacity={0.8} pointerEvents="none" className="select-none">
+                                          {liveZones[idx].type}
+                                      </text>
+                                  );
+                              })}
+                          </g>
+                      );
+                  case 'samples':
+                      return (
+                          <g key={source.id} opacity={config.opacity} fill={color} pointerEvents="none">
+                              {source.points.map((p, idx) => (
+                                  <circle key={idx} cx={p.x} cy={p.y} r={size * pixel} />
+                              ))}
+                          </g>
+                      );
+                  case 'vector':
+                      return (
+                          <g key={source.id} opacity={config.opacity} stroke={color} pointerEvents="none">
+                              {source.features.map((f, idx) => f.geometry === 'point' ? (
+                                  <g key={idx} fill={color}>
+                                      {f.parts.map((part, j) => part[0] && <circle key={j} cx={part[0][0]} cy={part[0][1]} r={(size + 1.5) * pixel} />)}
+                                  </g>
+                              ) : (
+                                  <path
+                                      key={idx}
+                                      d={vectorPaths.get(source.id)?.[idx]}
+                                      fill={f.geometry === 'polygon' ? color : 'none'}
+                                      fillOpacity={0.12}
+                                      fillRule="evenodd"
+                                      strokeWidth={size}
+                                      vectorEffect="non-scaling-stroke"
+                                  />
+                              ))}
+                          </g>
+                      );
+                  case 'targets':
+                      return <g key={source.id} opacity={config.opacity}>{targetMarkers}</g>;
+              }
           })}
+
+          {/* Vertex handles of the selected zone */}
+          {editMode && editTool === 'zone' && !draftZone && selectedZone?.polygon && selectedZone.polygon.map(([x, y], j) => (
+              <circle
+                  key={`vertex-${j}`}
+                  cx={x}
+                  cy={y}
+                  r={4 * pixel}
+                  fill="white"
+                  stroke={selectedZone.color}
+                  strokeWidth={2 * pixel}
+                  className="cursor-move"
+                  onMouseDown={(e) => handleVertexMouseDown(selectedZoneIndex!, j, e)}
+                  onClick={(e) => e.stopPropagation()}
+              />
+          ))}
+
+          {/* Cross-section line, in the corridor targets are projected from */}
+          {section && section.line.length >= 2 && (() => {
+              const joined = section.line.map(p => p.join(',')).join(' ');
+              const [ax, ay] = section.line[0], [bx, by] = section.line[section.line.length - 1];
+              return (
+                  <g pointerEvents="none">
+                      <polyline points={joined} fill="none" stroke="#22d3ee" strokeOpacity={0.15} strokeWidth={2 * sectionBufferWidth} strokeLinejoin="round" strokeLinecap="round" />
+                      <polyline points={joined} fill="none" stroke="#22d3ee" strokeWidth={2} strokeDasharray="8 4" vectorEffect="non-scaling-stroke" />
+                      {[['A', ax, ay], ['B', bx, by]].map(([label, x, y]) => (
+                          <text key={label as string} x={x as number} y={y as number} dy={-6 * pixel} textAnchor="middle" fontSize={12 * pixel} fontWeight="bold" fill="#22d3ee" stroke="#0f172a" strokeWidth={3 * pixel} paintOrder="stroke" className="select-none">
+                              {label}
+                          </text>
+                      ))}
+                  </g>
+              );
+          })()}
+
+          {/* Measurement in progress, with a rubber band to the cursor until it is finished */}
+          {measureTool && measurePoints.length > 0 && (() => {
+              const points = isMeasureDone || !cursor ? measurePoints : [...measurePoints, [cursor.x, cursor.y] as [number, number]];
+              const joined = points.map(p => p.join(',')).join(' ');
+              return (
+                  <g pointerEvents="none" stroke="#facc15" fill="#facc15">
+                      {measureTool === 'area'
+                          ? <polygon points={joined} fillOpacity={0.15} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+                          : <polyline points={joined} fill="none" strokeWidth={2} vectorEffect="non-scaling-stroke" />}
+                      {measurePoints.map(([x, y], j) => <circle key={j} cx={x} cy={y} r={3 * pixel} stroke="#0f172a" strokeWidth={pixel} />)}
+                  </g>
+              );
+          })()}
+
+          {/* Outline being drawn, with a rubber band to the cursor */}
+          {draftZone && (
+              <g pointerEvents="none">
+                  <polyline
+                      points={[...draftZone, ...(cursor ? [[clampToFrame(cursor.x), clampToFrame(cursor.y)]] : [])].map(p => p.join(',')).join(' ')}
+                      fill="#a78bfa"
+                      fillOpacity={0.15}
+                      stroke="#a78bfa"
+                      strokeWidth={2}
+                      strokeDasharray="4 3"
+                      vectorEffect="non-scaling-stroke"
+                  />
+                  {draftZone.map(([x, y], j) => (
+                      <circle key={j} cx={x} cy={y} r={(j === 0 ? 5 : 3) * pixel} fill={j === 0 ? '#a78bfa' : 'white'} stroke="#a78bfa" strokeWidth={pixel} />
+                  ))}
+              </g>
+          )}
+
+          {/* Coordinate System Border (0-100) */}
+          <rect x="0" y="0" width="100" height="100" fill="none" stroke="#475569" strokeWidth={gridStrokeWidth * 2} strokeDasharray="5,5" pointerEvents="none" />
       </svg>
       
       {/* Tooltips & Overlays remain absolute DOM elements */}
-      {hoveredCluster && (
+      {hoveredCluster && !draggedTarget && (
         <div 
           className="absolute z-40 pointer-events-none bg-slate-800/95 border border-slate-600 rounded-lg p-3 shadow-xl backdrop-blur-md min-w-[200px] max-w-[320px] transform -translate-x-1/2 -translate-y-[calc(100%+12px)] transition-all duration-150"
           style={getTooltipPosition(hoveredCluster)}
@@ -464,7 +984,9 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
               <div className="flex justify-between items-start mb-2 border-b border-slate-700/80 pb-2">
                 <div>
                    <span className="text-xs font-bold text-emerald-400 block">Target #{hoveredCluster.points[0].id}</span>
-                   <span className="text-[10px] text-slate-400">Coordinates: {hoveredCluster.points[0].x.toFixed(1)}, {hoveredCluster.points[0].y.toFixed(1)}</span>
+                   <span className="text-[10px] text-slate-400">Coordinates: {georeference
+                     ? formatWorldCoordinate(georeference, hoveredCluster.points[0].x, hoveredCluster.points[0].y, displayCrs)
+                     : `${hoveredCluster.points[0].x.toFixed(1)}, ${hoveredCluster.points[0].y.toFixed(1)}`}</span>
                 </div>
                 <span className={`text-[10px] px-1.5 py-0.5 rounded font-mono font-bold ${
                     hoveredCluster.points[0].probability > 0.7 ? 'bg-emerald-500/20 text-emerald-300' :
@@ -477,6 +999,9 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
                  <p className="text-[11px] text-slate-200 leading-relaxed font-medium">
                     {hoveredCluster.points[0].description}
                  </p>
+                 {hoveredCluster.points[0].userEdit && (
+                    <p className="text-[10px] text-violet-300 mt-1">{targetOrigin(hoveredCluster.points[0])}</p>
+                 )}
               </div>
 
               {hoveredCluster.points[0].reasoning && (
@@ -501,7 +1026,11 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
       )}
 
       {/* Zoom Controls */}
-      <div className="absolute bottom-4 right-4 flex flex-col gap-2 bg-slate-900/80 backdrop-blur-sm p-1.5 rounded-lg border border-slate-700 shadow-lg z-10 pointer-events-auto">
+      <div
+        className="absolute bottom-4 right-4 flex flex-col gap-2 bg-slate-900/80 backdrop-blur-sm p-1.5 rounded-lg border border-slate-700 shadow-lg z-10 pointer-events-auto"
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={(e) => e.stopPropagation()}
+      >
         <div className="flex flex-col gap-1 border-b border-slate-700 pb-1 mb-1">
             <button 
                 onClick={() => handleZoom(0.75)} 
@@ -525,16 +1054,140 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
         >
             <RotateCcw className="w-4 h-4" />
         </button>
+        <button 
+            onClick={() => setMeasureTool(t => t === 'distance' ? null : 'distance')} 
+            className={`p-1.5 rounded transition-colors border-t border-slate-700 ${measureTool === 'distance' ? 'bg-yellow-500 text-slate-900 hover:bg-yellow-400' : 'text-slate-300 hover:bg-slate-700 hover:text-white'}`}
+            title="Measure distance"
+        >
+            <Ruler className="w-4 h-4" />
+        </button>
+        <button 
+            onClick={() => setMeasureTool(t => t === 'area' ? null : 'area')} 
+            className={`p-1.5 rounded transition-colors ${measureTool === 'area' ? 'bg-yellow-500 text-slate-900 hover:bg-yellow-400' : 'text-slate-300 hover:bg-slate-700 hover:text-white'}`}
+            title="Measure area"
+        >
+            <LandPlot className="w-4 h-4" />
+        </button>
+        {onSectionChange && (
+            <button 
+                onClick={() => setMeasureTool(t => t === 'section' ? null : 'section')} 
+                className={`p-1.5 rounded transition-colors ${measureTool === 'section' ? 'bg-cyan-500 text-slate-900 hover:bg-cyan-400' : 'text-slate-300 hover:bg-slate-700 hover:text-white'}`}
+                title="Draw a cross-section"
+            >
+                <ChartSpline className="w-4 h-4" />
+            </button>
+        )}
+        <button 
+            onClick={() => { setEditMode(m => !m); setHoveredCluster(null); }} 
+            className={`p-1.5 rounded transition-colors border-t border-slate-700 ${editMode ? 'bg-violet-600 text-white hover:bg-violet-500' : 'text-slate-300 hover:bg-slate-700 hover:text-white'}`}
+            title={editMode ? "Finish editing targets" : "Edit targets"}
+        >
+            <PenTool className="w-4 h-4" />
+        </button>
+        {editMode && onAddZone && (
+          <div className="flex flex-col gap-1">
+            <button 
+                onClick={() => setEditTool('target')} 
+                className={`p-1.5 rounded transition-colors ${editTool === 'target' ? 'bg-slate-700 text-violet-300' : 'text-slate-400 hover:bg-slate-700 hover:text-white'}`}
+                title="Targets: click to add, drag to move"
+            >
+                <MapPin className="w-4 h-4" />
+            </button>
+            <button 
+                onClick={() => setEditTool('zone')} 
+                className={`p-1.5 rounded transition-colors ${editTool === 'zone' ? 'bg-slate-700 text-violet-300' : 'text-slate-400 hover:bg-slate-700 hover:text-white'}`}
+                title="Alteration zones: click to outline, drag vertices to reshape"
+            >
+                <Hexagon className="w-4 h-4" />
+            </button>
+          </div>
+        )}
       </div>
       
+      {/* Edit hint */}
+      {editMode && (
+         <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-violet-950/80 backdrop-blur-sm px-3 py-1.5 rounded-full border border-violet-500/40 flex items-center gap-2 pointer-events-none">
+            <PenTool className="w-3 h-3 text-violet-300" />
+            <span className="text-[10px] text-violet-100 font-medium">
+              {editTool === 'zone'
+                ? draftZone
+                  ? 'Click to add vertices • Click the first vertex, double-click or press Enter to close • Esc cancels'
+                  : 'Click the map to outline a zone • Select a zone to drag its vertices'
+                : `${onAddTarget ? 'Click the map to add a target • ' : ''}Drag a target to move it`}
+            </span>
+         </div>
+      )}
+
       {/* Pan hint */}
-      {viewBox.w < getBaseViewBox().w * 0.9 && !isDragging && (
+      {!editMode && viewBox.w < getBaseViewBox().w * 0.9 && !isDragging && (
          <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-slate-900/60 backdrop-blur-sm px-3 py-1.5 rounded-full border border-slate-700/50 flex items-center gap-2 pointer-events-none animate-in fade-in zoom-in duration-300">
             <Move className="w-3 h-3 text-slate-300" />
             <span className="text-[10px] text-slate-200 font-medium">Drag map to pan</span>
          </div>
       )}
 
+      {/* Measurement readout and saved measurements */}
+      {measureTool && (
+        <div
+            className="absolute top-2 left-2 w-64 bg-slate-900/95 backdrop-blur-md border border-yellow-500/30 rounded-lg shadow-xl p-3 z-40 pointer-events-auto space-y-2"
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={(e) => e.stopPropagation()}
+            onDoubleClick={(e) => e.stopPropagation()}
+        >
+            <div className="flex items-center justify-between">
+                <span className="text-xs font-bold text-yellow-300 flex items-center gap-1.5">
+                    {measureTool === 'section' ? <ChartSpline className="w-3.5 h-3.5" /> : measureTool === 'distance' ? <Ruler className="w-3.5 h-3.5" /> : <LandPlot className="w-3.5 h-3.5" />}
+                    {measureTool === 'section' ? 'Cross-section' : MEASUREMENT_KINDS[measureTool]}
+                </span>
+                <button onClick={() => setMeasureTool(null)} className="text-slate-500 hover:text-white" aria-label="Stop measuring">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+            <p className="font-mono text-sm text-slate-100">
+                {measurePoints.length
+                    ? formatMeasurement(measureTool === 'section' ? 'distance' : measureTool, isMeasureDone || !cursor ? measurePoints : [...measurePoints, [cursor.x, cursor.y]], georeference)
+                    : '—'}
+            </p>
+            <p className="text-[10px] text-slate-500">
+                {isMeasureDone
+                    ? 'Save it to the project, or click the map to start again.'
+                    : `Click to add points • Double-click or Enter to ${measureTool === 'section' ? 'draw the profile' : 'finish'} • Esc clears`}
+            </p>
+            {isMeasureDone && (
+                <div className="flex gap-2">
+                    {onAnnotationsChange && (
+                        <button onClick={saveMeasurement} className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1 bg-yellow-500 hover:bg-yellow-400 text-slate-900 rounded text-xs font-semibold">
+                            <Save className="w-3.5 h-3.5" /> Save
+                        </button>
+                    )}
+                    <button onClick={clearMeasurement} className="flex-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 text-slate-300 rounded text-xs">
+                        Clear
+                    </button>
+                </div>
+            )}
+            {measureTool !== 'section' && framedAnnotations.length > 0 && (
+                <ul className="pt-2 border-t border-slate-800 space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                    {framedAnnotations.map(({ annotation, readout }) => (
+                        <li key={annotation.id} className="flex items-center gap-2 text-[11px]">
+                            {annotation.kind === 'distance' ? <Ruler className="w-3 h-3 text-yellow-400 shrink-0" /> : <LandPlot className="w-3 h-3 text-yellow-400 shrink-0" />}
+                            <span className="text-slate-300 truncate">{annotation.label}</span>
+                            <span className="ml-auto font-mono text-slate-400 shrink-0">{readout ?? 'not in this frame'}</span>
+                            {onAnnotationsChange && (
+                                <button
+                                    onClick={() => onAnnotationsChange(annotations.filter(a => a.id !== annotation.id))}
+                                    className="text-slate-500 hover:text-red-400 shrink-0"
+                                    title="Delete measurement"
+                                >
+                                    <X className="w-3 h-3" />
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+      )}
+
       {/* Interactive Detail Overlay Panel */}
       {selectedTarget && (
         <div 
@@ -550,12 +1203,25 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
                     <div>
                         <h4 className="font-bold text-slate-100 text-base">Target #{selectedTarget.id}</h4>
                         <div className="flex items-center gap-2 mt-0.5">
-                            <span className="text-[10px] bg-slate-800 px-1.5 py-0.5 rounded text-slate-400 font-mono border border-slate-700">
-                                X: {selectedTarget.x.toFixed(1)}
-                            </span>
-                            <span className="text-[10px] bg-slate-800 px-1.5 py-0.5 rounded text-slate-400 font-mono border border-slate-700">
-                                Y: {selectedTarget.y.toFixed(1)}
-                            </span>
+                            {georeference ? (
+                                <span className="text-[10px] bg-slate-800 px-1.5 py-0.5 rounded text-slate-400 font-mono border border-slate-700">
+                                    {formatWorldCoordinate(georeference, selectedTarget.x, selectedTarget.y, displayCrs)}
+                                </span>
+                            ) : (
+                                <>
+                                    <span className="text-[10px] bg-slate-800 px-1.5 py-0.5 rounded text-slate-400 font-mono border border-slate-700">
+                                        X: {selectedTarget.x.toFixed(1)}
+                                    </span>
+                                    <span className="text-[10px] bg-slate-800 px-1.5 py-0.5 rounded text-slate-400 font-mono border border-slate-700">
+                                        Y: {selectedTarget.y.toFixed(1)}
+                                    </span>
+                                </>
+                            )}
+                            {selectedTarget.userEdit && (
+                                <span className="text-[10px] bg-violet-500/15 px-1.5 py-0.5 rounded text-violet-300 border border-violet-500/30">
+                                    {targetOrigin(selectedTarget)}
+                                </span>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -580,7 +1246,7 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
                              selectedTarget.probability > 0.4 ? 'text-blue-400 bg-blue-950/50 border border-blue-500/20' : 
                              'text-slate-400 bg-slate-800 border border-slate-700'
                          }`}>
-                            {(selectedTarget.probability * 100).toFixed(1)}%
+                            {((probabilityDraft ?? selectedTarget.probability) * 100).toFixed(1)}%
                         </span>
                     </div>
                     <div className="w-full bg-slate-800 h-2 rounded-full overflow-hidden border border-slate-700/50">
@@ -593,6 +1259,19 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
                             style={{ width: `${selectedTarget.probability * 100}%` }}
                         />
                     </div>
+                    {/* Re-scoring is saved when the slider is released */}
+                    <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.01}
+                        value={probabilityDraft ?? selectedTarget.probability}
+                        onChange={(e) => setProbabilityDraft(Number(e.target.value))}
+                        onPointerUp={commitProbability}
+                        onKeyUp={commitProbability}
+                        className="w-full mt-2 accent-emerald-500"
+                        title="Re-score this target"
+                    />
                 </div>
 
                 <div className="group/desc">
@@ -601,9 +1280,9 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
                           <AlignLeft className="w-3.5 h-3.5" /> 
                           Observation
                       </label>
-                      {!isEditing && (
+                      {!editingField && (
                         <button 
-                          onClick={() => setIsEditing(true)}
+                          onClick={() => startEditing('description')}
                           className="text-slate-500 hover:text-emerald-400 transition-colors p-1 opacity-0 group-hover/desc:opacity-100 focus:opacity-100"
                           title="Edit Description"
                         >
@@ -612,40 +1291,10 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
                       )}
                     </div>
                     
-                    {isEditing ? (
-                      <div className="animate-in fade-in duration-200">
-                        <textarea
-                          ref={textareaRef}
-                          value={editDescription}
-                          onChange={(e) => setEditDescription(e.target.value)}
-                          onKeyDown={handleKeyDown}
-                          className="w-full h-32 bg-slate-800 text-slate-200 text-sm p-3 rounded-lg border border-slate-600 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 outline-none resize-none mb-2 placeholder:text-slate-600"
-                          placeholder="Enter geological observation details..."
-                        />
-                        <div className="flex justify-between items-center">
-                          <span className="text-[10px] text-slate-500 hidden sm:inline-block">
-                            Press <kbd className="font-sans px-1 py-0.5 bg-slate-800 border border-slate-700 rounded">Ctrl</kbd> + <kbd className="font-sans px-1 py-0.5 bg-slate-800 border border-slate-700 rounded">Enter</kbd> to save
-                          </span>
-                          <div className="flex gap-2 ml-auto">
-                            <button 
-                              onClick={handleCancel}
-                              className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-300 rounded-md text-xs font-medium transition-colors"
-                            >
-                              <XCircle className="w-3.5 h-3.5" /> Cancel
-                            </button>
-                            <button 
-                              onClick={handleSave}
-                              className="flex items-center gap-1.5 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded-md text-xs font-medium transition-colors shadow-lg shadow-emerald-900/20"
-                            >
-                              <Save className="w-3.5 h-3.5" /> Save
-                            </button>
-                          </div>
-                        </div>
-                      </div>
-                    ) : (
+                    {editingField === 'description' ? renderEditor("Enter geological observation details...") : (
                       <div 
                         className="text-sm text-slate-300 leading-relaxed bg-slate-800/50 p-3 rounded-lg border border-slate-700/50 cursor-pointer hover:border-slate-600 hover:bg-slate-800 transition-all group/text"
-                        onClick={() => setIsEditing(true)}
+                        onClick={() => startEditing('description')}
                         title="Click to edit"
                       >
                           {selectedTarget.description || <span className="text-slate-500 italic">No description provided. Click to add notes...</span>}
@@ -662,34 +1311,151 @@ export const Heatmap: React.FC<HeatmapProps> = ({ targetAreas, width, height, on
                         <BrainCircuit className="w-4 h-4" /> 
                         Geological Evidence
                     </label>
-                     <div className="text-xs text-slate-200 leading-relaxed relative z-10 font-normal">
+                    {editingField === 'reasoning' ? (
+                      <div className="relative z-10">{renderEditor("Why is this a target? Cite the evidence...")}</div>
+                    ) : (
+                     <div
+                        className="text-xs text-slate-200 leading-relaxed relative z-10 font-normal cursor-pointer hover:text-white"
+                        onClick={() => startEditing('reasoning')}
+                        title="Click to edit"
+                     >
                         {selectedTarget.reasoning ? (
                             selectedTarget.reasoning
                         ) : (
                             <span className="italic text-slate-500">
-                                "Spatial analysis indicates high correlation with alteration patterns typically associated with mineralization centers."
+                                No evidence recorded. Click to add the reasoning for this target...
                             </span>
                         )}
                      </div>
+                    )}
                 </div>
             </div>
             
              <div className="mt-4 pt-4 border-t border-slate-800">
+                 <p className="mb-2 font-mono text-[11px] text-slate-300 break-all select-all">{selectedLocation}</p>
                  <button 
-                    onClick={() => {
-                        console.log(`Logged target ${selectedTarget.id} at ${selectedTarget.x}, ${selectedTarget.y}`);
-                    }}
+                    onClick={() => selectedLocation && copyLocation(selectedLocation)}
                     className="w-full py-2.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-sm font-semibold transition-all shadow-lg shadow-emerald-900/20 flex items-center justify-center gap-2"
                  >
-                    <MapPin className="w-4 h-4" />
-                    Log Target Coordinates
+                    {copiedLocation === selectedLocation ? <Check className="w-4 h-4" /> : <MapPin className="w-4 h-4" />}
+                    {copiedLocation === selectedLocation ? 'Coordinates Copied' : 'Copy Target Coordinates'}
                  </button>
+                 {editMode && onDeleteTarget && (
+                    <button 
+                       onClick={handleDelete}
+                       className="w-full mt-2 py-2 bg-red-950/40 hover:bg-red-900/60 text-red-300 border border-red-500/30 rounded-lg text-sm font-semibold transition-all flex items-center justify-center gap-2"
+                    >
+                       <Trash2 className="w-4 h-4" />
+                       Delete Target
+                    </button>
+                 )}
              </div>
         </div>
       )}
 
+      {/* Alteration zone panel */}
+      {selectedZone && !selectedTarget && (
+        <div 
+            className="absolute top-2 right-2 w-72 bg-slate-900/95 backdrop-blur-md border border-slate-700 rounded-xl shadow-2xl p-4 flex flex-col gap-4 animate-in slide-in-from-right-10 duration-300 z-50 pointer-events-auto"
+            onMouseDown={(e) => e.stopPropagation()} 
+            onClick={(e) => e.stopPropagation()} 
+        >
+            <div className="flex justify-between items-start border-b border-slate-800 pb-3">
+                <div className="flex items-center gap-3 min-w-0">
+                    <div className="p-2 rounded-lg border border-slate-700" style={{ backgroundColor: `${selectedZone.color}33` }}>
+                        <Hexagon className="w-5 h-5" style={{ color: selectedZone.color }} />
+                    </div>
+                    <div className="min-w-0">
+                        <h4 className="font-bold text-slate-100 text-base truncate">{selectedZone.type}</h4>
+                        <span className={`text-[10px] px-1.5 py-0.5 rounded border ${selectedZone.userEdit ? 'bg-violet-500/15 text-violet-300 border-violet-500/30' : 'bg-slate-800 text-slate-400 border-slate-700'}`}>
+                            {targetOrigin(selectedZone)}
+                        </span>
+                    </div>
+                </div>
+                <button 
+                    onClick={() => setSelectedZoneIndex(null)}
+                    className="text-slate-500 hover:text-white hover:bg-slate-800 p-1.5 rounded-lg transition-all"
+                    aria-label="Close zone details"
+                >
+                    <X className="w-5 h-5" />
+                </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 text-xs">
+                <div className="bg-slate-800/50 border border-slate-700/50 rounded-lg p-2">
+                    <span className="block text-[10px] text-slate-500 uppercase font-bold">Share of map</span>
+                    <span className="font-mono text-slate-200">{selectedZone.area || 'unknown'}</span>
+                </div>
+                <div className="bg-slate-800/50 border border-slate-700/50 rounded-lg p-2">
+                    <span className="block text-[10px] text-slate-500 uppercase font-bold">Ground area</span>
+                    <span className="font-mono text-slate-200">
+                        {georeference && selectedZone.polygon ? formatGroundArea(zoneGroundArea(georeference, selectedZone.polygon)) : '—'}
+                    </span>
+                </div>
+            </div>
+
+            {editMode && onUpdateZone ? (
+                <div className="space-y-2">
+                    <label className="text-xs text-slate-500 font-bold uppercase block">Alteration type</label>
+                    <div className="flex gap-2">
+                        <input
+                            list="heatmap-zone-types"
+                            value={zoneTypeDraft ?? selectedZone.type}
+                            onChange={(e) => setZoneTypeDraft(e.target.value)}
+                            onBlur={commitZoneType}
+                            onKeyDown={(e) => e.key === 'Enter' && commitZoneType()}
+                            className="flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded-md px-2 py-1.5 text-sm text-slate-200 outline-none focus:border-violet-500"
+                        />
+                        <input
+                            type="color"
+                            value={selectedZone.color}
+                            onChange={(e) => onUpdateZone(selectedZoneIndex!, { color: e.target.value })}
+                            className="w-9 h-9 bg-transparent border-0 p-0 cursor-pointer"
+                            title="Zone colour"
+                        />
+                        <datalist id="heatmap-zone-types">
+                            {ZONE_TYPES.map(t => <option key={t} value={t} />)}
+                        </datalist>
+                    </div>
+                    {onDeleteZone && (
+                        <button 
+                           onClick={handleDeleteZone}
+                           className="w-full py-2 bg-red-950/40 hover:bg-red-900/60 text-red-300 border border-red-500/30 rounded-lg text-sm font-semibold transition-all flex items-center justify-center gap-2"
+                        >
+                           <Trash2 className="w-4 h-4" />
+                           Delete Zone
+                        </button>
+                    )}
+                </div>
+            ) : (
+                <p className="text-[11px] text-slate-500 flex items-start gap-1.5">
+                    <Info className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                    Use the pen button to rename, recolour or reshape this zone.
+                </p>
+            )}
+        </div>
+      )}
+
+      {/* Scale bar and north arrow (grid north for projected frames) */}
+      {mapAids?.scale && (
+        <div className="absolute bottom-9 left-2 pointer-events-none">
+            <div className="text-[10px] text-slate-200 font-mono mb-0.5 [text-shadow:0_0_3px_#0f172a]">{formatDistance(mapAids.scale.metres)}</div>
+            <div className="h-1.5 border-x-2 border-b-2 border-slate-200 shadow" style={{ width: mapAids.scale.pixels }} />
+        </div>
+      )}
+      {mapAids && (
+        <div className="absolute bottom-4 right-16 flex flex-col items-center pointer-events-none text-slate-200" title="North">
+            <Navigation2 className="w-5 h-5 drop-shadow" style={{ transform: `rotate(${mapAids.north}deg)` }} fill="currentColor" />
+            <span className="text-[10px] font-bold">N</span>
+        </div>
+      )}
+
       <div className="absolute bottom-2 left-2 bg-slate-900/90 border border-slate-700 px-2 py-1 rounded text-[10px] text-slate-400 pointer-events-none backdrop-blur-sm">
-        WGS84 Projection • Drag to pan • Scroll to zoom
+        {georeference ? crsLabel(outputCrs(georeference, displayCrs)) : 'Image coordinates (0-100)'}
+        {' • '}
+        {cursor
+          ? <span className="font-mono text-slate-200">{georeference ? formatWorldCoordinate(georeference, cursor.x, cursor.y, displayCrs) : `X ${cursor.x.toFixed(1)} Y ${cursor.y.toFixed(1)}`}</span>
+          : 'Drag to pan • Scroll to zoom'}
       </div>
     </div>
   );
@@ -0,0 +1,77 @@
+import React from 'react';
+import { CheckCircle, Loader2, Clock, XCircle, Ban, Square, Trash2, ListOrdered } from 'lucide-react';
+import { AnalysisJob, AnalysisJobStatus } from '../types';
+
+interface JobQueuePanelProps {
+  jobs: AnalysisJob[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<AnalysisJobStatus, { label: string; icon: React.ElementType; className: string }> = {
+  queued: { label: 'Queued', icon: Clock, className: 'text-slate-400' },
+  running: { label: 'Running', icon: Loader2, className: 'text-emerald-400 animate-spin' },
+  complete: { label: 'Complete', icon: CheckCircle, className: 'text-emerald-400' },
+  failed: { label: 'Failed', icon: XCircle, className: 'text-red-400' },
+  cancelled: { label: 'Cancelled', icon: Ban, className: 'text-slate-500' }
+};
+
+const formatTime = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const JobQueuePanel: React.FC<JobQueuePanelProps> = ({ jobs, selectedId, onSelect, onCancel, onRemove }) => {
+  return (
+    <div className="bg-slate-800/30 border border-slate-700 rounded-xl p-4">
+      <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <ListOrdered className="w-3.5 h-3.5" /> Jobs ({jobs.length})
+      </h3>
+      <ul className="space-y-2 max-h-[540px] overflow-y-auto pr-1 custom-scrollbar">
+        {[...jobs].reverse().map(job => {
+          const style = STATUS_STYLES[job.status];
+          const isActive = job.status === 'queued' || job.status === 'running';
+          return (
+            <li
+              key={job.id}
+              onClick={() => onSelect(job.id)}
+              className={`group p-3 rounded-lg border cursor-pointer transition-colors ${
+                job.id === selectedId ? 'border-emerald-500/50 bg-emerald-500/10' : 'border-slate-700 hover:bg-slate-800/60'
+              }`}
+            >
+              <div className="flex items-start gap-2">
+                <style.icon className={`w-4 h-4 shrink-0 mt-0.5 ${style.className}`} />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-slate-200 truncate" title={job.label}>{job.label}</p>
+                  <p className="text-[11px] text-slate-500">
+                    {style.label} · queued {formatTime(job.createdAt)}
+                    {job.finishedAt && ` · ended ${formatTime(job.finishedAt)}`}
+                  </p>
+                  {job.status === 'complete' && job.result && (
+                    <p className="text-[11px] text-emerald-400/80">{job.result.targetAreas.length} targets · {job.result.porphyryPotential} porphyry</p>
+                  )}
+                </div>
+                {isActive ? (
+                  <button
+                    onClick={e => { e.stopPropagation(); onCancel(job.id); }}
+                    className="p-1 text-slate-500 hover:text-red-400 transition-colors"
+                    title="Cancel job"
+                  >
+                    <Square className="w-3.5 h-3.5" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={e => { e.stopPropagation(); onRemove(job.id); }}
+                    className="p-1 text-slate-600 hover:text-red-400 transition-colors opacity-0 group-hover:opacity-100"
+                    title="Remove from list"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
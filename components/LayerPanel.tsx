@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Eye, EyeOff, ChevronUp, ChevronDown, X, Plus, RotateCcw, Image as ImageIcon, Grid3x3, Flame, MapPin, CircleDot, Spline, Hexagon, Mountain, Ruler } from 'lucide-react';
+import { MapLayerConfig, MapLayerKind, MapLayerStyle } from '../types';
+import { createLayerConfig, DEFAULT_LAYER_STYLES, insertLayer, MAP_LAYER_KINDS, MapLayerSource, resolveMapLayers } from '../services/mapLayers';
+import { RAMP_CSS } from '../services/spectral';
+import { parseContourLevels } from '../services/contours';
+
+interface LayerPanelProps {
+  sources: MapLayerSource[];
+  layers: MapLayerConfig[]; // bottom first
+  isCustomised: boolean; // false while the default stack is in use
+  onChange: (layers: MapLayerConfig[] | undefined) => void; // undefined restores the default stack
+}
+
+const KIND_ICONS: Record<MapLayerKind, React.FC<{ className?: string }>> = {
+  imagery: ImageIcon,
+  raster: Grid3x3,
+  surface: Flame,
+  contours: Mountain,
+  alteration: Hexagon,
+  annotations: Ruler,
+  targets: MapPin,
+  samples: CircleDot,
+  vector: Spline
+};
+
+// Contour levels as typed text, applied when the field is left or Enter is pressed
+const LevelsInput: React.FC<{ levels: number[]; onChange: (levels: number[]) => void }> = ({ levels, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const commit = () => {
+    const parsed = draft !== null ? parseContourLevels(draft) : [];
+    if (parsed.length) onChange(parsed);
+    setDraft(null);
+  };
+  return (
+    <input
+      value={draft ?? levels.join(', ')}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      className="w-24 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-300 font-mono outline-none shrink-0"
+      title="Probability levels, between 0 and 1"
+    />
+  );
+};
+
+export const LayerPanel: React.FC<LayerPanelProps> = ({ sources, layers, isCustomised, onChange }) => {
+  const [addId, setAddId] = useState('');
+
+  // Edits work on the layers that can still be drawn; entries for removed inputs are dropped
+  const resolved = resolveMapLayers(layers, sources);
+  const configs = resolved.map(l => l.config);
+  const available = sources.filter(s => !configs.some(c => c.id === s.id));
+
+  const update = (id: string, patch: Partial<MapLayerConfig>) =>
+    onChange(configs.map(c => c.id === id ? { ...c, ...patch } : c));
+  const updateStyle = (config: MapLayerConfig, patch: MapLayerStyle) =>
+    update(config.id, { style: { ...DEFAULT_LAYER_STYLES[config.kind], ...config.style, ...patch } });
+
+  // `direction` is +1 to draw the layer higher up (later), -1 lower
+  const move = (index: number, direction: 1 | -1) => {
+    const target = index + direction;
+    if (target < 0 || target >= configs.length) return;
+    const next = [...configs];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const handleAdd = () => {
+    const source = available.find(s => s.id === addId);
+    if (!source) return;
+    onChange(insertLayer(configs, createLayerConfig(source)));
+    setAddId('');
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {/* Listed top first, as they are drawn */}
+      {[...resolved].reverse().map(({ config, source }) => {
+        const index = configs.indexOf(config);
+        const Icon = KIND_ICONS[config.kind];
+        const style = { ...DEFAULT_LAYER_STYLES[config.kind], ...config.style };
+        return (
+          <div key={config.id} className={`flex items-center gap-2 px-2 py-1 rounded border ${config.visible ? 'bg-slate-800/60 border-slate-700' : 'bg-slate-900/40 border-slate-800 opacity-60'}`}>
+            <button
+              onClick={() => update(config.id, { visible: !config.visible })}
+              className="text-slate-400 hover:text-white"
+              title={config.visible ? 'Hide layer' : 'Show layer'}
+            >
+              {config.visible ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+            </button>
+            <Icon className="w-3.5 h-3.5 text-indigo-400 shrink-0" />
+            <span className="text-[11px] text-slate-300 truncate flex-1 min-w-0" title={`${MAP_LAYER_KINDS[config.kind]}: ${source.label}`}>{source.label}</span>
+
+            {config.kind === 'raster' && (
+              <span className="w-10 h-2 rounded-sm shrink-0" style={{ background: RAMP_CSS }} title="Layer value: low (blue) to high (red)" />
+            )}
+            {style.levels && (
+              <LevelsInput levels={style.levels} onChange={(levels) => updateStyle(config, { levels })} />
+            )}
+            {style.color && (
+              <input
+                type="color"
+                value={style.color}
+                onChange={(e) => updateStyle(config, { color: e.target.value })}
+                className="w-5 h-5 bg-transparent border-0 p-0 cursor-pointer shrink-0"
+                title="Colour"
+              />
+            )}
+            {style.size !== undefined && (
+              <input
+                type="number"
+                min={0.5}
+                max={12}
+                step={0.5}
+                value={style.size}
+                onChange={(e) => updateStyle(config, { size: Number(e.target.value) })}
+                className="w-12 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-300 outline-none shrink-0"
+                title={config.kind === 'samples' ? 'Point radius (px)' : 'Line width (px)'}
+              />
+            )}
+            <input
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={config.opacity}
+              onChange={(e) => update(config.id, { opacity: Number(e.target.value) })}
+              className="w-16 accent-indigo-500 shrink-0"
+              title={`Opacity ${Math.round(config.opacity * 100)}%`}
+            />
+            <div className="flex flex-col shrink-0">
+              <button onClick={() => move(index, 1)} disabled={index === configs.length - 1} className="text-slate-500 hover:text-white disabled:opacity-30" title="Move up">
+                <ChevronUp className="w-3 h-3" />
+              </button>
+              <button onClick={() => move(index, -1)} disabled={index === 0} className="text-slate-500 hover:text-white disabled:opacity-30" title="Move down">
+                <ChevronDown className="w-3 h-3" />
+              </button>
+            </div>
+            <button onClick={() => onChange(configs.filter(c => c !== config))} className="text-slate-500 hover:text-red-400 shrink-0" title="Remove layer">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2 pt-1">
+        <select
+          value={addId}
+          onChange={(e) => setAddId(e.target.value)}
+          disabled={available.length === 0}
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-[11px] text-slate-300 outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
+        >
+          <option value="">{available.length ? 'Add a layer…' : 'All layers are on the map'}</option>
+          {available.map(s => <option key={s.id} value={s.id}>{MAP_LAYER_KINDS[s.kind]}: {s.label}</option>)}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={!addId}
+          className="p-1 rounded bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Add layer"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+        {isCustomised && (
+          <button onClick={() => onChange(undefined)} className="p-1 text-slate-500 hover:text-white" title="Restore the default layers">
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, FolderOpen, Plus, Copy, Trash2, Check, FileStack, Target, History, Download, Upload, Loader2 } from 'lucide-react';
+import { ProjectMeta, ProjectSummary } from '../types';
+import { deleteProject, duplicateProject, listProjects } from '../services/projectStore';
+import { BUNDLE_EXTENSION } from '../services/projectBundle';
+
+interface ProjectsPanelProps {
+  isOpen: boolean;
+  currentId: string;
+  currentMeta: ProjectMeta;
+  onUpdateMeta: (patch: Partial<ProjectMeta>) => void;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+  onExport: (id: string) => Promise<void>;
+  onImport: (bundle: File) => Promise<void>;
+  onClose: () => void;
+}
+
+const COMMODITY_SUGGESTIONS = ['Cu', 'Cu-Au', 'Cu-Mo', 'Au', 'Au-Ag', 'Ag-Pb-Zn', 'Mo'];
+
+export const ProjectsPanel: React.FC<ProjectsPanelProps> = ({ isOpen, currentId, currentMeta, onUpdateMeta, onOpen, onNew, onDeleted, onExport, onImport, onClose }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState<string | null>(null); // project id being exported, or 'import'
+  const bundleInput = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+      setError('');
+    } catch (e: any) {
+      setError(e.message || "Could not read saved projects.");
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateProject(id);
+      await refresh();
+    } catch (e: any) {
+      setError(e.message || "Could not duplicate the project.");
+    }
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!confirm(`Delete "${project.meta.name}" and all of its files and results? This cannot be undone.`)) return;
+    try {
+      await deleteProject(project.id);
+      onDeleted(project.id);
+      await refresh();
+    } catch (e: any) {
+      setError(e.message || "Could not delete the project.");
+    }
+  };
+
+  const handleExport = async (id: string) => {
+    setBusy(id);
+    try {
+      await onExport(id);
+      setError('');
+    } catch (e: any) {
+      setError(e.message || "Could not export the project.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const bundle = e.target.files?.[0];
+    e.target.value = '';
+    if (!bundle) return;
+    setBusy('import');
+    try {
+      await onImport(bundle);
+      setError('');
+    } catch (err: any) {
+      setError(err.message || "Could not import the bundle.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const inputClass = "w-full bg-slate-800 border border-slate-600 rounded px-3 py-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none placeholder:text-slate-600";
+  const labelClass = "text-[11px] text-slate-400 flex flex-col gap-1";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-3xl max-h-[90vh] flex flex-col shadow-2xl animate-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800 bg-slate-900/50">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <FolderOpen className="w-6 h-6 text-emerald-400" />
+              Projects
+            </h2>
+            <p className="text-sm text-slate-400 mt-1">Projects are saved in this browser as you work.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="overflow-y-auto p-6 space-y-6 custom-scrollbar">
+          <section>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Current project</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <label className={`${labelClass} col-span-2`}>
+                Name
+                <input value={currentMeta.name} onChange={(e) => onUpdateMeta({ name: e.target.value })} className={inputClass} />
+              </label>
+              <label className={labelClass}>
+                Area
+                <input value={currentMeta.areaName} onChange={(e) => onUpdateMeta({ areaName: e.target.value })} placeholder="e.g. Cerro Verde North" className={inputClass} />
+              </label>
+              <label className={labelClass}>
+                Commodity
+                <input list="commodity-suggestions" value={currentMeta.commodity} onChange={(e) => onUpdateMeta({ commodity: e.target.value })} placeholder="e.g. Cu-Au" className={inputClass} />
+                <datalist id="commodity-suggestions">
+                  {COMMODITY_SUGGESTIONS.map(c => <option key={c} value={c} />)}
+                </datalist>
+              </label>
+              <label className={labelClass}>
+                Date
+                <input type="date" value={currentMeta.date} onChange={(e) => onUpdateMeta({ date: e.target.value })} className={inputClass} />
+              </label>
+            </div>
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Saved projects ({projects.length})</h3>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => bundleInput.current?.click()}
+                  disabled={busy !== null}
+                  className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-xs rounded-lg flex items-center gap-1.5 disabled:opacity-50"
+                  title={`Import a project bundle (${BUNDLE_EXTENSION})`}
+                >
+                  {busy === 'import' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />} Import bundle
+                </button>
+                <button
+                  onClick={onNew}
+                  className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 text-white text-xs rounded-lg flex items-center gap-1.5"
+                >
+                  <Plus className="w-3.5 h-3.5" /> New project
+                </button>
+              </div>
+              <input ref={bundleInput} type="file" accept={`${BUNDLE_EXTENSION},application/zip`} className="hidden" onChange={handleImport} />
+            </div>
+
+            {error && <p className="text-xs text-red-400 mb-3 whitespace-pre-line">{error}</p>}
+
+            <ul className="space-y-2">
+              {projects.map(project => {
+                const isCurrent = project.id === currentId;
+                return (
+                  <li
+                    key={project.id}
+                    className={`p-3 rounded-lg border flex items-center gap-3 ${isCurrent ? 'bg-emerald-500/10 border-emerald-500/50' : 'bg-slate-800/50 border-slate-700'}`}
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-semibold text-slate-200 truncate flex items-center gap-2">
+                        {project.meta.name || 'Untitled project'}
+                        {isCurrent && <span className="text-[10px] font-normal text-emerald-400 uppercase tracking-wider">open</span>}
+                      </p>
+                      <p className="text-[11px] text-slate-500 truncate">
+                        {[project.meta.areaName, project.meta.commodity, project.meta.date].filter(Boolean).join(' · ') || 'No details'}
+                      </p>
+                      <p className="text-[11px] text-slate-500 flex items-center gap-3 mt-0.5">
+                        <span className="flex items-center gap-1"><FileStack className="w-3 h-3" /> {project.fileCount} inputs</span>
+                        <span className="flex items-center gap-1"><Target className="w-3 h-3" /> {project.targetCount === null ? 'not analysed' : `${project.targetCount} targets`}</span>
+                        {project.runCount > 0 && <span className="flex items-center gap-1"><History className="w-3 h-3" /> {project.runCount} version{project.runCount === 1 ? '' : 's'}</span>}
+                        <span>saved {new Date(project.meta.updatedAt).toLocaleString()}</span>
+                      </p>
+                    </div>
+                    {!isCurrent && (
+                      <button onClick={() => onOpen(project.id)} className="px-3 py-1.5 text-xs rounded-lg bg-slate-700 hover:bg-slate-600 text-white flex items-center gap-1.5">
+                        <Check className="w-3.5 h-3.5" /> Open
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleExport(project.id)}
+                      disabled={busy !== null}
+                      className="p-2 text-slate-400 hover:text-emerald-400 hover:bg-slate-800 rounded-lg disabled:opacity-50"
+                      title={`Export as a ${BUNDLE_EXTENSION} bundle (inputs, every version, prompts and edits)`}
+                    >
+                      {busy === project.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                    </button>
+                    <button onClick={() => handleDuplicate(project.id)} className="p-2 text-slate-400 hover:text-emerald-400 hover:bg-slate-800 rounded-lg" title="Duplicate">
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(project)} className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-lg" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                );
+              })}
+              {projects.length === 0 && !error && (
+                <li className="text-xs italic text-slate-600">Nothing saved yet.</li>
+              )}
+            </ul>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
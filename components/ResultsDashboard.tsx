@@ -1,16 +1,41 @@
 import React, { useRef, useState, useMemo, useEffect } from 'react';
-import { PredictionResult, TargetArea } from '../types';
+import { MapAnnotation, MapLayerConfig, PredictionResult, TargetArea } from '../types';
 import { Heatmap } from './Heatmap';
-import { Download, AlertTriangle, CheckCircle, TrendingUp, Pickaxe, FileJson, Table, Printer, Share2, Image as ImageIcon, Globe, FileText, Filter, BrainCircuit, Target, Layers, Eye, EyeOff, BookOpen, ChevronDown, ChevronUp } from 'lucide-react';
-import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, Legend } from 'recharts';
+import { Download, AlertTriangle, CheckCircle, TrendingUp, Pickaxe, FileJson, Table, Printer, Share2, Image as ImageIcon, Globe, FileText, Filter, BrainCircuit, Target, Layers, Eye, EyeOff, BookOpen, ChevronDown, ChevronUp, Mountain } from 'lucide-react';
 import html2canvas from 'html2canvas';
 import { jsPDF } from 'jspdf';
+import { formatWorldCoordinate, outputCrs, relativeToCrs } from '../services/georeference';
+import { CrsSelect } from './CrsSelect';
+import { ValidationReport } from './ValidationReport';
+import { defaultMapLayers, MapLayerSource, resolveMapLayers } from '../services/mapLayers';
+import { LayerPanel } from './LayerPanel';
+import { targetOrigin, TargetPatch } from '../services/targetEdits';
+import { formatGroundArea, zoneGroundArea, ZonePatch } from '../services/zones';
+import { computeProbabilitySurface } from '../services/probabilitySurface';
+import { contourSurface, DEFAULT_CONTOUR_LEVELS } from '../services/contours';
+import { defaultSectionBuffer, SectionRaster } from '../services/crossSection';
+import { CrossSectionPanel } from './CrossSectionPanel';
 
 interface ResultsDashboardProps {
   result: PredictionResult;
-  onUpdateTarget: (id: number, newDescription: string) => void;
+  projectCrs: string;
+  mapLayerSources?: MapLayerSource[]; // imagery, rasters, samples and overlays placed in the result's frame
+  mapLayers?: MapLayerConfig[]; // saved layer stack, bottom first; undefined for the default
+  onMapLayersChange?: (layers: MapLayerConfig[] | undefined) => void;
+  onUpdateTarget: (id: number, patch: TargetPatch) => void;
+  onAddTarget?: (x: number, y: number) => number; // returns the new target's id
+  onDeleteTarget?: (id: number) => void;
+  onAddZone?: (polygon: [number, number][]) => number; // returns the new zone's index
+  onUpdateZone?: (index: number, patch: ZonePatch) => void;
+  onDeleteZone?: (index: number) => void;
+  annotations?: MapAnnotation[]; // saved map measurements, kept with the project
+  onAnnotationsChange?: (annotations: MapAnnotation[]) => void;
+  sectionRasters?: SectionRaster[]; // grids and DEMs that cross-sections can sample
 }
 
+const NO_SOURCES: MapLayerSource[] = [];
+const NO_RASTERS: SectionRaster[] = [];
+
 // Helper to extract geological tags from target description/reasoning
 const getTargetTags = (target: TargetArea): string[] => {
   const text = (target.description + " " + (target.reasoning || "")).toLowerCase();
@@ -33,9 +58,14 @@ const getTargetTags = (target: TargetArea): string[] => {
   return Array.from(tags).sort();
 };
 
-export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUpdateTarget }) => {
+export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, projectCrs, mapLayerSources = NO_SOURCES, mapLayers, onMapLayersChange, onUpdateTarget, onAddTarget, onDeleteTarget, onAddZone, onUpdateZone, onDeleteZone, annotations, onAnnotationsChange, sectionRasters = NO_RASTERS }) => {
   const heatmapRef = useRef<HTMLDivElement>(null);
   const [isContextExpanded, setIsContextExpanded] = useState(false);
+  const [exportCrs, setExportCrs] = useState(projectCrs);
+  const [sectionLine, setSectionLine] = useState<[number, number][] | null>(null);
+  const [sectionBuffer, setSectionBuffer] = useState(0);
+
+  useEffect(() => setExportCrs(projectCrs), [projectCrs]);
   
   // Probability Filters
   const [activeFilters, setActiveFilters] = useState({
@@ -47,6 +77,11 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUp
   // Geological Signature Filters
   const [disabledTags, setDisabledTags] = useState<Set<string>>(new Set());
 
+  // Layer stack: the project's saved one, or the default until it is edited
+  const [isLayerPanelOpen, setIsLayerPanelOpen] = useState(false);
+  const stack = useMemo(() => mapLayers ?? defaultMapLayers(mapLayerSources), [mapLayers, mapLayerSources]);
+  const resolvedStack = useMemo(() => resolveMapLayers(stack, mapLayerSources), [stack, mapLayerSources]);
+
   // Derive all unique tags from the dataset
   const availableTags = useMemo(() => {
     const allTags = new Set<string>();
@@ -56,14 +91,20 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUp
     return Array.from(allTags).sort();
   }, [result.targetAreas]);
   
-  // Prepare data for Pie Chart
-  const mineralData = result.zones.map(z => ({
-    name: z.type,
-    value: parseFloat(z.area.replace('%', '')),
-    color: z.color || '#94a3b8' // Default slate if no color
-  }));
-
-  const COLORS = ['#34d399', '#60a5fa', '#f87171', '#fbbf24', '#a78bfa'];
+  // Zones by share of the map; the share is measured from the outline where there is one
+  const zoneRows = result.zones
+    .map(z => ({
+      zone: z,
+      share: parseFloat(z.area ?? '') || 0,
+      ground: result.georeference && z.polygon ? formatGroundArea(zoneGroundArea(result.georeference, z.polygon)) : undefined
+    }))
+    .sort((a, b) => b.share - a.share);
+
+  // A new section line starts with a buffer of about a tenth of its length
+  const handleSectionChange = (line: [number, number][]) => {
+    setSectionLine(line);
+    setSectionBuffer(defaultSectionBuffer(line, result.georeference));
+  };
 
   const getProbabilityCategory = (prob: number) => {
     if (prob >= 0.6) return 'high';
@@ -116,8 +157,14 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUp
   };
 
   const handleExportGeoJSON = () => {
+    const geo = result.georeference;
+    // Falls back to the frame's own CRS when reprojection is not possible
+    const crs = geo ? outputCrs(geo, exportCrs) : undefined;
+    const epsg = crs?.startsWith('EPSG:') ? crs.slice(5) : null;
     const geoJson = {
       type: "FeatureCollection",
+      // Non-WGS84 output carries a (legacy) named CRS so QGIS/ArcGIS place it correctly
+      ...(epsg && epsg !== '4326' ? { crs: { type: "name", properties: { name: `urn:ogc:def:crs:EPSG::${epsg}` } } } : {}),
       properties: {
         timestamp: new Date().toISOString(),
         analysisType: "GeoGenius Porphyry/Epithermal Vectoring",
@@ -125,25 +172,44 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUp
         epithermalPotential: result.epithermalPotential,
         confidenceScore: result.confidenceScore,
         alterationMinerals: result.alterationMinerals,
-        zones: result.zones,
+        // Outlined zones are written as polygon features below
+        zones: result.zones.filter(z => !z.polygon),
         recommendedActions: result.recommendedActions,
-        reasoning: result.reasoning
+        reasoning: result.reasoning,
+        coordinateSpace: geo ? (crs || 'map coordinates (CRS not declared)') : 'image-relative (0-100)',
+        georeference: geo
       },
-      features: result.targetAreas.map(target => ({
+      features: [...result.zones.flatMap(zone => zone.polygon ? [{
+        type: "Feature",
+        geometry: {
+          type: "Polygon",
+          coordinates: [[...zone.polygon, zone.polygon[0]].map(([x, y]) => geo ? relativeToCrs(geo, x, y, crs) : [x, y])]
+        },
+        properties: {
+          alterationType: zone.type,
+          color: zone.color,
+          area: zone.area,
+          ...(geo ? { areaHa: Number((zoneGroundArea(geo, zone.polygon) / 1e4).toFixed(2)) } : {}),
+          origin: zone.userEdit ? `user-${zone.userEdit}` : "model"
+        }
+      }] : []), ...result.targetAreas.map(target => ({
         type: "Feature",
         geometry: {
           type: "Point",
-          // Mapping image coordinates (0-100) directly.
-          coordinates: [target.x, target.y] 
+          // Georeferenced results are written in map coordinates, otherwise in image space (0-100)
+          coordinates: geo ? relativeToCrs(geo, target.x, target.y, crs) : [target.x, target.y]
         },
         properties: {
           id: target.id,
+          imageX: target.x,
+          imageY: target.y,
           probability: target.probability,
           description: target.description || "No description provided",
           reasoning: target.reasoning || "No reasoning provided",
-          tags: getTargetTags(target)
+          tags: getTargetTags(target),
+          origin: target.userEdit ? `user-${target.userEdit}` : "model"
         }
-      }))
+      }))]
     };
 
     const dataStr = "data:application/geo+json;charset=utf-8," + encodeURIComponent(JSON.stringify(geoJson, null, 2));
@@ -155,15 +221,60 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUp
     document.body.removeChild(link);
   };
 
+  // Contours of the probability surface of all targets, at the levels set on the contour layer:
+  // each ring as a LineString, and the areas at or above each level as Polygons with their holes
+  const handleExportContours = () => {
+    const geo = result.georeference;
+    const crs = geo ? outputCrs(geo, exportCrs) : undefined;
+    const epsg = crs?.startsWith('EPSG:') ? crs.slice(5) : null;
+    const levels = stack.find(c => c.kind === 'contours')?.style?.levels ?? DEFAULT_CONTOUR_LEVELS;
+    const toCoords = (ring: [number, number][]) =>
+      [...ring, ring[0]].map(([x, y]) => geo ? relativeToCrs(geo, x, y, crs) : [x, y]);
+    const contours = contourSurface(computeProbabilitySurface(result.targetAreas), levels);
+    const geoJson = {
+      type: "FeatureCollection",
+      ...(epsg && epsg !== '4326' ? { crs: { type: "name", properties: { name: `urn:ogc:def:crs:EPSG::${epsg}` } } } : {}),
+      properties: {
+        timestamp: new Date().toISOString(),
+        analysisType: "GeoGenius probability contours",
+        levels,
+        coordinateSpace: geo ? (crs || 'map coordinates (CRS not declared)') : 'image-relative (0-100)'
+      },
+      features: contours.flatMap(({ level, rings, polygons }) => [
+        ...rings.map(ring => ({
+          type: "Feature",
+          geometry: { type: "LineString", coordinates: toCoords(ring) },
+          properties: { level, category: getProbabilityCategory(level) }
+        })),
+        ...polygons.map(({ outer, holes }) => ({
+          type: "Feature",
+          geometry: { type: "Polygon", coordinates: [outer, ...holes].map(toCoords) },
+          properties: { level, category: getProbabilityCategory(level) }
+        }))
+      ])
+    };
+
+    const dataStr = "data:application/geo+json;charset=utf-8," + encodeURIComponent(JSON.stringify(geoJson));
+    const link = document.createElement('a');
+    link.href = dataStr;
+    link.download = "geogenius_contours.geojson";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
   const handleDownloadCSV = () => {
+    const geo = result.georeference;
+    const crs = geo ? outputCrs(geo, exportCrs) : undefined;
     // CSV Header
-    let csvContent = "data:text/csv;charset=utf-8,ID,X,Y,Probability,Tags,Description,Reasoning\n";
+    let csvContent = "data:text/csv;charset=utf-8,ID,X,Y,MapX,MapY,CRS,Probability,Origin,Tags,Description,Reasoning\n";
     // CSV Rows
     result.targetAreas.forEach(target => {
         const desc = target.description ? target.description.replace(/"/g, '""') : "";
         const reasoning = target.reasoning ? target.reasoning.replace(/"/g, '""') : "";
         const tags = getTargetTags(target).join(';');
-        const row = `${target.id},${target.x},${target.y},${target.probability},"${tags}","${desc}","${reasoning}"`;
+        const [mapX, mapY] = geo ? relativeToCrs(geo, target.x, target.y, crs) : ['', ''];
+        const row = `${target.id},${target.x},${target.y},${mapX},${mapY},${crs || ''},${target.probability},${target.userEdit ? `user-${target.userEdit}` : 'model'},"${tags}","${desc}","${reasoning}"`;
         csvContent += row + "\n";
     });
     
@@ -254,6 +365,7 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUp
       const descText = target.description || "No description";
       const reasonText = target.reasoning ? `Reasoning: ${target.reasoning}` : "Reasoning: N/A";
       const tags = getTargetTags(target).join(', ');
+      const title = `Target #${target.id} [${tags}]${target.userEdit ? ` (${targetOrigin(target).toLowerCase()})` : ''}`;
 
       const descLines = doc.splitTextToSize(descText, maxLineWidth - 10);
       const reasonLines = doc.splitTextToSize(reasonText, maxLineWidth - 10);
@@ -272,7 +384,7 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUp
       doc.setFont("helvetica", "bold");
       doc.setFontSize(11);
       doc.setTextColor(15, 23, 42);
-      doc.text(`Target #${target.id} [${tags}]`, margin + 5, yPos + 3);
+      doc.text(title, margin + 5, yPos + 3);
 
       doc.setFont("helvetica", "normal");
       doc.setFontSize(10);
@@ -283,7 +395,7 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUp
       else if (target.probability > 0.4) doc.setTextColor(37, 99, 235); // Blue 600
       else doc.setTextColor(100, 116, 139);
       
-      doc.text(`Probability: ${prob}%`, margin + 40 + (doc.getTextWidth(`Target #${target.id} [${tags}]`)), yPos + 3);
+      doc.text(`Probability: ${prob}%`, margin + 40 + doc.getTextWidth(title), yPos + 3);
       
       // Description
       doc.setTextColor(51, 65, 85);
@@ -359,6 +471,8 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUp
         </div>
       </div>
 
+      {result.validationIssues && <ValidationReport issues={result.validationIssues} />}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 min-h-[600px] print:block print:h-auto">
         
         {/* Main Visualization Panel (Heatmap) */}
@@ -369,7 +483,26 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUp
                     <Layers className="w-5 h-5 text-indigo-400" />
                     Integrated Target Heatmap
                 </h3>
+                <button
+                    onClick={() => setIsLayerPanelOpen(open => !open)}
+                    className={`text-xs flex items-center gap-1.5 px-2.5 py-1 rounded border transition-colors print:hidden ${
+                        isLayerPanelOpen ? 'bg-indigo-500/20 border-indigo-400/40 text-indigo-200' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+                    }`}
+                >
+                    <Layers className="w-3.5 h-3.5" /> Layers ({resolvedStack.filter(l => l.config.visible).length}/{resolvedStack.length})
+                </button>
             </div>
+
+            {isLayerPanelOpen && (
+                <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 print:hidden">
+                    <LayerPanel
+                        sources={mapLayerSources}
+                        layers={stack}
+                        isCustomised={mapLayers !== undefined}
+                        onChange={(layers) => onMapLayersChange?.(layers)}
+                    />
+                </div>
+            )}
             
             {/* Interactive Filters Bar */}
             <div className="flex flex-wrap items-center gap-y-3 gap-x-6 bg-slate-900/50 p-3 rounded-lg border border-slate-700/50">
@@ -452,18 +585,18 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUp
           <div className="flex-1 w-full h-full min-h-[400px]">
              {/* We use a container that takes full size */}
              <div className="w-full h-full flex items-center justify-center bg-slate-900/40 rounded-lg border border-slate-800/50 relative">
-                {displayedTargets.length > 0 ? (
-                    <Heatmap targetAreas={displayedTargets} width={600} height={400} onUpdateTarget={onUpdateTarget} />
-                ) : (
-                    <div className="flex flex-col items-center text-slate-500">
-                        <Filter className="w-8 h-8 mb-2 opacity-50" />
+                <Heatmap targetAreas={displayedTargets} width={600} height={400} onUpdateTarget={onUpdateTarget} onAddTarget={onAddTarget} onDeleteTarget={onDeleteTarget} zones={result.zones} onAddZone={onAddZone} onUpdateZone={onUpdateZone} onDeleteZone={onDeleteZone} annotations={annotations} onAnnotationsChange={onAnnotationsChange} section={sectionLine ? { line: sectionLine, buffer: sectionBuffer } : null} onSectionChange={handleSectionChange} georeference={result.georeference} displayCrs={projectCrs} stack={resolvedStack} />
+                {/* Filters only hide targets; the map stays so targets, zones and sections can still be drawn */}
+                {result.targetAreas.length > 0 && displayedTargets.length === 0 && (
+                    <div className="absolute top-3 left-1/2 -translate-x-1/2 z-30 flex items-center gap-3 px-3 py-2 bg-slate-900/90 border border-slate-700 rounded-lg text-slate-400 backdrop-blur-sm">
+                        <Filter className="w-4 h-4 opacity-50" />
                         <span className="text-sm">No targets match the current filters.</span>
                         <button 
                             onClick={() => {
                                 setActiveFilters({ high: true, medium: true, low: true });
                                 setDisabledTags(new Set());
                             }}
-                            className="mt-2 text-xs text-emerald-400 hover:underline"
+                            className="text-xs text-emerald-400 hover:underline"
                         >
                             Reset Filters
                         </button>
@@ -471,6 +604,18 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUp
                 )}
              </div>
           </div>
+          {sectionLine && (
+            <CrossSectionPanel
+              line={sectionLine}
+              buffer={sectionBuffer}
+              onBufferChange={setSectionBuffer}
+              onClose={() => setSectionLine(null)}
+              targets={displayedTargets}
+              rasters={sectionRasters}
+              georeference={result.georeference}
+              exportCrs={exportCrs}
+            />
+          )}
           <div className="mt-4 text-sm text-slate-400 bg-slate-900/50 p-3 rounded border border-slate-700/50 print:bg-slate-100 print:text-black print:border-slate-300">
             <strong>Geological Reasoning:</strong> {result.reasoning}
           </div>
@@ -489,8 +634,15 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUp
                             <div className="flex flex-col gap-1">
                                 <span className="text-sm font-bold text-slate-100 flex items-center gap-2">
                                     Target #{target.id}
+                                    {target.userEdit && (
+                                        <span className="text-[9px] font-semibold px-1.5 py-0.5 rounded bg-violet-500/15 text-violet-300 border border-violet-500/30">
+                                            {targetOrigin(target)}
+                                        </span>
+                                    )}
                                     <span className="text-[10px] font-normal text-slate-500 font-mono">
-                                        ({target.x.toFixed(1)}, {target.y.toFixed(1)})
+                                        {result.georeference
+                                            ? formatWorldCoordinate(result.georeference, target.x, target.y, projectCrs)
+                                            : `(${target.x.toFixed(1)}, ${target.y.toFixed(1)})`}
                                     </span>
                                 </span>
                                 <div className="flex gap-1 mt-1">
@@ -555,33 +707,33 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUp
         {/* Side Panel: Composition & Actions */}
         <div className="flex flex-col gap-6 print:grid print:grid-cols-2">
             
-            {/* Minerals Chart */}
+            {/* Alteration zones */}
             <div className="flex-1 bg-slate-800/30 border border-slate-700 rounded-xl p-4 flex flex-col min-h-[250px] print:border-slate-300 print:bg-white">
-                <h4 className="font-semibold text-slate-200 mb-2 print:text-black">Alteration Zoning</h4>
-                <div className="flex-1 w-full min-h-[200px]">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <PieChart>
-                      <Pie
-                        data={mineralData}
-                        cx="50%"
-                        cy="50%"
-                        innerRadius={50}
-                        outerRadius={70}
-                        paddingAngle={5}
-                        dataKey="value"
-                      >
-                        {mineralData.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} stroke="rgba(0,0,0,0.5)" />
-                        ))}
-                      </Pie>
-                      <RechartsTooltip 
-                        contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }}
-                        itemStyle={{ color: '#f1f5f9' }}
-                      />
-                      <Legend verticalAlign="bottom" height={36} iconSize={8} wrapperStyle={{ fontSize: '10px', color: '#94a3b8' }}/>
-                    </PieChart>
-                  </ResponsiveContainer>
-                </div>
+                <h4 className="font-semibold text-slate-200 mb-3 print:text-black">Alteration Zoning</h4>
+                {zoneRows.length > 0 ? (
+                  <ul className="space-y-2.5">
+                    {zoneRows.map(({ zone, share, ground }, idx) => (
+                      <li key={idx} className="text-xs">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="w-2.5 h-2.5 rounded-sm shrink-0" style={{ backgroundColor: zone.color }} />
+                          <span className="text-slate-200 font-medium truncate print:text-black">{zone.type}</span>
+                          {zone.userEdit && (
+                            <span className="text-[9px] px-1 rounded bg-violet-500/15 text-violet-300 border border-violet-500/30">{targetOrigin(zone)}</span>
+                          )}
+                          <span className="ml-auto font-mono text-slate-400 shrink-0">
+                            {zone.area || '?'}{ground ? ` · ${ground}` : ''}
+                          </span>
+                        </div>
+                        <div className="w-full h-1.5 bg-slate-800 rounded-full overflow-hidden print:bg-slate-200">
+                          <div className="h-full rounded-full" style={{ width: `${Math.min(100, share)}%`, backgroundColor: zone.color }} />
+                        </div>
+                        {!zone.polygon && <span className="text-[10px] text-slate-500 italic">Stated by the model; not outlined on the map</span>}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-slate-500 italic">No alteration zones were reported.</p>
+                )}
             </div>
 
             {/* Recommendations */}
@@ -606,6 +758,16 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUp
                     <Share2 className="w-4 h-4 text-slate-400" />
                     Export & Save
                 </h4>
+                {result.georeference && (
+                    <label className="flex items-center justify-between gap-2 text-[11px] text-slate-400">
+                        <span className="shrink-0">GeoJSON / CSV coordinates</span>
+                        <CrsSelect
+                            value={exportCrs}
+                            onChange={setExportCrs}
+                            className="min-w-0 flex-1 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-[11px] text-slate-200 outline-none focus:ring-1 focus:ring-teal-500"
+                        />
+                    </label>
+                )}
                 <div className="grid grid-cols-2 gap-3">
                     <button onClick={handlePrint} className="flex flex-col items-center justify-center gap-2 p-3 bg-slate-700 hover:bg-slate-600 border border-slate-600 rounded-lg text-xs transition-colors text-slate-200 hover:text-white hover:border-slate-500">
                         <Printer className="w-5 h-5 text-emerald-400" />
@@ -627,7 +789,11 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ result, onUp
                         <Globe className="w-5 h-5 text-teal-400" />
                         <span>Export GeoJSON</span>
                     </button>
-                    <button onClick={handleDownloadJSON} className="flex flex-col items-center justify-center gap-2 p-3 bg-slate-700/50 border border-slate-600 border-dashed rounded-lg text-xs transition-colors text-slate-400 hover:text-slate-200 hover:bg-slate-700/80 hover:border-slate-500">
+                    <button onClick={handleExportContours} className="flex flex-col items-center justify-center gap-2 p-3 bg-slate-700 hover:bg-slate-600 border border-slate-600 rounded-lg text-xs transition-colors text-slate-200 hover:text-white hover:border-slate-500">
+                        <Mountain className="w-5 h-5 text-sky-400" />
+                        <span>Contours GeoJSON</span>
+                    </button>
+                    <button onClick={handleDownloadJSON} className="col-span-2 flex flex-col items-center justify-center gap-2 p-3 bg-slate-700/50 border border-slate-600 border-dashed rounded-lg text-xs transition-colors text-slate-400 hover:text-slate-200 hover:bg-slate-700/80 hover:border-slate-500">
                         <Download className="w-5 h-5" />
                         <span>Save Project JSON</span>
                     </button>
@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, GitCompare, Plus, Minus, MoveRight, AlertTriangle, ArrowRight } from 'lucide-react';
+import { AnalysisRun, TargetArea, TargetChange } from '../types';
+import { compareRuns, runLabel } from '../services/runHistory';
+
+interface RunComparisonModalProps {
+  isOpen: boolean;
+  runs: AnalysisRun[];
+  activeRunId: string | null;
+  onClose: () => void;
+}
+
+const pct = (v: number) => `${(v * 100).toFixed(0)}%`;
+const signedPct = (v: number) => `${v > 0 ? '+' : ''}${(v * 100).toFixed(0)}%`;
+const deltaClass = (v: number) => v > 0.005 ? 'text-emerald-400' : v < -0.005 ? 'text-red-400' : 'text-slate-500';
+
+const ValueChange: React.FC<{ label: string; before: string; after: string }> = ({ label, before, after }) => (
+  <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-3">
+    <p className="text-[11px] text-slate-500 uppercase tracking-wider mb-1">{label}</p>
+    <p className="text-sm flex items-center gap-2">
+      <span className="text-slate-400">{before}</span>
+      <ArrowRight className="w-3.5 h-3.5 text-slate-600" />
+      <span className={before === after ? 'text-slate-400' : 'text-white font-semibold'}>{after}</span>
+    </p>
+  </div>
+);
+
+const TargetRow: React.FC<{ kind: 'added' | 'removed' | 'moved' | 'same'; target: TargetArea; change?: TargetChange }> = ({ kind, target, change }) => {
+  const styles = {
+    added: { icon: Plus, className: 'text-emerald-400', label: 'Added' },
+    removed: { icon: Minus, className: 'text-red-400', label: 'Removed' },
+    moved: { icon: MoveRight, className: 'text-amber-400', label: 'Moved' },
+    same: { icon: null, className: 'text-slate-500', label: 'Same place' }
+  }[kind];
+  const Icon = styles.icon;
+  return (
+    <tr className="border-t border-slate-800">
+      <td className={`py-1.5 pr-3 whitespace-nowrap ${styles.className}`}>
+        <span className="flex items-center gap-1.5">{Icon && <Icon className="w-3.5 h-3.5" />}{styles.label}</span>
+      </td>
+      <td className="py-1.5 pr-3 font-mono text-slate-500 whitespace-nowrap">
+        {change ? `#${change.before.id} → #${change.after.id}` : `#${target.id}`}
+      </td>
+      <td className="py-1.5 pr-3 font-mono text-slate-400 whitespace-nowrap">
+        {change && kind === 'moved'
+          ? `${change.before.x.toFixed(1)}, ${change.before.y.toFixed(1)} → ${change.after.x.toFixed(1)}, ${change.after.y.toFixed(1)} (${change.distance.toFixed(1)})`
+          : `${target.x.toFixed(1)}, ${target.y.toFixed(1)}`}
+      </td>
+      <td className="py-1.5 pr-3 font-mono whitespace-nowrap">
+        {change
+          ? <><span className="text-slate-400">{pct(change.before.probability)} → {pct(change.after.probability)}</span> <span className={deltaClass(change.probabilityDelta)}>({signedPct(change.probabilityDelta)})</span></>
+          : <span className="text-slate-400">{pct(target.probability)}</span>}
+      </td>
+      <td className="py-1.5 text-slate-300 truncate max-w-xs">{target.description}</td>
+    </tr>
+  );
+};
+
+export const RunComparisonModal: React.FC<RunComparisonModalProps> = ({ isOpen, runs, activeRunId, onClose }) => {
+  const [baseId, setBaseId] = useState<string>('');
+  const [nextId, setNextId] = useState<string>('');
+
+  // Default to the version on screen against the one before it
+  useEffect(() => {
+    if (!isOpen) return;
+    const activeIndex = Math.max(0, runs.findIndex(r => r.id === activeRunId));
+    setNextId(runs[activeIndex]?.id ?? '');
+    setBaseId(runs[Math.max(0, activeIndex - 1)]?.id ?? '');
+  }, [isOpen]);
+
+  const base = runs.find(r => r.id === baseId);
+  const next = runs.find(r => r.id === nextId);
+  const comparison = useMemo(() => base && next ? compareRuns(base, next) : null, [base, next]);
+
+  if (!isOpen) return null;
+
+  const selectClass = "bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 outline-none focus:ring-1 focus:ring-emerald-500";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-5xl max-h-[90vh] flex flex-col shadow-2xl animate-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800 bg-slate-900/50">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <GitCompare className="w-6 h-6 text-emerald-400" />
+              Compare Versions
+            </h2>
+            <div className="flex flex-wrap items-center gap-2 mt-2">
+              <select value={baseId} onChange={(e) => setBaseId(e.target.value)} className={selectClass}>
+                {runs.map(r => <option key={r.id} value={r.id}>{runLabel(r)}</option>)}
+              </select>
+              <ArrowRight className="w-4 h-4 text-slate-500" />
+              <select value={nextId} onChange={(e) => setNextId(e.target.value)} className={selectClass}>
+                {runs.map(r => <option key={r.id} value={r.id}>{runLabel(r)}</option>)}
+              </select>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        {comparison && base && next && (
+          <div className="overflow-y-auto p-6 space-y-6 custom-scrollbar">
+            {comparison.frameChanged && (
+              <div className="flex items-start gap-2 px-4 py-2 rounded-lg border border-amber-500/30 bg-amber-900/10 text-xs text-amber-200">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                The two versions use different reference frames (a different reference image or data extent), so target positions are not directly comparable.
+              </div>
+            )}
+
+            <section className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <ValueChange label="Porphyry potential" before={comparison.porphyryPotential.before} after={comparison.porphyryPotential.after} />
+              <ValueChange label="Epithermal potential" before={comparison.epithermalPotential.before} after={comparison.epithermalPotential.after} />
+              <ValueChange label="Confidence" before={pct(base.result.confidenceScore)} after={`${pct(next.result.confidenceScore)} (${signedPct(comparison.confidenceDelta)})`} />
+              <ValueChange label="Targets" before={String(base.result.targetAreas.length)} after={String(next.result.targetAreas.length)} />
+            </section>
+
+            <section className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Alteration minerals</h3>
+                <div className="flex flex-wrap gap-1.5">
+                  {comparison.mineralsAdded.map(m => <span key={`+${m}`} className="px-2 py-0.5 rounded text-xs bg-emerald-900/30 border border-emerald-500/30 text-emerald-300">+ {m}</span>)}
+                  {comparison.mineralsRemoved.map(m => <span key={`-${m}`} className="px-2 py-0.5 rounded text-xs bg-red-900/30 border border-red-500/30 text-red-300 line-through">{m}</span>)}
+                  {comparison.mineralsAdded.length + comparison.mineralsRemoved.length === 0 && <span className="text-xs italic text-slate-600">No change.</span>}
+                </div>
+              </div>
+              <div>
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Inputs</h3>
+                <div className="flex flex-wrap gap-1.5">
+                  {comparison.inputsAdded.map(n => <span key={`+${n}`} className="px-2 py-0.5 rounded text-xs bg-emerald-900/30 border border-emerald-500/30 text-emerald-300">+ {n}</span>)}
+                  {comparison.inputsRemoved.map(n => <span key={`-${n}`} className="px-2 py-0.5 rounded text-xs bg-red-900/30 border border-red-500/30 text-red-300 line-through">{n}</span>)}
+                  {comparison.inputsAdded.length + comparison.inputsRemoved.length === 0 && <span className="text-xs italic text-slate-600">Same inputs.</span>}
+                </div>
+                <p className="text-[11px] text-slate-500 mt-2">{base.modelId} → {next.modelId}</p>
+              </div>
+            </section>
+
+            <section className="grid grid-cols-1 lg:grid-cols-[240px_1fr] gap-4">
+              {/* Both target sets in the shared 0-100 frame: hollow = before, filled = after */}
+              <svg viewBox="0 0 100 100" className="w-full aspect-square bg-slate-950 border border-slate-700 rounded-lg">
+                {comparison.moved.map((c, i) => (
+                  <line key={i} x1={c.before.x} y1={c.before.y} x2={c.after.x} y2={c.after.y} stroke="#fbbf24" strokeWidth={0.5} strokeDasharray="1 1" />
+                ))}
+                {base.result.targetAreas.map(t => (
+                  <circle key={`b${t.id}`} cx={t.x} cy={t.y} r={1.8} fill="none" stroke={comparison.removed.includes(t) ? '#f87171' : '#64748b'} strokeWidth={0.5} />
+                ))}
+                {next.result.targetAreas.map(t => (
+                  <circle key={`n${t.id}`} cx={t.x} cy={t.y} r={1.2} fill={comparison.added.includes(t) ? '#34d399' : '#e2e8f0'} />
+                ))}
+              </svg>
+
+              <table className="w-full text-xs self-start">
+                <thead>
+                  <tr className="text-left text-slate-500">
+                    <th className="pb-2 pr-3 font-medium">Change</th>
+                    <th className="pb-2 pr-3 font-medium">Id</th>
+                    <th className="pb-2 pr-3 font-medium">Position (x, y)</th>
+                    <th className="pb-2 pr-3 font-medium">Probability</th>
+                    <th className="pb-2 font-medium">Description</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.added.map(t => <TargetRow key={`a${t.id}`} kind="added" target={t} />)}
+                  {comparison.removed.map(t => <TargetRow key={`r${t.id}`} kind="removed" target={t} />)}
+                  {comparison.moved.map(c => <TargetRow key={`m${c.after.id}`} kind="moved" target={c.after} change={c} />)}
+                  {comparison.unchanged.map(c => <TargetRow key={`u${c.after.id}`} kind="same" target={c.after} change={c} />)}
+                </tbody>
+              </table>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { History, GitCompare, Trash2, FolderInput } from 'lucide-react';
+import { AnalysisRun } from '../types';
+import { runLabel } from '../services/runHistory';
+
+interface RunHistoryBarProps {
+  runs: AnalysisRun[];
+  activeRunId: string | null;
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+  onCompare: () => void;
+  onOpenFile: () => void;
+}
+
+export const RunHistoryBar: React.FC<RunHistoryBarProps> = ({ runs, activeRunId, onSelect, onDelete, onCompare, onOpenFile }) => {
+  const activeRun = runs.find(r => r.id === activeRunId);
+
+  const handleDelete = () => {
+    if (activeRun && confirm(`Delete version ${activeRun.version}? Edits made to it are lost.`)) onDelete(activeRun.id);
+  };
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-3 bg-slate-800/30 border border-slate-700 rounded-xl px-4 py-3 print:hidden">
+      <History className="w-4 h-4 text-emerald-400" />
+      <label className="text-xs text-slate-400 flex items-center gap-2">
+        Version
+        <select
+          value={activeRunId ?? ''}
+          onChange={(e) => onSelect(e.target.value)}
+          className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 outline-none focus:ring-1 focus:ring-emerald-500"
+        >
+          {[...runs].reverse().map(run => (
+            <option key={run.id} value={run.id}>{runLabel(run)}</option>
+          ))}
+        </select>
+      </label>
+      {activeRun && (
+        <span className="text-[11px] text-slate-500">
+          {activeRun.importedFrom ? 'Opened from file' : `${activeRun.inputs.length} inputs`} · {activeRun.projectCrs}
+        </span>
+      )}
+      <div className="ml-auto flex items-center gap-2">
+        <button
+          onClick={onOpenFile}
+          className="px-3 py-1.5 text-xs rounded-lg bg-slate-700 hover:bg-slate-600 text-white flex items-center gap-1.5"
+          title="Open an exported analysis (.json or .geojson) as a new version"
+        >
+          <FolderInput className="w-3.5 h-3.5" /> Open analysis
+        </button>
+        <button
+          onClick={onCompare}
+          disabled={runs.length < 2}
+          className="px-3 py-1.5 text-xs rounded-lg bg-slate-700 hover:bg-slate-600 text-white flex items-center gap-1.5 disabled:opacity-40 disabled:cursor-not-allowed"
+          title={runs.length < 2 ? 'Run the analysis again to have something to compare with' : 'Compare two versions'}
+        >
+          <GitCompare className="w-3.5 h-3.5" /> Compare versions
+        </button>
+        <button onClick={handleDelete} className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-slate-800 rounded-lg" title="Delete this version">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { X, Settings, Check, Cloud, Server, FlaskConical, RotateCcw } from 'lucide-react';
+import { AnalysisProviderId, AnalysisSettings } from '../types';
+import { ANALYSIS_PROVIDERS } from '../services/providers';
+import { MOCK_FIXTURES } from '../services/providers/mockFixtures';
+import { DEFAULT_ANALYSIS_SETTINGS } from '../services/settings';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  settings: AnalysisSettings;
+  onSave: (settings: AnalysisSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_ICONS: Record<AnalysisProviderId, React.ElementType> = {
+  'gemini': Cloud,
+  'openai-compatible': Server,
+  'mock': FlaskConical
+};
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState(settings);
+
+  // Start from the saved settings every time the panel opens
+  useEffect(() => {
+    if (isOpen) setDraft(settings);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<AnalysisSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const inputClass = "w-full bg-slate-800 border border-slate-600 rounded px-3 py-2 text-sm text-slate-200 focus:ring-1 focus:ring-emerald-500 outline-none placeholder:text-slate-600";
+  const labelClass = "text-[11px] text-slate-400 flex flex-col gap-1";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-2xl max-h-[90vh] flex flex-col shadow-2xl animate-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800 bg-slate-900/50">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <Settings className="w-6 h-6 text-emerald-400" />
+              Analysis Settings
+            </h2>
+            <p className="text-sm text-slate-400 mt-1">Choose which model provider runs the analysis.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="overflow-y-auto p-6 space-y-6 custom-scrollbar">
+          <section className="space-y-2">
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Provider</h3>
+            {ANALYSIS_PROVIDERS.map(provider => {
+              const Icon = PROVIDER_ICONS[provider.id];
+              const selected = draft.provider === provider.id;
+              return (
+                <button
+                  key={provider.id}
+                  onClick={() => update({ provider: provider.id })}
+                  className={`w-full text-left p-3 rounded-lg border flex items-start gap-3 transition-colors ${
+                    selected ? 'bg-emerald-500/10 border-emerald-500/50' : 'bg-slate-800/50 border-slate-700 hover:border-slate-500'
+                  }`}
+                >
+                  <Icon className={`w-5 h-5 mt-0.5 shrink-0 ${selected ? 'text-emerald-400' : 'text-slate-500'}`} />
+                  <div>
+                    <p className={`text-sm font-semibold ${selected ? 'text-white' : 'text-slate-300'}`}>{provider.label}</p>
+                    <p className="text-xs text-slate-500 mt-0.5">{provider.description}</p>
+                  </div>
+                  {selected && <Check className="w-4 h-4 text-emerald-400 ml-auto shrink-0" />}
+                </button>
+              );
+            })}
+          </section>
+
+          {draft.provider === 'gemini' && (
+            <section className="grid grid-cols-2 gap-3">
+              <label className={labelClass}>
+                Model
+                <input value={draft.geminiModel} onChange={(e) => update({ geminiModel: e.target.value })} className={inputClass} />
+              </label>
+              <label className={labelClass}>
+                Thinking budget (tokens)
+                <input
+                  type="number"
+                  min={0}
+                  step={256}
+                  value={draft.thinkingBudget}
+                  onChange={(e) => update({ thinkingBudget: Math.max(0, Number(e.target.value) || 0) })}
+                  className={inputClass}
+                />
+              </label>
+              <p className="col-span-2 text-[11px] text-slate-500">The API key is read from <code className="text-slate-400">GEMINI_API_KEY</code> in <code className="text-slate-400">.env.local</code>.</p>
+            </section>
+          )}
+
+          {draft.provider === 'openai-compatible' && (
+            <section className="grid grid-cols-2 gap-3">
+              <label className={`${labelClass} col-span-2`}>
+                Base URL
+                <input
+                  value={draft.openAiBaseUrl}
+                  onChange={(e) => update({ openAiBaseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className={inputClass}
+                />
+              </label>
+              <label className={labelClass}>
+                Model
+                <input value={draft.openAiModel} onChange={(e) => update({ openAiModel: e.target.value })} className={inputClass} />
+              </label>
+              <label className={labelClass}>
+                API key (optional)
+                <input
+                  type="password"
+                  value={draft.openAiApiKey}
+                  onChange={(e) => update({ openAiApiKey: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <p className="col-span-2 text-[11px] text-slate-500">
+                Ollama: <code className="text-slate-400">http://localhost:11434/v1</code> (start with <code className="text-slate-400">OLLAMA_ORIGINS=*</code>).
+                llama.cpp server: <code className="text-slate-400">http://localhost:8080/v1</code>. PDFs are skipped; imagery needs a vision model.
+              </p>
+            </section>
+          )}
+
+          {draft.provider === 'mock' && (
+            <section>
+              <label className={labelClass}>
+                Fixture
+                <select value={draft.mockFixture} onChange={(e) => update({ mockFixture: e.target.value })} className={inputClass}>
+                  <option value="auto">Automatic (chosen from the uploaded files)</option>
+                  {MOCK_FIXTURES.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                </select>
+              </label>
+            </section>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-between items-center p-4 border-t border-slate-800">
+          <button
+            onClick={() => setDraft(DEFAULT_ANALYSIS_SETTINGS)}
+            className="px-3 py-2 text-xs text-slate-500 hover:text-slate-300 flex items-center gap-1.5"
+          >
+            <RotateCcw className="w-3.5 h-3.5" /> Reset to defaults
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-sm text-slate-400 hover:text-white">
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white text-sm rounded-lg flex items-center gap-2"
+            >
+              <Check className="w-4 h-4" /> Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { X, Satellite, Check, AlertCircle, Calculator, Plus, Trash2, Loader2 } from 'lucide-react';
+import { SensorId, UploadedFile } from '../types';
+import {
+  ALTERATION_INDICES, checkBandExpression, defaultBandNames, detectSensor, IndexRequest, SENSORS, SpectralIndexOutput
+} from '../services/spectral';
+import { computeSpectralIndices } from '../services/griddingClient';
+
+interface SpectralIndexModalProps {
+  scene: UploadedFile | null;
+  onComplete: (sceneId: string, outputs: SpectralIndexOutput[]) => void;
+  onClose: () => void;
+}
+
+interface CustomIndex {
+  label: string;
+  expression: string;
+}
+
+export const SpectralIndexModal: React.FC<SpectralIndexModalProps> = ({ scene, onComplete, onClose }) => {
+  const bandCount = scene?.bandCount ?? 0;
+  const [sensor, setSensor] = useState<SensorId>('generic');
+  const [bandText, setBandText] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [custom, setCustom] = useState<CustomIndex[]>([]);
+  const [isComputing, setIsComputing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const bandNames = bandText.split(',').map(b => b.trim()).filter(Boolean);
+
+  const resetForSensor = (id: SensorId) => {
+    const names = defaultBandNames(id, bandCount);
+    setSensor(id);
+    setBandText(names.join(', '));
+    setSelected(new Set(ALTERATION_INDICES.filter(p => p.expressions[id] && !checkBandExpression(p.expressions[id]!, names)).map(p => p.id)));
+  };
+
+  useEffect(() => {
+    setCustom([]);
+    setError(null);
+    if (scene?.file) resetForSensor(detectSensor(scene.file.name, bandCount));
+  }, [scene?.id]);
+
+  if (!scene) return null;
+
+  const presets = ALTERATION_INDICES.map(preset => {
+    const expression = preset.expressions[sensor];
+    return { preset, expression, problem: expression ? checkBandExpression(expression, bandNames) : null };
+  });
+  const customProblems = custom.map(c =>
+    !c.label.trim() ? "Give the index a name." : checkBandExpression(c.expression, bandNames));
+
+  const requests: IndexRequest[] = [
+    ...presets
+      .filter(p => p.expression && !p.problem && selected.has(p.preset.id))
+      .map(p => ({ indexId: p.preset.id, label: p.preset.label, expression: p.expression!, description: p.preset.description })),
+    ...custom
+      .filter((_, i) => !customProblems[i])
+      .map(c => ({ indexId: 'custom', label: c.label.trim(), expression: c.expression.trim(), description: `Custom band math: ${c.expression.trim()}.` }))
+  ];
+
+  const togglePreset = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const updateCustom = (index: number, patch: Partial<CustomIndex>) =>
+    setCustom(prev => prev.map((c, i) => i === index ? { ...c, ...patch } : c));
+
+  const handleCompute = async () => {
+    setIsComputing(true);
+    setError(null);
+    try {
+      onComplete(scene.id, await computeSpectralIndices(scene, sensor, bandNames, requests));
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || "Could not compute the indices.");
+    } finally {
+      setIsComputing(false);
+    }
+  };
+
+  const inputClass = "w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-slate-200 focus:ring-1 focus:ring-teal-500 outline-none placeholder:text-slate-600";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-3xl max-h-[90vh] flex flex-col shadow-2xl animate-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800 bg-slate-900/50">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <Satellite className="w-6 h-6 text-teal-400" />
+              Alteration Indices
+            </h2>
+            <p className="text-sm text-slate-400 mt-1 truncate max-w-xl">{scene.file?.name} · {bandCount} bands</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="overflow-y-auto p-6 space-y-6 custom-scrollbar">
+          <section>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Sensor & Bands</h3>
+            <div className="grid grid-cols-3 gap-3">
+              <label className="text-[11px] text-slate-400 flex flex-col gap-1">
+                Sensor
+                <select value={sensor} onChange={(e) => resetForSensor(e.target.value as SensorId)} className={inputClass}>
+                  {Object.values(SENSORS).map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                </select>
+              </label>
+              <label className="text-[11px] text-slate-400 flex flex-col gap-1 col-span-2">
+                Bands in file order
+                <input value={bandText} onChange={(e) => setBandText(e.target.value)} className={`${inputClass} font-mono`} />
+              </label>
+            </div>
+            <p className={`text-[11px] mt-2 ${bandNames.length !== bandCount ? 'text-amber-400' : 'text-slate-500'}`}>
+              {bandNames.length !== bandCount
+                ? `${bandNames.length} names for ${bandCount} bands: name every band in the order it is stacked in the file.`
+                : 'Stack the bands of a scene into one GeoTIFF (e.g. with GDAL or QGIS) and name them here in that order. Reflectance products give the most reliable ratios.'}
+            </p>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Standard Indices</h3>
+            <ul className="space-y-2">
+              {presets.map(({ preset, expression, problem }) => {
+                const available = !!expression && !problem;
+                return (
+                  <li key={preset.id} className={`p-3 rounded-lg border flex items-start gap-3 ${available && selected.has(preset.id) ? 'bg-teal-500/5 border-teal-500/30' : 'bg-slate-800/50 border-slate-700'}`}>
+                    <input
+                      type="checkbox"
+                      checked={available && selected.has(preset.id)}
+                      disabled={!available}
+                      onChange={() => togglePreset(preset.id)}
+                      className="accent-teal-500 mt-0.5"
+                    />
+                    <div className={`min-w-0 flex-1 ${available ? '' : 'opacity-50'}`}>
+                      <p className="text-sm text-slate-200 flex items-center gap-2">
+                        {preset.label}
+                        {expression && <code className="text-[11px] text-teal-300 bg-slate-900 px-1.5 py-0.5 rounded">{expression}</code>}
+                      </p>
+                      <p className="text-[11px] text-slate-500 mt-0.5">
+                        {!expression ? `${SENSORS[sensor].label} does not have the bands to resolve this.` : problem ?? preset.description}
+                      </p>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                <Calculator className="w-3.5 h-3.5" /> Band Math
+              </h3>
+              <button
+                onClick={() => setCustom(prev => [...prev, { label: '', expression: '' }])}
+                className="px-2.5 py-1 text-xs rounded-lg bg-slate-700 hover:bg-slate-600 text-white flex items-center gap-1.5"
+              >
+                <Plus className="w-3.5 h-3.5" /> Add expression
+              </button>
+            </div>
+            {custom.length === 0 && (
+              <p className="text-[11px] text-slate-500">
+                Combine band names with numbers, + − × ÷, ^, parentheses and sqrt, abs, log, log10, min, max — e.g. <code className="text-teal-300">(B4/B2) * (B6/B7)</code>.
+              </p>
+            )}
+            <div className="space-y-2">
+              {custom.map((c, i) => (
+                <div key={i} className="grid grid-cols-[1fr_2fr_auto] gap-2 items-start">
+                  <input value={c.label} onChange={(e) => updateCustom(i, { label: e.target.value })} placeholder="Name" className={inputClass} />
+                  <div>
+                    <input value={c.expression} onChange={(e) => updateCustom(i, { expression: e.target.value })} placeholder="e.g. (B4+B6)/B5" className={`${inputClass} font-mono`} />
+                    {customProblems[i] && (c.label || c.expression) && <p className="text-[10px] text-amber-400 mt-1">{customProblems[i]}</p>}
+                  </div>
+                  <button onClick={() => setCustom(prev => prev.filter((_, k) => k !== i))} className="p-1.5 text-slate-500 hover:text-red-400" title="Remove">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          {error && (
+            <div className="p-3 bg-red-900/30 border border-red-500/30 rounded flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+              <p className="text-xs text-red-200">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-between items-center p-4 border-t border-slate-800">
+          <p className="text-[11px] text-slate-500">Each index is added to Satellite Imagery as an image, shown on the results map and sent with the analysis.</p>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-sm text-slate-400 hover:text-white">
+              Cancel
+            </button>
+            <button
+              onClick={handleCompute}
+              disabled={requests.length === 0 || isComputing}
+              className="px-4 py-2 bg-teal-600 hover:bg-teal-500 text-white text-sm rounded-lg flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isComputing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+              Compute {requests.length} {requests.length === 1 ? 'Index' : 'Indices'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
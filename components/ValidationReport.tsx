@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { ShieldCheck, ShieldAlert, ChevronDown, ChevronUp, Wrench, AlertTriangle } from 'lucide-react';
+import { ResultIssue } from '../types';
+
+interface ValidationReportProps {
+  issues: ResultIssue[];
+}
+
+export const ValidationReport: React.FC<ValidationReportProps> = ({ issues }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const repairs = issues.filter(i => i.severity === 'repair');
+  const warnings = issues.filter(i => i.severity === 'warning');
+
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 px-4 py-2 rounded-lg border border-emerald-500/20 bg-emerald-900/10 text-xs text-emerald-300/80 print:hidden">
+        <ShieldCheck className="w-4 h-4" /> Model output passed validation without changes.
+      </div>
+    );
+  }
+
+  return (
+    <div className={`rounded-lg border ${warnings.length ? 'border-amber-500/30 bg-amber-900/10' : 'border-slate-700 bg-slate-800/30'} print:hidden`}>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-4 py-2 text-xs"
+      >
+        <span className="flex items-center gap-2 text-slate-300">
+          <ShieldAlert className={`w-4 h-4 ${warnings.length ? 'text-amber-400' : 'text-slate-400'}`} />
+          Model output was checked:
+          <strong className="text-slate-100">{repairs.length}</strong> repair{repairs.length === 1 ? '' : 's'},
+          <strong className={warnings.length ? 'text-amber-300' : 'text-slate-100'}>{warnings.length}</strong> warning{warnings.length === 1 ? '' : 's'}
+        </span>
+        {isExpanded ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </button>
+
+      {isExpanded && (
+        <ul className="px-4 pb-3 space-y-1.5 max-h-64 overflow-y-auto custom-scrollbar">
+          {[...warnings, ...repairs].map((issue, idx) => (
+            <li key={idx} className="flex items-start gap-2 text-[11px]">
+              {issue.severity === 'warning'
+                ? <AlertTriangle className="w-3.5 h-3.5 text-amber-400 shrink-0 mt-0.5" />
+                : <Wrench className="w-3.5 h-3.5 text-slate-500 shrink-0 mt-0.5" />}
+              <span className="font-mono text-slate-500 shrink-0">{issue.field}</span>
+              <span className="text-slate-300">{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
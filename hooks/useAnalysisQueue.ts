@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AnalysisJob, AnalysisSettings, UploadedFile } from '../types';
+import { analyzeGeologicalData } from '../services/providers';
+import { applyProgressEvent, createAnalysisProgress } from '../services/analysisProgress';
+import { getAnalysisFrame } from '../services/georeference';
+import { isAnalysisError } from '../services/analysisErrors';
+
+interface QueuedAnalysis {
+  projectId: string;
+  label: string;
+  files: UploadedFile[];
+  projectCrs: string;
+  settings: AnalysisSettings;
+}
+
+// Jobs run one at a time in the order they were queued; the rest of the app stays usable meanwhile
+export const useAnalysisQueue = (onJobFinished?: (job: AnalysisJob) => void) => {
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const runningId = useRef<string | null>(null);
+
+  // The latest callback is used, so it can read current app state when a job ends
+  const onJobFinishedRef = useRef(onJobFinished);
+  onJobFinishedRef.current = onJobFinished;
+
+  const updateJob = (id: string, patch: (job: AnalysisJob) => Partial<AnalysisJob>) =>
+    setJobs(prev => prev.map(j => j.id === id ? { ...j, ...patch(j) } : j));
+
+  const runJob = async (job: AnalysisJob) => {
+    const controller = new AbortController();
+    controllers.current.set(job.id, controller);
+    runningId.current = job.id;
+    updateJob(job.id, () => ({ status: 'running' }));
+
+    let finished: AnalysisJob;
+    let prompt: string | undefined;
+    try {
+      const result = await analyzeGeologicalData({
+        files: job.files,
+        projectCrs: job.projectCrs,
+        settings: job.settings,
+        signal: controller.signal,
+        onProgress: event => {
+          if (event.type === 'request') prompt = event.prompt;
+          updateJob(job.id, j => ({ progress: applyProgressEvent(j.progress, event) }));
+        }
+      });
+      // Keep the frame the 0-100 coordinates refer to, so targets can be placed on the ground
+      finished = { ...job, status: 'complete', prompt, result: { ...result, georeference: getAnalysisFrame(job.files, job.projectCrs) } };
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        finished = { ...job, status: 'cancelled' };
+      } else {
+        console.error(error);
+        finished = {
+          ...job,
+          status: 'failed',
+          error: error.message || "An unknown error occurred.",
+          errorKind: isAnalysisError(error) ? error.kind : 'unknown'
+        };
+      }
+    }
+
+    controllers.current.delete(job.id);
+    runningId.current = null;
+    const finishedAt = Date.now();
+    updateJob(job.id, () => ({ status: finished.status, result: finished.result, error: finished.error, errorKind: finished.errorKind, finishedAt }));
+    if (finished.status !== 'cancelled') onJobFinishedRef.current?.({ ...finished, finishedAt });
+  };
+
+  // Start the next queued job whenever nothing is running
+  useEffect(() => {
+    if (runningId.current) return;
+    const next = jobs.find(j => j.status === 'queued');
+    if (next) runJob(next);
+  }, [jobs]);
+
+  const enqueue = useCallback(({ projectId, label, files, projectCrs, settings }: QueuedAnalysis): string => {
+    const id = Math.random().toString(36).substr(2, 9);
+    setJobs(prev => [...prev, {
+      id,
+      projectId,
+      label,
+      createdAt: Date.now(),
+      files,
+      projectCrs,
+      settings,
+      status: 'queued',
+      progress: createAnalysisProgress(files)
+    }]);
+    return id;
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort();
+      return;
+    }
+    setJobs(prev => prev.map(j => j.id === id && j.status === 'queued' ? { ...j, status: 'cancelled', finishedAt: Date.now() } : j));
+  }, []);
+
+  // Running jobs must be cancelled first
+  const remove = useCallback((id: string) => {
+    setJobs(prev => prev.filter(j => j.id !== id || j.status === 'running'));
+  }, []);
+
+  return { jobs, enqueue, cancel, remove };
+};
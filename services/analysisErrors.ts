@@ -0,0 +1,86 @@
+// Typed failures from an analysis run. Providers translate their own error shapes into these,
+// so the UI and the retry loop can branch on the kind rather than on message text.
+import { AnalysisErrorKind } from "../types";
+
+interface AnalysisErrorOptions {
+  cause?: unknown;
+  retryAfterMs?: number; // server-suggested wait, honoured by the retry loop
+}
+
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, kind: AnalysisErrorKind = 'unknown', retryable = false, options: AnalysisErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "AnalysisError";
+    this.kind = kind;
+    this.retryable = retryable;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class AuthError extends AnalysisError {
+  constructor(message = "Authentication failed. Please check your API key configuration.", options?: AnalysisErrorOptions) {
+    super(message, 'auth', false, options);
+    this.name = "AuthError";
+  }
+}
+
+// Rate limits clear within seconds to minutes, so these are retried
+export class QuotaError extends AnalysisError {
+  constructor(message = "API quota exceeded. Please try again later or increase your project quota.", options?: AnalysisErrorOptions) {
+    super(message, 'quota', true, options);
+    this.name = "QuotaError";
+  }
+}
+
+export class OverloadedError extends AnalysisError {
+  constructor(message = "The AI service is currently overloaded.", options?: AnalysisErrorOptions) {
+    super(message, 'overloaded', true, options);
+    this.name = "OverloadedError";
+  }
+}
+
+export class NetworkError extends AnalysisError {
+  constructor(message = "The model server could not be reached.", options?: AnalysisErrorOptions) {
+    super(message, 'network', true, options);
+    this.name = "NetworkError";
+  }
+}
+
+export class SafetyBlockError extends AnalysisError {
+  constructor(message = "The request was blocked by safety filters. Please ensure uploaded images do not contain sensitive content.", options?: AnalysisErrorOptions) {
+    super(message, 'safety', false, options);
+    this.name = "SafetyBlockError";
+  }
+}
+
+export class ParseError extends AnalysisError {
+  constructor(message = "Failed to parse the geological analysis. The model output was not valid JSON.", options?: AnalysisErrorOptions) {
+    super(message, 'parse', false, options);
+    this.name = "ParseError";
+  }
+}
+
+export class InputTooLargeError extends AnalysisError {
+  constructor(message = "The inputs are too large for this model. Remove or downsample some files and try again.", options?: AnalysisErrorOptions) {
+    super(message, 'input-too-large', false, options);
+    this.name = "InputTooLargeError";
+  }
+}
+
+const TOO_LARGE_PATTERN = /too large|too long|exceeds the maximum|context length|maximum context|payload size|token count/i;
+
+// Shared by providers that report failures as HTTP statuses
+export const errorFromStatus = (status: number, detail: string, options?: AnalysisErrorOptions): AnalysisError => {
+  const message = detail ? `${status}: ${detail.slice(0, 300)}` : `status ${status}`;
+  if (status === 401 || status === 403) return new AuthError(`Authentication failed (${message}). Please check your API key configuration.`, options);
+  if (status === 429) return new QuotaError(`Rate limit or quota exceeded (${message}).`, options);
+  if (status === 413 || (status === 400 && TOO_LARGE_PATTERN.test(detail))) return new InputTooLargeError(undefined, options);
+  if (status >= 500) return new OverloadedError(`The model service is unavailable or overloaded (${message}).`, options);
+  return new AnalysisError(`The model service returned ${message}`, 'unknown', false, options);
+};
+
+export const isAnalysisError = (error: unknown): error is AnalysisError => error instanceof AnalysisError;
@@ -0,0 +1,96 @@
+import { AnalysisProgress, AnalysisProgressEvent, TargetArea, UploadedFile } from "../types";
+
+export const createAnalysisProgress = (files: UploadedFile[]): AnalysisProgress => ({
+  stage: 'encoding',
+  files: files.map(f => ({
+    fileId: f.id,
+    name: f.file?.name ?? f.url ?? f.id,
+    status: 'pending',
+    bytes: 0
+  })),
+  requestBytes: 0,
+  thinking: '',
+  outputChars: 0,
+  partialTargets: [],
+  attempt: 1
+});
+
+export const applyProgressEvent = (current: AnalysisProgress, event: AnalysisProgressEvent): AnalysisProgress => {
+  // Any activity after a retry notice means the next attempt has started
+  const progress = current.retry && event.type !== 'retry' ? { ...current, retry: undefined } : current;
+  switch (event.type) {
+    case 'file':
+      return {
+        ...progress,
+        files: progress.files.map(f => f.fileId === event.fileId ? { ...f, status: event.status, bytes: event.bytes ?? f.bytes } : f)
+      };
+    case 'request':
+      return { ...progress, stage: 'uploading', requestBytes: event.bytes };
+    case 'thought':
+      return { ...progress, stage: 'thinking', thinking: progress.thinking + event.text };
+    case 'output':
+      return { ...progress, stage: 'generating', outputChars: event.text.length, partialTargets: event.targets };
+    case 'validating':
+      return { ...progress, stage: 'validating' };
+    case 'retry':
+      // The next attempt starts from scratch, so its progress does too
+      return {
+        ...progress,
+        stage: 'encoding',
+        files: progress.files.map(f => ({ ...f, status: 'pending', bytes: 0 })),
+        requestBytes: 0,
+        thinking: '',
+        outputChars: 0,
+        partialTargets: [],
+        attempt: event.attempt,
+        retry: { maxAttempts: event.maxAttempts, resumeAt: event.resumeAt, reason: event.reason }
+      };
+  }
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// --- Targets from an incomplete JSON response ---
+// Scans the "targetAreas" array and parses every element whose closing brace has arrived.
+export const extractPartialTargets = (text: string): TargetArea[] => {
+  const key = text.indexOf('"targetAreas"');
+  if (key < 0) return [];
+  const start = text.indexOf('[', key);
+  if (start < 0) return [];
+
+  const targets: TargetArea[] = [];
+  let depth = 0;
+  let inString = false;
+  let objectStart = -1;
+  for (let i = start + 1; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') {
+      if (depth === 0) objectStart = i;
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0 && objectStart >= 0) {
+        try {
+          const target = JSON.parse(text.slice(objectStart, i + 1));
+          if (typeof target.x === 'number' && typeof target.y === 'number') targets.push(target);
+        } catch {
+          // Incomplete or malformed element; the validator reports it once the response is complete
+        }
+        objectStart = -1;
+      }
+    } else if (ch === ']' && depth === 0) {
+      break;
+    }
+  }
+  return targets;
+};
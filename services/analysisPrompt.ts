@@ -0,0 +1,236 @@
+import { AnalysisProgressEvent, UploadedFile } from "../types";
+import { buildGeochemEvidence, buildGeophysicsEvidence, buildGriddedEvidence, buildGridTransformEvidence, buildPetrologyEvidence, buildSpectralIndexEvidence, buildVectorEvidence, FrameLocator } from "./evidence";
+import { getAnalysisFrame, getFileCrs, getReferenceImage, getWorldBounds, worldToRelative } from "./georeference";
+import { crsLabel, tryReproject } from "./crs";
+
+// Provider-neutral prompt: every analysis provider maps these parts onto its own request format
+export type PromptPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+// Helper to read file as Base64 (minus the data URL prefix)
+const fileToInlinePart = async (file: Blob): Promise<{ inlineData: { data: string; mimeType: string } }> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64String = reader.result as string;
+      const base64Data = base64String.split(',')[1];
+      resolve({
+        inlineData: {
+          data: base64Data,
+          mimeType: file.type,
+        },
+      });
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
+
+// Raw text beyond this size is truncated; structured imports should be used for large tables
+const MAX_RAW_TEXT_CHARS = 100_000;
+
+// Helper to read text files (CSV/JSON)
+const fileToTextPart = async (file: File): Promise<{ text: string }> => {
+  const text = await file.text();
+  if (text.length > MAX_RAW_TEXT_CHARS) {
+    return { text: `File: ${file.name}\nContent (truncated to the first ${MAX_RAW_TEXT_CHARS} of ${text.length} characters):\n${text.slice(0, MAX_RAW_TEXT_CHARS)}` };
+  }
+  return { text: `File: ${file.name}\nContent:\n${text}` };
+};
+
+export const ANALYSIS_INSTRUCTIONS = `You are GeoGenius, an expert geological AI system specialized in porphyry and epithermal deposit exploration. 
+    Analyze the provided multimodal data (satellite imagery, geological maps, geochemical data, geophysical surveys and field petrology).
+    Parsed geochemistry, geophysics and petrology files are supplied as labelled "EVIDENCE" blocks with computed statistics; treat those figures as measured facts.
+    Grids interpolated locally from point data are supplied as "INTERPOLATED GRID EVIDENCE" blocks; use them for the continuity of anomalies between samples, and the point data for the values themselves.
+    Magnetic grids processed locally (reduction to pole, derivatives, tilt, analytic signal, upward continuation) are supplied as "MAGNETIC TRANSFORM EVIDENCE" blocks.
+    Spectral alteration indices (band ratios) computed from multispectral scenes are supplied as images, each preceded by a "SPECTRAL INDEX EVIDENCE" caption with its formula and colour ramp.
+    Mapped faults, contacts and claim outlines read from GeoJSON/KML are supplied as "MAPPED VECTOR EVIDENCE" blocks with each feature's attributes and position.
+    
+    Your task:
+    1. Identify alteration minerals (propylitic, phyllic, argillic, potassic, etc.) from visual data (Satellite/Maps).
+    2. Analyze geological structures and lithology from provided maps.
+    3. Correlate these with any provided geochemical anomalies, magnetic/radiometric highs and lows, and field-observed alteration assemblages.
+    4. Determine the potential for Porphyry and Epithermal systems.
+    5. Identify specific X/Y coordinate zones (on a scale of 0-100 relative to the image bounds) that are high-priority targets.
+    6. For each target area, provide:
+       - A probability score (0-1).
+       - A concise observation description.
+       - DETAILED, EVIDENCE-BASED GEOLOGICAL REASONING.
+         * DATA INTEGRATION: You MUST explicitly cite and connect features from multiple data layers. E.g., "The coincidence of [Feature A from Satellite] and [Feature B from Geochem] strongly supports..."
+         * DEPOSIT MODEL FIT: Explain *why* these features matter. E.g., "The presence of Alunite/Kaolinite indicates an Advanced Argillic lithocap, suggesting a potential underlying porphyry system."
+         * VECTORING LOGIC: Use vectoring concepts. E.g., "Increasing Cu/Zn ratios and intensity of quartz veining suggests proximity to the potassic core."
+         * TERMINOLOGY: Use professional economic geology terms (e.g., "telescoping", "phreatomagmatic breccia", "structural permeability", "pathfinder anomaly").
+         * Example: "Target is located at the intersection of a NW-trending regional fault and a ring fracture. SWIR data identifies a core of buddingtonite/alunite (Advanced Argillic), which coincides with a >500ppm As/Sb soil anomaly. This signature is typical of the upper lithocap of a porphyry system, indicating high potential for concealed mineralization at depth."
+    7. For each alteration zone, outline where it is mapped as a polygon of 3-20 vertices in the same 0-100 X/Y frame as the targets (Y increasing downwards). Zones may nest, e.g. a potassic core inside a phyllic shell.
+    
+    Return the analysis strictly in JSON format.`;
+
+// Approximate payload size: base64 and text are sent as-is
+export const promptSize = (parts: PromptPart[]) =>
+  parts.reduce((sum, part) => sum + ('text' in part ? part.text.length : part.inlineData.data.length), 0);
+
+// Readable transcript of a prompt, kept with each run for audit; attachments are summarised
+export const describePrompt = (parts: PromptPart[]) =>
+  parts.map(part => 'text' in part
+    ? part.text
+    : `[Attachment: ${part.inlineData.mimeType || 'unknown type'}, ${Math.round(part.inlineData.data.length * 3 / 4)} bytes]`
+  ).join('\n\n');
+
+export const buildPromptParts = async (
+  files: UploadedFile[],
+  projectCrs: string,
+  { onProgress, signal }: { onProgress?: (event: AnalysisProgressEvent) => void; signal?: AbortSignal } = {}
+): Promise<PromptPart[]> => {
+  const parts: PromptPart[] = [{ text: ANALYSIS_INSTRUCTIONS }];
+
+  // Tell the model which image (or data extent) the 0-100 target coordinates refer to
+  const referenceImage = getReferenceImage(files);
+  const frame = getAnalysisFrame(files, projectCrs);
+  if (referenceImage?.file) {
+    parts.push({
+      text: `REFERENCE FRAME: All target X/Y coordinates (0-100) must be relative to the bounds of the image "${referenceImage.file.name}", with X increasing to the right (east) and Y increasing downwards (south), origin at the top-left corner.`
+    });
+  } else if (frame) {
+    const bounds = getWorldBounds(frame);
+    parts.push({
+      text: `REFERENCE FRAME: No reference image was supplied. All target X/Y coordinates (0-100) are relative to the data extent in ${crsLabel(frame.crs)}: X 0 = ${bounds.minX.toFixed(2)} (west) to X 100 = ${bounds.maxX.toFixed(2)} (east); Y 0 = ${bounds.maxY.toFixed(2)} (NORTH edge) to Y 100 = ${bounds.minY.toFixed(2)} (south edge). Y increases southwards, opposite to northings. Evidence points are annotated with their [frame x, y] position.`
+    });
+  }
+
+  // Dataset coordinates -> 0-100 frame position, reprojecting from the file's own CRS
+  const locatorFor = (file: UploadedFile): FrameLocator | undefined => {
+    if (!frame) return undefined;
+    const crs = getFileCrs(file);
+    return (x, y) => {
+      const [fx, fy] = worldToRelative(frame, ...tryReproject([x, y], crs, frame.crs));
+      return isFinite(fx) && isFinite(fy) ? [fx, fy] : undefined;
+    };
+  };
+
+  // Parts contributed by one input file
+  const addFileParts = async (uploadedFile: UploadedFile) => {
+    if (uploadedFile.sourceType === 'url' && uploadedFile.url) {
+      parts.push({
+        text: `Data Source Link: ${uploadedFile.url}\nPlease consider data available at this URL for the analysis.`
+      });
+      return;
+    }
+
+    if (uploadedFile.sourceType === 'file' && uploadedFile.file) {
+      // Parsed survey/petrology data goes in as structured evidence rather than a raw dump
+      if (uploadedFile.gridded && uploadedFile.geophysics?.grid) {
+        parts.push({ text: buildGriddedEvidence(uploadedFile.file.name, uploadedFile.gridded, uploadedFile.geophysics.grid, uploadedFile.geophysics.crs, locatorFor(uploadedFile)) });
+        return;
+      }
+      if (uploadedFile.gridTransform && uploadedFile.geophysics?.grid) {
+        parts.push({ text: buildGridTransformEvidence(uploadedFile.file.name, uploadedFile.gridTransform, uploadedFile.geophysics.grid, uploadedFile.geophysics.crs, locatorFor(uploadedFile)) });
+        return;
+      }
+      if (uploadedFile.geophysics) {
+        parts.push({ text: buildGeophysicsEvidence(uploadedFile.file.name, uploadedFile.geophysics, locatorFor(uploadedFile)) });
+        return;
+      }
+      if (uploadedFile.geochem) {
+        parts.push({ text: buildGeochemEvidence(uploadedFile.file.name, uploadedFile.geochem, locatorFor(uploadedFile)) });
+        return;
+      }
+      if (uploadedFile.petrology) {
+        parts.push({ text: buildPetrologyEvidence(uploadedFile.file.name, uploadedFile.petrology, locatorFor(uploadedFile)) });
+        return;
+      }
+      if (uploadedFile.vector) {
+        parts.push({ text: buildVectorEvidence(uploadedFile.file.name, uploadedFile.vector, locatorFor(uploadedFile)) });
+        return;
+      }
+
+      if (uploadedFile.spectralIndex) {
+        parts.push({ text: buildSpectralIndexEvidence(uploadedFile.file.name, uploadedFile.spectralIndex) });
+      }
+
+      if (uploadedFile.georeference) {
+        const geo = uploadedFile.georeference;
+        const bounds = getWorldBounds(geo);
+        parts.push({
+          text: `Image: ${uploadedFile.file.name} (${uploadedFile.category}), georeferenced in ${crsLabel(geo.crs)}: X ${bounds.minX.toFixed(2)} to ${bounds.maxX.toFixed(2)}, Y ${bounds.minY.toFixed(2)} to ${bounds.maxY.toFixed(2)}.`
+        });
+      }
+
+      if (uploadedFile.renderedImage) {
+        parts.push(await fileToInlinePart(uploadedFile.renderedImage));
+      } else if (uploadedFile.file.type.startsWith('image/') || uploadedFile.file.type === 'application/pdf') {
+        const part = await fileToInlinePart(uploadedFile.file);
+        parts.push(part);
+      } else {
+        // CSV, Text, etc.
+        const part = await fileToTextPart(uploadedFile.file);
+        parts.push(part);
+      }
+    }
+  };
+
+  // Process files
+  for (const uploadedFile of files) {
+    signal?.throwIfAborted();
+    onProgress?.({ type: 'file', fileId: uploadedFile.id, status: 'encoding' });
+    const before = parts.length;
+    await addFileParts(uploadedFile);
+    onProgress?.({ type: 'file', fileId: uploadedFile.id, status: 'done', bytes: promptSize(parts.slice(before)) });
+  }
+
+  onProgress?.({ type: 'request', bytes: promptSize(parts), prompt: describePrompt(parts) });
+  return parts;
+};
+
+// Remove potential markdown code blocks if the model ignores the requested JSON output mode
+export const extractJson = (text: string) => text.replace(/```json|```/g, '').trim();
+
+// Plain JSON Schema of PredictionResult, for providers that accept one (OpenAI-style structured output)
+export const PREDICTION_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    porphyryPotential: { type: "string", enum: ["Low", "Medium", "High", "Very High"] },
+    epithermalPotential: { type: "string", enum: ["Low", "Medium", "High", "Very High"] },
+    confidenceScore: { type: "number", description: "A value between 0 and 1" },
+    alterationMinerals: { type: "array", items: { type: "string" } },
+    zones: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", description: "Zone type e.g., Phyllic" },
+          area: { type: "string", description: "Percentage coverage e.g. 35%" },
+          color: { type: "string", description: "Hex code for visualization" },
+          polygon: {
+            type: "array",
+            description: "Outline of the zone, vertices in the 0-100 frame",
+            items: {
+              type: "object",
+              properties: { x: { type: "number" }, y: { type: "number" } },
+              required: ["x", "y"]
+            }
+          }
+        },
+        required: ["type", "area", "color"]
+      }
+    },
+    targetAreas: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "integer" },
+          x: { type: "number", description: "X coordinate 0-100" },
+          y: { type: "number", description: "Y coordinate 0-100" },
+          probability: { type: "number", description: "0-1" },
+          description: { type: "string" },
+          reasoning: { type: "string" }
+        },
+        required: ["id", "x", "y", "probability", "description"]
+      }
+    },
+    recommendedActions: { type: "array", items: { type: "string" } },
+    reasoning: { type: "string", description: "Brief geological summary of findings" }
+  },
+  required: ["porphyryPotential", "epithermalPotential", "confidenceScore", "targetAreas", "recommendedActions"]
+};
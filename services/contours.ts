@@ -0,0 +1,125 @@
+import { ProbabilitySurface } from "./probabilitySurface";
+
+// Isolines of the probability surface by marching squares. The raster is treated as padded with
+// zeros, so every contour closes into a ring; rings are traced with the higher values on a fixed
+// side, which tells outer boundaries from holes when they are assembled into polygons.
+
+export const DEFAULT_CONTOUR_LEVELS = [0.3, 0.6, 0.8]; // 0.3 and 0.6 are the medium and high class breaks
+
+type Point = [number, number];
+
+export interface ContourPolygon {
+  outer: Point[];
+  holes: Point[][];
+}
+
+export interface ContourLevel {
+  level: number;
+  rings: Point[][]; // closed (first vertex not repeated), in frame units
+  polygons: ContourPolygon[]; // where the surface is at or above the level
+}
+
+// Signed area with y pointing down; see `isOuter` below
+const signedArea = (ring: Point[]) => {
+  let twice = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    twice += x1 * y2 - x2 * y1;
+  }
+  return twice / 2;
+};
+
+const contains = (ring: Point[], [x, y]: Point) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i], [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+const traceLevel = (surface: ProbabilitySurface, level: number): Point[][] => {
+  const { width, height, values, x0, y0, cellSize } = surface;
+  // Padded grid: one row/column of zeros all round, so index (r, c) is pixel (r - 1, c - 1)
+  const W = width + 2, H = height + 2;
+  const at = (r: number, c: number) =>
+    r === 0 || c === 0 || r === H - 1 || c === W - 1 ? 0 : values[(r - 1) * width + (c - 1)];
+  const position = (r: number, c: number): Point => [x0 + (c - 0.5) * cellSize, y0 + (r - 0.5) * cellSize];
+
+  // Edge keys: the horizontal edge right of sample (r, c) is 2k, the vertical edge below it 2k + 1
+  const points = new Map<number, Point>();
+  const next = new Map<number, number>();
+  const crossing = (r1: number, c1: number, r2: number, c2: number, key: number) => {
+    if (!points.has(key)) {
+      const a = at(r1, c1), b = at(r2, c2);
+      const t = (level - a) / (b - a);
+      const [ax, ay] = position(r1, c1), [bx, by] = position(r2, c2);
+      points.set(key, [ax + (bx - ax) * t, ay + (by - ay) * t]);
+    }
+    return key;
+  };
+
+  for (let r = 0; r < H - 1; r++) {
+    for (let c = 0; c < W - 1; c++) {
+      // Corners clockwise from the top left, and the edge leaving each one clockwise
+      const corners: [number, number][] = [[r, c], [r, c + 1], [r + 1, c + 1], [r + 1, c]];
+      const inside = corners.map(([cr, cc]) => at(cr, cc) >= level);
+      if (inside.every(v => v) || inside.every(v => !v)) continue;
+      const edgeKeys = [2 * (r * W + c), 2 * (r * W + c + 1) + 1, 2 * ((r + 1) * W + c), 2 * (r * W + c) + 1];
+
+      // Crossings in clockwise order, entering (outside to inside) or leaving
+      const crossings: { key: number; entering: boolean }[] = [];
+      for (let i = 0; i < 4; i++) {
+        const j = (i + 1) % 4;
+        if (inside[i] === inside[j]) continue;
+        const [ar, ac] = corners[i], [br, bc] = corners[j];
+        crossings.push({ key: crossing(ar, ac, br, bc, edgeKeys[i]), entering: inside[j] });
+      }
+      // A saddle joins its two inside corners when the cell centre is inside too
+      const joined = crossings.length === 4 && corners.reduce((sum, [cr, cc]) => sum + at(cr, cc), 0) / 4 >= level;
+      crossings.forEach((x, i) => {
+        if (!x.entering) return;
+        const partner = crossings[(i + (joined ? crossings.length - 1 : 1)) % crossings.length];
+        next.set(x.key, partner.key);
+      });
+    }
+  }
+
+  // Every crossing starts one segment and ends another, so following them walks closed rings
+  const rings: Point[][] = [];
+  for (const start of next.keys()) {
+    if (!points.has(start)) continue;
+    const ring: Point[] = [];
+    let key: number | undefined = start;
+    while (key !== undefined && points.has(key)) {
+      ring.push(points.get(key)!);
+      points.delete(key); // visited
+      key = next.get(key);
+    }
+    if (ring.length >= 3) rings.push(ring);
+  }
+  return rings;
+};
+
+// Outer boundaries run one way round and holes the other; which way is fixed by the tracing
+// rule above (segments go from the entering to the leaving crossing)
+const isOuter = (ring: Point[]) => signedArea(ring) < 0;
+
+export const contourSurface = (surface: ProbabilitySurface, levels: number[]): ContourLevel[] =>
+  levels.map(level => {
+    const rings = traceLevel(surface, level);
+    const outers = rings.filter(isOuter).map(ring => ({ outer: ring, holes: [] as Point[][], area: Math.abs(signedArea(ring)) }));
+    // Each hole belongs to the smallest outer boundary around it
+    for (const hole of rings.filter(ring => !isOuter(ring))) {
+      const owner = outers.filter(o => contains(o.outer, hole[0])).sort((a, b) => a.area - b.area)[0];
+      owner?.holes.push(hole);
+    }
+    return { level, rings, polygons: outers.map(({ outer, holes }) => ({ outer, holes })) };
+  });
+
+// "0.3, 0.6 0.8" -> [0.3, 0.6, 0.8]; values must lie strictly between 0 and 1
+export const parseContourLevels = (text: string): number[] =>
+  Array.from(new Set(text.split(/[\s,;]+/).filter(Boolean).map(Number)))
+    .filter(v => isFinite(v) && v > 0 && v < 1)
+    .sort((a, b) => a - b);
@@ -0,0 +1,239 @@
+import { FileCategory, Georeference, GridData, TargetArea, UploadedFile } from "../types";
+import { isTiffName, relativeToMetres, relativeToWorld, worldToRelative } from "./georeference";
+import { tryReproject } from "./crs";
+import { gridGeoreference } from "./griddingClient";
+import { GRID_TRANSFORMS } from "./gridTransforms";
+import { ProbabilitySurface } from "./probabilitySurface";
+import { readTiff, readTiffBands } from "./tiff";
+import { niceLength, pathLength } from "./measurements";
+
+// Cross-sections along a line drawn on the results map: the probability surface and every
+// sampleable grid (gridded geochem, geophysics grids and their transforms, DEMs) read at evenly
+// spaced stations, with nearby targets projected onto the line. Distances are ground metres
+// when the results are georeferenced, frame units otherwise.
+
+export const SECTION_STATIONS = 200;
+
+export type SectionSeriesKind = 'probability' | 'elevation' | 'geochem' | 'geophysics';
+
+export const SECTION_SERIES_KINDS: Record<SectionSeriesKind, { label: string; color: string }> = {
+  probability: { label: "Probability", color: "#10b981" },
+  elevation: { label: "Elevation", color: "#a8a29e" },
+  geochem: { label: "Geochemistry", color: "#f472b6" },
+  geophysics: { label: "Geophysics", color: "#60a5fa" }
+};
+
+// A grid that can be read anywhere in its own CRS, stored north-up like an image
+export interface SectionRaster {
+  id: string;
+  label: string;
+  kind: Exclude<SectionSeriesKind, 'probability'>;
+  georeference: Georeference;
+  values: Float32Array; // row-major from the north, NaN for no data
+}
+
+export interface SectionSeries {
+  id: string; // 'probability' or the raster's id
+  label: string;
+  kind: SectionSeriesKind;
+}
+
+export interface SectionTarget {
+  target: TargetArea;
+  distance: number; // along the section
+  offset: number; // from the section line
+}
+
+export interface CrossSection {
+  length: number;
+  isMetric: boolean;
+  series: SectionSeries[]; // only those the line actually crosses
+  stations: Record<string, number | null>[]; // { distance, [series id]: value }
+  positions: [number, number][]; // frame position of each station
+  targets: SectionTarget[];
+}
+
+// DEMs are not told apart from other grids by anything but their names
+const ELEVATION_NAME = /(^|[^a-z])(dem|dtm|dsm|srtm|aster ?gdem|alos|elev|elevation|topo|topography|height)([^a-z]|$)/i;
+
+export const isElevationName = (name: string) => ELEVATION_NAME.test(name.replace(/\.[^.]+$/, ""));
+
+// Grids run south to north; sections read them north-up like images
+const flipGrid = (grid: GridData) => {
+  const values = new Float32Array(grid.values.length);
+  for (let r = 0; r < grid.nrows; r++) {
+    values.set(grid.values.subarray(r * grid.ncols, (r + 1) * grid.ncols), (grid.nrows - 1 - r) * grid.ncols);
+  }
+  return values;
+};
+
+// Single-band GeoTIFF DEMs among the images; their values are only decoded for sections
+const isDemImage = (file: UploadedFile) =>
+  (file.category === FileCategory.SATELLITE || file.category === FileCategory.MAPS) &&
+  !!file.file && !!file.georeference && file.bandCount === 1 && isTiffName(file.file.name) && isElevationName(file.file.name);
+
+const decodeDem = async (file: File) => {
+  const [values] = await readTiffBands(readTiff(await file.arrayBuffer()));
+  return values;
+};
+
+// What a file's raster is read from (a parsed grid or the DEM file), and how it is described
+const sectionSource = (file: UploadedFile, files: UploadedFile[]) => {
+  const grid = file.geophysics?.grid;
+  if (grid) {
+    const crs = file.geophysics!.crs;
+    const name = file.file?.name ?? "Grid";
+    const described = file.gridded
+      ? { label: `${file.gridded.variable} · ${file.gridded.sourceName}`, kind: files.find(f => f.id === file.gridded!.sourceFileId)?.geochem ? 'geochem' as const : 'geophysics' as const }
+      : file.gridTransform
+        ? { label: `${GRID_TRANSFORMS[file.gridTransform.transform].label} · ${file.gridTransform.sourceName}`, kind: 'geophysics' as const }
+        : { label: name, kind: isElevationName(name) ? 'elevation' as const : 'geophysics' as const };
+    return { ...described, data: grid as GridData | File, georeference: gridGeoreference(grid, crs, described.label), read: async () => flipGrid(grid) };
+  }
+  if (isDemImage(file)) {
+    const dem = file.file!;
+    return { label: dem.name, kind: 'elevation' as const, data: dem as GridData | File, georeference: file.georeference!, read: () => decodeDem(dem) };
+  }
+  return null;
+};
+
+// Loads the rasters sections can sample. Decoding a DEM or flipping a grid is only redone when
+// that file's data changes; CRS edits and new inputs reuse what was already read.
+export const createSectionRasterLoader = () => {
+  const cache = new Map<string, { data: GridData | File; values: Promise<Float32Array | null> }>();
+
+  return async (files: UploadedFile[]): Promise<SectionRaster[]> => {
+    const sources = files.flatMap(file => {
+      const source = sectionSource(file, files);
+      return source ? [{ id: file.id, name: file.file?.name ?? file.id, ...source }] : [];
+    });
+    for (const id of cache.keys()) {
+      if (!sources.some(s => s.id === id)) cache.delete(id);
+    }
+
+    const rasters = await Promise.all(sources.map(async ({ id, name, label, kind, data, georeference, read }) => {
+      let entry = cache.get(id);
+      if (!entry || entry.data !== data) {
+        entry = {
+          data,
+          values: read().catch(error => {
+            console.error(`Could not read ${name} for cross-sections:`, error);
+            return null;
+          })
+        };
+        cache.set(id, entry);
+      }
+      const values = await entry.values;
+      return values ? { id, label, kind, georeference, values } : null;
+    }));
+    // Elevation first, then the order of the inputs
+    return rasters.filter((r): r is SectionRaster => r !== null).sort((a, b) => Number(b.kind === 'elevation') - Number(a.kind === 'elevation'));
+  };
+};
+
+// Bilinear interpolation over the finite neighbours of a pixel-centre position; NaN off the grid
+const bilinear = (values: ArrayLike<number>, width: number, height: number, col: number, row: number) => {
+  if (col < -0.5 || row < -0.5 || col > width - 0.5 || row > height - 0.5) return NaN;
+  const c0 = Math.floor(col), r0 = Math.floor(row);
+  const fc = col - c0, fr = row - r0;
+  let sum = 0, weight = 0;
+  for (const [dc, dr, w] of [[0, 0, (1 - fc) * (1 - fr)], [1, 0, fc * (1 - fr)], [0, 1, (1 - fc) * fr], [1, 1, fc * fr]]) {
+    const c = Math.min(width - 1, Math.max(0, c0 + dc)), r = Math.min(height - 1, Math.max(0, r0 + dr));
+    const v = values[r * width + c];
+    if (w > 0 && isFinite(v)) {
+      sum += v * w;
+      weight += w;
+    }
+  }
+  return weight > 0 ? sum / weight : NaN;
+};
+
+const sampleSurface = (surface: ProbabilitySurface, x: number, y: number) => {
+  const v = bilinear(surface.values, surface.width, surface.height, (x - surface.x0) / surface.cellSize - 0.5, (y - surface.y0) / surface.cellSize - 0.5);
+  return isNaN(v) ? 0 : v; // nothing outside the raster
+};
+
+const sampleRaster = (raster: SectionRaster, frame: Georeference, x: number, y: number) => {
+  const { georeference: geo } = raster;
+  const [rx, ry] = worldToRelative(geo, ...tryReproject(relativeToWorld(frame, x, y), frame.crs, geo.crs));
+  return bilinear(raster.values, geo.width, geo.height, (rx / 100) * geo.width - 0.5, (ry / 100) * geo.height - 0.5);
+};
+
+// Evenly spaced positions along a polyline in frame units, with their distance from its start
+const stationsAlong = (line: [number, number][], ground: [number, number][], count: number) => {
+  const segments = line.slice(1).map((_, i) => Math.hypot(ground[i + 1][0] - ground[i][0], ground[i + 1][1] - ground[i][1]));
+  const length = segments.reduce((a, b) => a + b, 0);
+  const stations: { distance: number; x: number; y: number }[] = [];
+  let segment = 0, start = 0;
+  for (let i = 0; i < count; i++) {
+    const distance = (length * i) / (count - 1);
+    while (segment < segments.length - 1 && start + segments[segment] < distance) start += segments[segment++];
+    const t = segments[segment] > 0 ? Math.min(1, (distance - start) / segments[segment]) : 0;
+    const [x1, y1] = line[segment], [x2, y2] = line[segment + 1];
+    stations.push({ distance, x: x1 + (x2 - x1) * t, y: y1 + (y2 - y1) * t });
+  }
+  return { length, stations };
+};
+
+// Closest point of the line to each target, kept when it is within `buffer`
+const projectTargets = (ground: [number, number][], targets: TargetArea[], targetsGround: [number, number][], buffer: number): SectionTarget[] =>
+  targets.flatMap((target, i) => {
+    const [px, py] = targetsGround[i];
+    let best = { distance: 0, offset: Infinity }, start = 0;
+    for (let s = 0; s < ground.length - 1; s++) {
+      const [ax, ay] = ground[s], [bx, by] = ground[s + 1];
+      const dx = bx - ax, dy = by - ay;
+      const segment = Math.hypot(dx, dy);
+      const t = segment > 0 ? Math.min(1, Math.max(0, ((px - ax) * dx + (py - ay) * dy) / (segment * segment))) : 0;
+      const offset = Math.hypot(px - (ax + dx * t), py - (ay + dy * t));
+      if (offset < best.offset) best = { distance: start + segment * t, offset };
+      start += segment;
+    }
+    return best.offset <= buffer ? [{ target, ...best }] : [];
+  }).sort((a, b) => a.distance - b.distance);
+
+// A tenth of the section, rounded, as a starting target buffer
+export const defaultSectionBuffer = (line: [number, number][], geo?: Georeference) => {
+  const length = pathLength(geo ? relativeToMetres(geo, line) : line);
+  return length > 0 ? niceLength(length / 10) : 1;
+};
+
+export const computeCrossSection = (
+  line: [number, number][],
+  { surface, rasters, targets, geo, buffer, stations: count = SECTION_STATIONS }: {
+    surface: ProbabilitySurface;
+    rasters: SectionRaster[];
+    targets: TargetArea[];
+    geo?: Georeference;
+    buffer: number; // same units as the distances
+    stations?: number;
+  }
+): CrossSection => {
+  // Line and targets go through one conversion so a geographic frame uses a single UTM zone
+  const ground = geo ? relativeToMetres(geo, [...line, ...targets.map(t => [t.x, t.y] as [number, number])]) : null;
+  const lineGround = ground ? ground.slice(0, line.length) : line;
+  const targetsGround = ground ? ground.slice(line.length) : targets.map(t => [t.x, t.y] as [number, number]);
+
+  const { length, stations } = stationsAlong(line, lineGround, count);
+  const placed = geo ? rasters : []; // grids cannot be placed without a georeferenced frame
+  const rows = stations.map(({ distance, x, y }) => {
+    const row: Record<string, number | null> = { distance, probability: sampleSurface(surface, x, y) };
+    for (const raster of placed) {
+      const v = sampleRaster(raster, geo!, x, y);
+      row[raster.id] = isFinite(v) ? v : null;
+    }
+    return row;
+  });
+
+  return {
+    length,
+    isMetric: !!geo,
+    series: [
+      { id: 'probability', label: SECTION_SERIES_KINDS.probability.label, kind: 'probability' },
+      ...placed.filter(r => rows.some(row => row[r.id] !== null)).map(r => ({ id: r.id, label: r.label, kind: r.kind }))
+    ],
+    stations: rows,
+    positions: stations.map(({ x, y }) => [x, y]),
+    targets: projectTargets(lineGround, targets, targetsGround, buffer)
+  };
+};
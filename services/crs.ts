@@ -0,0 +1,141 @@
+import proj4 from "proj4";
+
+export interface CrsDefinition {
+  code: string; // "EPSG:32719" or "CUSTOM:<name>"
+  name: string;
+  proj4: string;
+  geographic: boolean;
+  group: string;
+}
+
+export const WGS84 = "EPSG:4326";
+
+const CUSTOM_STORAGE_KEY = "geogenius.customCrs";
+
+const TOWGS84_ZERO = "+towgs84=0,0,0,0,0,0,0";
+
+// Well-known single definitions
+const NAMED_CRS: CrsDefinition[] = [
+  { code: "EPSG:4326", name: "WGS 84 (lat/lon)", proj4: "+proj=longlat +datum=WGS84 +no_defs", geographic: true, group: "Geographic" },
+  { code: "EPSG:4258", name: "ETRS89 (lat/lon)", proj4: `+proj=longlat +ellps=GRS80 ${TOWGS84_ZERO} +no_defs`, geographic: true, group: "Geographic" },
+  { code: "EPSG:4269", name: "NAD83 (lat/lon)", proj4: "+proj=longlat +datum=NAD83 +no_defs", geographic: true, group: "Geographic" },
+  { code: "EPSG:4283", name: "GDA94 (lat/lon)", proj4: `+proj=longlat +ellps=GRS80 ${TOWGS84_ZERO} +no_defs`, geographic: true, group: "Geographic" },
+  { code: "EPSG:7844", name: "GDA2020 (lat/lon)", proj4: "+proj=longlat +ellps=GRS80 +no_defs", geographic: true, group: "Geographic" },
+  { code: "EPSG:4674", name: "SIRGAS 2000 (lat/lon)", proj4: "+proj=longlat +ellps=GRS80 +no_defs", geographic: true, group: "Geographic" },
+  { code: "EPSG:4148", name: "Hartebeesthoek94 (lat/lon)", proj4: `+proj=longlat +ellps=WGS84 ${TOWGS84_ZERO} +no_defs`, geographic: true, group: "Geographic" },
+  { code: "EPSG:3857", name: "WGS 84 / Pseudo-Mercator", proj4: "+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m +nadgrids=@null +no_defs", geographic: false, group: "Global" },
+  { code: "EPSG:27700", name: "OSGB36 / British National Grid", proj4: "+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy +towgs84=446.448,-125.157,542.06,0.15,0.247,0.842,-20.489 +units=m +no_defs", geographic: false, group: "National grids" },
+  { code: "EPSG:2154", name: "RGF93 / Lambert-93 (France)", proj4: `+proj=lcc +lat_0=46.5 +lon_0=3 +lat_1=49 +lat_2=44 +x_0=700000 +y_0=6600000 +ellps=GRS80 ${TOWGS84_ZERO} +units=m +no_defs`, geographic: false, group: "National grids" },
+  { code: "EPSG:2193", name: "NZGD2000 / New Zealand TM", proj4: `+proj=tmerc +lat_0=0 +lon_0=173 +k=0.9996 +x_0=1600000 +y_0=10000000 +ellps=GRS80 ${TOWGS84_ZERO} +units=m +no_defs`, geographic: false, group: "National grids" },
+  { code: "EPSG:3577", name: "GDA94 / Australian Albers", proj4: `+proj=aea +lat_0=0 +lon_0=132 +lat_1=-18 +lat_2=-36 +x_0=0 +y_0=0 +ellps=GRS80 ${TOWGS84_ZERO} +units=m +no_defs`, geographic: false, group: "National grids" }
+];
+
+// Zone families are generated from their EPSG code ranges
+interface ZoneFamily {
+  group: string;
+  label: string;
+  zones: { from: number; to: number; base: number; south: boolean };
+  params: string;
+}
+
+const ZONE_FAMILIES: ZoneFamily[] = [
+  { group: "WGS 84 / UTM", label: "WGS 84 / UTM zone", zones: { from: 1, to: 60, base: 32600, south: false }, params: "+datum=WGS84" },
+  { group: "WGS 84 / UTM", label: "WGS 84 / UTM zone", zones: { from: 1, to: 60, base: 32700, south: true }, params: "+datum=WGS84" },
+  { group: "NAD83 / UTM", label: "NAD83 / UTM zone", zones: { from: 3, to: 23, base: 26900, south: false }, params: `+ellps=GRS80 ${TOWGS84_ZERO}` },
+  { group: "ETRS89 / UTM", label: "ETRS89 / UTM zone", zones: { from: 28, to: 38, base: 25800, south: false }, params: `+ellps=GRS80 ${TOWGS84_ZERO}` },
+  { group: "GDA94 / MGA", label: "GDA94 / MGA zone", zones: { from: 48, to: 58, base: 28300, south: true }, params: `+ellps=GRS80 ${TOWGS84_ZERO}` },
+  { group: "GDA2020 / MGA", label: "GDA2020 / MGA zone", zones: { from: 46, to: 59, base: 7800, south: true }, params: "+ellps=GRS80" },
+  { group: "SIRGAS 2000 / UTM", label: "SIRGAS 2000 / UTM zone", zones: { from: 17, to: 25, base: 31960, south: true }, params: "+ellps=GRS80" },
+  { group: "PSAD56 / UTM", label: "PSAD56 / UTM zone", zones: { from: 17, to: 20, base: 24860, south: true }, params: "+ellps=intl +towgs84=-288,175,-376,0,0,0,0" }
+];
+
+const zoneCrs = (family: ZoneFamily, zone: number): CrsDefinition => ({
+  code: `EPSG:${family.zones.base + zone}`,
+  name: `${family.label} ${zone}${family.zones.south ? "S" : "N"}`,
+  proj4: `+proj=utm +zone=${zone}${family.zones.south ? " +south" : ""} ${family.params} +units=m +no_defs`,
+  geographic: false,
+  group: family.group
+});
+
+const ZONE_CRS: CrsDefinition[] = ZONE_FAMILIES.flatMap(family => {
+  const list: CrsDefinition[] = [];
+  for (let zone = family.zones.from; zone <= family.zones.to; zone++) list.push(zoneCrs(family, zone));
+  return list;
+});
+
+// --- User-defined CRS (local mine grids, unlisted national grids) ---
+const loadCustomCrs = (): CrsDefinition[] => {
+  try {
+    return JSON.parse(localStorage.getItem(CUSTOM_STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+let customCrs: CrsDefinition[] = loadCustomCrs();
+
+export const registerCustomCrs = (name: string, definition: string): CrsDefinition => {
+  // Validate the definition before storing it
+  proj4(definition);
+  const crs: CrsDefinition = {
+    code: `CUSTOM:${name.trim().replace(/\s+/g, "_")}`,
+    name: name.trim(),
+    proj4: definition.trim(),
+    geographic: /\+proj=longlat/.test(definition),
+    group: "Custom"
+  };
+  customCrs = [...customCrs.filter(c => c.code !== crs.code), crs];
+  localStorage.setItem(CUSTOM_STORAGE_KEY, JSON.stringify(customCrs));
+  return crs;
+};
+
+export const listCrs = (): CrsDefinition[] => [...NAMED_CRS, ...ZONE_CRS, ...customCrs];
+
+export const getCrs = (code: string | undefined): CrsDefinition | undefined =>
+  code ? listCrs().find(c => c.code === code) : undefined;
+
+export const isSupportedCrs = (code: string | undefined) => !!getCrs(code);
+
+export const isGeographicCrs = (code: string | undefined) => getCrs(code)?.geographic ?? false;
+
+export const crsLabel = (code: string | undefined) => {
+  if (!code) return "CRS not declared";
+  const crs = getCrs(code);
+  return crs ? `${crs.name} (${crs.code})` : code;
+};
+
+export const utmCrsFor = (lon: number, lat: number): string => {
+  const zone = Math.min(60, Math.max(1, Math.floor((lon + 180) / 6) + 1));
+  return `EPSG:${(lat >= 0 ? 32600 : 32700) + zone}`;
+};
+
+// Coordinates are always [x, y] = [easting, northing] or [lon, lat]
+export const reproject = (coord: [number, number], from: string, to: string): [number, number] => {
+  if (from === to) return coord;
+  const source = getCrs(from);
+  const target = getCrs(to);
+  if (!source || !target) {
+    throw new Error(`Cannot reproject from ${from} to ${to}: unknown coordinate reference system.`);
+  }
+  const [x, y] = proj4(source.proj4, target.proj4, coord);
+  return [x, y];
+};
+
+// Reprojects when both ends are known; otherwise returns the input untouched
+export const tryReproject = (coord: [number, number], from: string | undefined, to: string | undefined): [number, number] => {
+  if (!from || !to || from === to || !isSupportedCrs(from) || !isSupportedCrs(to)) return coord;
+  return reproject(coord, from, to);
+};
+
+export const formatCoordinate = ([x, y]: [number, number], code: string | undefined): string => {
+  if (isGeographicCrs(code)) {
+    return `${Math.abs(y).toFixed(5)}°${y >= 0 ? "N" : "S"} ${Math.abs(x).toFixed(5)}°${x >= 0 ? "E" : "W"}`;
+  }
+  return `E ${x.toLocaleString(undefined, { maximumFractionDigits: 1 })} N ${y.toLocaleString(undefined, { maximumFractionDigits: 1 })}`;
+};
+
+// Guess the CRS of raw coordinates: lat/lon when they fit, otherwise the project CRS
+export const guessCrs = (coords: [number, number][], projectCrs: string): string => {
+  const looksGeographic = coords.length > 0 && coords.every(([x, y]) => Math.abs(x) <= 180 && Math.abs(y) <= 90);
+  return looksGeographic ? WGS84 : projectCrs;
+};
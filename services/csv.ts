@@ -0,0 +1,79 @@
+export interface DelimitedTable {
+  headers: string[];
+  rows: string[][];
+  delimiter: string;
+}
+
+// Pick the delimiter that splits the header line into the most columns
+const detectDelimiter = (line: string): string => {
+  const candidates = [",", ";", "\t", "|"];
+  let best = ",";
+  let bestCount = 0;
+  for (const d of candidates) {
+    const count = line.split(d).length;
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+// Split a single line honouring double-quoted fields ("a, b" and "" escapes)
+const splitLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      fields.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+export const parseDelimitedText = (text: string): DelimitedTable => {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter(l => l.trim().length > 0 && !l.trim().startsWith("#"));
+
+  if (lines.length === 0) {
+    return { headers: [], rows: [], delimiter: "," };
+  }
+
+  const delimiter = detectDelimiter(lines[0]);
+  const headers = splitLine(lines[0], delimiter);
+  const rows = lines.slice(1).map(l => splitLine(l, delimiter));
+  return { headers, rows, delimiter };
+};
+
+// Case/punctuation-insensitive header lookup, e.g. "Sample_ID" matches "sampleid"
+export const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export const findColumn = (headers: string[], aliases: string[]): number => {
+  const normalized = headers.map(normalizeHeader);
+  for (const alias of aliases) {
+    const idx = normalized.indexOf(alias);
+    if (idx !== -1) return idx;
+  }
+  return -1;
+};
@@ -0,0 +1,342 @@
+import { GeochemDataset, GeophysicsDataset, GriddedInfo, GridData, GridTransformInfo, PetrologyDataset, SpectralIndexInfo, VectorDataset } from "../types";
+import { computeStats, isCoordinateChannel } from "./geophysicsParser";
+import { crsLabel } from "./crs";
+import { SENSORS } from "./spectral";
+import { computeGeochemStatistics, THRESHOLD_METHODS } from "./geochemStats";
+import { GRID_TRANSFORMS } from "./gridTransforms";
+
+// Builders that turn parsed datasets into compact, labelled text evidence for the model.
+// Keeping these bounded in size matters: raw survey files can be hundreds of MB.
+
+const MAX_ANOMALY_POINTS = 12;
+const GRID_SUMMARY_SIZE = 12;
+const MAX_PETROLOGY_ROWS = 60;
+const MAX_GEOCHEM_HIGHS = 5;
+const MAX_FLAGGED_SAMPLES = 15;
+const MAX_VECTOR_FEATURES = 80;
+
+const fmt = (v: number) => (isFinite(v) ? Number(v.toPrecision(5)).toString() : "n/a");
+
+// Maps a dataset coordinate to its 0-100 position in the analysis frame, when there is one
+export type FrameLocator = (x: number, y: number) => [number, number] | undefined;
+
+const fmtPoint = (x: number, y: number, locate?: FrameLocator) => {
+  const framed = locate?.(x, y);
+  return `(${fmt(x)}, ${fmt(y)})` + (framed ? ` [frame ${framed[0].toFixed(1)}, ${framed[1].toFixed(1)}]` : "");
+};
+
+// Block-average the grid down to a small matrix so the model sees the spatial pattern
+const summarizeGrid = (grid: GridData): string => {
+  const size = Math.min(GRID_SUMMARY_SIZE, grid.ncols, grid.nrows);
+  const blockW = grid.ncols / size;
+  const blockH = grid.nrows / size;
+  const rows: string[] = [];
+
+  // Print north at the top, like a map
+  for (let br = size - 1; br >= 0; br--) {
+    const cells: string[] = [];
+    for (let bc = 0; bc < size; bc++) {
+      let sum = 0, count = 0;
+      for (let r = Math.floor(br * blockH); r < Math.floor((br + 1) * blockH); r++) {
+        for (let c = Math.floor(bc * blockW); c < Math.floor((bc + 1) * blockW); c++) {
+          const v = grid.values[r * grid.ncols + c];
+          if (isFinite(v)) { sum += v; count++; }
+        }
+      }
+      cells.push(count ? fmt(sum / count) : "-");
+    }
+    rows.push(cells.join(" "));
+  }
+  return rows.join("\n");
+};
+
+const describeGrid = (g: GridData, locate?: FrameLocator): string[] => {
+  const stats = computeStats(g.values);
+  return [
+    `Dimensions: ${g.ncols} columns × ${g.nrows} rows, cell size ${fmt(g.dx)} × ${fmt(g.dy)}`,
+    `Extent: X ${fmt(g.xmin)} to ${fmt(g.xmin + (g.ncols - 1) * g.dx)}, Y ${fmt(g.ymin)} to ${fmt(g.ymin + (g.nrows - 1) * g.dy)}`,
+    `Corners: SW ${fmtPoint(g.xmin, g.ymin, locate)}, NE ${fmtPoint(g.xmin + (g.ncols - 1) * g.dx, g.ymin + (g.nrows - 1) * g.dy, locate)}`,
+    `Values: min ${fmt(stats.min)}, max ${fmt(stats.max)}, mean ${fmt(stats.mean)}, std ${fmt(stats.std)} (${stats.count} valid nodes)`,
+    `Block-averaged ${Math.min(GRID_SUMMARY_SIZE, g.ncols, g.nrows)}×${Math.min(GRID_SUMMARY_SIZE, g.ncols, g.nrows)} matrix (north at top, west at left):`,
+    summarizeGrid(g)
+  ];
+};
+
+export const buildGeophysicsEvidence = (fileName: string, dataset: GeophysicsDataset, locate?: FrameLocator): string => {
+  const out: string[] = [`=== GEOPHYSICS EVIDENCE: ${fileName} ===`, `Coordinate system: ${crsLabel(dataset.crs)}`];
+
+  if (dataset.grid) {
+    out.push(`Format: ${dataset.format} (regular grid)`, ...describeGrid(dataset.grid, locate));
+    return out.join("\n");
+  }
+
+  const lines = dataset.lines ?? [];
+  const points = lines.flatMap(l => l.points.map(p => ({ ...p, line: l.name })));
+  const xStats = computeStats(points.map(p => p.x));
+  const yStats = computeStats(points.map(p => p.y));
+  const dataChannels = dataset.channels.filter(c => !isCoordinateChannel(c));
+
+  out.push(
+    `Format: Geosoft-style XYZ line data`,
+    `Lines: ${lines.length}, records: ${points.length}`,
+    `Channels: ${dataset.channels.join(", ")}`,
+    `Extent: X ${fmt(xStats.min)} to ${fmt(xStats.max)}, Y ${fmt(yStats.min)} to ${fmt(yStats.max)}`
+  );
+
+  for (const channel of dataChannels) {
+    const values = points.map(p => p.values[channel]);
+    const stats = computeStats(values);
+    out.push(`Channel ${channel}: min ${fmt(stats.min)}, max ${fmt(stats.max)}, mean ${fmt(stats.mean)}, std ${fmt(stats.std)}`);
+
+    // Extremes with coordinates, so highs and lows can be located
+    const ranked = points
+      .filter(p => isFinite(p.values[channel]))
+      .sort((a, b) => b.values[channel] - a.values[channel]);
+    const highs = ranked.slice(0, MAX_ANOMALY_POINTS / 2);
+    const lows = ranked.slice(-MAX_ANOMALY_POINTS / 2).reverse();
+    out.push(`  Highest ${channel}: ${highs.map(p => `${fmt(p.values[channel])} @ ${fmtPoint(p.x, p.y, locate)} [${p.line}]`).join("; ")}`);
+    out.push(`  Lowest ${channel}: ${lows.map(p => `${fmt(p.values[channel])} @ ${fmtPoint(p.x, p.y, locate)} [${p.line}]`).join("; ")}`);
+  }
+
+  return out.join("\n");
+};
+
+const countBy = (values: (string | undefined)[]) => {
+  const counts = new Map<string, number>();
+  values.forEach(v => {
+    if (!v) return;
+    const key = v.trim();
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+};
+
+export const buildPetrologyEvidence = (fileName: string, dataset: PetrologyDataset, locate?: FrameLocator): string => {
+  const { samples } = dataset;
+  const out: string[] = [
+    `=== FIELD PETROLOGY EVIDENCE: ${fileName} ===`,
+    `Samples: ${samples.length}`,
+    `Coordinate system: ${crsLabel(dataset.crs)}`
+  ];
+
+  const tally = (label: string, values: (string | undefined)[]) => {
+    const counts = countBy(values);
+    if (counts.length) out.push(`${label}: ${counts.map(([k, n]) => `${k} (${n})`).join(", ")}`);
+  };
+  tally("Lithologies", samples.map(s => s.lithology));
+  tally("Alteration", samples.map(s => s.alteration));
+  tally("Minerals", samples.flatMap(s => s.minerals));
+  tally("Veining", samples.map(s => s.veining));
+
+  out.push("Sample records (ID | X | Y | frame x,y | lithology | alteration | minerals | texture | veining | notes):");
+  samples.slice(0, MAX_PETROLOGY_ROWS).forEach(s => {
+    const framed = s.x !== undefined && s.y !== undefined ? locate?.(s.x, s.y) : undefined;
+    out.push([
+      s.sampleId,
+      s.x ?? "",
+      s.y ?? "",
+      framed ? `${framed[0].toFixed(1)},${framed[1].toFixed(1)}` : "",
+      s.lithology ?? "",
+      s.alteration ?? "",
+      s.minerals.join("+"),
+      s.texture ?? "",
+      s.veining ?? "",
+      s.notes ?? ""
+    ].join(" | "));
+  });
+  if (samples.length > MAX_PETROLOGY_ROWS) {
+    out.push(`... ${samples.length - MAX_PETROLOGY_ROWS} further samples omitted (summarised in the counts above).`);
+  }
+
+  return out.join("\n");
+};
+
+const median = (sorted: number[]) => {
+  if (sorted.length === 0) return NaN;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Thresholds, multi-element indices and ratios computed locally; the model should treat these as facts
+const buildGeochemStatisticsFacts = (dataset: GeochemDataset, locate?: FrameLocator): string[] => {
+  const stats = computeGeochemStatistics(dataset);
+  const { samples } = dataset;
+  const at = (index: number) => {
+    const s = samples[index];
+    return s.x !== undefined && s.y !== undefined ? ` @ ${fmtPoint(s.x, s.y, locate)}` : "";
+  };
+  const top = (values: (number | undefined)[]) => values
+    .map((value, index) => ({ value, index }))
+    .filter((v): v is { value: number; index: number } => v.value !== undefined)
+    .sort((a, b) => b.value - a.value)
+    .slice(0, MAX_GEOCHEM_HIGHS)
+    .map(v => `${samples[v.index].id} ${fmt(v.value)}${at(v.index)}`)
+    .join("; ");
+
+  const out = [
+    `--- Computed statistics (local, not estimates) ---`,
+    `Anomaly threshold method: ${THRESHOLD_METHODS[stats.settings.method].label}`
+  ];
+
+  for (const s of stats.summaries) {
+    const t = s.thresholds;
+    out.push(
+      `${s.element}: geometric mean ${fmt(s.geoMean)}, log10 SD ${fmt(s.logSd)}; thresholds p95 ${fmt(t.p95 ?? NaN)}, p98 ${fmt(t.p98 ?? NaN)}, ` +
+      `mean+2SD ${fmt(t.mean2sd ?? NaN)}, median+2MAD ${fmt(t.mad ?? NaN)}, probability-plot break ${t.probplot !== undefined ? fmt(t.probplot) : "none"}; ` +
+      `${s.anomalous} of ${s.n} samples anomalous`
+    );
+  }
+
+  for (const index of stats.indices) {
+    out.push(
+      `${index.definition.label} additive index (mean of value ÷ threshold over ${index.elements.join(", ")}; ≥1 is anomalous): ` +
+      `${index.anomalous} samples anomalous. Highest: ${top(index.values) || "n/a"}`
+    );
+  }
+
+  for (const ratio of stats.ratios) {
+    out.push(`${ratio.label} ratio: median ${fmt(ratio.median)}, p95 ${fmt(ratio.p95)}, max ${fmt(ratio.max)}. Highest: ${top(ratio.values) || "n/a"}`);
+  }
+
+  if (stats.flagged.length) {
+    out.push(`Anomalous samples (${stats.flagged.length}, most flags first; × = multiple of threshold):`);
+    for (const f of stats.flagged.slice(0, MAX_FLAGGED_SAMPLES)) {
+      const flags = [
+        ...f.elements.map(e => `${e.element} ${fmt(e.value)} (${e.times.toFixed(1)}×)`),
+        ...f.indices.map(i => `${i.label} index ${i.value.toFixed(2)}`)
+      ];
+      out.push(`  ${f.sample.id}${at(f.index)}: ${flags.join(", ")}`);
+    }
+    if (stats.flagged.length > MAX_FLAGGED_SAMPLES) {
+      out.push(`  ... ${stats.flagged.length - MAX_FLAGGED_SAMPLES} further anomalous samples omitted.`);
+    }
+  } else {
+    out.push(`No samples exceed the selected thresholds.`);
+  }
+
+  return out;
+};
+
+export const buildGeochemEvidence = (fileName: string, dataset: GeochemDataset, locate?: FrameLocator): string => {
+  const { samples } = dataset;
+  const located = samples.filter(s => s.x !== undefined && s.y !== undefined);
+  const out: string[] = [
+    `=== GEOCHEMISTRY EVIDENCE: ${fileName} ===`,
+    `Samples: ${samples.length} (${located.length} with coordinates)`,
+    `All values in ppm. Below-detection results were replaced with half the detection limit.`
+  ];
+
+  if (located.length) {
+    const xStats = computeStats(located.map(s => s.x as number));
+    const yStats = computeStats(located.map(s => s.y as number));
+    out.push(
+      `Coordinate system: ${crsLabel(dataset.crs)}`,
+      `Extent: X ${fmt(xStats.min)} to ${fmt(xStats.max)}, Y ${fmt(yStats.min)} to ${fmt(yStats.max)}`
+    );
+  }
+
+  for (const element of dataset.elements) {
+    const withValue = samples.filter(s => s.values[element] !== undefined);
+    const sorted = withValue.map(s => s.values[element]).sort((a, b) => a - b);
+    const censored = withValue.filter(s => s.censored[element] === "below").length;
+    const stats = computeStats(sorted);
+    out.push(
+      `${element}: n=${stats.count}, min ${fmt(stats.min)}, median ${fmt(median(sorted))}, mean ${fmt(stats.mean)}, max ${fmt(stats.max)}` +
+      (censored ? `, ${censored} below detection` : "")
+    );
+
+    const highs = [...withValue]
+      .sort((a, b) => b.values[element] - a.values[element])
+      .slice(0, MAX_GEOCHEM_HIGHS);
+    out.push(`  Highest ${element}: ${highs.map(s => `${s.id} ${fmt(s.values[element])}` + (s.x !== undefined ? ` @ ${fmtPoint(s.x, s.y as number, locate)}` : "")).join("; ")}`);
+  }
+
+  out.push("", ...buildGeochemStatisticsFacts(dataset, locate));
+  return out.join("\n");
+};
+
+// Grid interpolated locally from another input's points; an estimate between samples, not a survey
+export const buildGriddedEvidence = (fileName: string, info: GriddedInfo, grid: GridData, crs: string | undefined, locate?: FrameLocator): string => {
+  const p = info.params;
+  const method = p.method === 'kriging' && p.variogram
+    ? `ordinary kriging (${p.variogram.type} variogram: nugget ${fmt(p.variogram.nugget)}, sill ${fmt(p.variogram.sill)}, range ${fmt(p.variogram.range)})`
+    : p.method === 'idw' ? `inverse distance weighting (power ${p.power})` : "natural neighbour (discrete Sibson)";
+  return [
+    `=== INTERPOLATED GRID EVIDENCE: ${fileName} ===`,
+    `Variable: ${info.variable}, gridded from ${info.pointCount} located values in ${info.sourceName} by ${method}` +
+      (p.logTransform ? ", on log10 values back-transformed to the original units" : ""),
+    `Search radius ${fmt(p.searchRadius)}; nodes farther than that from every point are blank. Coordinate system: ${crsLabel(crs)}`,
+    ...describeGrid(grid, locate),
+    `Values between points are estimates; the source data in ${info.sourceName} remain the measured facts.`
+  ].join("\n");
+};
+
+// Grid derived from a magnetic grid by an FFT transform
+export const buildGridTransformEvidence = (fileName: string, info: GridTransformInfo, grid: GridData, crs: string | undefined, locate?: FrameLocator): string => {
+  const { label, description } = GRID_TRANSFORMS[info.transform];
+  const p = info.params;
+  const field = `inclination ${fmt(p.inclination)}°, declination ${fmt(p.declination)}°`;
+  const applied = info.transform === 'rtp'
+    ? `for a geomagnetic field of ${field}, assuming induced magnetisation`
+    : info.transform === 'upward'
+      ? `by ${fmt(p.height)} map units${p.reduceToPole ? `, of the reduced-to-pole field (${field})` : ""}`
+      : p.reduceToPole ? `of the reduced-to-pole field (${field})` : "of the field as measured";
+  return [
+    `=== MAGNETIC TRANSFORM EVIDENCE: ${fileName} ===`,
+    `Transform: ${label} of ${info.sourceName}, ${applied}. Computed locally on the FFT of the grid.`,
+    `${description}.` + (info.transform === 'tilt' ? " Values are in degrees." : ""),
+    `Coordinate system: ${crsLabel(crs)}`,
+    ...describeGrid(grid, locate),
+    `Use this to check whether targets sit on magnetic highs (e.g. magnetite-bearing intrusions, potassic cores) or on magnetite-destructive lows (phyllic/argillic alteration), and near the edges of bodies.`
+  ].join("\n");
+};
+
+// Mapped overlays (faults, contacts, claims): each feature as its attributes and where it runs
+export const buildVectorEvidence = (fileName: string, dataset: VectorDataset, locate?: FrameLocator): string => {
+  const { features } = dataset;
+  const keys = Array.from(new Set(features.flatMap(f => Object.keys(f.properties))));
+  const out: string[] = [
+    `=== MAPPED VECTOR EVIDENCE: ${fileName} ===`,
+    `Features: ${features.length} (${(['point', 'line', 'polygon'] as const).map(t => `${t}s: ${features.filter(f => f.geometry === t).length}`).join(", ")})`,
+    `Coordinate system: ${crsLabel(dataset.crs)}`,
+    `Attributes: ${keys.join(", ") || "none"}`,
+    "Features (geometry | attributes | vertices in map coordinates, start-end for lines, extent for polygons):"
+  ];
+  features.slice(0, MAX_VECTOR_FEATURES).forEach(f => {
+    const attributes = Object.entries(f.properties)
+      .filter(([, v]) => v !== null && v !== "")
+      .map(([k, v]) => `${k}=${v}`)
+      .join("; ");
+    const vertices = f.parts.flat();
+    let where: string;
+    if (f.geometry === 'line') {
+      where = f.parts.map(part => `${fmtPoint(...part[0], locate)} to ${fmtPoint(...part[part.length - 1], locate)}`).join(", ");
+    } else if (f.geometry === 'polygon') {
+      // A loop rather than Math.min(...): digitised outlines can have more vertices than the stack allows arguments
+      let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+      for (const [x, y] of vertices) {
+        minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+      }
+      where = `${fmtPoint(minX, minY, locate)} to ${fmtPoint(maxX, maxY, locate)}`;
+    } else {
+      where = vertices.map(v => fmtPoint(...v, locate)).join(", ");
+    }
+    out.push(`${f.geometry} | ${attributes || "-"} | ${where}`);
+  });
+  if (features.length > MAX_VECTOR_FEATURES) {
+    out.push(`... ${features.length - MAX_VECTOR_FEATURES} further features omitted.`);
+  }
+  out.push("These are mapped interpretations (e.g. faults, contacts, tenement outlines): use them as structural context and for where targets can be followed up.");
+  return out.join("\n");
+};
+
+// Caption for an index image computed from a multispectral scene; the image follows it
+export const buildSpectralIndexEvidence = (fileName: string, index: SpectralIndexInfo): string => [
+  `=== SPECTRAL INDEX EVIDENCE: ${fileName} ===`,
+  `Index: ${index.label}, computed locally as ${index.expression} from ${index.sourceName}${index.sensor === 'generic' ? '' : ` (${SENSORS[index.sensor].label})`}`,
+  index.description,
+  `Values: min ${fmt(index.stats.min)}, max ${fmt(index.stats.max)}, mean ${fmt(index.stats.mean)} (${(index.stats.validFraction * 100).toFixed(0)}% of pixels valid)`,
+  `Colour ramp: dark blue = ${fmt(index.range[0])} or lower, through cyan and yellow, to red = ${fmt(index.range[1])} or higher; transparent = no data.`,
+  `The image covers the same ground as ${index.sourceName}. Band ratios also respond to vegetation, shadow and lithology; use them with the other data.`
+].join("\n");
@@ -0,0 +1,169 @@
+import { GeochemColumnMapping, GeochemDataset, GeochemElementColumn, GeochemSample, GeochemUnit, UploadedFile } from "../types";
+import { DelimitedTable, findColumn } from "./csv";
+
+const ELEMENT_SYMBOLS = [
+  "Ag", "Al", "As", "Au", "B", "Ba", "Be", "Bi", "Br", "C", "Ca", "Cd", "Ce", "Cl", "Co", "Cr", "Cs", "Cu",
+  "Dy", "Er", "Eu", "F", "Fe", "Ga", "Gd", "Ge", "Hf", "Hg", "Ho", "I", "In", "Ir", "K", "La", "Li", "Lu",
+  "Mg", "Mn", "Mo", "Na", "Nb", "Nd", "Ni", "Os", "P", "Pb", "Pd", "Pr", "Pt", "Rb", "Re", "Rh", "Ru", "S",
+  "Sb", "Sc", "Se", "Si", "Sm", "Sn", "Sr", "Ta", "Tb", "Te", "Th", "Ti", "Tl", "Tm", "U", "V", "W", "Y",
+  "Yb", "Zn", "Zr"
+];
+
+const SYMBOL_LOOKUP = new Map(ELEMENT_SYMBOLS.map(s => [s.toLowerCase(), s]));
+
+// Major-element oxides reported by XRF/fusion packages
+const OXIDES = ["SiO2", "TiO2", "Al2O3", "Fe2O3", "FeO", "MnO", "MgO", "CaO", "Na2O", "K2O", "P2O5", "Cr2O3", "BaO", "SrO"];
+const OXIDE_LOOKUP = new Map(OXIDES.map(o => [o.toLowerCase(), o]));
+
+const X_ALIASES = ["x", "easting", "east", "utme", "utmeast", "xcoord", "e", "longitude", "lon", "long"];
+const Y_ALIASES = ["y", "northing", "north", "utmn", "utmnorth", "ycoord", "n", "latitude", "lat"];
+const ID_ALIASES = ["sampleid", "sample", "sampleno", "samplenumber", "id", "labid", "sampid", "siteid"];
+
+export const UNIT_TO_PPM: Record<GeochemUnit, number> = {
+  ppm: 1,
+  gpt: 1,
+  ppb: 0.001,
+  pct: 10000
+};
+
+export const UNIT_LABELS: Record<GeochemUnit, string> = {
+  ppm: "ppm",
+  gpt: "g/t",
+  ppb: "ppb",
+  pct: "%"
+};
+
+const detectUnit = (header: string, element: string): GeochemUnit => {
+  const h = header.toLowerCase();
+  if (/ppb/.test(h)) return "ppb";
+  if (/pct|%|percent|wt/.test(h)) return "pct";
+  if (/g\/?t|gpt/.test(h)) return "gpt";
+  if (/ppm/.test(h)) return "ppm";
+  return OXIDE_LOOKUP.has(element.toLowerCase()) ? "pct" : "ppm";
+};
+
+// Recognise headers like "Cu_ppm", "Au (ppb)", "AS_PPM_ICP", "Fe2O3 %"
+const detectElement = (header: string): string | null => {
+  const token = header.trim().split(/[\s_\-()[\]./:]+/)[0];
+  if (!token) return null;
+  return SYMBOL_LOOKUP.get(token.toLowerCase()) ?? OXIDE_LOOKUP.get(token.toLowerCase()) ?? null;
+};
+
+export const detectGeochemMapping = (table: DelimitedTable): GeochemColumnMapping => {
+  const { headers } = table;
+  const xIdx = findColumn(headers, X_ALIASES);
+  const yIdx = findColumn(headers, Y_ALIASES);
+  const idIdx = findColumn(headers, ID_ALIASES);
+  const reserved = new Set([xIdx, yIdx, idIdx]);
+
+  const elements: GeochemElementColumn[] = [];
+  headers.forEach((header, i) => {
+    if (reserved.has(i)) return;
+    const element = detectElement(header);
+    if (!element) return;
+    // Only keep columns that actually hold numbers (or censored numbers)
+    const numericShare = table.rows.slice(0, 50).filter(r => parseGeochemValue(r[i], table.delimiter) !== null).length;
+    if (numericShare === 0) return;
+    elements.push({ column: header, element, unit: detectUnit(header, element) });
+  });
+
+  return {
+    sampleId: idIdx === -1 ? null : headers[idIdx],
+    x: xIdx === -1 ? null : headers[xIdx],
+    y: yIdx === -1 ? null : headers[yIdx],
+    elements
+  };
+};
+
+export interface ParsedGeochemValue {
+  value: number;
+  censored?: 'below' | 'above';
+}
+
+// Missing-value codes used by common labs (insufficient sample, not analysed, ...)
+const MISSING_CODES = new Set(["", "-", "na", "n/a", "n.a.", "nd", "is", "nss", "nr", "lnr", "x", "null"]);
+
+// Numbers as labs write them. In a file not delimited by commas a lone comma is the decimal
+// point ("0,5" from a European export); otherwise commas are only accepted as thousands
+// separators ("1,234.5"), and anything else with a comma is not a number.
+const parseLabNumber = (text: string, delimiter: string): number => {
+  const v = text.trim();
+  if (!v.includes(",")) return v === "" ? NaN : Number(v);
+  if (delimiter !== "," && /^[-+]?\d*,\d+$/.test(v)) return Number(v.replace(",", "."));
+  if (/^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(v)) return Number(v.replace(/,/g, ""));
+  return NaN;
+};
+
+// Parses lab values. Below-detection results ("<0.5", or ALS-style negatives "-0.5")
+// are substituted with half the detection limit; over-range results (">10000") with the limit.
+export const parseGeochemValue = (raw: string | undefined, delimiter = ","): ParsedGeochemValue | null => {
+  if (raw === undefined) return null;
+  const v = raw.trim();
+  if (MISSING_CODES.has(v.toLowerCase())) return null;
+
+  if (v.startsWith("<")) {
+    const limit = parseLabNumber(v.slice(1), delimiter);
+    return isNaN(limit) ? null : { value: limit / 2, censored: "below" };
+  }
+  if (v.startsWith(">")) {
+    const limit = parseLabNumber(v.slice(1), delimiter);
+    return isNaN(limit) ? null : { value: limit, censored: "above" };
+  }
+
+  const n = parseLabNumber(v, delimiter);
+  if (isNaN(n)) return null;
+  if (n < 0) return { value: Math.abs(n) / 2, censored: "below" };
+  return { value: n };
+};
+
+const parseCoordinate = (raw: string | undefined, delimiter: string) => {
+  if (raw === undefined || raw.trim() === "") return undefined;
+  const n = parseLabNumber(raw, delimiter);
+  return isNaN(n) ? undefined : n;
+};
+
+export const buildGeochemDataset = (table: DelimitedTable, mapping: GeochemColumnMapping): GeochemDataset => {
+  const col = (name: string | null) => (name ? table.headers.indexOf(name) : -1);
+  const idIdx = col(mapping.sampleId);
+  const xIdx = col(mapping.x);
+  const yIdx = col(mapping.y);
+  const elementCols = mapping.elements.map(e => ({ ...e, idx: col(e.column) })).filter(e => e.idx !== -1);
+
+  const samples: GeochemSample[] = table.rows.map((row, i) => {
+    const values: Record<string, number> = {};
+    const censored: Record<string, 'below' | 'above'> = {};
+
+    elementCols.forEach(({ element, unit, idx }) => {
+      const parsed = parseGeochemValue(row[idx], table.delimiter);
+      if (!parsed) return;
+      values[element] = parsed.value * UNIT_TO_PPM[unit];
+      if (parsed.censored) censored[element] = parsed.censored;
+    });
+
+    return {
+      id: (idIdx !== -1 && row[idIdx]) || `S${i + 1}`,
+      x: parseCoordinate(row[xIdx], table.delimiter),
+      y: parseCoordinate(row[yIdx], table.delimiter),
+      values,
+      censored
+    };
+  });
+
+  return {
+    mapping,
+    samples: samples.filter(s => Object.keys(s.values).length > 0),
+    elements: Array.from(new Set(elementCols.map(e => e.element)))
+  };
+};
+
+export const isGeochemTableFile = (name: string = "") => {
+  const n = name.toLowerCase();
+  return n.endsWith(".csv") || n.endsWith(".txt") || n.endsWith(".tsv");
+};
+
+// Flatten every imported geochem dataset into one sample list for the map, statistics and prompt
+export const getGeochemSamples = (files: UploadedFile[]): GeochemSample[] =>
+  files.flatMap(f => f.geochem?.samples ?? []);
+
+export const describeGeochemDataset = (dataset: GeochemDataset): string =>
+  `${dataset.samples.length} samples · ${dataset.elements.length} elements`;
@@ -0,0 +1,259 @@
+import { GeochemDataset, GeochemSample, GeochemStatsSettings, ThresholdMethod } from "../types";
+
+// Anomaly statistics for imported geochemistry. Trace-element data are close to lognormal,
+// so spread-based thresholds are computed on log10 values and reported back in ppm.
+
+export const THRESHOLD_METHODS: Record<ThresholdMethod, { label: string; description: string }> = {
+  p95: { label: "95th percentile", description: "Top 5% of samples" },
+  p98: { label: "98th percentile", description: "Top 2% of samples" },
+  mean2sd: { label: "Mean + 2 SD (log)", description: "Geometric mean plus two standard deviations of log10 values" },
+  mad: { label: "Median + 2 MAD (log)", description: "Robust: median plus two scaled median absolute deviations of log10 values" },
+  probplot: { label: "Probability-plot break", description: "Inflection between background and anomalous populations on the log probability plot" }
+};
+
+export const DEFAULT_STATS_SETTINGS: GeochemStatsSettings = { method: 'mad', ratios: [["Cu", "Zn"], ["Au", "Ag"]] };
+
+export interface AdditiveIndexDefinition {
+  id: string;
+  label: string;
+  elements: string[];
+}
+
+export const ADDITIVE_INDICES: AdditiveIndexDefinition[] = [
+  { id: 'porphyry', label: "Porphyry Cu-Mo-Au", elements: ["Cu", "Mo", "Au"] },
+  { id: 'epithermal', label: "Epithermal Au-Ag-As-Sb-Hg", elements: ["Au", "Ag", "As", "Sb", "Hg"] },
+  { id: 'distal', label: "Distal halo Zn-Pb-Mn", elements: ["Zn", "Pb", "Mn"] }
+];
+
+export interface ElementSummary {
+  element: string;
+  n: number;
+  censored: number; // below detection
+  min: number;
+  max: number;
+  mean: number;
+  sd: number;
+  median: number;
+  geoMean: number;
+  logSd: number; // SD of log10 values
+  percentiles: { p50: number; p75: number; p90: number; p95: number; p98: number };
+  thresholds: Record<ThresholdMethod, number | undefined>;
+  anomalous: number; // samples above the selected threshold
+}
+
+export interface AdditiveIndexResult {
+  definition: AdditiveIndexDefinition;
+  elements: string[]; // those present in the dataset
+  values: (number | undefined)[]; // per sample, aligned with dataset.samples
+  anomalous: number; // samples with index >= 1
+}
+
+export interface RatioResult {
+  label: string;
+  numerator: string;
+  denominator: string;
+  values: (number | undefined)[]; // per sample
+  median: number;
+  p95: number;
+  max: number;
+}
+
+export interface FlaggedSample {
+  sample: GeochemSample;
+  index: number; // position in dataset.samples
+  elements: { element: string; value: number; times: number }[]; // value ÷ threshold
+  indices: { label: string; value: number }[];
+}
+
+export interface GeochemStatistics {
+  settings: GeochemStatsSettings;
+  summaries: ElementSummary[];
+  indices: AdditiveIndexResult[];
+  ratios: RatioResult[];
+  flagged: FlaggedSample[]; // most flags first
+}
+
+const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return NaN;
+  const pos = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(pos);
+  const hi = Math.min(sorted.length - 1, lo + 1);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+const meanAndSd = (values: number[]) => {
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / Math.max(1, values.length - 1);
+  return { mean, sd: Math.sqrt(variance) };
+};
+
+// Acklam's rational approximation of the standard normal quantile
+const normalQuantile = (p: number) => {
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) return -normalQuantile(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+const MIN_PROBPLOT_SAMPLES = 20;
+const MIN_UPPER_POPULATION = 5;
+const MIN_BREAK_IMPROVEMENT = 0.3; // two lines must cut the misfit of one by at least this fraction
+
+// Fits two straight lines to the log probability plot (log value against normal quantile)
+// and returns the first value of the upper segment for the best split in the upper half
+const probabilityPlotBreak = (logSorted: number[]): number | undefined => {
+  const n = logSorted.length;
+  if (n < MIN_PROBPLOT_SAMPLES) return undefined;
+  const xs = logSorted.map((_, i) => normalQuantile((i + 0.5) / n));
+
+  // Prefix sums give the least-squares misfit of any segment in constant time
+  const sx = [0], sy = [0], sxx = [0], sxy = [0], syy = [0];
+  for (let i = 0; i < n; i++) {
+    const x = xs[i], y = logSorted[i];
+    sx.push(sx[i] + x); sy.push(sy[i] + y); sxx.push(sxx[i] + x * x); sxy.push(sxy[i] + x * y); syy.push(syy[i] + y * y);
+  }
+  const misfit = (from: number, to: number) => {
+    const m = to - from;
+    const Sx = sx[to] - sx[from], Sy = sy[to] - sy[from];
+    const Sxx = sxx[to] - sxx[from] - Sx * Sx / m;
+    const Sxy = sxy[to] - sxy[from] - Sx * Sy / m;
+    const Syy = syy[to] - syy[from] - Sy * Sy / m;
+    return Sxx > 0 ? Math.max(0, Syy - Sxy * Sxy / Sxx) : Math.max(0, Syy);
+  };
+
+  const single = misfit(0, n);
+  if (single <= 0) return undefined;
+  let best = Infinity, bestAt = -1;
+  for (let k = Math.floor(n / 2); k <= n - MIN_UPPER_POPULATION; k++) {
+    const split = misfit(0, k) + misfit(k, n);
+    if (split < best) { best = split; bestAt = k; }
+  }
+  return bestAt >= 0 && best <= single * (1 - MIN_BREAK_IMPROVEMENT) ? 10 ** logSorted[bestAt] : undefined;
+};
+
+// Element names are matched case-insensitively ("cu" finds "Cu")
+export const findElement = (elements: string[], name: string) =>
+  elements.find(e => e.toLowerCase() === name.toLowerCase());
+
+export const summarizeElement = (samples: GeochemSample[], element: string, method: ThresholdMethod): ElementSummary | null => {
+  const withValue = samples.filter(s => isFinite(s.values[element]));
+  if (withValue.length === 0) return null;
+  const sorted = withValue.map(s => s.values[element]).sort((a, b) => a - b);
+  const logSorted = sorted.filter(v => v > 0).map(Math.log10);
+  const { mean, sd } = meanAndSd(sorted);
+
+  let thresholds: ElementSummary['thresholds'] = { p95: percentile(sorted, 95), p98: percentile(sorted, 98), mean2sd: undefined, mad: undefined, probplot: undefined };
+  let geoMean = NaN, logSd = NaN;
+  if (logSorted.length >= 3) {
+    const log = meanAndSd(logSorted);
+    geoMean = 10 ** log.mean;
+    logSd = log.sd;
+    const logMedian = percentile(logSorted, 50);
+    const mad = percentile(logSorted.map(v => Math.abs(v - logMedian)).sort((a, b) => a - b), 50) * 1.4826;
+    thresholds = {
+      ...thresholds,
+      mean2sd: 10 ** (log.mean + 2 * log.sd),
+      mad: mad > 0 ? 10 ** (logMedian + 2 * mad) : undefined,
+      probplot: probabilityPlotBreak(logSorted)
+    };
+  }
+
+  const threshold = thresholds[method];
+  return {
+    element,
+    n: sorted.length,
+    censored: withValue.filter(s => s.censored[element] === 'below').length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean,
+    sd,
+    median: percentile(sorted, 50),
+    geoMean,
+    logSd,
+    percentiles: { p50: percentile(sorted, 50), p75: percentile(sorted, 75), p90: percentile(sorted, 90), p95: thresholds.p95!, p98: thresholds.p98! },
+    thresholds,
+    anomalous: threshold === undefined ? 0 : sorted.filter(v => v > threshold).length
+  };
+};
+
+// Additive index: mean of value ÷ threshold over the index elements a sample has, so a
+// sample at 1 or more is, on average, anomalous in the whole association
+const additiveIndex = (dataset: GeochemDataset, definition: AdditiveIndexDefinition, thresholds: Map<string, number>): AdditiveIndexResult | null => {
+  const elements = definition.elements
+    .map(e => findElement(dataset.elements, e))
+    .filter((e): e is string => !!e && thresholds.has(e));
+  if (elements.length < 2) return null;
+  const values = dataset.samples.map(s => {
+    const parts = elements.filter(e => isFinite(s.values[e])).map(e => s.values[e] / thresholds.get(e)!);
+    return parts.length * 2 >= elements.length ? parts.reduce((a, b) => a + b, 0) / parts.length : undefined;
+  });
+  return { definition, elements, values, anomalous: values.filter(v => v !== undefined && v >= 1).length };
+};
+
+const ratio = (dataset: GeochemDataset, [num, den]: [string, string]): RatioResult | null => {
+  const numerator = findElement(dataset.elements, num);
+  const denominator = findElement(dataset.elements, den);
+  if (!numerator || !denominator || numerator === denominator) return null;
+  const values = dataset.samples.map(s => {
+    const a = s.values[numerator], b = s.values[denominator];
+    return isFinite(a) && isFinite(b) && b > 0 ? a / b : undefined;
+  });
+  const sorted = values.filter((v): v is number => v !== undefined).sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+  return {
+    label: `${numerator}/${denominator}`,
+    numerator,
+    denominator,
+    values,
+    median: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    max: sorted[sorted.length - 1]
+  };
+};
+
+export const computeGeochemStatistics = (
+  dataset: GeochemDataset,
+  settings: GeochemStatsSettings = dataset.statistics ?? DEFAULT_STATS_SETTINGS
+): GeochemStatistics => {
+  const summaries = dataset.elements
+    .map(e => summarizeElement(dataset.samples, e, settings.method))
+    .filter((s): s is ElementSummary => !!s);
+
+  const thresholds = new Map<string, number>();
+  summaries.forEach(s => {
+    const t = s.thresholds[settings.method];
+    if (t !== undefined && t > 0) thresholds.set(s.element, t);
+  });
+
+  const indices = ADDITIVE_INDICES
+    .map(d => additiveIndex(dataset, d, thresholds))
+    .filter((r): r is AdditiveIndexResult => !!r);
+  const ratios = settings.ratios
+    .map(pair => ratio(dataset, pair))
+    .filter((r): r is RatioResult => !!r);
+
+  const flagged: FlaggedSample[] = dataset.samples.flatMap((sample, index) => {
+    const elements = [...thresholds]
+      .filter(([e, t]) => sample.values[e] > t)
+      .map(([e, t]) => ({ element: e, value: sample.values[e], times: sample.values[e] / t }))
+      .sort((a, b) => b.times - a.times);
+    const sampleIndices = indices
+      .filter(r => (r.values[index] ?? 0) >= 1)
+      .map(r => ({ label: r.definition.label, value: r.values[index]! }));
+    return elements.length || sampleIndices.length ? [{ sample, index, elements, indices: sampleIndices }] : [];
+  });
+  flagged.sort((a, b) =>
+    (b.elements.length + b.indices.length) - (a.elements.length + a.indices.length) ||
+    Math.max(0, ...b.elements.map(e => e.times)) - Math.max(0, ...a.elements.map(e => e.times)));
+
+  return { settings, summaries, indices, ratios, flagged };
+};
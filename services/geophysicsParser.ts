@@ -0,0 +1,286 @@
+import { GeophysicsDataset, GridData, XyzLine } from "../types";
+import { parseDelimitedText } from "./csv";
+
+const SURFER_BLANK = 1.70141e38;
+
+const isNumeric = (token: string) => token !== "" && !isNaN(Number(token));
+
+const splitTokens = (line: string) => line.trim().split(/[\s,]+/).filter(Boolean);
+
+// --- Geosoft-style XYZ line data ---
+// Comment lines start with "/", line/tie headers start with "LINE"/"TIE",
+// and the last comment line before the first data row usually names the channels.
+export const parseXyz = (text: string): GeophysicsDataset => {
+  const rawLines = text.split(/\r?\n/);
+  const lines: XyzLine[] = [];
+  let channels: string[] = [];
+  let lastComment: string[] = [];
+  let current: XyzLine | null = null;
+
+  const ensureLine = (name: string) => {
+    current = { name, points: [] };
+    lines.push(current);
+    return current;
+  };
+
+  for (const raw of rawLines) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    if (line.startsWith("/")) {
+      lastComment = splitTokens(line.replace(/^\/+/, ""));
+      continue;
+    }
+
+    const lineHeader = line.match(/^(line|tie|trend)\s+(\S+)/i);
+    if (lineHeader) {
+      ensureLine(`${lineHeader[1].toUpperCase()} ${lineHeader[2]}`);
+      continue;
+    }
+
+    const tokens = splitTokens(line);
+
+    // Plain column header row (CSV-style exports); a data row may hold "*" dummies
+    if (channels.length === 0 && !tokens.every(t => isNumeric(t) || t === "*")) {
+      channels = tokens;
+      continue;
+    }
+
+    if (!tokens.every(t => isNumeric(t) || t === "*")) continue;
+
+    if (channels.length === 0) {
+      channels = lastComment.length === tokens.length
+        ? lastComment
+        : tokens.map((_, i) => (i === 0 ? "X" : i === 1 ? "Y" : `CH${i - 1}`));
+    }
+
+    const target: XyzLine = current ?? ensureLine("LINE 1");
+    const values: Record<string, number> = {};
+    tokens.forEach((t, i) => {
+      // Geosoft uses "*" for dummy values
+      values[channels[i] ?? `CH${i}`] = t === "*" ? NaN : Number(t);
+    });
+
+    const xKey = channels.find(c => /^(x|easting|east|lon|longitude)$/i.test(c)) ?? channels[0];
+    const yKey = channels.find(c => /^(y|northing|north|lat|latitude)$/i.test(c)) ?? channels[1];
+    target.points.push({ x: values[xKey], y: values[yKey], values });
+  }
+
+  const populated = lines.filter(l => l.points.length > 0);
+  if (populated.length === 0) {
+    throw new Error("No numeric XYZ records were found in the file.");
+  }
+
+  return { format: "xyz", channels, lines: populated };
+};
+
+// --- ESRI ASCII grid (.asc / .grd) ---
+const parseEsriAsciiGrid = (text: string): GridData => {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const header: Record<string, number> = {};
+  let i = 0;
+  while (i < tokens.length && !isNumeric(tokens[i])) {
+    header[tokens[i].toLowerCase()] = Number(tokens[i + 1]);
+    i += 2;
+  }
+
+  const ncols = header.ncols;
+  const nrows = header.nrows;
+  const dx = header.cellsize ?? header.dx;
+  const dy = header.cellsize ?? header.dy;
+  if (!ncols || !nrows || !dx || !dy) {
+    throw new Error("ESRI ASCII grid header is missing ncols, nrows or cellsize.");
+  }
+
+  const xmin = header.xllcenter ?? (header.xllcorner + dx / 2);
+  const ymin = header.yllcenter ?? (header.yllcorner + dy / 2);
+  if (!isFinite(xmin) || !isFinite(ymin)) {
+    throw new Error("ESRI ASCII grid header is missing xllcorner/xllcenter or yllcorner/yllcenter.");
+  }
+  const nodata = header.nodata_value;
+
+  const values = new Float32Array(ncols * nrows);
+  for (let r = 0; r < nrows; r++) {
+    // ESRI rows are written north to south
+    const destRow = nrows - 1 - r;
+    for (let c = 0; c < ncols; c++) {
+      const v = Number(tokens[i++]);
+      values[destRow * ncols + c] = v === nodata || isNaN(v) ? NaN : v;
+    }
+  }
+
+  return { ncols, nrows, xmin, ymin, dx, dy, values };
+};
+
+// --- Surfer 6 ASCII grid (DSAA) ---
+const parseSurferAsciiGrid = (text: string): GridData => {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const ncols = Number(tokens[1]);
+  const nrows = Number(tokens[2]);
+  const xlo = Number(tokens[3]);
+  const xhi = Number(tokens[4]);
+  const ylo = Number(tokens[5]);
+  const yhi = Number(tokens[6]);
+
+  const values = new Float32Array(ncols * nrows);
+  let i = 9;
+  for (let n = 0; n < ncols * nrows; n++) {
+    const v = Number(tokens[i++]);
+    values[n] = v >= SURFER_BLANK || isNaN(v) ? NaN : v;
+  }
+
+  return {
+    ncols,
+    nrows,
+    xmin: xlo,
+    ymin: ylo,
+    dx: ncols > 1 ? (xhi - xlo) / (ncols - 1) : 1,
+    dy: nrows > 1 ? (yhi - ylo) / (nrows - 1) : 1,
+    values
+  };
+};
+
+// --- Surfer 6 binary grid (DSBB) ---
+const parseSurfer6BinaryGrid = (view: DataView): GridData => {
+  const ncols = view.getInt16(4, true);
+  const nrows = view.getInt16(6, true);
+  const xlo = view.getFloat64(8, true);
+  const xhi = view.getFloat64(16, true);
+  const ylo = view.getFloat64(24, true);
+  const yhi = view.getFloat64(32, true);
+
+  const values = new Float32Array(ncols * nrows);
+  let offset = 56;
+  for (let n = 0; n < ncols * nrows; n++) {
+    const v = view.getFloat32(offset, true);
+    values[n] = v >= SURFER_BLANK ? NaN : v;
+    offset += 4;
+  }
+
+  return {
+    ncols,
+    nrows,
+    xmin: xlo,
+    ymin: ylo,
+    dx: ncols > 1 ? (xhi - xlo) / (ncols - 1) : 1,
+    dy: nrows > 1 ? (yhi - ylo) / (nrows - 1) : 1,
+    values
+  };
+};
+
+// --- Surfer 7 binary grid (DSRB), tagged sections ---
+const TAG_GRID = 0x44495247;
+const TAG_DATA = 0x41544144;
+
+const parseSurfer7BinaryGrid = (view: DataView): GridData => {
+  let offset = 0;
+  let grid: Omit<GridData, "values"> | null = null;
+  let blank = SURFER_BLANK;
+
+  while (offset + 8 <= view.byteLength) {
+    const tag = view.getInt32(offset, true);
+    const size = view.getInt32(offset + 4, true);
+    offset += 8;
+
+    if (tag === TAG_GRID) {
+      const nrows = view.getInt32(offset, true);
+      const ncols = view.getInt32(offset + 4, true);
+      grid = {
+        nrows,
+        ncols,
+        xmin: view.getFloat64(offset + 8, true),
+        ymin: view.getFloat64(offset + 16, true),
+        dx: view.getFloat64(offset + 24, true),
+        dy: view.getFloat64(offset + 32, true)
+      };
+      blank = view.getFloat64(offset + 64, true);
+    } else if (tag === TAG_DATA && grid) {
+      const values = new Float32Array(grid.ncols * grid.nrows);
+      for (let n = 0; n < values.length; n++) {
+        const v = view.getFloat64(offset + n * 8, true);
+        values[n] = v === blank || v >= SURFER_BLANK ? NaN : v;
+      }
+      return { ...grid, values };
+    }
+    offset += size;
+  }
+
+  throw new Error("Surfer 7 grid is missing its GRID or DATA section.");
+};
+
+export const parseGrd = (buffer: ArrayBuffer): GeophysicsDataset => {
+  const view = new DataView(buffer);
+  const magic = String.fromCharCode(...new Uint8Array(buffer.slice(0, 4)));
+
+  if (magic === "DSBB") {
+    return { format: "surfer-binary-grid", channels: ["Z"], grid: parseSurfer6BinaryGrid(view) };
+  }
+  if (magic === "DSRB") {
+    return { format: "surfer-binary-grid", channels: ["Z"], grid: parseSurfer7BinaryGrid(view) };
+  }
+
+  const text = new TextDecoder().decode(buffer);
+  if (magic === "DSAA") {
+    return { format: "surfer-ascii-grid", channels: ["Z"], grid: parseSurferAsciiGrid(text) };
+  }
+  if (/^\s*ncols/i.test(text)) {
+    return { format: "esri-ascii-grid", channels: ["Z"], grid: parseEsriAsciiGrid(text) };
+  }
+
+  throw new Error("Unrecognised grid format. Supported: ESRI ASCII, Surfer 6 ASCII/binary and Surfer 7 binary grids.");
+};
+
+export const parseGeophysicsFile = async (file: File): Promise<GeophysicsDataset> => {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith(".grd") || name.endsWith(".asc")) {
+    return parseGrd(await file.arrayBuffer());
+  }
+
+  const text = await file.text();
+  if (name.endsWith(".csv")) {
+    // CSV exports of line data: treat the header row as channel names
+    const table = parseDelimitedText(text);
+    const body = [table.headers.join(" "), ...table.rows.map(r => r.join(" "))].join("\n");
+    return parseXyz(body);
+  }
+  return parseXyz(text);
+};
+
+// Line data channels that locate or index records rather than measure anything
+export const isCoordinateChannel = (name: string) =>
+  /^(x|y|easting|northing|east|north|lon|lat|longitude|latitude|fid|line|time|date)$/i.test(name);
+
+// --- Summaries used for the prompt and the upload panel ---
+export interface ChannelStats {
+  min: number;
+  max: number;
+  mean: number;
+  std: number;
+  count: number;
+}
+
+export const computeStats = (values: ArrayLike<number>): ChannelStats => {
+  let min = Infinity, max = -Infinity, sum = 0, sumSq = 0, count = 0;
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (!isFinite(v)) continue;
+    if (v < min) min = v;
+    if (v > max) max = v;
+    sum += v;
+    sumSq += v * v;
+    count++;
+  }
+  const mean = count ? sum / count : NaN;
+  const std = count ? Math.sqrt(Math.max(sumSq / count - mean * mean, 0)) : NaN;
+  return { min, max, mean, std, count };
+};
+
+export const describeGeophysicsDataset = (dataset: GeophysicsDataset): string => {
+  if (dataset.grid) {
+    const g = dataset.grid;
+    return `Grid ${g.ncols}×${g.nrows} @ ${g.dx}`;
+  }
+  const points = dataset.lines?.reduce((sum, l) => sum + l.points.length, 0) ?? 0;
+  return `${dataset.lines?.length ?? 0} lines · ${points} pts · ${dataset.channels.length} ch`;
+};
@@ -0,0 +1,344 @@
+import { FileCategory, Georeference, MapImageLayer, UploadedFile } from "../types";
+import { getNumericTag, readTiff, TAG, TiffImage } from "./tiff";
+import { formatCoordinate, getCrs, isGeographicCrs, tryReproject, utmCrsFor, WGS84 } from "./crs";
+import { vectorCoordinates } from "./vectorParser";
+
+type GeoTransform = Georeference["geoTransform"];
+
+// Sidecar files that carry georeferencing for an image uploaded alongside them
+export const WORLD_FILE_EXTENSIONS = [".tfw", ".tifw", ".jgw", ".jpgw", ".pgw", ".pngw", ".gfw", ".wld"];
+export const SIDECAR_EXTENSIONS = [...WORLD_FILE_EXTENSIONS, ".aux.xml", ".prj"];
+
+export const isSidecarFile = (name: string) => {
+  const n = name.toLowerCase();
+  return SIDECAR_EXTENSIONS.some(ext => n.endsWith(ext));
+};
+
+// Does this sidecar belong to this image? "scene.jgw" -> "scene.jpg", "scene.tif.aux.xml" -> "scene.tif"
+export const sidecarMatchesImage = (sidecarName: string, imageName: string) => {
+  const s = sidecarName.toLowerCase();
+  const img = imageName.toLowerCase();
+  if (s.endsWith(".aux.xml")) return s.slice(0, -".aux.xml".length) === img;
+  const stem = (name: string) => name.replace(/\.[^.]+$/, "");
+  return stem(s) === stem(img);
+};
+
+// --- World files (.tfw/.jgw/.pgw) ---
+// Six lines: A (x pixel size), D, B (rotation), E (y pixel size, negative), C, F (centre of top-left pixel)
+export const parseWorldFile = (text: string): GeoTransform => {
+  const values = text.split(/\s+/).filter(Boolean).map(Number);
+  if (values.length < 6 || values.slice(0, 6).some(isNaN)) {
+    throw new Error("World file must contain six numeric lines.");
+  }
+  const [a, d, b, e, c, f] = values;
+  // Shift from pixel-centre to pixel-corner origin
+  return [c - a / 2 - b / 2, a, b, f - d / 2 - e / 2, d, e];
+};
+
+// --- CRS identification from WKT ---
+// The outermost AUTHORITY / ID is the last one in both WKT1 and WKT2
+export const crsFromWkt = (wkt: string): string | undefined => {
+  const authorities = [...wkt.matchAll(/(?:AUTHORITY|ID)\[\s*"EPSG"\s*,\s*"?(\d+)"?\s*\]/gi)];
+  if (authorities.length) return `EPSG:${authorities[authorities.length - 1][1]}`;
+
+  // ESRI .prj files usually omit the authority: recognise WGS84 UTM names
+  const utm = wkt.match(/WGS[_ ]?(?:19)?84[_ /]+UTM[_ ]zone[_ ](\d{1,2})([NS])/i);
+  if (utm) {
+    const zone = Number(utm[1]);
+    return `EPSG:${utm[2].toUpperCase() === "N" ? 32600 + zone : 32700 + zone}`;
+  }
+  if (/^GEOGCS\["GCS_WGS_1984"/i.test(wkt.trim())) return "EPSG:4326";
+  return undefined;
+};
+
+// --- GDAL .aux.xml (PAM) ---
+export const parseAuxXml = (text: string): { geoTransform?: GeoTransform; crs?: string } => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  const gtText = doc.querySelector("GeoTransform")?.textContent;
+  const srs = doc.querySelector("SRS")?.textContent ?? undefined;
+
+  let geoTransform: GeoTransform | undefined;
+  if (gtText) {
+    const values = gtText.split(/[\s,]+/).filter(Boolean).map(Number);
+    if (values.length === 6 && !values.some(isNaN)) geoTransform = values as GeoTransform;
+  }
+
+  return { geoTransform, crs: srs ? crsFromWkt(srs) : undefined };
+};
+
+// --- GeoTIFF tags ---
+const GEO_KEY = {
+  RASTER_TYPE: 1025,
+  GEOGRAPHIC_TYPE: 2048,
+  PROJECTED_CS_TYPE: 3072
+};
+
+const readGeoKeys = (image: TiffImage): Map<number, number> => {
+  const dir = getNumericTag(image, TAG.GEO_KEY_DIRECTORY);
+  const keys = new Map<number, number>();
+  if (!dir || dir.length < 4) return keys;
+  const count = dir[3];
+  for (let i = 0; i < count; i++) {
+    const [keyId, location, , value] = dir.slice(4 + i * 4, 8 + i * 4);
+    // Only short values stored inline are needed here
+    if (location === 0) keys.set(keyId, value);
+  }
+  return keys;
+};
+
+export const georeferenceFromTiff = (image: TiffImage, source: string): Georeference | undefined => {
+  const keys = readGeoKeys(image);
+  const scale = getNumericTag(image, TAG.MODEL_PIXEL_SCALE);
+  const tiepoint = getNumericTag(image, TAG.MODEL_TIEPOINT);
+  const matrix = getNumericTag(image, TAG.MODEL_TRANSFORMATION);
+
+  let geoTransform: GeoTransform | undefined;
+  if (matrix && matrix.length >= 16) {
+    geoTransform = [matrix[3], matrix[0], matrix[1], matrix[7], matrix[4], matrix[5]];
+  } else if (scale && tiepoint && tiepoint.length >= 6) {
+    const [i, j, , x, y] = tiepoint;
+    geoTransform = [x - i * scale[0], scale[0], 0, y + j * scale[1], 0, -scale[1]];
+  }
+  if (!geoTransform) return undefined;
+
+  // PixelIsPoint rasters reference pixel centres
+  if (keys.get(GEO_KEY.RASTER_TYPE) === 2) {
+    geoTransform = [
+      geoTransform[0] - geoTransform[1] / 2 - geoTransform[2] / 2,
+      geoTransform[1],
+      geoTransform[2],
+      geoTransform[3] - geoTransform[4] / 2 - geoTransform[5] / 2,
+      geoTransform[4],
+      geoTransform[5]
+    ];
+  }
+
+  // 32767 means "user-defined", which we cannot resolve to an EPSG code
+  const epsg = [keys.get(GEO_KEY.PROJECTED_CS_TYPE), keys.get(GEO_KEY.GEOGRAPHIC_TYPE)]
+    .find(code => code !== undefined && code !== 32767);
+
+  return {
+    geoTransform,
+    width: image.width,
+    height: image.height,
+    crs: epsg ? `EPSG:${epsg}` : undefined,
+    source
+  };
+};
+
+// --- Coordinate conversion between the 0-100 image space and map coordinates ---
+export const relativeToWorld = (geo: Georeference, x: number, y: number): [number, number] => {
+  const col = (x / 100) * geo.width;
+  const row = (y / 100) * geo.height;
+  const t = geo.geoTransform;
+  return [t[0] + col * t[1] + row * t[2], t[3] + col * t[4] + row * t[5]];
+};
+
+export const worldToRelative = (geo: Georeference, X: number, Y: number): [number, number] => {
+  const t = geo.geoTransform;
+  const det = t[1] * t[5] - t[2] * t[4];
+  const dx = X - t[0];
+  const dy = Y - t[3];
+  const col = (dx * t[5] - dy * t[2]) / det;
+  const row = (dy * t[1] - dx * t[4]) / det;
+  return [(col / geo.width) * 100, (row / geo.height) * 100];
+};
+
+export const getWorldBounds = (geo: Georeference) => {
+  const corners = [[0, 0], [100, 0], [0, 100], [100, 100]].map(([x, y]) => relativeToWorld(geo, x, y));
+  const xs = corners.map(c => c[0]);
+  const ys = corners.map(c => c[1]);
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+};
+
+// Rectangle another raster covers in the 0-100 space of `frame` (axis-aligned around its corners)
+export const boundsInFrame = (frame: Georeference, geo: Georeference) => {
+  const corners = [[0, 0], [100, 0], [0, 100], [100, 100]].map(([x, y]) =>
+    worldToRelative(frame, ...tryReproject(relativeToWorld(geo, x, y), geo.crs, frame.crs)));
+  const xs = corners.map(c => c[0]);
+  const ys = corners.map(c => c[1]);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+export const isGeographic = (geo: Georeference) =>
+  geo.crs ? isGeographicCrs(geo.crs) : Math.abs(geo.geoTransform[1]) < 0.01 && Math.abs(geo.geoTransform[0]) <= 180;
+
+// Map coordinates of a 0-100 position, reprojected into `crs` when both CRS are known
+export const relativeToCrs = (geo: Georeference, x: number, y: number, crs?: string): [number, number] =>
+  tryReproject(relativeToWorld(geo, x, y), geo.crs, crs);
+
+// Positions as metres on the ground, for distances and areas: geographic frames are projected to
+// the local UTM zone first, projected ones are assumed to be in metres already
+export const relativeToMetres = (geo: Georeference, points: [number, number][]): [number, number][] => {
+  const world = points.map(([x, y]) => relativeToWorld(geo, x, y));
+  if (!isGeographic(geo)) return world;
+  const [lon, lat] = tryReproject(relativeToWorld(geo, 50, 50), geo.crs, WGS84);
+  const utm = utmCrsFor(lon, lat);
+  return world.map(p => tryReproject(p, geo.crs ?? WGS84, utm));
+};
+
+// The CRS coordinates actually end up in: `crs` when reprojection is possible, else the frame's own
+export const outputCrs = (geo: Georeference, crs?: string): string | undefined =>
+  crs && getCrs(crs) && getCrs(geo.crs) ? crs : geo.crs;
+
+export const formatWorldCoordinate = (geo: Georeference, x: number, y: number, crs?: string): string => {
+  const target = outputCrs(geo, crs);
+  const coord = relativeToCrs(geo, x, y, target);
+  if (target) return formatCoordinate(coord, target);
+  // Undeclared CRS: guess from the pixel size whether these are degrees
+  return formatCoordinate(coord, isGeographic(geo) ? "EPSG:4326" : undefined);
+};
+
+// A north-up frame over a map-coordinate extent. Image space is y-down while northings
+// increase upwards, so row 0 (y = 0) sits on maxY and the row step is negative.
+export const createNorthUpFrame = (
+  bounds: { minX: number; minY: number; maxX: number; maxY: number },
+  crs: string | undefined,
+  source: string
+): Georeference => ({
+  geoTransform: [bounds.minX, (bounds.maxX - bounds.minX) / 100, 0, bounds.maxY, 0, -(bounds.maxY - bounds.minY) / 100],
+  width: 100,
+  height: 100,
+  crs,
+  source
+});
+
+// The 0-100 target space refers to this image: the first georeferenced satellite
+// scene or map, falling back to the first uploaded image.
+export const getReferenceImage = (files: UploadedFile[]): UploadedFile | undefined => {
+  const images = files.filter(f =>
+    (f.category === FileCategory.SATELLITE || f.category === FileCategory.MAPS) && (f.previewUrl || f.georeference)
+  );
+  return images.find(f => f.georeference && f.category === FileCategory.SATELLITE)
+    ?? images.find(f => f.georeference)
+    ?? images[0];
+};
+
+// Uploaded satellite scenes and maps that can be drawn under the targets, reference image first.
+// With a frame, georeferenced images are placed by their extent; without one only the
+// reference image is known to span the 0-100 space.
+export const basemapLayers = (files: UploadedFile[], frame?: Georeference): MapImageLayer[] => {
+  const reference = getReferenceImage(files);
+  const images = files.filter(f =>
+    (f.category === FileCategory.SATELLITE || f.category === FileCategory.MAPS) && f.previewUrl && !f.spectralIndex
+  );
+  return [...images.filter(f => f === reference), ...images.filter(f => f !== reference)].flatMap(f => {
+    if (frame ? !f.georeference : f !== reference) return [];
+    return [{
+      id: f.id,
+      label: f.file?.name ?? f.category,
+      url: f.previewUrl as string,
+      bounds: frame && f.georeference ? boundsInFrame(frame, f.georeference) : { x: 0, y: 0, width: 100, height: 100 }
+    }];
+  });
+};
+
+// --- Coordinates carried by tabular / gridded datasets ---
+// The CRS a file's own coordinates are in (sample tables, grids, or a georeferenced image)
+export const getFileCrs = (file: UploadedFile): string | undefined =>
+  file.geochem?.crs ?? file.geophysics?.crs ?? file.petrology?.crs ?? file.vector?.crs ?? file.georeference?.crs;
+
+export const getDatasetCoordinates = (file: UploadedFile): [number, number][] => {
+  const located = <T extends { x?: number; y?: number }>(items: T[]) =>
+    items.filter(p => p.x !== undefined && p.y !== undefined).map(p => [p.x, p.y] as [number, number]);
+
+  if (file.geochem) return located(file.geochem.samples);
+  if (file.petrology) return located(file.petrology.samples);
+  if (file.vector) return vectorCoordinates(file.vector);
+  if (file.geophysics?.grid) {
+    const g = file.geophysics.grid;
+    return [[g.xmin, g.ymin], [g.xmin + (g.ncols - 1) * g.dx, g.ymin + (g.nrows - 1) * g.dy]];
+  }
+  return (file.geophysics?.lines ?? []).flatMap(l => l.points.map(p => [p.x, p.y] as [number, number]));
+};
+
+// Frame the 0-100 target space refers to. A georeferenced reference image defines it;
+// without one, located data (reprojected into the project CRS) defines a north-up frame.
+export const getAnalysisFrame = (files: UploadedFile[], projectCrs: string): Georeference | undefined => {
+  const reference = getReferenceImage(files);
+  if (reference) return reference.georeference;
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const file of files) {
+    const crs = getFileCrs(file);
+    for (const coord of getDatasetCoordinates(file)) {
+      const [x, y] = tryReproject(coord, crs, projectCrs);
+      if (!isFinite(x) || !isFinite(y)) continue;
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+    }
+  }
+  if (!isFinite(minX) || maxX <= minX || maxY <= minY) return undefined;
+
+  // Pad so that samples on the edge do not sit on the frame border
+  const padX = (maxX - minX) * 0.05;
+  const padY = (maxY - minY) * 0.05;
+  return createNorthUpFrame(
+    { minX: minX - padX, minY: minY - padY, maxX: maxX + padX, maxY: maxY + padY },
+    projectCrs,
+    "data extent"
+  );
+};
+
+export const getImageSize = (url: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error("Could not read image dimensions."));
+    img.src = url;
+  });
+
+// Merge georeferencing from several sources; fields in `patch` win over `base`
+export const mergeGeoreference = (
+  base: Georeference | undefined,
+  patch: Partial<Georeference>
+): Georeference | undefined => {
+  const geoTransform = patch.geoTransform ?? base?.geoTransform;
+  const width = patch.width ?? base?.width;
+  const height = patch.height ?? base?.height;
+  if (!geoTransform || !width || !height) return base;
+  return {
+    geoTransform,
+    width,
+    height,
+    crs: patch.crs ?? base?.crs,
+    source: patch.source ?? base?.source ?? ""
+  };
+};
+
+export const isTiffName = (name: string) => /\.tiff?$/i.test(name);
+
+export const getRasterSize = async (file: File): Promise<{ width: number; height: number }> => {
+  if (isTiffName(file.name)) {
+    const { width, height } = readTiff(await file.arrayBuffer());
+    return { width, height };
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    return await getImageSize(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Reads all sidecars for one image into a single georeference patch
+export const readSidecars = async (sidecars: File[]): Promise<Partial<Georeference>> => {
+  const patch: Partial<Georeference> = {};
+  for (const sidecar of sidecars) {
+    const text = await sidecar.text();
+    const name = sidecar.name.toLowerCase();
+    if (name.endsWith(".prj")) {
+      patch.crs = crsFromWkt(text) ?? patch.crs;
+    } else if (name.endsWith(".aux.xml")) {
+      const aux = parseAuxXml(text);
+      if (aux.geoTransform) patch.geoTransform = aux.geoTransform;
+      if (aux.crs) patch.crs = aux.crs;
+    } else {
+      patch.geoTransform = parseWorldFile(text);
+    }
+    patch.source = sidecar.name;
+  }
+  return patch;
+};
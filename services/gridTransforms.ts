@@ -0,0 +1,218 @@
+import { GridData, GridTransformId, GridTransformParams } from "../types";
+import { GriddingError } from "./gridding";
+
+// Potential-field transforms of magnetic grids, applied to the 2-D FFT of the grid.
+// Like gridding.ts this is plain computation, run inside the gridding worker.
+//
+// Conventions: forward transform e^(-ik·r), x east, y north (grid row 0 is the south edge),
+// z down, so the vertical derivative is the +|k| filter and upward continuation heights are
+// positive. Derivatives are per map unit of the grid, so grids should be in a projected CRS.
+
+export const GRID_TRANSFORMS: Record<GridTransformId, { label: string; description: string }> = {
+  rtp: {
+    label: "Reduction to pole",
+    description: "Moves anomalies over their sources as if the field were vertical"
+  },
+  thd: {
+    label: "Total horizontal derivative",
+    description: "Peaks over contacts and fault edges"
+  },
+  vd1: {
+    label: "First vertical derivative",
+    description: "Sharpens shallow sources and suppresses regional trends"
+  },
+  tilt: {
+    label: "Tilt derivative",
+    description: "Angle between vertical and horizontal gradients (−90° to 90°): positive over sources, zero on their edges"
+  },
+  'analytic-signal': {
+    label: "Analytic signal",
+    description: "Total gradient amplitude; peaks over sources whatever the magnetisation direction"
+  },
+  upward: {
+    label: "Upward continuation",
+    description: "Field as if measured higher up: smooths out shallow sources to show deeper ones"
+  }
+};
+
+// RTP divides by the field term, which vanishes towards the equator along the declination.
+// Below this inclination the amplitude term uses it instead (MacLeod et al. 1993).
+const MIN_AMPLITUDE_INCLINATION = 20;
+const MAX_FFT_SIZE = 4096;
+
+const nextPow2 = (n: number) => 2 ** Math.ceil(Math.log2(Math.max(2, n)));
+
+// In-place iterative radix-2 FFT of one line; `inverse` applies e^(+i) and the 1/n scale
+const fft = (re: Float64Array, im: Float64Array, inverse: boolean) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (inverse ? 2 : -2) * Math.PI / len;
+    const wr = Math.cos(angle), wi = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let cr = 1, ci = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k, b = a + len / 2;
+        const tr = re[b] * cr - im[b] * ci;
+        const ti = re[b] * ci + im[b] * cr;
+        re[b] = re[a] - tr; im[b] = im[a] - ti;
+        re[a] += tr; im[a] += ti;
+        [cr, ci] = [cr * wr - ci * wi, cr * wi + ci * wr];
+      }
+    }
+  }
+  if (inverse) {
+    for (let i = 0; i < n; i++) { re[i] /= n; im[i] /= n; }
+  }
+};
+
+// 2-D FFT over rows then columns of an nx × ny array
+const fft2d = (re: Float64Array, im: Float64Array, nx: number, ny: number, inverse: boolean) => {
+  const rowRe = new Float64Array(nx), rowIm = new Float64Array(nx);
+  for (let r = 0; r < ny; r++) {
+    rowRe.set(re.subarray(r * nx, (r + 1) * nx));
+    rowIm.set(im.subarray(r * nx, (r + 1) * nx));
+    fft(rowRe, rowIm, inverse);
+    re.set(rowRe, r * nx);
+    im.set(rowIm, r * nx);
+  }
+  const colRe = new Float64Array(ny), colIm = new Float64Array(ny);
+  for (let c = 0; c < nx; c++) {
+    for (let r = 0; r < ny; r++) { colRe[r] = re[r * nx + c]; colIm[r] = im[r * nx + c]; }
+    fft(colRe, colIm, inverse);
+    for (let r = 0; r < ny; r++) { re[r * nx + c] = colRe[r]; im[r * nx + c] = colIm[r]; }
+  }
+};
+
+// Demeaned grid in a power-of-two array. Blank nodes take the mean, and the margin rolls
+// off from the edge values to zero with a cosine taper so the grid is periodic without a step.
+const padGrid = (grid: GridData) => {
+  let sum = 0, count = 0;
+  for (const v of grid.values) if (isFinite(v)) { sum += v; count++; }
+  if (count === 0) throw new GriddingError("The grid has no valid values.");
+  const mean = sum / count;
+
+  const nx = nextPow2(Math.ceil(grid.ncols * 1.5));
+  const ny = nextPow2(Math.ceil(grid.nrows * 1.5));
+  if (nx > MAX_FFT_SIZE || ny > MAX_FFT_SIZE) {
+    throw new GriddingError(`The grid is too large to transform (${grid.ncols} × ${grid.nrows}); resample it to under ${Math.floor(MAX_FFT_SIZE / 1.5)} nodes a side.`);
+  }
+  const ox = Math.floor((nx - grid.ncols) / 2), oy = Math.floor((ny - grid.nrows) / 2);
+  const taper = Math.max(1, Math.min(ox, oy, nx - grid.ncols - ox, ny - grid.nrows - oy));
+
+  const re = new Float64Array(nx * ny);
+  for (let r = 0; r < ny; r++) {
+    const gr = Math.min(grid.nrows - 1, Math.max(0, r - oy));
+    for (let c = 0; c < nx; c++) {
+      const gc = Math.min(grid.ncols - 1, Math.max(0, c - ox));
+      const v = grid.values[gr * grid.ncols + gc];
+      const edge = isFinite(v) ? v - mean : 0;
+      const d = Math.hypot(c - ox - gc, r - oy - gr); // 0 inside the grid
+      re[r * nx + c] = d === 0 ? edge : edge * 0.5 * (1 + Math.cos(Math.PI * Math.min(1, d / taper)));
+    }
+  }
+  return { re, nx, ny, ox, oy, mean };
+};
+
+export const transformGrid = (grid: GridData, transforms: GridTransformId[], params: GridTransformParams): GridData[] => {
+  const { re, nx, ny, ox, oy, mean } = padGrid(grid);
+  const im = new Float64Array(nx * ny);
+  fft2d(re, im, nx, ny, false);
+
+  // Wavenumbers in radians per map unit, in FFT order
+  const kx = Float64Array.from({ length: nx }, (_, u) => 2 * Math.PI * (u <= nx / 2 ? u : u - nx) / (nx * grid.dx));
+  const ky = Float64Array.from({ length: ny }, (_, v) => 2 * Math.PI * (v <= ny / 2 ? v : v - ny) / (ny * grid.dy));
+
+  // Reduction to pole for induced magnetisation: divide by Θ², Θ = sin I + i cos I (kx sin D + ky cos D) / |k|
+  const inc = params.inclination * Math.PI / 180;
+  const dec = params.declination * Math.PI / 180;
+  const ampInc = Math.sign(inc || 1) * Math.max(Math.abs(inc), MIN_AMPLITUDE_INCLINATION * Math.PI / 180);
+  const rtp = (u: number, v: number, a: number, b: number): [number, number] => {
+    const k = Math.hypot(kx[u], ky[v]);
+    if (k === 0) return [a, b];
+    const tr = Math.sin(ampInc);
+    const ti = Math.cos(inc) * (kx[u] * Math.sin(dec) + ky[v] * Math.cos(dec)) / k;
+    // Θ² and then (a + ib) / Θ²
+    const sr = tr * tr - ti * ti, si = 2 * tr * ti;
+    const den = sr * sr + si * si;
+    return [(a * sr + b * si) / den, (b * sr - a * si) / den];
+  };
+
+  const needsRtp = transforms.includes('rtp') || params.reduceToPole;
+  const reduced = needsRtp ? { re: new Float64Array(nx * ny), im: new Float64Array(nx * ny) } : { re, im };
+  if (needsRtp) {
+    for (let v = 0; v < ny; v++) {
+      for (let u = 0; u < nx; u++) {
+        const i = v * nx + u;
+        [reduced.re[i], reduced.im[i]] = rtp(u, v, re[i], im[i]);
+      }
+    }
+  }
+  const base = params.reduceToPole ? reduced : { re, im };
+
+  // Inverse transform of base × filter, cropped back to the grid
+  const filtered = (filter: (kx: number, ky: number, k: number) => [number, number], source = base): Float64Array => {
+    const fr = new Float64Array(nx * ny), fi = new Float64Array(nx * ny);
+    for (let v = 0; v < ny; v++) {
+      for (let u = 0; u < nx; u++) {
+        const i = v * nx + u;
+        const [hr, hi] = filter(kx[u], ky[v], Math.hypot(kx[u], ky[v]));
+        fr[i] = source.re[i] * hr - source.im[i] * hi;
+        fi[i] = source.re[i] * hi + source.im[i] * hr;
+      }
+    }
+    fft2d(fr, fi, nx, ny, true);
+    const out = new Float64Array(grid.ncols * grid.nrows);
+    for (let r = 0; r < grid.nrows; r++) {
+      for (let c = 0; c < grid.ncols; c++) out[r * grid.ncols + c] = fr[(r + oy) * nx + c + ox];
+    }
+    return out;
+  };
+
+  const cache = new Map<string, Float64Array>();
+  const derivative = (axis: 'x' | 'y' | 'z') => {
+    if (!cache.has(axis)) {
+      cache.set(axis, filtered((x, y, k) => axis === 'x' ? [0, x] : axis === 'y' ? [0, y] : [k, 0]));
+    }
+    return cache.get(axis)!;
+  };
+
+  const compute = (transform: GridTransformId): ArrayLike<number> => {
+    switch (transform) {
+      case 'rtp':
+        return filtered(() => [1, 0], reduced).map(v => v + mean);
+      case 'upward':
+        return filtered((_, __, k) => [Math.exp(-k * params.height), 0]).map(v => v + mean);
+      case 'vd1':
+        return derivative('z');
+      case 'thd': {
+        const dx = derivative('x'), dy = derivative('y');
+        return dx.map((v, i) => Math.hypot(v, dy[i]));
+      }
+      case 'tilt': {
+        const dx = derivative('x'), dy = derivative('y'), dz = derivative('z');
+        return dz.map((v, i) => Math.atan2(v, Math.hypot(dx[i], dy[i])) * 180 / Math.PI);
+      }
+      case 'analytic-signal': {
+        const dx = derivative('x'), dy = derivative('y'), dz = derivative('z');
+        return dz.map((v, i) => Math.hypot(dx[i], dy[i], v));
+      }
+    }
+  };
+
+  return transforms.map(transform => {
+    const result = compute(transform);
+    const values = new Float32Array(grid.values.length);
+    // Blank nodes stay blank
+    for (let i = 0; i < values.length; i++) values[i] = isFinite(grid.values[i]) ? result[i] : NaN;
+    return { ...grid, values };
+  });
+};
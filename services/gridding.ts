@@ -0,0 +1,396 @@
+import { GridData, GriddingParams, VariogramModel, VariogramModelType } from "../types";
+
+// Interpolation of scattered point values onto a regular grid. Everything here is plain
+// computation with no DOM access, so it runs inside the gridding worker.
+// Grids follow GridData: node-centred, row 0 on the south edge (ymin).
+
+export interface GridPoint {
+  x: number;
+  y: number;
+  v: number;
+}
+
+export class GriddingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GriddingError";
+  }
+}
+
+const MAX_GRID_NODES = 1_000_000;
+const MAX_NATURAL_NEIGHBOUR_WORK = 400_000_000; // node visits of the discrete Sibson scatter
+const MAX_VARIOGRAM_POINTS = 1500;
+const VARIOGRAM_LAGS = 15;
+
+// Bounding box by loop: survey lines can hold more points than spread arguments allow
+const extent = (points: GridPoint[]) => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of points) {
+    minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+    minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+  }
+  return { minX, minY, maxX, maxY };
+};
+
+// --- Spatial index: points bucketed into square cells for radius and nearest queries ---
+const createPointIndex = (points: GridPoint[], bucket: number) => {
+  const { minX, minY, maxX, maxY } = extent(points);
+  const cols = Math.max(1, Math.floor((maxX - minX) / bucket) + 1);
+  const rows = Math.max(1, Math.floor((maxY - minY) / bucket) + 1);
+  const buckets: number[][] = Array.from({ length: cols * rows }, () => []);
+  const colOf = (x: number) => Math.floor((x - minX) / bucket);
+  const rowOf = (y: number) => Math.floor((y - minY) / bucket);
+  points.forEach((p, i) => buckets[rowOf(p.y) * cols + colOf(p.x)].push(i));
+
+  // Points within `radius` of (x, y), nearest first, at most `limit`
+  const near = (x: number, y: number, radius: number, limit = Infinity): { index: number; d: number }[] => {
+    const found: { index: number; d: number }[] = [];
+    const c0 = Math.max(0, colOf(x - radius)), c1 = Math.min(cols - 1, colOf(x + radius));
+    const r0 = Math.max(0, rowOf(y - radius)), r1 = Math.min(rows - 1, rowOf(y + radius));
+    for (let r = r0; r <= r1; r++) {
+      for (let c = c0; c <= c1; c++) {
+        for (const i of buckets[r * cols + c]) {
+          const d = Math.hypot(points[i].x - x, points[i].y - y);
+          if (d <= radius) found.push({ index: i, d });
+        }
+      }
+    }
+    found.sort((a, b) => a.d - b.d);
+    return found.length > limit ? found.slice(0, limit) : found;
+  };
+
+  // Nearest point within `radius`, searching rings of buckets outwards
+  const nearest = (x: number, y: number, radius: number): { index: number; d: number } | undefined => {
+    const cx = colOf(x), cy = rowOf(y);
+    const maxRing = Math.ceil(radius / bucket) + 1;
+    let best: { index: number; d: number } | undefined;
+    for (let ring = 0; ring <= maxRing; ring++) {
+      // Anything in this ring is at least (ring - 1) buckets away
+      if (best && (ring - 1) * bucket > best.d) break;
+      for (let r = cy - ring; r <= cy + ring; r++) {
+        if (r < 0 || r >= rows) continue;
+        for (let c = cx - ring; c <= cx + ring; c++) {
+          if (c < 0 || c >= cols || (Math.abs(r - cy) !== ring && Math.abs(c - cx) !== ring)) continue;
+          for (const i of buckets[r * cols + c]) {
+            const d = Math.hypot(points[i].x - x, points[i].y - y);
+            if (d <= radius && (!best || d < best.d)) best = { index: i, d };
+          }
+        }
+      }
+    }
+    return best;
+  };
+
+  return { near, nearest };
+};
+
+// Averages points that share a location (duplicate samples make kriging singular)
+const mergeDuplicates = (points: GridPoint[]): GridPoint[] => {
+  const byLocation = new Map<string, { x: number; y: number; sum: number; n: number }>();
+  for (const p of points) {
+    const key = `${p.x},${p.y}`;
+    const entry = byLocation.get(key);
+    if (entry) { entry.sum += p.v; entry.n++; }
+    else byLocation.set(key, { x: p.x, y: p.y, sum: p.v, n: 1 });
+  }
+  return [...byLocation.values()].map(e => ({ x: e.x, y: e.y, v: e.sum / e.n }));
+};
+
+// Values to interpolate: finite, and positive when they are to be log-transformed
+export const preparePoints = (points: GridPoint[], logTransform: boolean): GridPoint[] =>
+  mergeDuplicates(points
+    .filter(p => isFinite(p.x) && isFinite(p.y) && isFinite(p.v) && (!logTransform || p.v > 0))
+    .map(p => logTransform ? { ...p, v: Math.log10(p.v) } : p));
+
+// Grid nodes over the point extent, aligned on the lower-left point
+export const gridLayout = (points: GridPoint[], cellSize: number) => {
+  const { minX, minY, maxX, maxY } = extent(points);
+  return {
+    xmin: minX,
+    ymin: minY,
+    ncols: Math.floor((maxX - minX) / cellSize) + 1,
+    nrows: Math.floor((maxY - minY) / cellSize) + 1
+  };
+};
+
+// Rounds to 1, 2 or 5 times a power of ten
+const niceNumber = (raw: number) => {
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  return [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= raw * 0.75) ?? raw;
+};
+
+// Defaults from the typical point spacing: cells a quarter of it, search three times it
+export const suggestGridSpacing = (points: GridPoint[]): { cellSize: number; searchRadius: number } => {
+  const { minX, minY, maxX, maxY } = extent(points);
+  const spacing = Math.sqrt(Math.max((maxX - minX) * (maxY - minY), 1e-12) / Math.max(points.length, 1)) || 1;
+  return { cellSize: niceNumber(spacing / 4), searchRadius: niceNumber(spacing * 3) };
+};
+
+// --- Variogram ---
+export interface VariogramBin {
+  lag: number; // mean pair distance in the bin
+  gamma: number; // semivariance
+  pairs: number;
+}
+
+export const variogramValue = (model: VariogramModel, h: number): number => {
+  if (h <= 0) return 0;
+  const r = h / model.range;
+  let shape: number;
+  switch (model.type) {
+    case 'spherical': shape = r >= 1 ? 1 : 1.5 * r - 0.5 * r ** 3; break;
+    case 'exponential': shape = 1 - Math.exp(-3 * r); break;
+    case 'gaussian': shape = 1 - Math.exp(-3 * r * r); break;
+  }
+  return model.nugget + model.sill * shape;
+};
+
+// Semivariance binned by separation, out to half the largest extent. Large datasets are
+// thinned evenly, which keeps the pair count bounded without biasing the lags.
+export const experimentalVariogram = (points: GridPoint[], lags = VARIOGRAM_LAGS): VariogramBin[] => {
+  const step = Math.max(1, Math.ceil(points.length / MAX_VARIOGRAM_POINTS));
+  const sample = points.filter((_, i) => i % step === 0);
+  const { minX, minY, maxX, maxY } = extent(sample);
+  const maxLag = Math.max(maxX - minX, maxY - minY) / 2;
+  if (!(maxLag > 0)) return [];
+  const width = maxLag / lags;
+
+  const sums = new Float64Array(lags), dists = new Float64Array(lags), counts = new Float64Array(lags);
+  for (let i = 0; i < sample.length; i++) {
+    for (let j = i + 1; j < sample.length; j++) {
+      const d = Math.hypot(sample[i].x - sample[j].x, sample[i].y - sample[j].y);
+      const bin = Math.floor(d / width);
+      if (bin >= lags) continue;
+      sums[bin] += (sample[i].v - sample[j].v) ** 2 / 2;
+      dists[bin] += d;
+      counts[bin]++;
+    }
+  }
+  const bins: VariogramBin[] = [];
+  for (let b = 0; b < lags; b++) {
+    if (counts[b]) bins.push({ lag: dists[b] / counts[b], gamma: sums[b] / counts[b], pairs: counts[b] });
+  }
+  return bins;
+};
+
+// Least-squares fit weighted by pair count. For a fixed range the model is linear in the
+// nugget and sill, so only the range is searched.
+export const fitVariogram = (bins: VariogramBin[], type: VariogramModelType): VariogramModel | undefined => {
+  if (bins.length < 3) return undefined;
+  const maxLag = Math.max(...bins.map(b => b.lag));
+  let best: { model: VariogramModel; error: number } | undefined;
+
+  for (let step = 1; step <= 60; step++) {
+    const range = (maxLag * 1.5 * step) / 60;
+    const unit: VariogramModel = { type, nugget: 0, sill: 1, range };
+    const f = bins.map(b => variogramValue(unit, b.lag));
+    let sw = 0, sf = 0, sff = 0, sg = 0, sfg = 0;
+    bins.forEach((b, i) => {
+      sw += b.pairs; sf += b.pairs * f[i]; sff += b.pairs * f[i] ** 2;
+      sg += b.pairs * b.gamma; sfg += b.pairs * f[i] * b.gamma;
+    });
+    const det = sw * sff - sf * sf;
+    let nugget = det ? (sg * sff - sf * sfg) / det : 0;
+    let sill = det ? (sw * sfg - sf * sg) / det : 0;
+    if (nugget < 0) { nugget = 0; sill = sff ? sfg / sff : 0; }
+    if (sill < 0) { sill = 0; nugget = sg / sw; }
+
+    const model: VariogramModel = { type, nugget, sill, range };
+    const error = bins.reduce((s, b) => s + b.pairs * (variogramValue(model, b.lag) - b.gamma) ** 2, 0);
+    if (!best || error < best.error) best = { model, error };
+  }
+  return best?.model;
+};
+
+// --- Interpolators: each returns the value at one node, or NaN when nothing is in reach ---
+type NodeInterpolator = (x: number, y: number) => number;
+
+const idwInterpolator = (points: GridPoint[], index: ReturnType<typeof createPointIndex>, params: GriddingParams): NodeInterpolator =>
+  (x, y) => {
+    const found = index.near(x, y, params.searchRadius, params.maxNeighbours);
+    if (found.length === 0) return NaN;
+    if (found[0].d < 1e-9) return points[found[0].index].v;
+    let sw = 0, sv = 0;
+    for (const { index: i, d } of found) {
+      const w = 1 / d ** params.power;
+      sw += w;
+      sv += w * points[i].v;
+    }
+    return sv / sw;
+  };
+
+// Solves A·x = b in place by Gaussian elimination with partial pivoting; undefined if singular
+const solve = (a: Float64Array[], b: Float64Array): Float64Array | undefined => {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < 1e-12) return undefined;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = a[r][col] / a[col][col];
+      if (f === 0) continue;
+      for (let c = col; c < n; c++) a[r][c] -= f * a[col][c];
+      b[r] -= f * b[col];
+    }
+  }
+  const x = new Float64Array(n);
+  for (let r = n - 1; r >= 0; r--) {
+    let s = b[r];
+    for (let c = r + 1; c < n; c++) s -= a[r][c] * x[c];
+    x[r] = s / a[r][r];
+  }
+  return x;
+};
+
+// Ordinary kriging on the nearest points: [Γ 1; 1ᵀ 0]·[w; μ] = [γ₀; 1]
+const krigingInterpolator = (points: GridPoint[], index: ReturnType<typeof createPointIndex>, params: GriddingParams): NodeInterpolator => {
+  const model = params.variogram;
+  if (!model || !(model.range > 0) || model.sill + model.nugget <= 0) {
+    throw new GriddingError("Kriging needs a variogram with a positive range and sill. Fit one to the data first.");
+  }
+  const fallback = idwInterpolator(points, index, params);
+  return (x, y) => {
+    const found = index.near(x, y, params.searchRadius, params.maxNeighbours);
+    if (found.length === 0) return NaN;
+    if (found.length === 1 || found[0].d < 1e-9) return points[found[0].index].v;
+
+    const n = found.length;
+    const a = Array.from({ length: n + 1 }, () => new Float64Array(n + 1));
+    const b = new Float64Array(n + 1);
+    for (let i = 0; i < n; i++) {
+      const pi = points[found[i].index];
+      for (let j = i + 1; j < n; j++) {
+        const pj = points[found[j].index];
+        a[i][j] = a[j][i] = variogramValue(model, Math.hypot(pi.x - pj.x, pi.y - pj.y));
+      }
+      a[i][n] = a[n][i] = 1;
+      b[i] = variogramValue(model, found[i].d);
+    }
+    b[n] = 1;
+
+    const w = solve(a, b);
+    if (!w) return fallback(x, y);
+    let v = 0;
+    for (let i = 0; i < n; i++) v += w[i] * points[found[i].index].v;
+    return v;
+  };
+};
+
+// Discrete Sibson interpolation (Park et al. 2006): each node passes the value of its nearest
+// point to every node within that distance; a node's value is the mean of what it receives.
+// This approximates natural-neighbour weights on the raster without building a Voronoi diagram.
+const naturalNeighbourGrid = (
+  points: GridPoint[],
+  index: ReturnType<typeof createPointIndex>,
+  layout: ReturnType<typeof gridLayout>,
+  params: GriddingParams,
+  onProgress?: (fraction: number) => void
+): Float32Array => {
+  const { xmin, ymin, ncols, nrows } = layout;
+  const cell = params.cellSize;
+  const total = ncols * nrows;
+  const owner = new Int32Array(total).fill(-1);
+  const reach = new Float32Array(total);
+
+  let work = 0;
+  for (let r = 0; r < nrows; r++) {
+    for (let c = 0; c < ncols; c++) {
+      const hit = index.nearest(xmin + c * cell, ymin + r * cell, params.searchRadius);
+      if (!hit) continue;
+      owner[r * ncols + c] = hit.index;
+      reach[r * ncols + c] = hit.d / cell;
+      work += Math.PI * (hit.d / cell + 1) ** 2;
+    }
+  }
+  if (work > MAX_NATURAL_NEIGHBOUR_WORK) {
+    throw new GriddingError("The points are too sparse for natural neighbour at this cell size. Use a larger cell size, a smaller search radius, or IDW.");
+  }
+
+  const sums = new Float64Array(total);
+  const counts = new Float64Array(total);
+  for (let r = 0; r < nrows; r++) {
+    for (let c = 0; c < ncols; c++) {
+      const node = r * ncols + c;
+      if (owner[node] < 0) continue;
+      const v = points[owner[node]].v;
+      const rad = reach[node];
+      const span = Math.floor(rad);
+      for (let dr = -span; dr <= span; dr++) {
+        const rr = r + dr;
+        if (rr < 0 || rr >= nrows) continue;
+        const half = Math.floor(Math.sqrt(rad * rad - dr * dr));
+        for (let cc = Math.max(0, c - half); cc <= Math.min(ncols - 1, c + half); cc++) {
+          sums[rr * ncols + cc] += v;
+          counts[rr * ncols + cc]++;
+        }
+      }
+    }
+    onProgress?.((r + 1) / nrows);
+  }
+
+  const values = new Float32Array(total);
+  for (let i = 0; i < total; i++) values[i] = owner[i] >= 0 && counts[i] ? sums[i] / counts[i] : NaN;
+  return values;
+};
+
+// Interpolates prepared points (see preparePoints) onto a grid over their extent
+export const interpolateGrid = (
+  points: GridPoint[],
+  params: GriddingParams,
+  onProgress?: (fraction: number) => void
+): GridData => {
+  if (points.length < 3) throw new GriddingError("At least 3 located values are needed to grid.");
+  if (!(params.cellSize > 0) || !(params.searchRadius > 0)) {
+    throw new GriddingError("Cell size and search radius must be positive.");
+  }
+  const layout = gridLayout(points, params.cellSize);
+  const { xmin, ymin, ncols, nrows } = layout;
+  if (ncols * nrows > MAX_GRID_NODES) {
+    throw new GriddingError(`A ${params.cellSize} cell gives ${ncols} × ${nrows} nodes; the limit is ${MAX_GRID_NODES.toLocaleString()}. Use a larger cell size.`);
+  }
+  // Buckets about the size of the search radius keep radius queries to a 3×3 neighbourhood
+  const index = createPointIndex(points, Math.max(params.searchRadius, params.cellSize));
+
+  let values: Float32Array;
+  if (params.method === 'natural-neighbour') {
+    values = naturalNeighbourGrid(points, index, layout, params, onProgress);
+  } else {
+    const interpolate = params.method === 'kriging'
+      ? krigingInterpolator(points, index, params)
+      : idwInterpolator(points, index, params);
+    values = new Float32Array(ncols * nrows);
+    for (let r = 0; r < nrows; r++) {
+      for (let c = 0; c < ncols; c++) values[r * ncols + c] = interpolate(xmin + c * params.cellSize, ymin + r * params.cellSize);
+      onProgress?.((r + 1) / nrows);
+    }
+  }
+
+  if (params.logTransform) {
+    for (let i = 0; i < values.length; i++) values[i] = 10 ** values[i];
+  }
+  return { ncols, nrows, xmin, ymin, dx: params.cellSize, dy: params.cellSize, values };
+};
+
+// ESRI ASCII grid text, readable by GIS packages and by the geophysics importer
+export const toEsriAsciiGrid = (grid: GridData, nodata = -9999): string => {
+  const lines = [
+    `ncols ${grid.ncols}`,
+    `nrows ${grid.nrows}`,
+    `xllcenter ${grid.xmin}`,
+    `yllcenter ${grid.ymin}`,
+    `cellsize ${grid.dx}`,
+    `NODATA_value ${nodata}`
+  ];
+  // Rows are written north to south
+  for (let r = grid.nrows - 1; r >= 0; r--) {
+    const row: string[] = [];
+    for (let c = 0; c < grid.ncols; c++) {
+      const v = grid.values[r * grid.ncols + c];
+      row.push(isFinite(v) ? Number(v.toPrecision(7)).toString() : String(nodata));
+    }
+    lines.push(row.join(" "));
+  }
+  return lines.join("\n") + "\n";
+};
@@ -0,0 +1,70 @@
+import { GridData, GriddingParams, GridTransformId, GridTransformParams, VariogramModel, VariogramModelType } from "../types";
+import { experimentalVariogram, fitVariogram, GridPoint, interpolateGrid, preparePoints, VariogramBin } from "./gridding";
+import { transformGrid } from "./gridTransforms";
+import { spectralIndexValues } from "./spectral";
+import { MAX_PREVIEW_SIZE, previewBands, readTiff, readTiffBands, sampledSize, tiffPreviewPixels } from "./tiff";
+
+// Runs gridding, grid transforms and the heavy raster decoding (TIFF previews, spectral indices)
+// off the main thread; see griddingClient.ts for the calling side
+
+export type GriddingRequest =
+  | { type: 'variogram'; points: GridPoint[]; logTransform: boolean; model: VariogramModelType }
+  | { type: 'grid'; points: GridPoint[]; params: GriddingParams }
+  | { type: 'transform'; grid: GridData; transforms: GridTransformId[]; params: GridTransformParams }
+  | { type: 'tiff-preview'; file: Blob }
+  | { type: 'spectral'; file: Blob; bandNames: string[]; expressions: string[] };
+
+export type GriddingResponse =
+  | { type: 'progress'; fraction: number }
+  | { type: 'variogram'; bins: VariogramBin[]; fitted?: VariogramModel }
+  | { type: 'grid'; grid: GridData; pointCount: number }
+  | { type: 'transform'; grids: GridData[] }
+  | { type: 'tiff-preview'; width: number; height: number; pixels: Uint8ClampedArray }
+  | { type: 'spectral'; width: number; height: number; indices: Float32Array[] }
+  | { type: 'error'; message: string };
+
+const post = (message: GriddingResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = async (event: MessageEvent<GriddingRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'tiff-preview') {
+      const image = readTiff(await request.file.arrayBuffer());
+      const { width, height } = sampledSize(image, MAX_PREVIEW_SIZE);
+      const bands = await readTiffBands(image, { bands: previewBands(image), maxSize: MAX_PREVIEW_SIZE });
+      const pixels = tiffPreviewPixels(image, bands, width, height);
+      post({ type: 'tiff-preview', width, height, pixels }, [pixels.buffer]);
+      return;
+    }
+
+    if (request.type === 'spectral') {
+      const { width, height, indices } = await spectralIndexValues(await request.file.arrayBuffer(), request.bandNames, request.expressions);
+      post({ type: 'spectral', width, height, indices }, indices.map(v => v.buffer));
+      return;
+    }
+
+    if (request.type === 'variogram') {
+      const bins = experimentalVariogram(preparePoints(request.points, request.logTransform));
+      post({ type: 'variogram', bins, fitted: fitVariogram(bins, request.model) });
+      return;
+    }
+
+    if (request.type === 'transform') {
+      const grids = transformGrid(request.grid, request.transforms, request.params);
+      post({ type: 'transform', grids }, grids.map(g => g.values.buffer));
+      return;
+    }
+
+    const points = preparePoints(request.points, request.params.logTransform);
+    // Progress is reported about every 2%, not on every row
+    let reported = 0;
+    const grid = interpolateGrid(points, request.params, fraction => {
+      if (fraction - reported < 0.02 && fraction < 1) return;
+      reported = fraction;
+      post({ type: 'progress', fraction });
+    });
+    post({ type: 'grid', grid, pointCount: points.length }, [grid.values.buffer]);
+  } catch (e: any) {
+    post({ type: 'error', message: e.message || "Gridding failed." });
+  }
+};
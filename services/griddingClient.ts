@@ -0,0 +1,218 @@
+import { Georeference, GridData, GriddingParams, GridTransformId, GridTransformParams, MapImageLayer, SensorId, UploadedFile, VariogramModelType } from "../types";
+import { GridPoint, toEsriAsciiGrid } from "./gridding";
+import type { GriddingRequest, GriddingResponse } from "./gridding.worker";
+import { GRID_TRANSFORMS } from "./gridTransforms";
+import { computeStats, isCoordinateChannel } from "./geophysicsParser";
+import { boundsInFrame, getFileCrs } from "./georeference";
+import { IndexRequest, renderRampImage, scaleGeoreference, SpectralIndexOutput } from "./spectral";
+import { renderPreviewImage, stretchRange } from "./tiff";
+
+// Main-thread side of gridding and grid transforms: which inputs qualify, running the
+// worker, and turning its grids into project inputs (ASCII grid file + rendered image + evidence).
+// The worker also decodes large rasters for TIFF previews and spectral indices.
+
+export const INTERPOLATION_METHODS: Record<GriddingParams['method'], { label: string; description: string }> = {
+  idw: { label: "Inverse distance", description: "Weighted mean of nearby points; fast, but makes bull's-eyes around isolated highs" },
+  'natural-neighbour': { label: "Natural neighbour", description: "Area-stealing weights (discrete Sibson); smooth and honours the data, no extrapolation beyond the search radius" },
+  kriging: { label: "Ordinary kriging", description: "Weights from a variogram fitted to the data; best linear unbiased estimate" }
+};
+
+export const VARIOGRAM_MODELS: Record<VariogramModelType, string> = {
+  spherical: "Spherical",
+  exponential: "Exponential",
+  gaussian: "Gaussian"
+};
+
+// Numeric variables with point locations: geochem elements and XYZ line channels
+export const griddableVariables = (file: UploadedFile): string[] => {
+  if (file.geochem?.samples.some(s => s.x !== undefined && s.y !== undefined)) return file.geochem.elements;
+  if (file.geophysics?.lines?.length) return file.geophysics.channels.filter(c => !isCoordinateChannel(c));
+  return [];
+};
+
+export const extractGridPoints = (file: UploadedFile, variable: string): GridPoint[] => {
+  if (file.geochem) {
+    return file.geochem.samples
+      .filter(s => s.x !== undefined && s.y !== undefined && s.values[variable] !== undefined)
+      .map(s => ({ x: s.x as number, y: s.y as number, v: s.values[variable] }));
+  }
+  return (file.geophysics?.lines ?? []).flatMap(line => line.points
+    .filter(p => isFinite(p.values[variable]))
+    .map(p => ({ x: p.x, y: p.y, v: p.values[variable] })));
+};
+
+// Each job gets its own worker, so cancelling is just terminating it
+const callWorker = <T extends GriddingResponse>(
+  request: GriddingRequest,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<T> => new Promise((resolve, reject) => {
+  const worker = new Worker(new URL("./gridding.worker.ts", import.meta.url), { type: "module" });
+  const finish = () => {
+    worker.terminate();
+    signal?.removeEventListener("abort", abort);
+  };
+  const abort = () => {
+    finish();
+    reject(new DOMException("Gridding was cancelled.", "AbortError"));
+  };
+  signal?.addEventListener("abort", abort);
+
+  worker.onmessage = (event: MessageEvent<GriddingResponse>) => {
+    const response = event.data;
+    if (response.type === 'progress') {
+      onProgress?.(response.fraction);
+      return;
+    }
+    finish();
+    if (response.type === 'error') reject(new Error(response.message));
+    else resolve(response as T);
+  };
+  worker.onerror = (event) => {
+    finish();
+    reject(new Error(event.message || "The gridding worker failed."));
+  };
+  worker.postMessage(request);
+});
+
+export const computeVariogram = async (points: GridPoint[], logTransform: boolean, model: VariogramModelType) => {
+  const { bins, fitted } = await callWorker<Extract<GriddingResponse, { type: 'variogram' }>>(
+    { type: 'variogram', points, logTransform, model });
+  return { bins, fitted };
+};
+
+export const runGridding = async (
+  points: GridPoint[],
+  params: GriddingParams,
+  { onProgress, signal }: { onProgress?: (fraction: number) => void; signal?: AbortSignal } = {}
+) => {
+  const { grid, pointCount } = await callWorker<Extract<GriddingResponse, { type: 'grid' }>>(
+    { type: 'grid', points, params }, onProgress, signal);
+  return { grid, pointCount };
+};
+
+// Pixel-corner transform of a node-centred grid (row 0 south) as a north-up image
+export const gridGeoreference = (grid: GridData, crs: string | undefined, source: string): Georeference => {
+  const ymax = grid.ymin + (grid.nrows - 1) * grid.dy;
+  return {
+    geoTransform: [grid.xmin - grid.dx / 2, grid.dx, 0, ymax + grid.dy / 2, 0, -grid.dy],
+    width: grid.ncols,
+    height: grid.nrows,
+    crs,
+    source
+  };
+};
+
+export const runGridTransforms = async (grid: GridData, transforms: GridTransformId[], params: GridTransformParams) => {
+  const { grids } = await callWorker<Extract<GriddingResponse, { type: 'transform' }>>({ type: 'transform', grid, transforms, params });
+  return grids;
+};
+
+// PNG preview of a TIFF, decoded at preview size in the worker and encoded here
+export const renderTiffPreview = async (file: Blob) => {
+  const { width, height, pixels } = await callWorker<Extract<GriddingResponse, { type: 'tiff-preview' }>>({ type: 'tiff-preview', file });
+  return renderPreviewImage(pixels, width, height);
+};
+
+const runSpectralIndices = async (file: Blob, bandNames: string[], expressions: string[]) => {
+  const { width, height, indices } = await callWorker<Extract<GriddingResponse, { type: 'spectral' }>>(
+    { type: 'spectral', file, bandNames, expressions });
+  return { width, height, indices };
+};
+
+export type GridOutput = Pick<UploadedFile, 'file' | 'geophysics' | 'georeference' | 'renderedImage' | 'gridded' | 'gridTransform'>;
+
+const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "grid";
+const baseName = (file: UploadedFile) => (file.file?.name ?? "grid").replace(/\.[^.]+$/, "");
+
+// A grid as a project input: ESRI ASCII file, colour-ramped rendering and georeference
+const gridInput = async (grid: GridData, name: string, channel: string, crs: string | undefined) => {
+  // Images run north to south, grids south to north
+  const flipped = new Float32Array(grid.values.length);
+  for (let r = 0; r < grid.nrows; r++) {
+    flipped.set(grid.values.subarray(r * grid.ncols, (r + 1) * grid.ncols), (grid.nrows - 1 - r) * grid.ncols);
+  }
+  const range = stretchRange(grid.values);
+  return {
+    range,
+    input: {
+      file: new File([toEsriAsciiGrid(grid)], name, { type: "text/plain" }),
+      geophysics: { format: 'esri-ascii-grid' as const, channels: [channel], grid, crs },
+      georeference: gridGeoreference(grid, crs, name),
+      renderedImage: await renderRampImage(flipped, grid.ncols, grid.nrows, range)
+    }
+  };
+};
+
+export const createGriddedOutput = async (
+  source: UploadedFile,
+  variable: string,
+  params: GriddingParams,
+  grid: GridData,
+  pointCount: number
+): Promise<GridOutput> => {
+  const name = `${baseName(source)}_${slug(variable)}_${params.method}.asc`;
+  const { range, input } = await gridInput(grid, name, variable, getFileCrs(source));
+  return { ...input, gridded: { sourceFileId: source.id, sourceName: source.file?.name ?? "points", variable, params, pointCount, range } };
+};
+
+export const createTransformOutputs = async (
+  source: UploadedFile,
+  transforms: GridTransformId[],
+  params: GridTransformParams,
+  grids: GridData[]
+): Promise<GridOutput[]> => Promise.all(grids.map(async (grid, i) => {
+  const transform = transforms[i];
+  const name = `${baseName(source)}_${transform}.asc`;
+  const { range, input } = await gridInput(grid, name, GRID_TRANSFORMS[transform].label, getFileCrs(source));
+  return { ...input, gridTransform: { sourceFileId: source.id, sourceName: source.file?.name ?? "grid", transform, params, range } };
+}));
+
+// Computes each requested index on the scene; returns the inputs to add to the project
+export const computeSpectralIndices = async (
+  scene: UploadedFile,
+  sensor: SensorId,
+  bandNames: string[],
+  requests: IndexRequest[]
+): Promise<SpectralIndexOutput[]> => {
+  if (!scene.file) throw new Error("The scene file is not available.");
+  const { width, height, indices } = await runSpectralIndices(scene.file, bandNames, requests.map(r => r.expression));
+  const baseName = scene.file.name.replace(/\.[^.]+$/, "");
+
+  const outputs: SpectralIndexOutput[] = [];
+  for (const [i, request] of requests.entries()) {
+    const values = indices[i];
+    const stats = computeStats(values);
+    if (stats.count === 0) throw new Error(`${request.label} has no valid pixels; check the band assignment.`);
+    const range = stretchRange(values);
+    const png = await renderRampImage(values, width, height, range);
+    const name = `${baseName}_${slug(request.label)}.png`;
+
+    outputs.push({
+      file: new File([png], name, { type: "image/png" }),
+      georeference: scene.georeference ? scaleGeoreference(scene.georeference, width, height, scene.file.name) : undefined,
+      spectralIndex: {
+        sourceFileId: scene.id,
+        sourceName: scene.file.name,
+        sensor,
+        indexId: request.indexId,
+        label: request.label,
+        expression: request.expression,
+        description: request.description,
+        range,
+        stats: { min: stats.min, max: stats.max, mean: stats.mean, validFraction: stats.count / values.length }
+      }
+    });
+  }
+  return outputs;
+};
+
+// Interpolated and transformed grids as map layers; they need an analysis frame to be placed in
+export const gridLayers = (files: UploadedFile[], frame?: Georeference): MapImageLayer[] =>
+  frame ? files.flatMap(f => {
+    if (!f.previewUrl || !f.georeference) return [];
+    const label = f.gridded
+      ? `${f.gridded.variable} (${INTERPOLATION_METHODS[f.gridded.params.method].label}) · ${f.gridded.sourceName}`
+      : f.gridTransform ? `${GRID_TRANSFORMS[f.gridTransform.transform].label} · ${f.gridTransform.sourceName}` : null;
+    return label ? [{ id: f.id, label, url: f.previewUrl, bounds: boundsInFrame(frame, f.georeference) }] : [];
+  }) : [];
@@ -0,0 +1,153 @@
+import { Georeference, MapImageLayer, MapLayerConfig, MapLayerKind, MapLayerStyle, UploadedFile, VectorFeature } from "../types";
+import { basemapLayers, getFileCrs, worldToRelative } from "./georeference";
+import { tryReproject } from "./crs";
+import { spectralIndexLayers } from "./spectral";
+import { gridLayers } from "./griddingClient";
+import { DEFAULT_CONTOUR_LEVELS } from "./contours";
+
+// What the results map can draw, built from the project inputs and placed in the 0-100 analysis
+// frame, and the default stack used until the user edits it. The stack itself (order, visibility,
+// opacity, style) is a MapLayerConfig[] saved with the project.
+
+export interface MapPoint {
+  x: number;
+  y: number;
+  label: string;
+}
+
+export type MapLayerSource = { id: string; label: string } & (
+  | { kind: 'imagery' | 'raster'; image: MapImageLayer }
+  | { kind: 'surface' | 'contours' | 'alteration' | 'annotations' | 'targets' } // drawn from the result and project
+  | { kind: 'samples'; points: MapPoint[] }
+  | { kind: 'vector'; features: VectorFeature[] } // coordinates already in the frame
+);
+
+export interface ResolvedMapLayer {
+  config: MapLayerConfig;
+  source: MapLayerSource;
+}
+
+export const MAP_LAYER_KINDS: Record<MapLayerKind, string> = {
+  imagery: "Imagery",
+  raster: "Derived raster",
+  surface: "Probability surface",
+  contours: "Probability contours",
+  alteration: "Alteration zones",
+  annotations: "Measurements",
+  targets: "Targets",
+  samples: "Sample points",
+  vector: "Vector overlay"
+};
+
+export const DEFAULT_LAYER_STYLES: Partial<Record<MapLayerKind, MapLayerStyle>> = {
+  samples: { color: "#f472b6", size: 3 },
+  vector: { color: "#e2e8f0", size: 1.5 },
+  contours: { size: 1.5, levels: DEFAULT_CONTOUR_LEVELS }, // coloured by level
+  annotations: { color: "#facc15", size: 2 }
+};
+
+export const SURFACE_LAYER_ID = 'surface';
+export const CONTOURS_LAYER_ID = 'contours';
+export const ALTERATION_LAYER_ID = 'alteration';
+export const ANNOTATIONS_LAYER_ID = 'annotations';
+export const TARGETS_LAYER_ID = 'targets';
+
+const locator = (frame: Georeference, crs: string | undefined) => (x: number, y: number): [number, number] | null => {
+  const [fx, fy] = worldToRelative(frame, ...tryReproject([x, y], crs, frame.crs));
+  return isFinite(fx) && isFinite(fy) ? [fx, fy] : null;
+};
+
+// Located samples of geochem and petrology tables; they need a frame to be placed in
+const sampleSources = (files: UploadedFile[], frame: Georeference): MapLayerSource[] => files.flatMap(f => {
+  const samples = f.geochem?.samples.map(s => ({ x: s.x, y: s.y, label: s.id }))
+    ?? f.petrology?.samples.map(s => ({ x: s.x, y: s.y, label: s.sampleId }));
+  if (!samples) return [];
+  const locate = locator(frame, getFileCrs(f));
+  const points = samples.flatMap(s => {
+    const framed = s.x !== undefined && s.y !== undefined ? locate(s.x, s.y) : null;
+    return framed ? [{ x: framed[0], y: framed[1], label: s.label }] : [];
+  });
+  return points.length ? [{ kind: 'samples' as const, id: f.id, label: f.file?.name ?? "Samples", points }] : [];
+});
+
+// Runs of consecutive vertices that could be placed: a vertex that cannot be projected breaks
+// the part there, rather than its neighbours being joined across the gap
+const placedRuns = (part: [number, number][], locate: ReturnType<typeof locator>) => {
+  const runs: [number, number][][] = [[]];
+  for (const [x, y] of part) {
+    const p = locate(x, y);
+    if (p) runs[runs.length - 1].push(p);
+    else if (runs[runs.length - 1].length) runs.push([]);
+  }
+  return runs.filter(run => run.length > 0);
+};
+
+const placeFeature = (feature: VectorFeature, locate: ReturnType<typeof locator>): VectorFeature | null => {
+  const placed = feature.parts.map(part => ({ part, runs: placedRuns(part, locate) }));
+  const isBroken = placed.some(({ part, runs }) => runs.length !== 1 || runs[0].length !== part.length);
+  // A broken ring can no longer be filled, so the polygon is drawn as the outline that is left
+  const parts = feature.geometry === 'polygon' && isBroken
+    ? placed.flatMap(({ part, runs }) => {
+      const [first] = runs;
+      const isWhole = runs.length === 1 && first.length === part.length;
+      const isClosed = first && first[0][0] === first[first.length - 1][0] && first[0][1] === first[first.length - 1][1];
+      return isWhole && !isClosed ? [[...first, first[0]]] : runs;
+    })
+    : placed.flatMap(({ runs }) => runs);
+  if (parts.length === 0) return null;
+  return { ...feature, geometry: feature.geometry === 'polygon' && isBroken ? 'line' : feature.geometry, parts };
+};
+
+const vectorSources = (files: UploadedFile[], frame: Georeference): MapLayerSource[] => files.flatMap(f => {
+  if (!f.vector) return [];
+  const locate = locator(frame, f.vector.crs);
+  const features = f.vector.features.map(feature => placeFeature(feature, locate)).filter((feature): feature is VectorFeature => feature !== null);
+  return [{ kind: 'vector' as const, id: f.id, label: f.file?.name ?? "Vectors", features }];
+});
+
+// Every layer on offer, bottom to top in the order they would be stacked by default
+export const mapLayerSources = (files: UploadedFile[], frame?: Georeference): MapLayerSource[] => [
+  ...basemapLayers(files, frame).map(image => ({ kind: 'imagery' as const, id: image.id, label: image.label, image })),
+  ...[...spectralIndexLayers(files, frame), ...gridLayers(files, frame)]
+    .map(image => ({ kind: 'raster' as const, id: image.id, label: image.label, image })),
+  { kind: 'surface', id: SURFACE_LAYER_ID, label: MAP_LAYER_KINDS.surface },
+  { kind: 'contours', id: CONTOURS_LAYER_ID, label: MAP_LAYER_KINDS.contours },
+  { kind: 'alteration', id: ALTERATION_LAYER_ID, label: MAP_LAYER_KINDS.alteration },
+  ...(frame ? [...sampleSources(files, frame), ...vectorSources(files, frame)] : []),
+  { kind: 'annotations', id: ANNOTATIONS_LAYER_ID, label: MAP_LAYER_KINDS.annotations },
+  { kind: 'targets', id: TARGETS_LAYER_ID, label: MAP_LAYER_KINDS.targets }
+];
+
+export const createLayerConfig = (source: MapLayerSource, visible = true): MapLayerConfig => ({
+  id: source.id,
+  kind: source.kind,
+  visible,
+  opacity: source.kind === 'targets' ? 1 : source.kind === 'imagery' || source.kind === 'surface' ? 0.6 : 0.8,
+  ...(DEFAULT_LAYER_STYLES[source.kind] ? { style: { ...DEFAULT_LAYER_STYLES[source.kind] } } : {})
+});
+
+// The reference image, the surface, alteration zones, overlays, measurements and targets. Derived rasters cover much of the
+// map, so they wait to be added; contours and sample points are listed but start hidden.
+export const defaultMapLayers = (sources: MapLayerSource[]): MapLayerConfig[] => {
+  const imagery = sources.find(s => s.kind === 'imagery');
+  return sources
+    .filter(s => s.kind !== 'raster' && (s.kind !== 'imagery' || s === imagery))
+    .map(s => createLayerConfig(s, s.kind !== 'samples' && s.kind !== 'contours'));
+};
+
+// Configs paired with their sources; layers whose input has been removed drop out
+export const resolveMapLayers = (configs: MapLayerConfig[], sources: MapLayerSource[]): ResolvedMapLayer[] => {
+  const byId = new Map(sources.map(s => [s.id, s]));
+  return configs.flatMap(config => {
+    const source = byId.get(config.id);
+    return source && source.kind === config.kind ? [{ config, source }] : [];
+  });
+};
+
+// Where a newly added layer goes: images just above the other images, everything else on top
+export const insertLayer = (configs: MapLayerConfig[], config: MapLayerConfig): MapLayerConfig[] => {
+  if (config.kind !== 'imagery' && config.kind !== 'raster') return [...configs, config];
+  const firstOther = configs.findIndex(c => c.kind !== 'imagery' && c.kind !== 'raster');
+  const at = firstOther === -1 ? configs.length : firstOther;
+  return [...configs.slice(0, at), config, ...configs.slice(at)];
+};
@@ -0,0 +1,77 @@
+import { Georeference, MapAnnotation, MeasurementKind } from "../types";
+import { relativeToMetres, relativeToWorld, worldToRelative } from "./georeference";
+import { tryReproject } from "./crs";
+import { formatGroundArea, polygonArea, polygonAreaLabel } from "./zones";
+
+// Ruler and area measurements on the results map, the scale bar and the north arrow. Lengths and
+// areas are on the ground when the results are georeferenced, in frame units otherwise.
+
+export const MEASUREMENT_KINDS: Record<MeasurementKind, string> = {
+  distance: "Distance",
+  area: "Area"
+};
+
+export const pathLength = (points: [number, number][]) =>
+  points.reduce((sum, p, i) => i === 0 ? 0 : sum + Math.hypot(p[0] - points[i - 1][0], p[1] - points[i - 1][1]), 0);
+
+export const formatDistance = (m: number) => m >= 1000 ? `${(m / 1000).toFixed(2)} km` : `${m.toFixed(m >= 100 ? 0 : 1)} m`;
+
+// Readout of a measurement given in frame positions; an area also gives its perimeter
+export const formatMeasurement = (kind: MeasurementKind, points: [number, number][], geo?: Georeference): string => {
+  if (kind === 'distance') {
+    return geo ? formatDistance(pathLength(relativeToMetres(geo, points))) : `${pathLength(points).toFixed(1)} frame units`;
+  }
+  if (points.length < 3) return "—";
+  const perimeter = [...points, points[0]];
+  if (!geo) return `${polygonAreaLabel(points)} of the frame · perimeter ${pathLength(perimeter).toFixed(1)} units`;
+  const metres = relativeToMetres(geo, points);
+  return `${formatGroundArea(polygonArea(metres))} · perimeter ${formatDistance(pathLength([...metres, metres[0]]))}`;
+};
+
+export const createAnnotation = (
+  kind: MeasurementKind,
+  points: [number, number][],
+  existing: MapAnnotation[],
+  geo?: Georeference
+): MapAnnotation => ({
+  id: `m-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`,
+  kind,
+  label: `${MEASUREMENT_KINDS[kind]} ${existing.filter(a => a.kind === kind).length + 1}`,
+  ...(geo
+    ? { space: 'map' as const, crs: geo.crs, points: points.map(([x, y]) => relativeToWorld(geo, x, y)) }
+    : { space: 'frame' as const, points }),
+  createdAt: Date.now()
+});
+
+// Where a saved annotation falls in the current frame; map annotations cannot be placed without one
+export const annotationInFrame = (annotation: MapAnnotation, geo?: Georeference): [number, number][] | null => {
+  if (annotation.space === 'frame') return annotation.points;
+  if (!geo) return null;
+  return annotation.points.map(p => worldToRelative(geo, ...tryReproject(p, annotation.crs, geo.crs)));
+};
+
+// Largest 1, 2 or 5 × 10ⁿ that is at most `max`
+export const niceLength = (max: number) => {
+  const magnitude = 10 ** Math.floor(Math.log10(max));
+  return [5, 2, 1].map(f => f * magnitude).find(m => m <= max) ?? magnitude;
+};
+
+// Longest round length in metres that fits in `maxPixels` at the given ground resolution
+export const scaleBarLength = (metresPerPixel: number, maxPixels = 100) => {
+  const metres = niceLength(metresPerPixel * maxPixels);
+  return { metres, pixels: metres / metresPerPixel };
+};
+
+// Ground metres per frame unit across the screen at a position
+export const metresPerFrameUnit = (geo: Georeference, x: number, y: number) => {
+  const [a, b] = relativeToMetres(geo, [[x, y], [x + 1, y]]);
+  return Math.hypot(b[0] - a[0], b[1] - a[1]);
+};
+
+// Clockwise angle in degrees from screen up to north (grid north for projected frames) at a position
+export const northBearing = (geo: Georeference, x: number, y: number) => {
+  const [X, Y] = relativeToWorld(geo, x, y);
+  const [X1, Y1] = relativeToWorld(geo, x, y + 1);
+  const [nx, ny] = worldToRelative(geo, X, Y + Math.hypot(X1 - X, Y1 - Y));
+  return (Math.atan2(nx - x, -(ny - y)) * 180) / Math.PI;
+};
@@ -0,0 +1,28 @@
+import { AnalysisJob } from "../types";
+
+const isSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+// Asked for when the first job is queued, i.e. in response to a click, which browsers require
+export const requestNotificationPermission = async () => {
+  if (!isSupported() || Notification.permission !== 'default') return;
+  try {
+    await Notification.requestPermission();
+  } catch (error) {
+    console.warn("Notification permission request failed:", error);
+  }
+};
+
+export const notifyJobFinished = (job: AnalysisJob) => {
+  if (!isSupported() || Notification.permission !== 'granted') return;
+
+  const title = job.status === 'complete' ? 'Analysis complete' : 'Analysis failed';
+  const body = job.status === 'complete' && job.result
+    ? `${job.label}: ${job.result.targetAreas.length} targets, porphyry potential ${job.result.porphyryPotential}.`
+    : `${job.label}: ${job.error || 'unknown error'}`;
+
+  const notification = new Notification(title, { body, tag: job.id });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
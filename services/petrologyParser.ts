@@ -0,0 +1,92 @@
+import { PetrologyDataset, PetrologySample } from "../types";
+import { findColumn, parseDelimitedText } from "./csv";
+
+// Header aliases seen in field sheets and lab petrography reports
+const COLUMN_ALIASES: Record<keyof PetrologySample, string[]> = {
+  sampleId: ["sampleid", "sample", "sampleno", "samplenumber", "id", "station", "stationid"],
+  x: ["x", "easting", "east", "e", "longitude", "lon", "long"],
+  y: ["y", "northing", "north", "n", "latitude", "lat"],
+  lithology: ["lithology", "litho", "rocktype", "rock", "lith"],
+  alteration: ["alteration", "alt", "alterationtype", "alterationassemblage"],
+  minerals: ["minerals", "mineralogy", "mineralassemblage", "assemblage", "alterationminerals", "oreminerals"],
+  texture: ["texture", "fabric"],
+  veining: ["veining", "veins", "veintype", "vein"],
+  notes: ["notes", "comments", "comment", "description", "remarks", "observations"]
+};
+
+const parseNumber = (value: string | undefined) => {
+  if (value === undefined || value.trim() === "") return undefined;
+  const n = Number(value);
+  return isNaN(n) ? undefined : n;
+};
+
+export const parsePetrologyText = (text: string): PetrologyDataset => {
+  const table = parseDelimitedText(text);
+  if (table.headers.length === 0) {
+    throw new Error("The petrology sheet is empty.");
+  }
+
+  const columns = Object.fromEntries(
+    Object.entries(COLUMN_ALIASES).map(([key, aliases]) => [key, findColumn(table.headers, aliases)])
+  ) as Record<keyof typeof COLUMN_ALIASES, number>;
+
+  if (columns.sampleId === -1 && columns.lithology === -1 && columns.alteration === -1) {
+    throw new Error("Could not find a sample ID, lithology or alteration column in the petrology sheet.");
+  }
+
+  const mapped = new Set(Object.values(columns).filter(i => i !== -1));
+  const unmappedColumns = table.headers.filter((_, i) => !mapped.has(i));
+
+  const cell = (row: string[], idx: number) => (idx === -1 ? undefined : row[idx] || undefined);
+
+  const samples: PetrologySample[] = table.rows.map((row, i) => {
+    // Anything the sheet has beyond the standard columns ends up in the notes
+    const extras = unmappedColumns
+      .map(h => ({ h, v: row[table.headers.indexOf(h)] }))
+      .filter(({ v }) => v)
+      .map(({ h, v }) => `${h}: ${v}`);
+    const notes = [cell(row, columns.notes), ...extras].filter(Boolean).join("; ");
+
+    return {
+      sampleId: cell(row, columns.sampleId) ?? `S${i + 1}`,
+      x: parseNumber(cell(row, columns.x)),
+      y: parseNumber(cell(row, columns.y)),
+      lithology: cell(row, columns.lithology),
+      alteration: cell(row, columns.alteration),
+      minerals: (cell(row, columns.minerals) ?? "")
+        .split(/[;,/+]/)
+        .map(m => m.trim())
+        .filter(Boolean),
+      texture: cell(row, columns.texture),
+      veining: cell(row, columns.veining),
+      notes: notes || undefined
+    };
+  });
+
+  return { samples, unmappedColumns };
+};
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+export const parsePetrologyFile = async (file: File): Promise<PetrologyDataset> => {
+  const text = await file.text();
+  if (file.name.toLowerCase().endsWith(".json")) {
+    const data: unknown = JSON.parse(text);
+    const items: unknown[] = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.samples) ? data.samples : [];
+    const records = items.filter(isRecord);
+    const headers = Array.from(new Set(records.flatMap(r => Object.keys(r))));
+    const csv = [headers, ...records.map(r => headers.map(h => {
+      const v = r[h];
+      return Array.isArray(v) ? v.join(";") : String(v ?? "");
+    }))]
+      .map(cells => cells.map(c => `"${c.replace(/"/g, '""')}"`).join(","))
+      .join("\n");
+    return parsePetrologyText(csv);
+  }
+  return parsePetrologyText(text);
+};
+
+export const describePetrologyDataset = (dataset: PetrologyDataset): string => {
+  const altered = dataset.samples.filter(s => s.alteration).length;
+  return `${dataset.samples.length} samples · ${altered} with alteration`;
+};
@@ -0,0 +1,129 @@
+import { TargetArea } from "../types";
+
+// The target probability surface: each target adds p·exp(-d²/2σ²) and the sum is capped at 1.
+// It is computed once per set of targets on a raster in frame units (0-100, y down), by
+// splatting the targets onto the raster and running a separable Gaussian over it, so the cost
+// does not grow with targets × pixels. The map then only moves the rendered image around.
+//
+// The surface has no detail finer than σ, so a few pixels per σ is already exact once the
+// browser interpolates the image; finer rasters would only cost time.
+
+export const SURFACE_SIGMA = Math.sqrt(50); // frame units; the original exp(-d²/100) falloff
+const PIXELS_PER_UNIT = 2;
+const MAX_SURFACE_SIZE = 1024;
+
+export interface ProbabilitySurface {
+  x0: number; // frame position of the top-left corner of pixel (0, 0)
+  y0: number;
+  cellSize: number; // frame units per pixel
+  width: number;
+  height: number;
+  values: Float32Array; // row-major from the top, 0-1
+}
+
+// 1-D Gaussian weights out to 3σ (unnormalised, so a lone target peaks at its probability)
+const kernel = (sigmaPx: number) => {
+  const radius = Math.ceil(3 * sigmaPx);
+  return Float32Array.from({ length: 2 * radius + 1 }, (_, i) => Math.exp(-((i - radius) ** 2) / (2 * sigmaPx * sigmaPx)));
+};
+
+const convolveRows = (src: Float32Array, dst: Float32Array, width: number, height: number, k: Float32Array) => {
+  const radius = (k.length - 1) / 2;
+  for (let r = 0; r < height; r++) {
+    const row = r * width;
+    for (let c = 0; c < width; c++) {
+      const v = src[row + c];
+      if (v === 0) continue; // most of the raster is empty; scatter only what is there
+      const from = Math.max(0, c - radius), to = Math.min(width - 1, c + radius);
+      for (let t = from; t <= to; t++) dst[row + t] += v * k[t - c + radius];
+    }
+  }
+};
+
+const convolveColumns = (src: Float32Array, dst: Float32Array, width: number, height: number, k: Float32Array) => {
+  const radius = (k.length - 1) / 2;
+  for (let r = 0; r < height; r++) {
+    const from = Math.max(0, r - radius), to = Math.min(height - 1, r + radius);
+    for (let c = 0; c < width; c++) {
+      const v = src[r * width + c];
+      if (v === 0) continue;
+      for (let t = from; t <= to; t++) dst[t * width + c] += v * k[t - r + radius];
+    }
+  }
+};
+
+export const computeProbabilitySurface = (targets: TargetArea[], sigma = SURFACE_SIGMA): ProbabilitySurface => {
+  // The frame plus anything outside it, padded until the kernel has faded out
+  let minX = 0, minY = 0, maxX = 100, maxY = 100;
+  for (const t of targets) {
+    minX = Math.min(minX, t.x); maxX = Math.max(maxX, t.x);
+    minY = Math.min(minY, t.y); maxY = Math.max(maxY, t.y);
+  }
+  const pad = 3 * sigma;
+  minX -= pad; minY -= pad; maxX += pad; maxY += pad;
+  const cellSize = Math.max(1 / PIXELS_PER_UNIT, Math.max(maxX - minX, maxY - minY) / MAX_SURFACE_SIZE);
+  const width = Math.ceil((maxX - minX) / cellSize);
+  const height = Math.ceil((maxY - minY) / cellSize);
+
+  // Bilinear splat of each probability onto the four nearest pixel centres
+  const impulses = new Float32Array(width * height);
+  for (const t of targets) {
+    const fx = (t.x - minX) / cellSize - 0.5, fy = (t.y - minY) / cellSize - 0.5;
+    const c = Math.floor(fx), r = Math.floor(fy);
+    const ax = fx - c, ay = fy - r;
+    const add = (cc: number, rr: number, w: number) => {
+      if (cc >= 0 && cc < width && rr >= 0 && rr < height) impulses[rr * width + cc] += t.probability * w;
+    };
+    add(c, r, (1 - ax) * (1 - ay));
+    add(c + 1, r, ax * (1 - ay));
+    add(c, r + 1, (1 - ax) * ay);
+    add(c + 1, r + 1, ax * ay);
+  }
+
+  const k = kernel(sigma / cellSize);
+  const rows = new Float32Array(width * height);
+  convolveRows(impulses, rows, width, height, k);
+  const values = new Float32Array(width * height);
+  convolveColumns(rows, values, width, height, k);
+  for (let i = 0; i < values.length; i++) values[i] = Math.min(1, values[i]);
+
+  return { x0: minX, y0: minY, cellSize, width, height, values };
+};
+
+// Transparent below 0.1, then sky (low) through emerald (medium) to red (high) at the same
+// 0.3 / 0.6 breaks as the probability classes, with alpha rising with the value
+const SURFACE_STOPS: [number, [number, number, number]][] = [
+  [0.1, [56, 189, 248]],
+  [0.3, [56, 189, 248]],
+  [0.6, [52, 211, 153]],
+  [0.8, [248, 113, 113]]
+];
+
+const surfaceColour = (v: number): [number, number, number, number] => {
+  if (v < SURFACE_STOPS[0][0]) return [0, 0, 0, 0];
+  const upper = SURFACE_STOPS.findIndex(([at]) => at >= v);
+  if (upper === -1) return [...SURFACE_STOPS[SURFACE_STOPS.length - 1][1], v * 255];
+  if (upper === 0) return [...SURFACE_STOPS[0][1], v * 255];
+  const [a, ca] = SURFACE_STOPS[upper - 1], [b, cb] = SURFACE_STOPS[upper];
+  const f = (v - a) / (b - a);
+  return [ca[0] + (cb[0] - ca[0]) * f, ca[1] + (cb[1] - ca[1]) * f, ca[2] + (cb[2] - ca[2]) * f, v * 255];
+};
+
+// Opaque colour of the surface at `v`, for contour lines and labels drawn over it
+export const surfaceLineColour = (v: number): string => {
+  const [r, g, b] = surfaceColour(Math.max(v, SURFACE_STOPS[0][0]));
+  return `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
+};
+
+// PNG data URL of the surface, for an <image> placed at its extent in the map
+export const renderSurfaceImage = (surface: ProbabilitySurface): string => {
+  const canvas = document.createElement("canvas");
+  canvas.width = surface.width;
+  canvas.height = surface.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available.");
+  const img = ctx.createImageData(surface.width, surface.height);
+  surface.values.forEach((v, i) => img.data.set(surfaceColour(v), i * 4));
+  ctx.putImageData(img, 0, 0);
+  return canvas.toDataURL("image/png");
+};
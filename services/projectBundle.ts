@@ -0,0 +1,205 @@
+import { AnalysisRun, MapAnnotation, MapLayerConfig, ProjectMeta, ProjectState } from "../types";
+import { createProjectId, restoreFile, StoredFile, stripFile } from "./projectStore";
+import { createZip, readZip, ZipEntry } from "./zip";
+
+// A .geogenius bundle is a ZIP holding a whole project for hand-over or audit:
+//
+//   manifest.json            project details, input list, SHA-256 of every other entry
+//   inputs/<id>/<name>       each uploaded file as uploaded
+//   inputs/<id>/rendered.png PNG rendering of inputs browsers cannot show (GeoTIFF)
+//   inputs/links.txt         data source links, for reading without GeoGenius
+//   runs/v<N>.json           every analysis version, including the user's edits
+//   prompts/v<N>.txt         the prompt each version was produced from, when known
+//
+// Import checks every entry against its manifest hash before anything is restored.
+
+export const BUNDLE_EXTENSION = ".geogenius";
+const FORMAT = "geogenius-bundle";
+const FORMAT_VERSION = 1;
+const MANIFEST = "manifest.json";
+
+export class ProjectBundleError extends Error {
+  constructor(message: string, public readonly problems: string[] = []) {
+    super(problems.length ? `${message}\n${problems.map(p => `• ${p}`).join("\n")}` : message);
+    this.name = "ProjectBundleError";
+  }
+}
+
+interface BundleFile extends StoredFile {
+  blob?: { path: string; name: string; type: string; lastModified: number };
+  rendered?: { path: string; type: string };
+}
+
+interface BundleRun {
+  id: string;
+  version: number;
+  path: string;
+  promptPath?: string;
+}
+
+interface BundleManifest {
+  format: typeof FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  project: {
+    id: string;
+    meta: ProjectMeta;
+    projectCrs: string;
+    isProjectCrsChosen: boolean;
+    activeRunId: string | null;
+    mapLayers?: MapLayerConfig[];
+    annotations?: MapAnnotation[];
+  };
+  files: BundleFile[];
+  runs: BundleRun[];
+  hashes: Record<string, string>; // entry path -> SHA-256 (hex)
+}
+
+const sha256 = async (data: Uint8Array) =>
+  Array.from(new Uint8Array(await crypto.subtle.digest("SHA-256", data)), b => b.toString(16).padStart(2, "0")).join("");
+
+const encodeJson = (value: unknown) => new TextEncoder().encode(JSON.stringify(value, null, 2));
+
+// Keeps entry names portable: no separators or characters archivers reject
+const safeName = (name: string) => name.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, "_").replace(/^\.+/, "_") || "file";
+
+export const bundleFileName = (meta: ProjectMeta) =>
+  `${(meta.name || "project").trim().replace(/[^\w.-]+/g, "_")}${BUNDLE_EXTENSION}`;
+
+export const exportProjectBundle = async (state: ProjectState): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const add = (path: string, data: Uint8Array) => {
+    entries.push({ name: path, data });
+    return path;
+  };
+  const bytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+  const files: BundleFile[] = [];
+  for (const f of state.files) {
+    const entry: BundleFile = stripFile(f);
+    // Typed arrays do not survive JSON; grid values travel as a plain array (NaN as null)
+    if (f.geophysics?.grid) {
+      entry.geophysics = { ...f.geophysics, grid: { ...f.geophysics.grid, values: Array.from(f.geophysics.grid.values) as unknown as Float32Array } };
+    }
+    if (f.file) {
+      const path = add(`inputs/${f.id}/${safeName(f.file.name)}`, await bytes(f.file));
+      entry.blob = { path, name: f.file.name, type: f.file.type, lastModified: f.file.lastModified };
+    }
+    if (f.renderedImage) {
+      const path = add(`inputs/${f.id}/rendered.png`, await bytes(f.renderedImage));
+      entry.rendered = { path, type: f.renderedImage.type };
+    }
+    files.push(entry);
+  }
+
+  const links = state.files.filter(f => f.sourceType === 'url' && f.url).map(f => `${f.url}\t${f.category}`);
+  if (links.length) add("inputs/links.txt", new TextEncoder().encode(links.join("\n") + "\n"));
+
+  const runs: BundleRun[] = state.runs.map(({ prompt, ...run }) => ({
+    id: run.id,
+    version: run.version,
+    path: add(`runs/v${run.version}.json`, encodeJson(run)),
+    ...(prompt ? { promptPath: add(`prompts/v${run.version}.txt`, new TextEncoder().encode(prompt)) } : {})
+  }));
+
+  const hashes: Record<string, string> = {};
+  for (const entry of entries) hashes[entry.name] = await sha256(entry.data);
+
+  const manifest: BundleManifest = {
+    format: FORMAT,
+    formatVersion: FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: {
+      id: state.id,
+      meta: state.meta,
+      projectCrs: state.projectCrs,
+      isProjectCrsChosen: state.isProjectCrsChosen,
+      activeRunId: state.activeRunId,
+      mapLayers: state.mapLayers,
+      annotations: state.annotations
+    },
+    files,
+    runs,
+    hashes
+  };
+
+  return createZip([{ name: MANIFEST, data: encodeJson(manifest) }, ...entries]);
+};
+
+const parseJson = <T>(data: Uint8Array | undefined, path: string): T => {
+  if (!data) throw new ProjectBundleError(`The bundle is missing ${path}.`);
+  try {
+    return JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new ProjectBundleError(`${path} in the bundle is not valid JSON.`);
+  }
+};
+
+const restoreGridValues = (stored: StoredFile): StoredFile => {
+  const grid = stored.geophysics?.grid;
+  if (!grid || grid.values instanceof Float32Array) return stored;
+  const values = Float32Array.from(grid.values as unknown as (number | null)[], v => v ?? NaN);
+  return { ...stored, geophysics: { ...stored.geophysics!, grid: { ...grid, values } } };
+};
+
+// Rebuilds the project under a new id, so importing never overwrites a saved project
+export const importProjectBundle = async (bundle: File): Promise<ProjectState> => {
+  let entries: Map<string, Uint8Array>;
+  try {
+    entries = await readZip(await bundle.arrayBuffer());
+  } catch (e: any) {
+    throw new ProjectBundleError(`${bundle.name} could not be read: ${e.message}`);
+  }
+
+  const manifest = parseJson<BundleManifest>(entries.get(MANIFEST), MANIFEST);
+  if (manifest.format !== FORMAT || !manifest.project || !Array.isArray(manifest.files) || !Array.isArray(manifest.runs)) {
+    throw new ProjectBundleError(`${bundle.name} is not a GeoGenius project bundle.`);
+  }
+  if (manifest.formatVersion > FORMAT_VERSION) {
+    throw new ProjectBundleError(`${bundle.name} was written by a newer version of GeoGenius (bundle format ${manifest.formatVersion}).`);
+  }
+
+  // Every referenced entry must be listed in the manifest and match its hash
+  const referenced = [
+    ...manifest.files.flatMap(f => [f.blob?.path, f.rendered?.path]),
+    ...manifest.runs.flatMap(r => [r.path, r.promptPath])
+  ].filter((p): p is string => !!p);
+  const problems: string[] = [];
+  for (const path of new Set([...Object.keys(manifest.hashes ?? {}), ...referenced])) {
+    const data = entries.get(path);
+    const expected = manifest.hashes?.[path];
+    if (!data) problems.push(`${path} is missing`);
+    else if (!expected) problems.push(`${path} has no recorded hash`);
+    else if (await sha256(data) !== expected) problems.push(`${path} does not match its recorded hash`);
+  }
+  if (problems.length) {
+    throw new ProjectBundleError(`${bundle.name} failed its integrity check; nothing was imported.`, problems);
+  }
+
+  const files = manifest.files.map(({ blob, rendered, ...stored }) => restoreFile(restoreGridValues(stored), {
+    file: blob ? new File([entries.get(blob.path)!], blob.name, { type: blob.type, lastModified: blob.lastModified }) : undefined,
+    renderedImage: rendered ? new Blob([entries.get(rendered.path)!], { type: rendered.type }) : undefined
+  }));
+
+  const runs = manifest.runs.map(entry => {
+    const run = parseJson<AnalysisRun>(entries.get(entry.path), entry.path);
+    if (!run.result || !Array.isArray(run.result.targetAreas)) {
+      throw new ProjectBundleError(`${entry.path} does not contain an analysis result.`);
+    }
+    const prompt = entry.promptPath ? new TextDecoder().decode(entries.get(entry.promptPath)) : undefined;
+    return { ...run, ...(prompt !== undefined ? { prompt } : {}) };
+  }).sort((a, b) => a.version - b.version);
+
+  const { meta, projectCrs, isProjectCrsChosen, activeRunId, mapLayers, annotations } = manifest.project;
+  return {
+    id: createProjectId(),
+    meta: { ...meta, updatedAt: Date.now() },
+    projectCrs,
+    isProjectCrsChosen,
+    files,
+    runs,
+    activeRunId: runs.some(r => r.id === activeRunId) ? activeRunId : runs[runs.length - 1]?.id ?? null,
+    mapLayers,
+    annotations
+  };
+};
@@ -0,0 +1,202 @@
+import { AnalysisRun, PredictionResult, ProjectMeta, ProjectState, ProjectSummary, UploadedFile } from "../types";
+import { isTiffName } from "./georeference";
+
+// Projects live in IndexedDB: one record per project in `projects`, and the uploaded
+// File / rendered Blob of each input in `blobs`, keyed "<projectId>/<fileId>". Blobs are
+// written once, so autosaving an edited description does not rewrite the inputs.
+
+const DB_NAME = "geogenius";
+const DB_VERSION = 1;
+const PROJECTS = "projects";
+const BLOBS = "blobs";
+export const CURRENT_PROJECT_KEY = "geogenius.currentProject";
+
+export type StoredFile = Omit<UploadedFile, 'file' | 'previewUrl' | 'renderedImage'>;
+
+interface ProjectRecord extends Omit<ProjectState, 'files'> {
+  files: StoredFile[];
+}
+
+// Records saved before run history kept a single result
+type LegacyRecord = Omit<ProjectRecord, 'runs' | 'activeRunId'> & { result?: PredictionResult | null };
+
+const upgradeRecord = (record: ProjectRecord | LegacyRecord): ProjectRecord => {
+  if ('runs' in record) return record;
+  const { result, ...rest } = record;
+  const run: AnalysisRun | null = result ? {
+    id: `${record.id}-legacy`,
+    version: 1,
+    createdAt: record.meta.updatedAt,
+    providerId: null,
+    modelId: 'unknown',
+    settings: null,
+    projectCrs: record.projectCrs,
+    inputs: [],
+    result
+  } : null;
+  return { ...rest, runs: run ? [run] : [], activeRunId: run?.id ?? null };
+};
+
+export interface BlobRecord {
+  file?: File;
+  renderedImage?: Blob;
+}
+
+const blobKey = (projectId: string, fileId: string) => `${projectId}/${fileId}`;
+const projectBlobRange = (projectId: string) => IDBKeyRange.bound(`${projectId}/`, `${projectId}/\uffff`);
+
+// Blob keys already written (with whether the rendered preview was included), so repeated saves skip them
+const savedBlobKeys = new Set<string>();
+const blobSignature = (key: string, blobs: BlobRecord) => `${key}:${blobs.renderedImage ? 'rendered' : 'raw'}`;
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted."));
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser; projects cannot be saved."));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(BLOBS)) db.createObjectStore(BLOBS);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // A failed open is retried on the next call
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const createProjectId = () => `p-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`;
+
+export const newProjectMeta = (name = "Untitled project"): ProjectMeta => ({
+  name,
+  areaName: "",
+  commodity: "",
+  date: new Date().toISOString().slice(0, 10),
+  createdAt: Date.now(),
+  updatedAt: Date.now()
+});
+
+export const stripFile = ({ file, previewUrl, renderedImage, ...stored }: UploadedFile): StoredFile => stored;
+
+// Object URLs do not survive a reload, so previews are recreated from the stored blobs
+export const restoreFile = (stored: StoredFile, blobs?: BlobRecord): UploadedFile => {
+  const file = blobs?.file;
+  const renderedImage = blobs?.renderedImage;
+  const previewUrl = renderedImage
+    ? URL.createObjectURL(renderedImage)
+    : file && file.type.startsWith('image/') && !isTiffName(file.name) ? URL.createObjectURL(file) : undefined;
+  return { ...stored, file, renderedImage, previewUrl };
+};
+
+const toSummary = (project: ProjectRecord | ProjectState): ProjectSummary => {
+  const activeRun = project.runs.find(r => r.id === project.activeRunId);
+  return {
+    id: project.id,
+    meta: project.meta,
+    fileCount: project.files.length,
+    runCount: project.runs.length,
+    targetCount: activeRun ? activeRun.result.targetAreas.length : null
+  };
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const records = await request<(ProjectRecord | LegacyRecord)[]>(db.transaction(PROJECTS).objectStore(PROJECTS).getAll());
+  return records
+    .map(r => toSummary(upgradeRecord(r)))
+    .sort((a, b) => b.meta.updatedAt - a.meta.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<ProjectState | null> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, BLOBS]);
+  const stored = await request<ProjectRecord | LegacyRecord | undefined>(tx.objectStore(PROJECTS).get(id));
+  if (!stored) return null;
+  const record = upgradeRecord(stored);
+  const blobs = await Promise.all(record.files.map(f => request<BlobRecord | undefined>(tx.objectStore(BLOBS).get(blobKey(id, f.id)))));
+  record.files.forEach((f, i) => blobs[i] && savedBlobKeys.add(blobSignature(blobKey(id, f.id), blobs[i]!)));
+  return { ...record, files: record.files.map((f, i) => restoreFile(f, blobs[i])) };
+};
+
+export const saveProject = async (state: ProjectState) => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, BLOBS], 'readwrite');
+  const blobStore = tx.objectStore(BLOBS);
+
+  const record: ProjectRecord = { ...state, files: state.files.map(stripFile) };
+  tx.objectStore(PROJECTS).put(record);
+
+  const keep = new Set<string>();
+  const written: string[] = [];
+  for (const f of state.files) {
+    const key = blobKey(state.id, f.id);
+    keep.add(key);
+    // A TIFF's rendered preview arrives after the upload, so its blob is written again once
+    const blobs: BlobRecord = { file: f.file, renderedImage: f.renderedImage };
+    const signature = blobSignature(key, blobs);
+    if ((f.file || f.renderedImage) && !savedBlobKeys.has(signature)) {
+      blobStore.put(blobs, key);
+      written.push(signature);
+    }
+  }
+
+  // Drop blobs of inputs that were removed from the project
+  const existing = await request(blobStore.getAllKeys(projectBlobRange(state.id)));
+  existing.filter(key => !keep.has(String(key))).forEach(key => blobStore.delete(key));
+
+  await transactionDone(tx);
+  written.forEach(signature => savedBlobKeys.add(signature));
+};
+
+export const deleteProject = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, BLOBS], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(BLOBS).delete(projectBlobRange(id));
+  await transactionDone(tx);
+};
+
+export const duplicateProject = async (id: string): Promise<ProjectSummary | null> => {
+  const original = await loadProject(id);
+  if (!original) return null;
+  const now = Date.now();
+  const copy: ProjectState = {
+    ...original,
+    id: createProjectId(),
+    meta: { ...original.meta, name: `${original.meta.name} (copy)`, createdAt: now, updatedAt: now }
+  };
+  await saveProject(copy);
+  copy.files.forEach(f => f.previewUrl && URL.revokeObjectURL(f.previewUrl));
+  return toSummary(copy);
+};
+
+// Stores a run finished in a project that is not open, without loading its files
+export const appendRun = async (projectId: string, makeRun: (runs: AnalysisRun[]) => AnalysisRun) => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  const store = tx.objectStore(PROJECTS);
+  const stored = await request<ProjectRecord | LegacyRecord | undefined>(store.get(projectId));
+  if (!stored) throw new Error("The project this analysis was run in no longer exists.");
+  const record = upgradeRecord(stored);
+  const run = makeRun(record.runs);
+  store.put({ ...record, runs: [...record.runs, run], activeRunId: run.id, meta: { ...record.meta, updatedAt: Date.now() } });
+  await transactionDone(tx);
+};
@@ -0,0 +1,161 @@
+import { ApiError, FinishReason, GoogleGenAI, Type, Schema } from "@google/genai";
+import { buildPromptParts, extractJson } from "../analysisPrompt";
+import { AnalysisProvider, AnalysisRequest } from "./provider";
+import { extractPartialTargets } from "../analysisProgress";
+import { AnalysisError, AuthError, errorFromStatus, isAnalysisError, NetworkError, ParseError, SafetyBlockError } from "../analysisErrors";
+
+const BLOCKING_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY, FinishReason.RECITATION, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII, FinishReason.IMAGE_SAFETY, FinishReason.IMAGE_PROHIBITED_CONTENT
+];
+
+// 429 bodies carry a RetryInfo detail such as "retryDelay": "23s"
+const retryDelayMs = (message: string) => {
+  const match = message.match(/retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+const toAnalysisError = (error: any): AnalysisError => {
+  if (isAnalysisError(error)) return error;
+  const msg: string = error?.message || String(error);
+  if (error instanceof ApiError) {
+    // An invalid key is reported as 400 INVALID_ARGUMENT rather than 401
+    if (/API key/i.test(msg)) return new AuthError(undefined, { cause: error });
+    return errorFromStatus(error.status, msg, { cause: error, retryAfterMs: retryDelayMs(msg) });
+  }
+  if (/API key/i.test(msg)) return new AuthError(undefined, { cause: error });
+  // fetch() rejects with a TypeError when the connection fails
+  if (error instanceof TypeError) return new NetworkError("Could not reach the Gemini API. Check your connection.", { cause: error });
+  return new AnalysisError(msg || "An unexpected error occurred during the analysis process.", 'unknown', false, { cause: error });
+};
+
+const analyze = async ({ files, projectCrs, settings, onProgress, signal }: AnalysisRequest): Promise<unknown> => {
+  const parts = await buildPromptParts(files, projectCrs, { onProgress, signal });
+
+  // 1. Define Output Schema
+  const responseSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      porphyryPotential: { type: Type.STRING, enum: ["Low", "Medium", "High", "Very High"] },
+      epithermalPotential: { type: Type.STRING, enum: ["Low", "Medium", "High", "Very High"] },
+      confidenceScore: { type: Type.NUMBER, description: "A value between 0 and 1" },
+      alterationMinerals: { 
+        type: Type.ARRAY, 
+        items: { type: Type.STRING },
+        description: "List of identified minerals e.g., Kaolinite, Alunite" 
+      },
+      zones: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            type: { type: Type.STRING, description: "Zone type e.g., Phyllic" },
+            area: { type: Type.STRING, description: "Percentage coverage e.g. 35%" },
+            color: { type: Type.STRING, description: "Hex code for visualization" },
+            polygon: {
+              type: Type.ARRAY,
+              description: "Outline of the zone, vertices in the 0-100 frame",
+              items: {
+                type: Type.OBJECT,
+                properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } },
+                required: ["x", "y"]
+              }
+            }
+          }
+        }
+      },
+      targetAreas: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.INTEGER },
+            x: { type: Type.NUMBER, description: "X coordinate 0-100" },
+            y: { type: Type.NUMBER, description: "Y coordinate 0-100" },
+            probability: { type: Type.NUMBER, description: "0-1" },
+            description: { type: Type.STRING },
+            reasoning: { 
+                type: Type.STRING, 
+                description: "Detailed geological justification linking specific observed features (alteration, geochem, structure) to the deposit model." 
+            }
+          }
+        }
+      },
+      recommendedActions: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING }
+      },
+      reasoning: { type: Type.STRING, description: "Brief geological summary of findings" }
+    },
+    required: ["porphyryPotential", "epithermalPotential", "confidenceScore", "targetAreas", "recommendedActions"]
+  };
+
+  // 2. Call Gemini
+  try {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const stream = await ai.models.generateContentStream({
+      model: settings.geminiModel,
+      contents: { parts },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: responseSchema,
+        // Enable thinking for complex correlation; summaries are streamed to the Analysis tab
+        thinkingConfig: { thinkingBudget: settings.thinkingBudget, includeThoughts: settings.thinkingBudget > 0 },
+        abortSignal: signal
+      }
+    });
+
+    // Thought summaries and answer text arrive as separate parts of each chunk
+    let text = "";
+    let finishReason: string | undefined;
+    for await (const chunk of stream) {
+      signal?.throwIfAborted();
+      if (chunk.promptFeedback?.blockReason) {
+        throw new SafetyBlockError(`The request was blocked (${chunk.promptFeedback.blockReason}). Please ensure uploaded images do not contain sensitive content.`);
+      }
+      const candidate = chunk.candidates?.[0];
+      finishReason = candidate?.finishReason ?? finishReason;
+      for (const part of candidate?.content?.parts ?? []) {
+        if (!part.text) continue;
+        if (part.thought) {
+          onProgress?.({ type: 'thought', text: part.text });
+        } else {
+          text += part.text;
+          onProgress?.({ type: 'output', text, targets: extractPartialTargets(text) });
+        }
+      }
+    }
+
+    if (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)) {
+      throw new SafetyBlockError(`The response was stopped by safety filters (${finishReason}). Please ensure uploaded images do not contain sensitive content.`);
+    }
+    if (!text) {
+      throw new ParseError("The AI model returned no content.");
+    }
+
+    try {
+      return JSON.parse(extractJson(text));
+    } catch (parseError) {
+      console.error("JSON Parse Error:", parseError);
+      if (finishReason === FinishReason.MAX_TOKENS) {
+        throw new ParseError("The model stopped at its output token limit before the JSON was complete. Reduce the thinking budget or the number of inputs.", { cause: parseError });
+      }
+      throw new ParseError(undefined, { cause: parseError });
+    }
+
+  } catch (error: any) {
+    // Cancellation is not a failure; let the caller see the AbortError as-is
+    if (signal?.aborted) throw error;
+    console.error("Gemini Analysis Failed:", error);
+    throw toAnalysisError(error);
+  }
+};
+
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  description: 'Hosted Gemini model via the Google GenAI SDK. Requires an API key and network access.',
+  requiresNetwork: true,
+  modelId: settings => settings.geminiModel,
+  analyze
+};
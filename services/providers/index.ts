@@ -0,0 +1,31 @@
+import { AnalysisProviderId, PredictionResult } from "../../types";
+import { AnalysisProvider, AnalysisRequest } from "./provider";
+import { geminiProvider } from "./geminiProvider";
+import { openAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { mockProvider } from "./mockProvider";
+import { validatePredictionResult } from "../resultValidator";
+import { withRetry } from "../retry";
+
+export type { AnalysisProvider, AnalysisRequest } from "./provider";
+
+export const ANALYSIS_PROVIDERS: AnalysisProvider[] = [geminiProvider, openAiCompatibleProvider, mockProvider];
+
+export const getProvider = (id: AnalysisProviderId): AnalysisProvider =>
+  ANALYSIS_PROVIDERS.find(p => p.id === id) ?? geminiProvider;
+
+// Transient provider failures (overload, rate limits, dropped connections) are retried with backoff
+export const analyzeGeologicalData = async (request: AnalysisRequest): Promise<PredictionResult> => {
+  const provider = getProvider(request.settings.provider);
+  const raw = await withRetry(() => provider.analyze(request), {
+    signal: request.signal,
+    onRetry: ({ attempt, maxAttempts, delayMs, error }) => request.onProgress?.({
+      type: 'retry',
+      attempt,
+      maxAttempts,
+      resumeAt: Date.now() + delayMs,
+      reason: error.message
+    })
+  });
+  request.onProgress?.({ type: 'validating' });
+  return validatePredictionResult(raw);
+};
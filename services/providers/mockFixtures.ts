@@ -0,0 +1,120 @@
+import { PredictionResult } from "../../types";
+
+// Canned results for the mock provider. They cover the shapes the dashboard has to handle:
+// a strong porphyry system, a high-sulphidation epithermal prospect and a barren area.
+
+export interface MockFixture {
+  id: string;
+  label: string;
+  result: PredictionResult;
+}
+
+export const MOCK_FIXTURES: MockFixture[] = [
+  {
+    id: 'porphyry',
+    label: 'Porphyry Cu-Au system',
+    result: {
+      porphyryPotential: 'Very High',
+      epithermalPotential: 'Medium',
+      confidenceScore: 0.82,
+      alterationMinerals: ['Sericite', 'Biotite', 'K-feldspar', 'Chlorite', 'Epidote', 'Magnetite'],
+      zones: [
+        { type: 'Potassic', area: '2.1%', color: '#ef4444', polygon: [[57, 44], [52, 48], [45, 50], [40, 46], [39, 39], [44, 35], [51, 34], [57, 38]] },
+        { type: 'Phyllic', area: '9.7%', color: '#f59e0b', polygon: [[71, 47], [60, 56], [46, 59], [35, 50], [31, 36], [43, 28], [58, 26], [71, 33]] },
+        { type: 'Propylitic', area: '36.2%', color: '#22c55e', polygon: [[88, 58], [68, 75], [40, 82], [20, 63], [12, 37], [36, 20], [63, 16], [88, 31]] },
+        { type: 'Argillic', area: '0.7%', color: '#a855f7', polygon: [[36, 59], [31, 62], [25, 62], [25, 57], [29, 53], [34, 55]] }
+      ],
+      targetAreas: [
+        {
+          id: 1, x: 48, y: 42, probability: 0.91,
+          description: 'Potassic core with magnetite-rich stockwork beneath a phyllic shell.',
+          reasoning: 'A circular magnetic high coincides with K-feldspar-biotite alteration and a >800 ppm Cu soil anomaly. The concentric phyllic and propylitic halos fit the Lowell-Guilbert model, placing this target at the potassic core.'
+        },
+        {
+          id: 2, x: 62, y: 35, probability: 0.74,
+          description: 'Phyllic (QSP) halo along a NE-trending structure.',
+          reasoning: 'Sericite-pyrite alteration and a magnetite-destructive low follow a NE fault. Elevated Mo and Cu/Zn ratios vector towards the core to the south-west.'
+        },
+        {
+          id: 3, x: 30, y: 58, probability: 0.55,
+          description: 'Hydrothermal breccia with tourmaline cement.',
+          reasoning: 'A mapped breccia pipe sits on the western margin of the phyllic zone with anomalous Au-As, typical of a late-stage phreatomagmatic breccia in porphyry systems.'
+        },
+        {
+          id: 4, x: 75, y: 70, probability: 0.28,
+          description: 'Distal propylitic alteration with weak Zn-Pb.',
+          reasoning: 'Chlorite-epidote alteration and a peripheral Zn-Pb halo indicate the distal edge of the system; low priority unless structure links it to the core.'
+        }
+      ],
+      recommendedActions: [
+        'Drill a 600 m inclined hole into the magnetic high at target 1.',
+        'Run an IP survey across the phyllic halo to map sulphide distribution.',
+        'Collect SWIR spectra on outcrop to confirm the white-mica crystallinity vector.'
+      ],
+      reasoning: 'Concentric alteration zoning, a coincident magnetic high and a Cu-Mo soil anomaly define a well-preserved porphyry Cu-Au system centred near the middle of the area.'
+    }
+  },
+  {
+    id: 'epithermal',
+    label: 'High-sulphidation epithermal',
+    result: {
+      porphyryPotential: 'Medium',
+      epithermalPotential: 'High',
+      confidenceScore: 0.68,
+      alterationMinerals: ['Alunite', 'Kaolinite', 'Dickite', 'Pyrophyllite', 'Vuggy silica'],
+      zones: [
+        { type: 'Advanced Argillic', area: '3%', color: '#a855f7', polygon: [[53, 35], [47, 39], [38, 41], [32, 36], [29, 29], [37, 25], [46, 23], [53, 27]] },
+        { type: 'Silicic', area: '0.5%', color: '#e5e7eb', polygon: [[45, 31], [41, 34], [36, 33], [35, 29], [39, 26], [43, 27]] },
+        { type: 'Argillic', area: '3.4%', color: '#f472b6', polygon: [[41, 63], [35, 68], [26, 70], [20, 64], [17, 57], [25, 52], [34, 50], [41, 55]] },
+        { type: 'Propylitic', area: '31.3%', color: '#22c55e', polygon: [[78, 54], [60, 70], [34, 77], [16, 59], [8, 35], [30, 19], [55, 14], [78, 29]] }
+      ],
+      targetAreas: [
+        {
+          id: 1, x: 40, y: 30, probability: 0.78,
+          description: 'Vuggy silica ledge inside an alunite lithocap.',
+          reasoning: 'ASTER alunite and kaolinite indices outline a lithocap with a vuggy silica core. Coincident Au-As-Sb soil anomalies suggest high-sulphidation mineralisation within the ledge.'
+        },
+        {
+          id: 2, x: 55, y: 48, probability: 0.61,
+          description: 'Pyrophyllite-dickite root zone of the lithocap.',
+          reasoning: 'Higher-temperature pyrophyllite and dickite below the alunite zone mark the lithocap root, the likely position of a concealed porphyry at depth.'
+        },
+        {
+          id: 3, x: 22, y: 65, probability: 0.35,
+          description: 'Steam-heated kaolinite blanket.',
+          reasoning: 'Powdery kaolinite without silica or pathfinder anomalies is typical of a steam-heated overprint; it may mask deeper mineralisation.'
+        }
+      ],
+      recommendedActions: [
+        'Map and channel-sample the vuggy silica ledge at target 1.',
+        'Run a CSAMT line across the lithocap to locate resistive silica bodies at depth.'
+      ],
+      reasoning: 'A telescoped lithocap with vuggy silica and Au-As-Sb pathfinders indicates a high-sulphidation epithermal system, possibly above a deeper porphyry.'
+    }
+  },
+  {
+    id: 'barren',
+    label: 'Barren / low potential',
+    result: {
+      porphyryPotential: 'Low',
+      epithermalPotential: 'Low',
+      confidenceScore: 0.45,
+      alterationMinerals: ['Chlorite'],
+      zones: [
+        { type: 'Propylitic', area: '10%', color: '#22c55e' },
+        { type: 'Unaltered', area: '90%', color: '#64748b' }
+      ],
+      targetAreas: [
+        {
+          id: 1, x: 50, y: 50, probability: 0.12,
+          description: 'Weak regional chlorite alteration.',
+          reasoning: 'Patchy chlorite with background Cu and no structural focus. This is regional metamorphic greenschist, not a hydrothermal halo.'
+        }
+      ],
+      recommendedActions: ['Deprioritise the area; consider regional stream-sediment sampling to the north.'],
+      reasoning: 'No coherent alteration zoning, structural focus or geochemical anomaly was identified.'
+    }
+  }
+];
+
+export const getMockFixture = (id: string) => MOCK_FIXTURES.find(f => f.id === id);
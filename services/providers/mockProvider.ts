@@ -0,0 +1,55 @@
+import { UploadedFile } from "../../types";
+import { AnalysisProvider, AnalysisRequest } from "./provider";
+import { getMockFixture, MOCK_FIXTURES } from "./mockFixtures";
+import { buildPromptParts } from "../analysisPrompt";
+import { extractPartialTargets } from "../analysisProgress";
+import { sleep } from "../retry";
+
+// The response is replayed in small steps so the Analysis tab shows progress as it would with a real model
+const MOCK_STEP_MS = 120;
+const MOCK_CHUNK_CHARS = 240;
+
+const MOCK_THOUGHTS = [
+  "**Reviewing the inputs**\nChecking which layers are present and how they are georeferenced.\n\n",
+  "**Correlating evidence**\nLooking for coincident alteration, geochemical and geophysical anomalies.\n\n",
+  "**Ranking targets**\nScoring each anomaly cluster against the porphyry and epithermal models.\n\n"
+];
+
+// 'auto' picks a fixture from the file names and sizes, so the same inputs always give the same result
+const pickFixture = (files: UploadedFile[]) => {
+  const key = files.map(f => `${f.file?.name ?? f.url}:${f.file?.size ?? 0}`).sort().join('|');
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  return MOCK_FIXTURES[Math.abs(hash) % MOCK_FIXTURES.length];
+};
+
+const analyze = async ({ files, projectCrs, settings, onProgress, signal }: AnalysisRequest): Promise<unknown> => {
+  const fixture = (settings.mockFixture !== 'auto' && getMockFixture(settings.mockFixture)) || pickFixture(files);
+
+  // Inputs are encoded as for a real provider, so that part of the pipeline is exercised too
+  await buildPromptParts(files, projectCrs, { onProgress, signal });
+
+  for (const thought of MOCK_THOUGHTS) {
+    await sleep(MOCK_STEP_MS, signal);
+    onProgress?.({ type: 'thought', text: thought });
+  }
+
+  const json = JSON.stringify(fixture.result, null, 2);
+  for (let end = MOCK_CHUNK_CHARS; end < json.length + MOCK_CHUNK_CHARS; end += MOCK_CHUNK_CHARS) {
+    await sleep(MOCK_STEP_MS, signal);
+    const text = json.slice(0, end);
+    onProgress?.({ type: 'output', text, targets: extractPartialTargets(text) });
+  }
+
+  // Parsed from the text, so edits on the dashboard never touch the fixture itself
+  return JSON.parse(json);
+};
+
+export const mockProvider: AnalysisProvider = {
+  id: 'mock',
+  label: 'Mock (fixtures)',
+  description: 'Returns canned results without calling any model. For development, demos and offline testing.',
+  requiresNetwork: false,
+  modelId: settings => `mock:${settings.mockFixture}`,
+  analyze
+};
@@ -0,0 +1,143 @@
+import { buildPromptParts, extractJson, PREDICTION_JSON_SCHEMA, PromptPart } from "../analysisPrompt";
+import { AnalysisProvider, AnalysisRequest } from "./provider";
+import { extractPartialTargets } from "../analysisProgress";
+import { errorFromStatus, NetworkError, ParseError, SafetyBlockError } from "../analysisErrors";
+
+// Retry-After is either a number of seconds or an HTTP date
+const retryAfterMs = (header: string | null) => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Chat-completions content for an OpenAI-compatible server (Ollama, llama.cpp, vLLM, LM Studio)
+type ChatContent =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+const toChatContent = (part: PromptPart): ChatContent => {
+  if ('text' in part) return { type: 'text', text: part.text };
+  const { mimeType, data } = part.inlineData;
+  if (mimeType.startsWith('image/')) {
+    return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+  }
+  // The chat-completions API has no document input; PDFs are only usable by Gemini
+  return { type: 'text', text: `[A ${mimeType} attachment was omitted: this provider only accepts text and images.]` };
+};
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const stringOrUndefined = (v: unknown) => typeof v === 'string' ? v : undefined;
+
+// Server-sent events: one "data: {json}" line per delta, terminated by "data: [DONE]"
+const parseSseLine = (line: string): unknown => {
+  const data = line.trim().replace(/^data:\s*/, '');
+  if (!line.trim().startsWith('data:') || data === '[DONE]') return undefined;
+  try {
+    return JSON.parse(data);
+  } catch {
+    // Keep-alive comments and partial lines are ignored
+    return undefined;
+  }
+};
+
+async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    // A server may close the stream without a newline after the last event
+    const lines = done ? [buffer] : (buffer + value).split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      const data = parseSseLine(line);
+      if (data !== undefined) yield data;
+    }
+    if (done) break;
+  }
+}
+
+const analyze = async ({ files, projectCrs, settings, onProgress, signal }: AnalysisRequest): Promise<unknown> => {
+  const parts = await buildPromptParts(files, projectCrs, { onProgress, signal });
+  const baseUrl = settings.openAiBaseUrl.replace(/\/+$/, '');
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.openAiApiKey ? { Authorization: `Bearer ${settings.openAiApiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: settings.openAiModel,
+        messages: [{ role: 'user', content: parts.map(toChatContent) }],
+        stream: true,
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'prediction_result', schema: PREDICTION_JSON_SCHEMA }
+        }
+      })
+    });
+  } catch (error: any) {
+    if (signal?.aborted) throw error;
+    console.error("Local model request failed:", error);
+    throw new NetworkError(`Could not reach the model server at ${baseUrl}. Check that it is running and allows requests from this origin (CORS).`, { cause: error });
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw errorFromStatus(response.status, detail || response.statusText, { retryAfterMs: retryAfterMs(response.headers.get('Retry-After')) });
+  }
+
+  if (!response.body) {
+    throw new ParseError("The model server returned no content.");
+  }
+
+  // Reasoning models report their thinking as reasoning_content (llama.cpp) or reasoning (Ollama)
+  let content = '';
+  let finishReason: string | undefined;
+  try {
+    for await (const data of readSseData(response.body)) {
+      const choice = isRecord(data) && Array.isArray(data.choices) && isRecord(data.choices[0]) ? data.choices[0] : {};
+      finishReason = stringOrUndefined(choice.finish_reason) ?? finishReason;
+      const delta = isRecord(choice.delta) ? choice.delta : {};
+      const thought = stringOrUndefined(delta.reasoning_content) ?? stringOrUndefined(delta.reasoning);
+      if (thought) onProgress?.({ type: 'thought', text: thought });
+      const text = stringOrUndefined(delta.content);
+      if (text) {
+        content += text;
+        onProgress?.({ type: 'output', text: content, targets: extractPartialTargets(content) });
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new NetworkError("The connection to the model server dropped while the response was streaming.", { cause: error });
+  }
+  if (finishReason === 'content_filter') {
+    throw new SafetyBlockError();
+  }
+  if (!content) {
+    throw new ParseError("The model server returned no content.");
+  }
+
+  try {
+    return JSON.parse(extractJson(content));
+  } catch (parseError) {
+    console.error("JSON Parse Error:", parseError);
+    throw new ParseError(finishReason === 'length'
+      ? "The model stopped at its output token limit before the JSON was complete. Raise the limit on the server or use fewer inputs."
+      : undefined, { cause: parseError });
+  }
+};
+
+export const openAiCompatibleProvider: AnalysisProvider = {
+  id: 'openai-compatible',
+  label: 'Local model (OpenAI-compatible)',
+  description: 'Any server exposing /v1/chat/completions, such as Ollama or llama.cpp. Use a vision model to include imagery.',
+  requiresNetwork: false,
+  modelId: settings => settings.openAiModel,
+  analyze
+};
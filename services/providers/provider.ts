@@ -0,0 +1,19 @@
+import { AnalysisProgressEvent, AnalysisProviderId, AnalysisSettings, UploadedFile } from "../../types";
+
+export interface AnalysisRequest {
+  files: UploadedFile[];
+  projectCrs: string;
+  settings: AnalysisSettings;
+  onProgress?: (event: AnalysisProgressEvent) => void;
+  signal?: AbortSignal; // aborts prompt building and the model request
+}
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  description: string;
+  requiresNetwork: boolean; // false for providers that run in the browser or on localhost
+  modelId: (settings: AnalysisSettings) => string;
+  // Resolves with the parsed but unchecked model output; analyzeGeologicalData validates it
+  analyze: (request: AnalysisRequest) => Promise<unknown>;
+}
@@ -0,0 +1,135 @@
+import { Georeference, PredictionResult, ResultIssue } from "../types";
+import { validatePredictionResult } from "./resultValidator";
+import { worldToRelative } from "./georeference";
+import { tryReproject } from "./crs";
+import { crsFromGeoJson } from "./vectorParser";
+
+// Reads back the files written by the Results dashboard: the plain result JSON
+// (handleDownloadJSON) and the GeoJSON FeatureCollection (handleExportGeoJSON).
+// Both go through the same validator as model output, so a hand-edited file is repaired
+// or rejected the same way.
+
+export class ResultImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResultImportError";
+  }
+}
+
+// Placeholders the GeoJSON export writes for empty fields
+const EMPTY_PLACEHOLDERS = new Set(["No description provided", "No reasoning provided"]);
+
+const isRecord = (v: unknown): v is Record<string, any> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+const readGeoreference = (v: unknown): Georeference | undefined => {
+  if (!isRecord(v)) return undefined;
+  const t = v.geoTransform;
+  if (!Array.isArray(t) || t.length !== 6 || !t.every(n => typeof n === "number" && isFinite(n))) return undefined;
+  if (typeof v.width !== "number" || typeof v.height !== "number") return undefined;
+  return {
+    geoTransform: t as Georeference['geoTransform'],
+    width: v.width,
+    height: v.height,
+    crs: typeof v.crs === "string" ? v.crs : undefined,
+    source: typeof v.source === "string" ? v.source : "imported analysis"
+  };
+};
+
+const readIssues = (v: unknown): ResultIssue[] =>
+  Array.isArray(v)
+    ? v.filter((i): i is ResultIssue => isRecord(i) && (i.severity === "repair" || i.severity === "warning") && typeof i.field === "string" && typeof i.message === "string")
+    : [];
+
+// Point features become raw targets and polygons with an alterationType become zones. The export
+// keeps a target's frame position in imageX/imageY; everything else only has map coordinates,
+// which are mapped back into the frame.
+const readFeatures = (geoJson: Record<string, any>, geo: Georeference | undefined, warnings: ResultIssue[]) => {
+  const featureCrs = crsFromGeoJson(geoJson);
+  const toFrame = ([X, Y]: [number, number]): [number, number] =>
+    geo ? worldToRelative(geo, ...tryReproject([X, Y], featureCrs, geo.crs)) : [X, Y];
+  const features: unknown[] = Array.isArray(geoJson.features) ? geoJson.features : [];
+  const origin = (p: Record<string, any>) =>
+    typeof p.origin === "string" && p.origin.startsWith("user-") ? p.origin.slice(5) : undefined;
+
+  const zones = features.flatMap(feature => {
+    if (!isRecord(feature) || feature.geometry?.type !== "Polygon" || !isRecord(feature.properties)) return [];
+    const p = feature.properties;
+    const ring = feature.geometry.coordinates?.[0];
+    if (typeof p.alterationType !== "string" || !Array.isArray(ring)) return [];
+    return [{
+      type: p.alterationType,
+      area: p.area,
+      color: p.color,
+      polygon: ring.map((c: unknown) => Array.isArray(c) && typeof c[0] === "number" && typeof c[1] === "number" ? toFrame([c[0], c[1]]) : c),
+      userEdit: origin(p)
+    }];
+  });
+
+  const targets = features.flatMap((feature, i) => {
+    if (!isRecord(feature) || feature.geometry?.type !== "Point") {
+      const isZone = isRecord(feature) && feature.geometry?.type === "Polygon" && typeof feature.properties?.alterationType === "string";
+      if (!isZone) warnings.push({ severity: "warning", field: `features[${i}]`, message: "Neither a target point nor an alteration zone; skipped." });
+      return [];
+    }
+    const p = isRecord(feature.properties) ? feature.properties : {};
+    let x = p.imageX;
+    let y = p.imageY;
+    if (typeof x !== "number" || typeof y !== "number") {
+      const [X, Y] = feature.geometry.coordinates ?? [];
+      [x, y] = typeof X === "number" && typeof Y === "number" ? toFrame([X, Y]) : [X, Y];
+    }
+    const text = (v: unknown) => typeof v === "string" && !EMPTY_PLACEHOLDERS.has(v) ? v : undefined;
+    return [{
+      id: p.id,
+      x,
+      y,
+      probability: p.probability,
+      description: text(p.description) ?? "",
+      reasoning: text(p.reasoning),
+      userEdit: origin(p)
+    }];
+  });
+  return { targets, zones };
+};
+
+export const parseAnalysisFile = (text: string, fileName: string): PredictionResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ResultImportError(`${fileName} is not valid JSON.`);
+  }
+  if (!isRecord(data)) {
+    throw new ResultImportError(`${fileName} does not contain a GeoGenius analysis.`);
+  }
+
+  const importIssues: ResultIssue[] = [];
+  let raw: Record<string, any>;
+  let georeference: Georeference | undefined;
+  let previousIssues: ResultIssue[] = [];
+
+  if (data.type === "FeatureCollection") {
+    const props = isRecord(data.properties) ? data.properties : {};
+    if (!("porphyryPotential" in props) && !("epithermalPotential" in props)) {
+      throw new ResultImportError(`${fileName} is GeoJSON, but not one exported by GeoGenius (the analysis summary is missing).`);
+    }
+    georeference = readGeoreference(props.georeference);
+    const { targets, zones } = readFeatures(data, georeference, importIssues);
+    raw = { ...props, zones: [...(Array.isArray(props.zones) ? props.zones : []), ...zones], targetAreas: targets };
+  } else {
+    if (!Array.isArray(data.targetAreas) || !("porphyryPotential" in data)) {
+      throw new ResultImportError(`${fileName} does not look like a GeoGenius analysis (no targetAreas or porphyryPotential).`);
+    }
+    georeference = readGeoreference(data.georeference);
+    previousIssues = readIssues(data.validationIssues);
+    raw = data;
+  }
+
+  const result = validatePredictionResult(raw);
+  const newIssues = (result.validationIssues ?? []).map(i => ({ ...i, message: `On import: ${i.message}` }));
+  return {
+    ...result,
+    validationIssues: [...previousIssues, ...importIssues, ...newIssues],
+    ...(georeference ? { georeference } : {})
+  };
+};
@@ -0,0 +1,299 @@
+import { PredictionResult, ResultIssue, TargetArea, Zone } from "../types";
+import { ParseError } from "./analysisErrors";
+import { cleanPolygon, polygonArea, polygonAreaLabel, zoneColor } from "./zones";
+
+// Model output is untrusted: every field of PredictionResult is checked here, then clamped,
+// coerced or dropped. Each change is recorded as an issue so the Results tab can show it.
+
+export const POTENTIAL_LEVELS = ["Low", "Medium", "High", "Very High"] as const;
+
+const FRACTION_WORDS: Record<string, number> = {
+  half: 50, third: 33.3, quarter: 25, fourth: 25, fifth: 20, tenth: 10, "two thirds": 66.7, "three quarters": 75
+};
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+export class ResultValidationError extends ParseError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResultValidationError";
+  }
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Numbers may arrive as strings ("0.8", "85%"); percentages are returned on a 0-100 scale
+const toNumber = (v: unknown): { value: number; percent: boolean } | undefined => {
+  if (typeof v === "number") return isFinite(v) ? { value: v, percent: false } : undefined;
+  if (typeof v !== "string") return undefined;
+  const match = v.trim().match(/^(-?\d+(?:\.\d+)?)\s*(%?)$/);
+  return match ? { value: Number(match[1]), percent: match[2] === "%" } : undefined;
+};
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+export const validatePredictionResult = (raw: unknown): PredictionResult => {
+  if (!isRecord(raw)) {
+    throw new ResultValidationError("The model output is not a JSON object.");
+  }
+
+  const issues: ResultIssue[] = [];
+  const repair = (field: string, message: string) => issues.push({ severity: "repair", field, message });
+  const warn = (field: string, message: string) => issues.push({ severity: "warning", field, message });
+
+  // --- Probabilities and scores on a 0-1 scale ---
+  const unitScore = (v: unknown, field: string): number => {
+    const n = toNumber(v);
+    if (!n) {
+      warn(field, `Missing or non-numeric value ${JSON.stringify(v)}; set to 0.`);
+      return 0;
+    }
+    let value = n.value;
+    // 1 < v < 2 is an overshoot and gets clamped; larger values are percentages
+    if (n.percent || (value >= 2 && value <= 100)) {
+      value = Number((value / 100).toFixed(4));
+      repair(field, `Read ${JSON.stringify(v)} as a percentage: ${value}.`);
+    }
+    if (value < 0 || value > 1) {
+      const clamped = clamp(value, 0, 1);
+      repair(field, `${value} is outside 0-1; clamped to ${clamped}.`);
+      value = clamped;
+    } else if (typeof v === "string" && !n.percent) {
+      repair(field, `Converted string ${JSON.stringify(v)} to a number.`);
+    }
+    return value;
+  };
+
+  const potential = (v: unknown, field: string): string => {
+    if (typeof v === "string") {
+      const normalised = v.trim().toLowerCase().replace(/[\s_-]+/g, " ");
+      const level = POTENTIAL_LEVELS.find(l => l.toLowerCase() === normalised);
+      if (level) {
+        if (level !== v) repair(field, `Normalised "${v}" to "${level}".`);
+        return level;
+      }
+    }
+    const n = toNumber(v);
+    if (n) {
+      const score = n.percent || n.value > 1 ? n.value / 100 : n.value;
+      const level = score >= 0.8 ? "Very High" : score >= 0.6 ? "High" : score >= 0.3 ? "Medium" : "Low";
+      repair(field, `Mapped numeric value ${JSON.stringify(v)} to "${level}".`);
+      return level;
+    }
+    warn(field, `Unrecognised value ${JSON.stringify(v)}; set to "Low".`);
+    return "Low";
+  };
+
+  const stringList = (v: unknown, field: string): string[] => {
+    if (v === undefined || v === null) {
+      warn(field, "Missing; set to an empty list.");
+      return [];
+    }
+    if (typeof v === "string") {
+      repair(field, "Expected a list but got text; split it into items.");
+      return v.split(/[,;\n]+/).map(s => s.trim()).filter(Boolean);
+    }
+    if (!Array.isArray(v)) {
+      warn(field, `Expected a list but got ${typeof v}; ignored.`);
+      return [];
+    }
+    const items = v.filter((s): s is string => typeof s === "string" && s.trim() !== "").map(s => s.trim());
+    if (items.length < v.length) repair(field, `Dropped ${v.length - items.length} empty or non-text item(s).`);
+    const unique = Array.from(new Set(items));
+    if (unique.length < items.length) repair(field, `Removed ${items.length - unique.length} duplicate item(s).`);
+    return unique;
+  };
+
+  const text = (v: unknown, field: string, required: boolean): string => {
+    if (typeof v === "string") return v;
+    if (v === undefined || v === null) {
+      if (required) warn(field, "Missing; left empty.");
+      return "";
+    }
+    repair(field, `Expected text but got ${typeof v}; converted.`);
+    return String(v);
+  };
+
+  const porphyryPotential = potential(raw.porphyryPotential, "porphyryPotential");
+  const epithermalPotential = potential(raw.epithermalPotential, "epithermalPotential");
+  const confidenceScore = unitScore(raw.confidenceScore, "confidenceScore");
+  const alterationMinerals = stringList(raw.alterationMinerals, "alterationMinerals");
+
+  // --- Zones ---
+  const zoneArea = (v: unknown, field: string): string => {
+    const n = toNumber(v);
+    if (n) {
+      let pct = n.value;
+      if (typeof v === "number" && v <= 1) {
+        pct = v * 100;
+        repair(field, `Read fraction ${v} as ${Number(pct.toFixed(1))}%.`);
+      } else if (!n.percent) {
+        repair(field, `Read ${JSON.stringify(v)} as a percentage.`);
+      }
+      if (pct < 0 || pct > 100) {
+        repair(field, `${pct}% is outside 0-100%; clamped.`);
+        pct = clamp(pct, 0, 100);
+      }
+      return `${Number(pct.toFixed(1))}%`;
+    }
+    if (typeof v === "string") {
+      const lower = v.toLowerCase();
+      const word = Object.keys(FRACTION_WORDS)
+        .sort((a, b) => b.length - a.length)
+        .find(w => lower.includes(w));
+      const embedded = lower.match(/(\d+(?:\.\d+)?)\s*%/);
+      const pct = embedded ? Number(embedded[1]) : word ? FRACTION_WORDS[word] : undefined;
+      if (pct !== undefined) {
+        repair(field, `Interpreted "${v}" as ${pct}%.`);
+        return `${pct}%`;
+      }
+    }
+    warn(field, `Could not read an area from ${JSON.stringify(v)}; area unknown.`);
+    return "";
+  };
+
+  // Outlines arrive as [[x, y], ...] or [{ x, y }, ...] in the 0-100 frame
+  const zonePolygon = (v: unknown, field: string): [number, number][] | undefined => {
+    if (v === undefined || v === null) return undefined;
+    if (!Array.isArray(v)) {
+      warn(field, `Expected a list of vertices but got ${typeof v}; outline ignored.`);
+      return undefined;
+    }
+    let clamped = 0;
+    const vertices = v.flatMap((p): [number, number][] => {
+      const [x, y] = Array.isArray(p) ? [toNumber(p[0])?.value, toNumber(p[1])?.value]
+        : isRecord(p) ? [toNumber(p.x)?.value, toNumber(p.y)?.value]
+        : [undefined, undefined];
+      if (x === undefined || y === undefined) return [];
+      if (x < 0 || x > 100 || y < 0 || y > 100) clamped++;
+      return [[x, y]];
+    });
+    if (vertices.length < v.length) repair(field, `Dropped ${v.length - vertices.length} vertex(es) without valid coordinates.`);
+    if (clamped) repair(field, `${clamped} vertex(es) outside 0-100; clamped.`);
+    const polygon = cleanPolygon(vertices);
+    if (polygon.length < 3 || polygonArea(polygon) === 0) {
+      warn(field, "Outline has fewer than three distinct vertices; ignored.");
+      return undefined;
+    }
+    return polygon;
+  };
+
+  const zones: Zone[] = [];
+  if (!Array.isArray(raw.zones)) {
+    if (raw.zones !== undefined) warn("zones", `Expected a list but got ${typeof raw.zones}; ignored.`);
+    else repair("zones", "Missing; set to an empty list.");
+  } else {
+    raw.zones.forEach((z, i) => {
+      const field = `zones[${i}]`;
+      if (!isRecord(z) || typeof z.type !== "string" || !z.type.trim()) {
+        warn(field, "Zone without a type; dropped.");
+        return;
+      }
+      const type = z.type.trim();
+      let color = typeof z.color === "string" ? z.color.trim() : "";
+      if (color && !color.startsWith("#") && HEX_COLOR.test(`#${color}`)) {
+        repair(`${field}.color`, `Added missing # to "${color}".`);
+        color = `#${color}`;
+      }
+      if (!HEX_COLOR.test(color)) {
+        const fallback = zoneColor(type, zones.length);
+        repair(`${field}.color`, `Invalid colour ${JSON.stringify(z.color)}; using ${fallback}.`);
+        color = fallback;
+      }
+      const polygon = zonePolygon(z.polygon, `${field}.polygon`);
+      let area: string;
+      if (polygon) {
+        // The outline is what is drawn, so its area wins over the stated one
+        area = polygonAreaLabel(polygon);
+        const stated = toNumber(z.area);
+        if (stated && Math.abs(stated.value - parseFloat(area)) > 1) {
+          repair(`${field}.area`, `Stated area ${JSON.stringify(z.area)} replaced by ${area} measured from the outline.`);
+        }
+      } else {
+        area = zoneArea(z.area, `${field}.area`);
+      }
+      zones.push({
+        type,
+        area,
+        color,
+        ...(polygon ? { polygon } : {}),
+        ...(z.userEdit === 'added' || z.userEdit === 'modified' ? { userEdit: z.userEdit } : {})
+      });
+    });
+  }
+  // Outlines may nest (a potassic core inside a phyllic shell), so only stated areas are summed
+  const totalArea = zones.filter(z => !z.polygon).reduce((sum, z) => sum + (parseFloat(z.area) || 0), 0);
+  if (totalArea > 100.5) warn("zones", `Zone areas add up to ${Number(totalArea.toFixed(1))}%, more than 100%.`);
+
+  // --- Targets ---
+  const targetAreas: TargetArea[] = [];
+  const rawTargets = Array.isArray(raw.targetAreas) ? raw.targetAreas : [];
+  if (!Array.isArray(raw.targetAreas)) warn("targetAreas", "Missing or not a list; no targets were returned.");
+
+  // A model that answers in 0-1 fractions does so for every target
+  const coords = rawTargets.filter(isRecord).flatMap(t => [toNumber(t.x)?.value, toNumber(t.y)?.value]);
+  const usesFractions = rawTargets.length > 1 && coords.every(c => c !== undefined && c >= 0 && c <= 1);
+  if (usesFractions) repair("targetAreas", "Coordinates were given as 0-1 fractions; scaled to 0-100.");
+
+  const usedIds = new Set<number>();
+  const pendingIds: TargetArea[] = [];
+  rawTargets.forEach((t, i) => {
+    const field = `targetAreas[${i}]`;
+    if (!isRecord(t)) {
+      warn(field, "Not an object; dropped.");
+      return;
+    }
+    const coordinate = (axis: "x" | "y") => {
+      const n = toNumber(t[axis]);
+      if (!n) return undefined;
+      let value = usesFractions ? n.value * 100 : n.value;
+      if (value < 0 || value > 100) {
+        repair(`${field}.${axis}`, `${value} is outside 0-100; clamped.`);
+        value = clamp(value, 0, 100);
+      }
+      return value;
+    };
+    const x = coordinate("x");
+    const y = coordinate("y");
+    if (x === undefined || y === undefined) {
+      warn(field, `Target without valid coordinates (${JSON.stringify(t.x)}, ${JSON.stringify(t.y)}); dropped.`);
+      return;
+    }
+
+    const target: TargetArea = {
+      id: NaN,
+      x,
+      y,
+      probability: unitScore(t.probability, `${field}.probability`),
+      description: text(t.description, `${field}.description`, true),
+      ...(t.reasoning !== undefined ? { reasoning: text(t.reasoning, `${field}.reasoning`, false) } : {}),
+      // Kept from exports reopened here, so user edits stay marked
+      ...(t.userEdit === 'added' || t.userEdit === 'modified' ? { userEdit: t.userEdit } : {})
+    };
+
+    const id = toNumber(t.id)?.value;
+    if (id !== undefined && Number.isInteger(id) && !usedIds.has(id)) {
+      target.id = id;
+      usedIds.add(id);
+    } else {
+      repair(`${field}.id`, id === undefined ? "Missing id; assigned a new one." : `Duplicate or invalid id ${JSON.stringify(t.id)}; assigned a new one.`);
+      pendingIds.push(target);
+    }
+    targetAreas.push(target);
+  });
+  // New ids are handed out after all valid ones are known, so they never collide
+  let nextId = Math.max(0, ...usedIds) + 1;
+  pendingIds.forEach(t => { t.id = nextId++; });
+
+  return {
+    porphyryPotential,
+    epithermalPotential,
+    confidenceScore,
+    alterationMinerals,
+    zones,
+    targetAreas,
+    recommendedActions: stringList(raw.recommendedActions, "recommendedActions"),
+    reasoning: text(raw.reasoning, "reasoning", true),
+    validationIssues: issues
+  };
+};
@@ -0,0 +1,51 @@
+import { isAnalysisError } from "./analysisErrors";
+
+export const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 30000;
+
+export interface RetryNotice {
+  attempt: number; // the attempt about to start
+  maxAttempts: number;
+  delayMs: number;
+  error: Error;
+}
+
+// Resolves after `ms`, or rejects with the abort reason as soon as the signal fires
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  // The job's signal outlives many backoffs, so each one takes its listener with it
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Exponential backoff with jitter: half the window is fixed, the other half random,
+// so parallel clients hitting the same outage do not retry in lockstep
+export const backoffDelay = (attempt: number, retryAfterMs = 0) => {
+  const window = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.max(retryAfterMs, Math.round(window / 2 + Math.random() * window / 2));
+};
+
+// Runs `task` again after transient AnalysisErrors; anything else, or cancellation, ends the loop
+export const withRetry = async <T>(
+  task: (attempt: number) => Promise<T>,
+  { signal, onRetry }: { signal?: AbortSignal; onRetry?: (notice: RetryNotice) => void } = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (signal?.aborted || !isAnalysisError(error) || !error.retryable || attempt >= MAX_ATTEMPTS) throw error;
+      const delayMs = backoffDelay(attempt, error.retryAfterMs);
+      onRetry?.({ attempt: attempt + 1, maxAttempts: MAX_ATTEMPTS, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,88 @@
+import { AnalysisJob, AnalysisRun, Georeference, PredictionResult, RunComparison, TargetArea, TargetChange } from "../types";
+import { getProvider } from "./providers";
+
+// Targets of two runs are paired by position, since ids are assigned afresh by each run
+const MATCH_RADIUS = 10; // frame units; farther apart counts as removed + added
+const MOVE_THRESHOLD = 0.5; // frame units; closer counts as the same place
+
+export const nextVersion = (runs: AnalysisRun[]) => Math.max(0, ...runs.map(r => r.version)) + 1;
+
+export const createRun = (job: AnalysisJob, version: number): AnalysisRun => ({
+  id: job.id,
+  version,
+  createdAt: job.finishedAt ?? Date.now(),
+  providerId: job.settings.provider,
+  modelId: getProvider(job.settings.provider).modelId(job.settings),
+  settings: { ...job.settings, openAiApiKey: '' },
+  projectCrs: job.projectCrs,
+  inputs: job.files.map(f => ({ fileId: f.id, name: f.file?.name ?? f.url ?? f.id, category: f.category, sourceType: f.sourceType })),
+  prompt: job.prompt,
+  result: job.result as PredictionResult
+});
+
+// Results opened from a file are kept as a version too, so they can be compared with new runs
+export const createImportedRun = (result: PredictionResult, fileName: string, projectCrs: string, version: number): AnalysisRun => ({
+  id: `import-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`,
+  version,
+  createdAt: Date.now(),
+  providerId: null,
+  modelId: 'imported',
+  settings: null,
+  projectCrs,
+  inputs: [],
+  importedFrom: fileName,
+  result
+});
+
+export const runLabel = (run: AnalysisRun) =>
+  `v${run.version} · ${run.importedFrom ? `opened from ${run.importedFrom}` : run.modelId} · ${new Date(run.createdAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`;
+
+const sameFrame = (a?: Georeference, b?: Georeference) =>
+  (!a && !b) || (!!a && !!b && a.crs === b.crs && a.width === b.width && a.height === b.height &&
+    a.geoTransform.every((v, i) => Math.abs(v - b.geoTransform[i]) <= 1e-9 * Math.max(1, Math.abs(v))));
+
+const distance = (a: TargetArea, b: TargetArea) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const mineralKey = (m: string) => m.trim().toLowerCase();
+
+export const compareRuns = (base: AnalysisRun, next: AnalysisRun): RunComparison => {
+  const before = base.result;
+  const after = next.result;
+
+  // Greedy matching: closest pairs first, each target used once
+  const pairs = before.targetAreas
+    .flatMap(b => after.targetAreas.map(a => ({ b, a, d: distance(b, a) })))
+    .filter(p => p.d <= MATCH_RADIUS)
+    .sort((p, q) => p.d - q.d);
+  const matchedBefore = new Set<TargetArea>();
+  const matchedAfter = new Set<TargetArea>();
+  const moved: TargetChange[] = [];
+  const unchanged: TargetChange[] = [];
+  for (const { b, a, d } of pairs) {
+    if (matchedBefore.has(b) || matchedAfter.has(a)) continue;
+    matchedBefore.add(b);
+    matchedAfter.add(a);
+    const change = { before: b, after: a, distance: d, probabilityDelta: a.probability - b.probability };
+    (d > MOVE_THRESHOLD ? moved : unchanged).push(change);
+  }
+
+  const mineralsBefore = new Set(before.alterationMinerals.map(mineralKey));
+  const mineralsAfter = new Set(after.alterationMinerals.map(mineralKey));
+  const inputsBefore = new Set(base.inputs.map(i => i.name));
+  const inputsAfter = new Set(next.inputs.map(i => i.name));
+
+  return {
+    added: after.targetAreas.filter(t => !matchedAfter.has(t)),
+    removed: before.targetAreas.filter(t => !matchedBefore.has(t)),
+    moved,
+    unchanged,
+    porphyryPotential: { before: before.porphyryPotential, after: after.porphyryPotential },
+    epithermalPotential: { before: before.epithermalPotential, after: after.epithermalPotential },
+    confidenceDelta: after.confidenceScore - before.confidenceScore,
+    mineralsAdded: after.alterationMinerals.filter(m => !mineralsBefore.has(mineralKey(m))),
+    mineralsRemoved: before.alterationMinerals.filter(m => !mineralsAfter.has(mineralKey(m))),
+    inputsAdded: [...inputsAfter].filter(n => !inputsBefore.has(n)),
+    inputsRemoved: [...inputsBefore].filter(n => !inputsAfter.has(n)),
+    frameChanged: !sameFrame(before.georeference, after.georeference)
+  };
+};
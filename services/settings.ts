@@ -0,0 +1,27 @@
+import { AnalysisSettings } from "../types";
+
+const SETTINGS_STORAGE_KEY = "geogenius.analysisSettings";
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  provider: 'gemini',
+  geminiModel: 'gemini-3-pro-preview',
+  thinkingBudget: 1024,
+  openAiBaseUrl: 'http://localhost:11434/v1',
+  openAiModel: 'llama3.2-vision',
+  openAiApiKey: '',
+  mockFixture: 'auto'
+};
+
+// Stored settings are merged over the defaults so fields added later get a value
+export const loadAnalysisSettings = (): AnalysisSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || "{}");
+    return { ...DEFAULT_ANALYSIS_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_ANALYSIS_SETTINGS;
+  }
+};
+
+export const saveAnalysisSettings = (settings: AnalysisSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
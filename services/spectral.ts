@@ -0,0 +1,330 @@
+import { Georeference, MapImageLayer, SensorId, UploadedFile } from "../types";
+import { readTiff, readTiffBands, sampledSize, stretchRange } from "./tiff";
+import { boundsInFrame, getReferenceImage } from "./georeference";
+
+// Alteration indices computed locally from multi-band scenes (a single GeoTIFF with the
+// bands stacked). Each index is rendered as a colour-ramped PNG that is added to the project
+// as its own input, so it is saved, exported and sent to the model like any other image.
+
+export interface SensorDefinition {
+  id: SensorId;
+  label: string;
+  bands: string[]; // band names in the usual stack order
+}
+
+export const SENSORS: Record<SensorId, SensorDefinition> = {
+  aster: {
+    id: 'aster',
+    label: "ASTER (VNIR + SWIR)",
+    bands: ["B1", "B2", "B3", "B4", "B5", "B6", "B7", "B8", "B9", "B10", "B11", "B12", "B13", "B14"]
+  },
+  landsat: {
+    id: 'landsat',
+    label: "Landsat 8/9 OLI",
+    bands: ["B1", "B2", "B3", "B4", "B5", "B6", "B7", "B8", "B9", "B10", "B11"]
+  },
+  sentinel2: {
+    id: 'sentinel2',
+    label: "Sentinel-2 MSI",
+    bands: ["B1", "B2", "B3", "B4", "B5", "B6", "B7", "B8", "B8A", "B9", "B11", "B12"]
+  },
+  generic: {
+    id: 'generic',
+    label: "Other (bands numbered in file order)",
+    bands: []
+  }
+};
+
+export interface IndexPreset {
+  id: string;
+  label: string;
+  description: string;
+  expressions: Partial<Record<SensorId, string>>; // missing where the sensor lacks the bands
+}
+
+// Standard band ratios (Rowan & Mars 2003, Ninomiya 2003, Cudahy 2008). Landsat and
+// Sentinel-2 have a single broad band across 2.1-2.3 µm, so they cannot separate
+// alunite/kaolinite or MgOH minerals.
+export const ALTERATION_INDICES: IndexPreset[] = [
+  {
+    id: 'aloh',
+    label: "AlOH / clay",
+    description: "High values mark AlOH minerals: sericite, muscovite, illite and clays of phyllic and argillic alteration.",
+    expressions: { aster: "(B5+B7)/B6", landsat: "B6/B7", sentinel2: "B11/B12" }
+  },
+  {
+    id: 'ferric',
+    label: "Ferric iron",
+    description: "High values mark ferric iron oxides (hematite, goethite, jarosite), e.g. gossans and oxidised pyritic zones.",
+    expressions: { aster: "B2/B1", landsat: "B4/B2", sentinel2: "B4/B2" }
+  },
+  {
+    id: 'alunite-kaolinite',
+    label: "Alunite / kaolinite",
+    description: "High values mark alunite, kaolinite and pyrophyllite of advanced argillic alteration (lithocaps).",
+    expressions: { aster: "(B4+B6)/B5" }
+  },
+  {
+    id: 'propylitic',
+    label: "Chlorite / epidote (propylitic)",
+    description: "High values mark chlorite, epidote and calcite (MgOH / carbonate) of the propylitic halo.",
+    expressions: { aster: "(B6+B9)/(B7+B8)" }
+  }
+];
+
+// Guess the sensor from product naming conventions, then from the band count
+export const detectSensor = (fileName: string, bandCount: number): SensorId => {
+  const name = fileName.toUpperCase();
+  if (/^AST_|ASTER/.test(name)) return 'aster';
+  if (/^L[COT]0[89]_|LANDSAT/.test(name)) return 'landsat';
+  if (/^S2[ABC]_|SENTINEL|_T\d{2}[A-Z]{3}_/.test(name)) return 'sentinel2';
+  if (bandCount === 9 || bandCount === 14) return 'aster';
+  if (bandCount === 12 || bandCount === 13) return 'sentinel2';
+  if (bandCount >= 7 && bandCount <= 11) return 'landsat';
+  return 'generic';
+};
+
+// Band names in stack order for a scene with `bandCount` bands
+export const defaultBandNames = (sensor: SensorId, bandCount: number): string[] => {
+  if (sensor === 'sentinel2' && bandCount === 13) {
+    return ["B1", "B2", "B3", "B4", "B5", "B6", "B7", "B8", "B8A", "B9", "B10", "B11", "B12"];
+  }
+  const names = SENSORS[sensor].bands;
+  return Array.from({ length: bandCount }, (_, i) => names[i] ?? `B${i + 1}`);
+};
+
+// --- Band math ---
+// Expressions use band names, numbers, + - * / ^, parentheses and sqrt/abs/log/log10/min/max.
+// They are parsed into closures rather than evaluated as script.
+
+export class BandExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BandExpressionError";
+  }
+}
+
+type Evaluate = (pixel: number) => number;
+
+const FUNCTIONS: Record<string, { arity: number; fn: (...args: number[]) => number }> = {
+  sqrt: { arity: 1, fn: Math.sqrt },
+  abs: { arity: 1, fn: Math.abs },
+  log: { arity: 1, fn: Math.log },
+  log10: { arity: 1, fn: Math.log10 },
+  min: { arity: 2, fn: Math.min },
+  max: { arity: 2, fn: Math.max }
+};
+
+const tokenize = (expression: string): string[] => {
+  const tokens = expression.match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+|[A-Za-z_][A-Za-z0-9_]*|[-+*/^(),]|\S/gi) ?? [];
+  const bad = tokens.find(t => !/^[\d.A-Za-z_]|^[-+*/^(),]$/.test(t));
+  if (bad) throw new BandExpressionError(`Unexpected "${bad}" in the expression.`);
+  return tokens;
+};
+
+// Compiles `expression` against the scene's bands; `bandNames[i]` names `bands[i]`
+export const compileBandExpression = (expression: string, bandNames: string[], bands: Float32Array[]) => {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) throw new BandExpressionError("The expression is empty.");
+  const bandIndex = new Map(bandNames.map((name, i) => [name.toUpperCase(), i]));
+  const usedBands = new Set<string>();
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const expect = (token: string) => {
+    if (tokens[pos] !== token) throw new BandExpressionError(`Expected "${token}"${tokens[pos] ? ` but found "${tokens[pos]}"` : " at the end"}.`);
+    pos++;
+  };
+
+  const parseExpression = (): Evaluate => {
+    let left = parseTerm();
+    while (peek() === "+" || peek() === "-") {
+      const op = tokens[pos++];
+      const a = left, b = parseTerm();
+      left = op === "+" ? i => a(i) + b(i) : i => a(i) - b(i);
+    }
+    return left;
+  };
+
+  const parseTerm = (): Evaluate => {
+    let left = parseUnary();
+    while (peek() === "*" || peek() === "/") {
+      const op = tokens[pos++];
+      const a = left, b = parseUnary();
+      left = op === "*" ? i => a(i) * b(i) : i => a(i) / b(i);
+    }
+    return left;
+  };
+
+  const parseUnary = (): Evaluate => {
+    if (peek() === "-") {
+      pos++;
+      const a = parseUnary();
+      return i => -a(i);
+    }
+    if (peek() === "+") {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Evaluate => {
+    const base = parsePrimary();
+    if (peek() !== "^") return base;
+    pos++;
+    const exponent = parseUnary();
+    return i => Math.pow(base(i), exponent(i));
+  };
+
+  const parsePrimary = (): Evaluate => {
+    const token = tokens[pos++];
+    if (token === undefined) throw new BandExpressionError("The expression ends unexpectedly.");
+    if (token === "(") {
+      const inner = parseExpression();
+      expect(")");
+      return inner;
+    }
+    if (/^[\d.]/.test(token)) {
+      const value = Number(token);
+      if (isNaN(value)) throw new BandExpressionError(`"${token}" is not a number.`);
+      return () => value;
+    }
+    if (/^[A-Za-z_]/.test(token)) {
+      const fn = FUNCTIONS[token.toLowerCase()];
+      if (fn && peek() === "(") {
+        pos++;
+        const args: Evaluate[] = [parseExpression()];
+        while (peek() === ",") {
+          pos++;
+          args.push(parseExpression());
+        }
+        expect(")");
+        if (args.length !== fn.arity) throw new BandExpressionError(`${token}() takes ${fn.arity} argument${fn.arity === 1 ? "" : "s"}.`);
+        return args.length === 1 ? i => fn.fn(args[0](i)) : i => fn.fn(args[0](i), args[1](i));
+      }
+      const index = bandIndex.get(token.toUpperCase());
+      if (index === undefined || !bands[index]) {
+        throw new BandExpressionError(`Unknown band "${token}". This scene has ${bandNames.join(", ")}.`);
+      }
+      usedBands.add(bandNames[index]);
+      const band = bands[index];
+      return i => band[i];
+    }
+    throw new BandExpressionError(`Unexpected "${token}" in the expression.`);
+  };
+
+  const evaluate = parseExpression();
+  if (pos < tokens.length) throw new BandExpressionError(`Unexpected "${tokens[pos]}" in the expression.`);
+  return { evaluate, usedBands: [...usedBands] };
+};
+
+// Checks an expression without any pixel data, for validating the form as the user types
+export const checkBandExpression = (expression: string, bandNames: string[]): string | null => {
+  try {
+    compileBandExpression(expression, bandNames, bandNames.map(() => new Float32Array(0)));
+    return null;
+  } catch (e: any) {
+    return e.message;
+  }
+};
+
+// --- Rendering ---
+const MAX_INDEX_SIZE = 2048;
+
+// Blue (low) -> cyan -> yellow -> red (high)
+const RAMP: [number, number, number][] = [[30, 64, 175], [34, 211, 238], [250, 204, 21], [220, 38, 38]];
+
+const rampColour = (t: number): [number, number, number] => {
+  const x = Math.max(0, Math.min(1, t)) * (RAMP.length - 1);
+  const i = Math.min(RAMP.length - 2, Math.floor(x));
+  const f = x - i;
+  return [0, 1, 2].map(c => Math.round(RAMP[i][c] + (RAMP[i + 1][c] - RAMP[i][c]) * f)) as [number, number, number];
+};
+
+export const RAMP_CSS = `linear-gradient(to right, ${RAMP.map(c => `rgb(${c.join(",")})`).join(", ")})`;
+
+// PNG of a raster (row 0 at the top) on the ramp; non-finite values are transparent
+export const renderRampImage = (values: Float32Array, width: number, height: number, [lo, hi]: [number, number]): Promise<Blob> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available.");
+  const img = ctx.createImageData(width, height);
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (!isFinite(v)) continue; // transparent
+    const [r, g, b] = rampColour((v - lo) / (hi - lo));
+    img.data[i * 4] = r;
+    img.data[i * 4 + 1] = g;
+    img.data[i * 4 + 2] = b;
+    img.data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(img, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Failed to render the image."))), "image/png");
+  });
+};
+
+// The scene's georeference, with the pixel size scaled to the (possibly smaller) index image
+export const scaleGeoreference = (geo: Georeference, width: number, height: number, source: string): Georeference => {
+  const sx = geo.width / width;
+  const sy = geo.height / height;
+  const [x0, a, b, y0, d, e] = geo.geoTransform;
+  return { geoTransform: [x0, a * sx, b * sy, y0, d * sx, e * sy], width, height, crs: geo.crs, source };
+};
+
+export interface IndexRequest {
+  indexId: string;
+  label: string;
+  expression: string;
+  description: string;
+}
+
+export type SpectralIndexOutput = Pick<UploadedFile, 'file' | 'georeference' | 'spectralIndex'>;
+
+// Bands an expression reads, found without any pixel data
+const checkedBands = (expression: string, bandNames: string[]) =>
+  compileBandExpression(expression, bandNames, bandNames.map(() => new Float32Array(0))).usedBands;
+
+// Index values on a grid no larger than the preview, sampling the nearest pixel. Only the bands
+// the expressions use are decoded, and only at that size; runs in the gridding worker.
+export const spectralIndexValues = async (buffer: ArrayBuffer, bandNames: string[], expressions: string[]) => {
+  const image = readTiff(buffer);
+  const used = new Set(expressions.flatMap(e => checkedBands(e, bandNames)));
+  const bandIndices = bandNames.flatMap((name, i) => used.has(name) && i < image.samplesPerPixel ? [i] : []);
+  const decoded = await readTiffBands(image, { bands: bandIndices, maxSize: MAX_INDEX_SIZE });
+  const { width, height } = sampledSize(image, MAX_INDEX_SIZE);
+
+  // Bands the expressions do not use stay empty; names past the scene's last band stay unknown
+  const bands = bandNames.slice(0, image.samplesPerPixel).map(() => new Float32Array(0));
+  bandIndices.forEach((b, slot) => { bands[b] = decoded[slot]; });
+  const indices = expressions.map(expression => {
+    const { evaluate } = compileBandExpression(expression, bandNames, bands);
+    const values = new Float32Array(width * height);
+    for (let i = 0; i < values.length; i++) {
+      const v = evaluate(i);
+      values[i] = isFinite(v) ? v : NaN;
+    }
+    return values;
+  });
+  return { width, height, indices };
+};
+
+// Index images as map layers. Without an analysis frame the 0-100 space is the reference
+// image itself, which only indices of that scene cover exactly; with one, an index needs
+// its own georeference.
+export const spectralIndexLayers = (files: UploadedFile[], frame?: Georeference): MapImageLayer[] => {
+  const referenceId = getReferenceImage(files)?.id;
+  return files.flatMap(f => {
+    if (!f.spectralIndex || !f.previewUrl) return [];
+    if (frame ? !f.georeference : f.spectralIndex.sourceFileId !== referenceId) return [];
+    return [{
+      id: f.id,
+      label: `${f.spectralIndex.label} · ${f.spectralIndex.sourceName}`,
+      url: f.previewUrl,
+      bounds: frame && f.georeference ? boundsInFrame(frame, f.georeference) : { x: 0, y: 0, width: 100, height: 100 }
+    }];
+  });
+};
@@ -0,0 +1,44 @@
+import { PredictionResult, TargetArea } from "../types";
+
+// Edits made to targets on the results map. Targets the user adds or changes carry `userEdit`,
+// so the map, the registry and every export can tell them apart from the model's own.
+
+export type TargetPatch = Partial<Pick<TargetArea, 'x' | 'y' | 'probability' | 'description' | 'reasoning'>>;
+
+export const TARGET_ORIGINS: Record<NonNullable<TargetArea['userEdit']> | 'model', string> = {
+  model: "Model",
+  added: "Added by user",
+  modified: "Edited by user"
+};
+
+// Also used for alteration zones, which are marked the same way
+export const targetOrigin = (item: Pick<TargetArea, 'userEdit'>) => TARGET_ORIGINS[item.userEdit ?? 'model'];
+
+// Targets stay in the frame, like the validator keeps model output
+export const clampToFrame = (v: number) => Math.min(100, Math.max(0, v));
+
+export const createTarget = (targets: TargetArea[], x: number, y: number): TargetArea => ({
+  id: targets.reduce((max, t) => Math.max(max, t.id), 0) + 1,
+  x: clampToFrame(x),
+  y: clampToFrame(y),
+  probability: 0.5,
+  description: "",
+  userEdit: 'added'
+});
+
+export const addTarget = (result: PredictionResult, target: TargetArea): PredictionResult =>
+  ({ ...result, targetAreas: [...result.targetAreas, target] });
+
+export const updateTarget = (result: PredictionResult, id: number, patch: TargetPatch): PredictionResult => ({
+  ...result,
+  targetAreas: result.targetAreas.map(t => t.id === id ? {
+    ...t,
+    ...patch,
+    ...(patch.x !== undefined ? { x: clampToFrame(patch.x) } : {}),
+    ...(patch.y !== undefined ? { y: clampToFrame(patch.y) } : {}),
+    userEdit: t.userEdit ?? 'modified'
+  } : t)
+});
+
+export const deleteTarget = (result: PredictionResult, id: number): PredictionResult =>
+  ({ ...result, targetAreas: result.targetAreas.filter(t => t.id !== id) });
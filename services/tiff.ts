@@ -0,0 +1,478 @@
+// Minimal baseline TIFF / GeoTIFF reader: IFD tags plus raster decoding for
+// uncompressed, LZW, Deflate and PackBits data in strips or tiles, with either predictor.
+
+export const TAG = {
+  IMAGE_WIDTH: 256,
+  IMAGE_LENGTH: 257,
+  BITS_PER_SAMPLE: 258,
+  COMPRESSION: 259,
+  PHOTOMETRIC: 262,
+  STRIP_OFFSETS: 273,
+  SAMPLES_PER_PIXEL: 277,
+  ROWS_PER_STRIP: 278,
+  STRIP_BYTE_COUNTS: 279,
+  PLANAR_CONFIG: 284,
+  PREDICTOR: 317,
+  COLOR_MAP: 320,
+  TILE_WIDTH: 322,
+  TILE_LENGTH: 323,
+  TILE_OFFSETS: 324,
+  TILE_BYTE_COUNTS: 325,
+  SAMPLE_FORMAT: 339,
+  MODEL_PIXEL_SCALE: 33550,
+  MODEL_TIEPOINT: 33922,
+  MODEL_TRANSFORMATION: 34264,
+  GEO_KEY_DIRECTORY: 34735,
+  GEO_DOUBLE_PARAMS: 34736,
+  GEO_ASCII_PARAMS: 34737,
+  GDAL_NODATA: 42113
+} as const;
+
+export interface TiffImage {
+  width: number;
+  height: number;
+  samplesPerPixel: number;
+  bitsPerSample: number;
+  sampleFormat: number; // 1 = unsigned int, 2 = signed int, 3 = float
+  tags: Map<number, number[] | string>;
+  littleEndian: boolean;
+  buffer: ArrayBuffer;
+}
+
+// Byte sizes of TIFF field types, indexed by type id
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const readTagValues = (view: DataView, type: number, count: number, offset: number, le: boolean): number[] | string => {
+  if (type === 2) {
+    let s = "";
+    for (let i = 0; i < count; i++) {
+      const c = view.getUint8(offset + i);
+      if (c === 0) break;
+      s += String.fromCharCode(c);
+    }
+    return s;
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const o = offset + i * TYPE_SIZES[type];
+    switch (type) {
+      case 1: case 7: values.push(view.getUint8(o)); break;
+      case 6: values.push(view.getInt8(o)); break;
+      case 3: values.push(view.getUint16(o, le)); break;
+      case 8: values.push(view.getInt16(o, le)); break;
+      case 4: values.push(view.getUint32(o, le)); break;
+      case 9: values.push(view.getInt32(o, le)); break;
+      case 5: values.push(view.getUint32(o, le) / view.getUint32(o + 4, le)); break;
+      case 10: values.push(view.getInt32(o, le) / view.getInt32(o + 4, le)); break;
+      case 11: values.push(view.getFloat32(o, le)); break;
+      case 12: values.push(view.getFloat64(o, le)); break;
+    }
+  }
+  return values;
+};
+
+export const isTiff = (buffer: ArrayBuffer) => {
+  if (buffer.byteLength < 8) return false;
+  const b = new Uint8Array(buffer, 0, 4);
+  return (b[0] === 0x49 && b[1] === 0x49 && b[2] === 42) || (b[0] === 0x4d && b[1] === 0x4d && b[3] === 42);
+};
+
+// Reads the first image file directory (full-resolution image)
+export const readTiff = (buffer: ArrayBuffer): TiffImage => {
+  const view = new DataView(buffer);
+  const order = view.getUint16(0, false);
+  if (order !== 0x4949 && order !== 0x4d4d) {
+    throw new Error("Not a TIFF file.");
+  }
+  const le = order === 0x4949;
+  const magic = view.getUint16(2, le);
+  if (magic === 43) {
+    throw new Error("BigTIFF files are not supported. Please export as a standard GeoTIFF.");
+  }
+
+  const ifdOffset = view.getUint32(4, le);
+  const entryCount = view.getUint16(ifdOffset, le);
+  const tags = new Map<number, number[] | string>();
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    const tag = view.getUint16(entry, le);
+    const type = view.getUint16(entry + 2, le);
+    const count = view.getUint32(entry + 4, le);
+    if (!TYPE_SIZES[type]) continue;
+    const size = TYPE_SIZES[type] * count;
+    const valueOffset = size <= 4 ? entry + 8 : view.getUint32(entry + 8, le);
+    tags.set(tag, readTagValues(view, type, count, valueOffset, le));
+  }
+
+  const num = (tag: number, fallback: number) => {
+    const v = tags.get(tag);
+    return Array.isArray(v) && v.length ? v[0] : fallback;
+  };
+
+  return {
+    width: num(TAG.IMAGE_WIDTH, 0),
+    height: num(TAG.IMAGE_LENGTH, 0),
+    samplesPerPixel: num(TAG.SAMPLES_PER_PIXEL, 1),
+    bitsPerSample: num(TAG.BITS_PER_SAMPLE, 1),
+    sampleFormat: num(TAG.SAMPLE_FORMAT, 1),
+    tags,
+    littleEndian: le,
+    buffer
+  };
+};
+
+export const getNumericTag = (image: TiffImage, tag: number): number[] | undefined => {
+  const v = image.tags.get(tag);
+  return Array.isArray(v) ? v : undefined;
+};
+
+// --- Decompression ---
+const decodeLzw = (input: Uint8Array): Uint8Array => {
+  const CLEAR = 256;
+  const EOI = 257;
+  const prefix = new Int32Array(4096);
+  const suffix = new Uint8Array(4096);
+  const lengths = new Int32Array(4096);
+  const firstByte = new Uint8Array(4096);
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    lengths[i] = 1;
+    firstByte[i] = i;
+  }
+
+  let out = new Uint8Array(input.length * 4);
+  let outPos = 0;
+  let bitPos = 0;
+  let codeLen = 9;
+  let nextCode = 258;
+  let prev = -1;
+
+  const readCode = () => {
+    let code = 0;
+    for (let i = 0; i < codeLen; i++) {
+      const byte = input[bitPos >> 3];
+      if (byte === undefined) return EOI;
+      code = (code << 1) | ((byte >> (7 - (bitPos & 7))) & 1);
+      bitPos++;
+    }
+    return code;
+  };
+
+  const write = (code: number) => {
+    const len = lengths[code];
+    if (outPos + len > out.length) {
+      const grown = new Uint8Array(Math.max(out.length * 2, outPos + len));
+      grown.set(out);
+      out = grown;
+    }
+    let c = code;
+    for (let i = len - 1; i >= 0; i--) {
+      out[outPos + i] = suffix[c];
+      c = prefix[c];
+    }
+    outPos += len;
+  };
+
+  const add = (prevCode: number, byte: number) => {
+    if (nextCode >= 4096) return;
+    prefix[nextCode] = prevCode;
+    suffix[nextCode] = byte;
+    lengths[nextCode] = lengths[prevCode] + 1;
+    firstByte[nextCode] = firstByte[prevCode];
+    nextCode++;
+  };
+
+  while (true) {
+    const code = readCode();
+    if (code === EOI) break;
+    if (code === CLEAR) {
+      nextCode = 258;
+      codeLen = 9;
+      prev = -1;
+      continue;
+    }
+    if (prev === -1) {
+      write(code);
+      prev = code;
+      continue;
+    }
+    if (code < nextCode) {
+      write(code);
+      add(prev, firstByte[code]);
+    } else {
+      add(prev, firstByte[prev]);
+      write(code);
+    }
+    prev = code;
+    // TIFF LZW switches code width one code early
+    if (nextCode >= (1 << codeLen) - 1 && codeLen < 12) codeLen++;
+  }
+
+  return out.subarray(0, outPos);
+};
+
+const decodePackBits = (input: Uint8Array): Uint8Array => {
+  const out: number[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const n = (input[i++] << 24) >> 24;
+    if (n >= 0) {
+      for (let k = 0; k <= n; k++) out.push(input[i++]);
+    } else if (n !== -128) {
+      const b = input[i++];
+      for (let k = 0; k < 1 - n; k++) out.push(b);
+    }
+  }
+  return new Uint8Array(out);
+};
+
+const decodeDeflate = async (input: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([input]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompress = async (compression: number, data: Uint8Array): Promise<Uint8Array> => {
+  switch (compression) {
+    case 1: return data;
+    case 5: return decodeLzw(data);
+    case 8: case 32946: return decodeDeflate(data);
+    case 32773: return decodePackBits(data);
+    default:
+      throw new Error(`Unsupported TIFF compression (${compression}). Re-export the image with LZW, Deflate or no compression.`);
+  }
+};
+
+// Undo horizontal differencing (Predictor = 2) on integer samples, in place
+const undoPredictor = (bytes: Uint8Array, width: number, rows: number, samples: number, bits: number, le: boolean) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const bytesPerSample = bits / 8;
+  const rowStride = width * samples * bytesPerSample;
+  for (let r = 0; r < rows; r++) {
+    for (let i = samples; i < width * samples; i++) {
+      const o = r * rowStride + i * bytesPerSample;
+      const p = o - samples * bytesPerSample;
+      if (o + bytesPerSample > bytes.length) return;
+      if (bits === 8) bytes[o] = (bytes[o] + bytes[p]) & 0xff;
+      else if (bits === 16) view.setUint16(o, (view.getUint16(o, le) + view.getUint16(p, le)) & 0xffff, le);
+      else if (bits === 32) view.setUint32(o, (view.getUint32(o, le) + view.getUint32(p, le)) >>> 0, le);
+    }
+  }
+};
+
+// Undo the floating-point predictor (Predictor = 3), in place: each row holds the bytes of its
+// samples split into planes, most significant first, then differenced byte by byte
+const undoFloatPredictor = (bytes: Uint8Array, width: number, rows: number, samples: number, bits: number, le: boolean) => {
+  const bytesPerSample = bits / 8;
+  const count = width * samples; // samples in a row
+  const rowStride = count * bytesPerSample;
+  const row = new Uint8Array(rowStride);
+  for (let r = 0; r < Math.min(rows, Math.floor(bytes.length / rowStride)); r++) {
+    const start = r * rowStride;
+    row.set(bytes.subarray(start, start + rowStride));
+    for (let i = samples; i < rowStride; i++) row[i] = (row[i] + row[i - samples]) & 0xff;
+    for (let i = 0; i < count; i++) {
+      for (let b = 0; b < bytesPerSample; b++) {
+        // Plane b holds byte b counted from the most significant end
+        bytes[start + i * bytesPerSample + (le ? bytesPerSample - 1 - b : b)] = row[b * count + i];
+      }
+    }
+  }
+};
+
+const sampleReader = (bits: number, format: number, le: boolean) => {
+  return (view: DataView, offset: number): number => {
+    if (format === 3) return bits === 64 ? view.getFloat64(offset, le) : view.getFloat32(offset, le);
+    if (format === 2) {
+      if (bits === 8) return view.getInt8(offset);
+      if (bits === 16) return view.getInt16(offset, le);
+      return view.getInt32(offset, le);
+    }
+    if (bits === 8) return view.getUint8(offset);
+    if (bits === 16) return view.getUint16(offset, le);
+    return view.getUint32(offset, le);
+  };
+};
+
+// Size of an image sampled down (nearest pixel) so neither side exceeds `maxSize`
+export const sampledSize = (image: Pick<TiffImage, 'width' | 'height'>, maxSize = Infinity) => {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  return {
+    scale,
+    width: Math.max(1, Math.round(image.width * scale)),
+    height: Math.max(1, Math.round(image.height * scale))
+  };
+};
+
+// Decodes bands to Float32Arrays (row 0 = top of the image), every band at full size by default.
+// `bands` picks which ones, in that order; `maxSize` samples the nearest pixel while decoding, so
+// a large scene never has to be held at full resolution.
+export const readTiffBands = async (
+  image: TiffImage,
+  { bands: wanted, maxSize }: { bands?: number[]; maxSize?: number } = {}
+): Promise<Float32Array[]> => {
+  const { width, height, samplesPerPixel: spp, bitsPerSample: bits, sampleFormat, littleEndian: le } = image;
+  if (![8, 16, 32, 64].includes(bits)) {
+    throw new Error(`Unsupported TIFF bit depth (${bits}).`);
+  }
+
+  const compression = getNumericTag(image, TAG.COMPRESSION)?.[0] ?? 1;
+  const predictor = getNumericTag(image, TAG.PREDICTOR)?.[0] ?? 1;
+  if (predictor !== 1 && predictor !== 2 && !(predictor === 3 && sampleFormat === 3)) {
+    throw new Error(`Unsupported TIFF predictor (${predictor}). Re-export the image without a predictor or with horizontal differencing.`);
+  }
+  const planar = (getNumericTag(image, TAG.PLANAR_CONFIG)?.[0] ?? 1) === 2;
+  const read = sampleReader(bits, sampleFormat, le);
+  const bytesPerSample = bits / 8;
+
+  const bandIndices = wanted ?? Array.from({ length: spp }, (_, i) => i);
+  if (bandIndices.some(b => b < 0 || b >= spp)) throw new Error(`The image has ${spp} band${spp === 1 ? "" : "s"}.`);
+  const out = sampledSize(image, maxSize);
+  const bands = bandIndices.map(() => new Float32Array(out.width * out.height));
+  // Output slot of each source band, row and column, or -1 where it is not kept; nearest-pixel
+  // sampling never keeps a source row or column twice
+  const slotOfBand = new Int32Array(spp).fill(-1);
+  bandIndices.forEach((b, slot) => { slotOfBand[b] = slot; });
+  const outRowOf = new Int32Array(height).fill(-1);
+  for (let y = 0; y < out.height; y++) outRowOf[Math.min(height - 1, Math.floor(y / out.scale))] = y;
+  const outColOf = new Int32Array(width).fill(-1);
+  for (let x = 0; x < out.width; x++) outColOf[Math.min(width - 1, Math.floor(x / out.scale))] = x;
+
+  const tileWidth = getNumericTag(image, TAG.TILE_WIDTH)?.[0];
+  const tiled = tileWidth !== undefined;
+  const blockW = tiled ? tileWidth : width;
+  const blockH = tiled
+    ? getNumericTag(image, TAG.TILE_LENGTH)?.[0] ?? height
+    : Math.min(getNumericTag(image, TAG.ROWS_PER_STRIP)?.[0] ?? height, height);
+  const offsets = getNumericTag(image, tiled ? TAG.TILE_OFFSETS : TAG.STRIP_OFFSETS) ?? [];
+  const counts = getNumericTag(image, tiled ? TAG.TILE_BYTE_COUNTS : TAG.STRIP_BYTE_COUNTS) ?? [];
+
+  const blocksAcross = Math.ceil(width / blockW);
+  const blocksDown = Math.ceil(height / blockH);
+  const blocksPerBand = blocksAcross * blocksDown;
+  const samplesInBlock = planar ? 1 : spp;
+
+  for (let b = 0; b < offsets.length; b++) {
+    const band = planar ? Math.floor(b / blocksPerBand) : 0;
+    const index = b % blocksPerBand;
+    const bx = (index % blocksAcross) * blockW;
+    const by = Math.floor(index / blocksAcross) * blockH;
+    if (planar && slotOfBand[band] === -1) continue; // a band nobody asked for
+
+    const rows = Math.min(blockH, height - by);
+    const cols = Math.min(blockW, width - bx);
+    let isKept = false;
+    for (let r = 0; r < rows && !isKept; r++) isKept = outRowOf[by + r] !== -1;
+    if (!isKept) continue;
+
+    const raw = new Uint8Array(image.buffer, offsets[b], counts[b]);
+    const data = await decompress(compression, raw.slice());
+    if (predictor === 2) undoPredictor(data, blockW, blockH, samplesInBlock, bits, le);
+    else if (predictor === 3) undoFloatPredictor(data, blockW, blockH, samplesInBlock, bits, le);
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    for (let r = 0; r < rows; r++) {
+      const y = outRowOf[by + r];
+      if (y === -1) continue;
+      for (let c = 0; c < cols; c++) {
+        const x = outColOf[bx + c];
+        if (x === -1) continue;
+        const pixel = y * out.width + x;
+        const base = (r * blockW + c) * samplesInBlock * bytesPerSample;
+        if (base + samplesInBlock * bytesPerSample > data.length) continue;
+        if (planar) {
+          bands[slotOfBand[band]][pixel] = read(view, base);
+        } else {
+          for (let s = 0; s < spp; s++) {
+            if (slotOfBand[s] !== -1) bands[slotOfBand[s]][pixel] = read(view, base + s * bytesPerSample);
+          }
+        }
+      }
+    }
+  }
+
+  // GDAL stores the no-data value as an ASCII tag
+  const nodataTag = image.tags.get(TAG.GDAL_NODATA);
+  const nodata = typeof nodataTag === "string" ? Number(nodataTag) : NaN;
+  if (!isNaN(nodata)) {
+    bands.forEach(band => {
+      for (let i = 0; i < band.length; i++) if (band[i] === nodata) band[i] = NaN;
+    });
+  }
+
+  return bands;
+};
+
+// Percentile stretch bounds, sampled for speed on large rasters
+export const stretchRange = (values: Float32Array, lowPct = 2, highPct = 98): [number, number] => {
+  const step = Math.max(1, Math.floor(values.length / 100000));
+  const sample: number[] = [];
+  for (let i = 0; i < values.length; i += step) {
+    if (isFinite(values[i])) sample.push(values[i]);
+  }
+  if (sample.length === 0) return [0, 1];
+  sample.sort((a, b) => a - b);
+  const lo = sample[Math.floor((lowPct / 100) * (sample.length - 1))];
+  const hi = sample[Math.floor((highPct / 100) * (sample.length - 1))];
+  return lo === hi ? [lo, lo + 1] : [lo, hi];
+};
+
+export const MAX_PREVIEW_SIZE = 2048;
+
+// The bands a preview shows: the first three as RGB, otherwise the first as grey
+export const previewBands = (image: TiffImage) => image.samplesPerPixel >= 3 ? [0, 1, 2] : [0];
+
+// RGBA pixels of a preview from its bands, already sampled to width × height. Works without a
+// DOM, so it can run in a worker.
+export const tiffPreviewPixels = (image: TiffImage, bands: Float32Array[], width: number, height: number): Uint8ClampedArray => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const photometric = getNumericTag(image, TAG.PHOTOMETRIC)?.[0] ?? 1;
+  const colorMap = getNumericTag(image, TAG.COLOR_MAP);
+  const rgbBands = bands.length >= 3 ? [bands[0], bands[1], bands[2]] : [bands[0], bands[0], bands[0]];
+  const eightBitRgb = bands.length >= 3 && image.bitsPerSample === 8;
+  const ranges = rgbBands.map(b => (eightBitRgb ? [0, 255] as [number, number] : stretchRange(b)));
+
+  for (let src = 0; src < width * height; src++) {
+    const o = src * 4;
+
+    if (photometric === 3 && colorMap) {
+      // Palette image: colour map holds 16-bit R, G, B tables back to back
+      const n = colorMap.length / 3;
+      const idx = bands[0][src];
+      pixels[o] = colorMap[idx] >> 8;
+      pixels[o + 1] = colorMap[n + idx] >> 8;
+      pixels[o + 2] = colorMap[2 * n + idx] >> 8;
+      pixels[o + 3] = 255;
+      continue;
+    }
+
+    let valid = true;
+    for (let c = 0; c < 3; c++) {
+      const v = rgbBands[c][src];
+      if (!isFinite(v)) valid = false;
+      const [lo, hi] = ranges[c];
+      let t = (v - lo) / (hi - lo);
+      if (photometric === 0) t = 1 - t; // WhiteIsZero
+      pixels[o + c] = Math.max(0, Math.min(255, Math.round(t * 255)));
+    }
+    pixels[o + 3] = valid ? 255 : 0;
+  }
+  return pixels;
+};
+
+// PNG of RGBA pixels, so the browser (and the model) can display the image
+export const renderPreviewImage = (pixels: Uint8ClampedArray, width: number, height: number): Promise<Blob> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available.");
+  const img = ctx.createImageData(width, height);
+  img.data.set(pixels);
+  ctx.putImageData(img, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Failed to render image preview."))), "image/png");
+  });
+};
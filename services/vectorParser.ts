@@ -0,0 +1,138 @@
+import { VectorDataset, VectorFeature } from "../types";
+
+// Reads vector overlays (faults, claims, outlines) from GeoJSON and KML into flat features:
+// multi-geometries and geometry collections are split into parts, and coordinates stay in
+// the file's CRS (EPSG:4326 for KML and for GeoJSON without a legacy `crs` member).
+
+export const VECTOR_DATA_EXTENSIONS = ['.geojson', '.kml'];
+
+export class VectorParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VectorParseError";
+  }
+}
+
+type Position = [number, number];
+type Properties = VectorFeature['properties'];
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// "urn:ogc:def:crs:EPSG::32719" / "EPSG:32719" -> "EPSG:32719"
+export const crsFromGeoJson = (geoJson: unknown): string => {
+  const crs = isRecord(geoJson) && isRecord(geoJson.crs) ? geoJson.crs : undefined;
+  const name = isRecord(crs?.properties) ? crs.properties.name : undefined;
+  const match = typeof name === "string" ? name.match(/EPSG:+(\d+)/i) : null;
+  return match ? `EPSG:${match[1]}` : "EPSG:4326"; // RFC 7946 default
+};
+
+const position = (p: unknown): Position | null =>
+  Array.isArray(p) && typeof p[0] === "number" && typeof p[1] === "number" && isFinite(p[0]) && isFinite(p[1])
+    ? [p[0], p[1]]
+    : null;
+
+const line = (coords: unknown): Position[] =>
+  Array.isArray(coords) ? coords.map(position).filter((p): p is Position => p !== null) : [];
+
+const plainProperties = (props: unknown): Properties => {
+  if (!isRecord(props)) return {};
+  return Object.fromEntries(Object.entries(props).map(([k, v]): [string, Properties[string]] => [
+    k,
+    v === null ? null : typeof v === "string" || typeof v === "number" || typeof v === "boolean" ? v : JSON.stringify(v)
+  ]));
+};
+
+const geoJsonFeatures = (geometry: unknown, properties: Properties): VectorFeature[] => {
+  if (!isRecord(geometry)) return [];
+  const c = geometry.coordinates;
+  const feature = (type: VectorFeature['geometry'], parts: Position[][]): VectorFeature[] => {
+    const kept = parts.filter(p => p.length > 0);
+    return kept.length ? [{ geometry: type, parts: kept, properties }] : [];
+  };
+  switch (geometry.type) {
+    case "Point": return feature('point', [line([c])]);
+    case "MultiPoint": return feature('point', line(c).map(p => [p]));
+    case "LineString": return feature('line', [line(c)]);
+    case "MultiLineString": return feature('line', Array.isArray(c) ? c.map(line) : []);
+    case "Polygon": return feature('polygon', Array.isArray(c) ? c.map(line) : []);
+    // Each polygon of a multipolygon keeps its own holes, so they become separate features
+    case "MultiPolygon": return Array.isArray(c) ? c.flatMap(rings => feature('polygon', Array.isArray(rings) ? rings.map(line) : [])) : [];
+    case "GeometryCollection":
+      return Array.isArray(geometry.geometries) ? geometry.geometries.flatMap(g => geoJsonFeatures(g, properties)) : [];
+    default: return [];
+  }
+};
+
+export const parseGeoJson = (text: string): VectorDataset => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new VectorParseError("The file is not valid JSON.");
+  }
+  const items: unknown[] = isRecord(data) && data.type === "FeatureCollection" ? (Array.isArray(data.features) ? data.features : [])
+    : isRecord(data) && data.type === "Feature" ? [data]
+    : [{ geometry: data, properties: {} }];
+  const features = items.flatMap(f => isRecord(f) ? geoJsonFeatures(f.geometry, plainProperties(f.properties)) : []);
+  if (features.length === 0) throw new VectorParseError("No features with coordinates were found in the GeoJSON.");
+  return { format: 'geojson', features, crs: crsFromGeoJson(data) };
+};
+
+// "lon,lat[,alt] lon,lat[,alt] ..." as written in KML <coordinates>
+const kmlCoordinates = (el: Element | null): Position[] =>
+  (el?.textContent ?? "").trim().split(/\s+/).map(t => position(t.split(",").map(Number))).filter((p): p is Position => p !== null);
+
+const childrenByTag = (el: Element, tag: string) => Array.from(el.getElementsByTagNameNS("*", tag));
+
+export const parseKml = (text: string): VectorDataset => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) throw new VectorParseError("The KML is not well-formed XML.");
+
+  const features = childrenByTag(doc.documentElement, "Placemark").flatMap(placemark => {
+    const properties: Properties = {};
+    const name = childrenByTag(placemark, "name")[0]?.textContent?.trim();
+    const description = childrenByTag(placemark, "description")[0]?.textContent?.trim();
+    if (name) properties.name = name;
+    if (description) properties.description = description;
+    for (const data of childrenByTag(placemark, "Data")) {
+      const key = data.getAttribute("name");
+      if (key) properties[key] = childrenByTag(data, "value")[0]?.textContent?.trim() ?? null;
+    }
+    for (const data of childrenByTag(placemark, "SimpleData")) {
+      const key = data.getAttribute("name");
+      if (key) properties[key] = data.textContent?.trim() ?? null;
+    }
+
+    const out: VectorFeature[] = [];
+    const points = childrenByTag(placemark, "Point").map(p => kmlCoordinates(childrenByTag(p, "coordinates")[0])).filter(p => p.length);
+    if (points.length) out.push({ geometry: 'point', parts: points.map(p => [p[0]]), properties });
+    const lines = childrenByTag(placemark, "LineString").map(l => kmlCoordinates(childrenByTag(l, "coordinates")[0])).filter(l => l.length);
+    if (lines.length) out.push({ geometry: 'line', parts: lines, properties });
+    for (const polygon of childrenByTag(placemark, "Polygon")) {
+      const outer = childrenByTag(polygon, "outerBoundaryIs").map(b => kmlCoordinates(childrenByTag(b, "coordinates")[0]));
+      const inner = childrenByTag(polygon, "innerBoundaryIs").map(b => kmlCoordinates(childrenByTag(b, "coordinates")[0]));
+      const rings = [...outer, ...inner].filter(r => r.length);
+      if (rings.length) out.push({ geometry: 'polygon', parts: rings, properties });
+    }
+    return out;
+  });
+  if (features.length === 0) throw new VectorParseError("No placemarks with coordinates were found in the KML.");
+  return { format: 'kml', features, crs: "EPSG:4326" };
+};
+
+export const parseVectorFile = async (file: File): Promise<VectorDataset> => {
+  const text = await file.text();
+  return file.name.toLowerCase().endsWith(".kml") ? parseKml(text) : parseGeoJson(text);
+};
+
+export const describeVectorDataset = (dataset: VectorDataset): string => {
+  const counts = (['point', 'line', 'polygon'] as const)
+    .map(type => [type, dataset.features.filter(f => f.geometry === type).length] as const)
+    .filter(([, n]) => n > 0)
+    .map(([type, n]) => `${n} ${type}${n === 1 ? "" : "s"}`);
+  return `${dataset.features.length} features · ${counts.join(", ")}`;
+};
+
+// Every vertex, for extents and CRS guessing
+export const vectorCoordinates = (dataset: VectorDataset): [number, number][] =>
+  dataset.features.flatMap(f => f.parts.flat());
@@ -0,0 +1,85 @@
+import { Georeference, PredictionResult, Zone } from "../types";
+import { relativeToMetres } from "./georeference";
+import { clampToFrame } from "./targetEdits";
+
+// Alteration zones as outlines in the 0-100 frame. A zone's `area` is derived from its polygon
+// (the share of the frame it covers), so the string only has to be trusted for zones without one.
+
+export type ZonePatch = Partial<Pick<Zone, 'type' | 'color' | 'polygon'>>;
+
+// Colours for well-known alteration types; the validator falls back to these too
+export const ZONE_COLORS: Record<string, string> = {
+  potassic: "#ef4444",
+  phyllic: "#f59e0b",
+  sericitic: "#f59e0b",
+  argillic: "#f472b6",
+  "advanced argillic": "#a855f7",
+  propylitic: "#22c55e",
+  silicic: "#e5e7eb",
+  skarn: "#14b8a6"
+};
+export const FALLBACK_ZONE_COLORS = ["#34d399", "#60a5fa", "#f87171", "#fbbf24", "#a78bfa"];
+
+export const zoneColor = (type: string, index: number) =>
+  ZONE_COLORS[type.trim().toLowerCase()] ?? FALLBACK_ZONE_COLORS[index % FALLBACK_ZONE_COLORS.length];
+
+// Shoelace formula; the outline is implicitly closed
+export const polygonArea = (points: [number, number][]): number => {
+  let twice = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    twice += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(twice) / 2;
+};
+
+// The frame is 100 × 100, so its area in frame units² divided by 100 is a percentage
+export const polygonAreaLabel = (polygon: [number, number][]) => {
+  const pct = polygonArea(polygon) / 100;
+  return `${Number(pct.toFixed(pct < 1 ? 2 : 1))}%`;
+};
+
+// Ground area in m²
+export const zoneGroundArea = (geo: Georeference, polygon: [number, number][]): number =>
+  polygonArea(relativeToMetres(geo, polygon));
+
+export const formatGroundArea = (m2: number) =>
+  m2 >= 1e6 ? `${(m2 / 1e6).toFixed(2)} km²` : `${(m2 / 1e4).toFixed(m2 >= 1e5 ? 1 : 2)} ha`;
+
+// Drops repeated vertices (a double-click adds the last one twice) and the closing vertex
+export const cleanPolygon = (points: [number, number][]): [number, number][] => {
+  const out: [number, number][] = [];
+  for (const [x, y] of points) {
+    const p: [number, number] = [clampToFrame(x), clampToFrame(y)];
+    const last = out[out.length - 1];
+    if (!last || Math.hypot(p[0] - last[0], p[1] - last[1]) > 1e-6) out.push(p);
+  }
+  if (out.length > 1 && Math.hypot(out[0][0] - out[out.length - 1][0], out[0][1] - out[out.length - 1][1]) <= 1e-6) out.pop();
+  return out;
+};
+
+export const createZone = (zones: Zone[], polygon: [number, number][], type = "Unclassified"): Zone => {
+  const outline = cleanPolygon(polygon);
+  return { type, area: polygonAreaLabel(outline), color: zoneColor(type, zones.length), polygon: outline, userEdit: 'added' };
+};
+
+export const addZone = (result: PredictionResult, zone: Zone): PredictionResult =>
+  ({ ...result, zones: [...result.zones, zone] });
+
+export const updateZone = (result: PredictionResult, index: number, patch: ZonePatch): PredictionResult => ({
+  ...result,
+  zones: result.zones.map((z, i) => {
+    if (i !== index) return z;
+    const polygon = patch.polygon ? cleanPolygon(patch.polygon) : z.polygon;
+    return {
+      ...z,
+      ...patch,
+      ...(polygon ? { polygon, area: polygonAreaLabel(polygon) } : {}),
+      userEdit: z.userEdit ?? 'modified'
+    };
+  })
+});
+
+export const deleteZone = (result: PredictionResult, index: number): PredictionResult =>
+  ({ ...result, zones: result.zones.filter((_, i) => i !== index) });
@@ -14,12 +14,204 @@ export interface UploadedFile {
   category: FileCategory;
   previewUrl?: string;
   base64?: string;
+  geophysics?: GeophysicsDataset;
+  petrology?: PetrologyDataset;
+  geochem?: GeochemDataset;
+  vector?: VectorDataset; // faults, claims and other overlays read from GeoJSON / KML
+  georeference?: Georeference;
+  renderedImage?: Blob; // PNG rendering of formats browsers and the model can't read (e.g. GeoTIFF)
+  bandCount?: number; // bands in a decoded raster, for band math on multispectral scenes
+  spectralIndex?: SpectralIndexInfo; // set on index images computed from a multispectral scene
+  gridded?: GriddedInfo; // set on grids interpolated from another input's point data
+  gridTransform?: GridTransformInfo; // set on grids derived from another grid by a potential-field transform
+  parseError?: string;
+}
+
+// --- Multispectral indices ---
+export type SensorId = 'aster' | 'landsat' | 'sentinel2' | 'generic';
+
+export interface SpectralIndexInfo {
+  sourceFileId: string;
+  sourceName: string;
+  sensor: SensorId;
+  indexId: string; // preset id, or "custom"
+  label: string;
+  expression: string; // band math over the sensor's band names, e.g. "(B5+B7)/B6"
+  description: string; // what high values indicate
+  range: [number, number]; // index values at the low and high ends of the colour ramp
+  stats: { min: number; max: number; mean: number; validFraction: number };
+}
+
+// --- Gridding of point data ---
+export type InterpolationMethod = 'idw' | 'natural-neighbour' | 'kriging';
+export type VariogramModelType = 'spherical' | 'exponential' | 'gaussian';
+
+export interface VariogramModel {
+  type: VariogramModelType;
+  nugget: number;
+  sill: number; // partial sill, above the nugget
+  range: number; // practical range, in map units
+}
+
+export interface GriddingParams {
+  method: InterpolationMethod;
+  cellSize: number; // map units
+  searchRadius: number; // map units; nodes farther than this from every point are left blank
+  maxNeighbours: number; // IDW and kriging use at most this many nearest points
+  power: number; // IDW distance exponent
+  logTransform: boolean; // interpolate log10 values and back-transform (geochemistry)
+  variogram?: VariogramModel; // kriging only
+}
+
+export interface GriddedInfo {
+  sourceFileId: string;
+  sourceName: string;
+  variable: string; // element or channel that was interpolated
+  params: GriddingParams;
+  pointCount: number;
+  range: [number, number]; // values at the low and high ends of the colour ramp
+}
+
+// --- Potential-field grid transforms ---
+export type GridTransformId = 'rtp' | 'thd' | 'vd1' | 'tilt' | 'analytic-signal' | 'upward';
+
+export interface GridTransformParams {
+  inclination: number; // geomagnetic field, degrees (positive down)
+  declination: number; // degrees east of north
+  height: number; // upward continuation distance, map units
+  reduceToPole: boolean; // take derivatives of the reduced-to-pole field
+}
+
+export interface GridTransformInfo {
+  sourceFileId: string;
+  sourceName: string;
+  transform: GridTransformId;
+  params: GridTransformParams;
+  range: [number, number]; // values at the low and high ends of the colour ramp
+}
+
+// Raster drawn on the results map, placed by its extent in the 0-100 frame
+export interface MapImageLayer {
+  id: string;
+  label: string;
+  url: string;
+  bounds: { x: number; y: number; width: number; height: number };
+}
+
+export interface Georeference {
+  // GDAL-style affine transform from pixel corner (col,row) to map coordinates:
+  // X = t[0] + col*t[1] + row*t[2], Y = t[3] + col*t[4] + row*t[5]
+  geoTransform: [number, number, number, number, number, number];
+  width: number; // image size in pixels
+  height: number;
+  crs?: string; // e.g. "EPSG:32719"; undefined when the source does not declare one
+  source: string; // file the georeference was read from
+}
+
+export type GeochemUnit = 'ppm' | 'ppb' | 'pct' | 'gpt';
+
+export interface GeochemElementColumn {
+  column: string;
+  element: string; // e.g. "Cu", "As", "SiO2"
+  unit: GeochemUnit; // unit the lab reported in; values are normalised to ppm
+}
+
+export interface GeochemColumnMapping {
+  sampleId: string | null;
+  x: string | null;
+  y: string | null;
+  elements: GeochemElementColumn[];
+}
+
+export interface GeochemSample {
+  id: string;
+  x?: number;
+  y?: number;
+  values: Record<string, number>; // element -> ppm, censored values already substituted
+  censored: Record<string, 'below' | 'above'>;
+}
+
+export interface GeochemDataset {
+  mapping: GeochemColumnMapping;
+  samples: GeochemSample[];
+  elements: string[];
+  crs?: string; // CRS of the sample x/y columns
+  statistics?: GeochemStatsSettings; // chosen in the statistics view; defaults apply when absent
+}
+
+export type ThresholdMethod = 'p95' | 'p98' | 'mean2sd' | 'mad' | 'probplot';
+
+export interface GeochemStatsSettings {
+  method: ThresholdMethod; // threshold used to flag anomalous samples
+  ratios: [string, string][]; // numerator / denominator element pairs
+}
+
+// Regular grid (ESRI ASCII / Surfer GRD). xmin/ymin are the centre of the first node,
+// and row 0 is the southern-most row.
+export interface GridData {
+  ncols: number;
+  nrows: number;
+  xmin: number;
+  ymin: number;
+  dx: number;
+  dy: number;
+  values: Float32Array; // NaN marks blanked / no-data nodes
+}
+
+export interface XyzLine {
+  name: string;
+  points: { x: number; y: number; values: Record<string, number> }[];
+}
+
+export interface GeophysicsDataset {
+  format: 'xyz' | 'esri-ascii-grid' | 'surfer-ascii-grid' | 'surfer-binary-grid';
+  channels: string[];
+  lines?: XyzLine[];
+  grid?: GridData;
+  crs?: string; // CRS of the line / grid coordinates
+}
+
+export interface PetrologySample {
+  sampleId: string;
+  x?: number;
+  y?: number;
+  lithology?: string;
+  alteration?: string;
+  minerals: string[];
+  texture?: string;
+  veining?: string;
+  notes?: string;
+}
+
+export interface PetrologyDataset {
+  samples: PetrologySample[];
+  unmappedColumns: string[];
+  crs?: string; // CRS of the sample x/y columns
+}
+
+// --- Vector overlays ---
+export type VectorGeometryType = 'point' | 'line' | 'polygon';
+
+export interface VectorFeature {
+  geometry: VectorGeometryType;
+  // Points: one coordinate per part; lines: one part per line; polygons: rings, outer first.
+  // Multi-geometries are flattened into their parts.
+  parts: [number, number][][];
+  properties: Record<string, string | number | boolean | null>;
+}
+
+export interface VectorDataset {
+  format: 'geojson' | 'kml';
+  features: VectorFeature[];
+  crs?: string;
 }
 
 export interface Zone {
   type: string;
-  area: string; // e.g., "35%"
+  area: string; // share of the frame, e.g. "35%"; computed from `polygon` when there is one
   color: string;
+  polygon?: [number, number][]; // outline in the 0-100 frame (y down), not closed
+  userEdit?: TargetEditKind; // set once a user draws or changes the zone
 }
 
 export interface TargetArea {
@@ -29,6 +221,16 @@ export interface TargetArea {
   probability: number; // 0-1
   description: string;
   reasoning?: string; // Specific geological reasoning for this target
+  userEdit?: TargetEditKind; // set once a user adds or changes the target; absent on model output
+}
+
+export type TargetEditKind = 'added' | 'modified';
+
+// A change (repair) or concern (warning) raised while validating model output
+export interface ResultIssue {
+  severity: 'repair' | 'warning';
+  field: string; // e.g. "targetAreas[2].probability"
+  message: string;
 }
 
 export interface PredictionResult {
@@ -40,11 +242,178 @@ export interface PredictionResult {
   targetAreas: TargetArea[];
   recommendedActions: string[];
   reasoning: string;
+  validationIssues?: ResultIssue[]; // what the validator changed in the model output
+  georeference?: Georeference; // frame that target x/y are relative to (reference image or data extent)
+}
+
+export type AnalysisProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface AnalysisSettings {
+  provider: AnalysisProviderId;
+  geminiModel: string;
+  thinkingBudget: number; // tokens; 0 disables thinking
+  openAiBaseUrl: string; // e.g. http://localhost:11434/v1 (Ollama) or http://localhost:8080/v1 (llama.cpp)
+  openAiModel: string;
+  openAiApiKey: string; // optional; most local servers ignore it
+  mockFixture: string; // fixture id, or 'auto' to pick one from the inputs
+}
+
+// --- Results map layers ---
+export type MapLayerKind = 'imagery' | 'raster' | 'surface' | 'contours' | 'alteration' | 'annotations' | 'targets' | 'samples' | 'vector';
+
+export interface MapLayerStyle {
+  color?: string; // points and lines of sample and vector layers
+  size?: number; // point radius / line width, in screen pixels
+  levels?: number[]; // probability levels of the contour layer, ascending
+}
+
+// One entry of the results map stack, saved with the project. `id` is 'surface', 'targets'
+// or the id of the input file drawn; entries whose file is gone are skipped.
+export interface MapLayerConfig {
+  id: string;
+  kind: MapLayerKind;
+  visible: boolean;
+  opacity: number; // 0-1
+  style?: MapLayerStyle;
+}
+
+export type MeasurementKind = 'distance' | 'area';
+
+// A ruler or area measurement kept with the project. Points are map coordinates in `crs` when the
+// results were georeferenced, so they stay in place across analysis versions; otherwise they are
+// 0-100 frame positions.
+export interface MapAnnotation {
+  id: string;
+  kind: MeasurementKind;
+  label: string;
+  space: 'map' | 'frame';
+  crs?: string;
+  points: [number, number][];
+  createdAt: number;
+}
+
+// --- Live progress of a running analysis ---
+export type AnalysisStage = 'encoding' | 'uploading' | 'thinking' | 'generating' | 'validating';
+
+export interface FileEncodingStatus {
+  fileId: string;
+  name: string;
+  status: 'pending' | 'encoding' | 'done';
+  bytes: number; // size of the encoded part sent to the model
+}
+
+export type AnalysisProgressEvent =
+  | { type: 'file'; fileId: string; status: 'encoding' | 'done'; bytes?: number }
+  | { type: 'request'; bytes: number; prompt: string } // prompt assembled (as text, attachments summarised); upload starting
+  | { type: 'thought'; text: string } // fragment of a thinking summary
+  | { type: 'output'; text: string; targets: TargetArea[] } // response text so far, with targets parsed from it
+  | { type: 'validating' }
+  | { type: 'retry'; attempt: number; maxAttempts: number; resumeAt: number; reason: string };
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  files: FileEncodingStatus[];
+  requestBytes: number;
+  thinking: string;
+  outputChars: number;
+  partialTargets: TargetArea[];
+  attempt: number;
+  retry?: { maxAttempts: number; resumeAt: number; reason: string }; // set while waiting to retry
+}
+
+export type AnalysisErrorKind = 'auth' | 'quota' | 'overloaded' | 'network' | 'safety' | 'parse' | 'input-too-large' | 'unknown';
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'complete' | 'failed' | 'cancelled';
+
+// One queued or finished analysis run; inputs are snapshotted when it is queued
+export interface AnalysisJob {
+  id: string;
+  projectId: string;
+  label: string;
+  createdAt: number;
+  finishedAt?: number;
+  files: UploadedFile[];
+  projectCrs: string;
+  settings: AnalysisSettings;
+  status: AnalysisJobStatus;
+  progress: AnalysisProgress;
+  result?: PredictionResult; // also stored as a project run with the job's id
+  prompt?: string; // text of the prompt sent, from describePrompt
+  error?: string;
+  errorKind?: AnalysisErrorKind;
+}
+// --- Saved projects ---
+export interface ProjectMeta {
+  name: string;
+  areaName: string;
+  commodity: string; // e.g. "Cu-Au"
+  date: string; // YYYY-MM-DD, date of the work the project covers
+  createdAt: number;
+  updatedAt: number;
+}
+
+// --- Analysis history ---
+export interface RunInput {
+  fileId: string;
+  name: string;
+  category: FileCategory;
+  sourceType: 'file' | 'url';
 }
 
-export enum AppStatus {
-  IDLE = 'IDLE',
-  ANALYZING = 'ANALYZING',
-  COMPLETE = 'COMPLETE',
-  ERROR = 'ERROR'
-}
\ No newline at end of file
+// One stored version of the analysis; edits made on the dashboard are saved into its result
+export interface AnalysisRun {
+  id: string;
+  version: number; // 1, 2, 3… within the project
+  createdAt: number;
+  providerId: AnalysisProviderId | null; // null when the result was not produced here
+  modelId: string;
+  settings: AnalysisSettings | null; // API keys are blanked before storing
+  importedFrom?: string; // file name, for results opened from an export
+  projectCrs: string;
+  inputs: RunInput[];
+  prompt?: string; // text of the prompt sent; absent for imported and older runs
+  result: PredictionResult;
+}
+
+export interface TargetChange {
+  before: TargetArea;
+  after: TargetArea;
+  distance: number; // in frame units (0-100)
+  probabilityDelta: number;
+}
+
+export interface RunComparison {
+  added: TargetArea[];
+  removed: TargetArea[];
+  moved: TargetChange[]; // matched targets whose position changed
+  unchanged: TargetChange[]; // matched targets in the same place (probability may differ)
+  porphyryPotential: { before: string; after: string };
+  epithermalPotential: { before: string; after: string };
+  confidenceDelta: number;
+  mineralsAdded: string[];
+  mineralsRemoved: string[];
+  inputsAdded: string[];
+  inputsRemoved: string[];
+  frameChanged: boolean; // 0-100 coordinates refer to different frames, so positions are not comparable
+}
+
+// Everything needed to put the workspace back as it was
+export interface ProjectState {
+  id: string;
+  meta: ProjectMeta;
+  projectCrs: string;
+  isProjectCrsChosen: boolean;
+  files: UploadedFile[];
+  runs: AnalysisRun[];
+  activeRunId: string | null; // version shown on the Results tab
+  mapLayers?: MapLayerConfig[]; // results map stack, bottom first; the default stack until edited
+  annotations?: MapAnnotation[]; // measurements saved from the results map
+}
+
+export interface ProjectSummary {
+  id: string;
+  meta: ProjectMeta;
+  fileCount: number;
+  runCount: number;
+  targetCount: number | null; // targets in the active run; null when the project has no result yet
+}